@@ -24,78 +24,1007 @@ import {
   User,
   Layout,
   Code2,
-  AlertTriangle
+  AlertTriangle,
+  FileText,
+  Printer,
+  Download,
+  Upload,
+  Table,
+  Plus,
+  History,
+  Search,
+  FolderOpen,
+  Layers,
+  Users
 } from 'lucide-react';
+import {
+  PgaAgency,
+  ContinuousBondTier,
+  DEFAULT_CONTINUOUS_BOND_TIERS,
+  FormulaConstant,
+  FormulaInput,
+  FormulaTestCase,
+  RateSchedule,
+  BracketMethod,
+  BRACKET_METHODS,
+  RateBand,
+  CustomerProfile,
+  DEFAULT_SETTINGS,
+  PALETTES,
+  PaletteKey,
+  Decimal,
+  RoundingMode,
+  ROUNDING_MODES,
+  toDecimal,
+  decimalMultiply,
+  decimalDivide,
+  roundDecimal,
+  decimalToString,
+  decimalToNumber,
+  formatMoney,
+  parseFormula,
+  evaluateNode,
+  FormulaKey,
+  PARAMETER_VARIABLES,
+  formulaInputsFor,
+  FormulaTrace,
+  traceFormula,
+  EntryMode,
+  IsfPricing,
+  BillingRule,
+  BILLING_RULE_LABELS,
+  describeBillingResult,
+  BracketResult,
+  describeBracketBand,
+  EntryPricing,
+  priceEntry,
+  priceIsfShipment,
+  FormulaTestResult,
+  TEST_CASE_VARIABLES,
+  runFormulaTestCase,
+  SensitivityPoint,
+  SENSITIVITY_VARIABLES,
+  sweepSensitivity,
+  SCHEDULE_RATE_FIELDS,
+  pickScheduleRates,
+  toDateKey,
+  todayDateKey,
+  nextQuarterStart,
+  normalizeDateKey,
+  resolveRateSchedule,
+  amountError,
+  applyCustomerProfile,
+  describeRateSchedule,
+  pgaAgencyFactor,
+  LineItem,
+  createLineItem,
+  summarizeLineItems,
+  blendedPgaFactor,
+  findSettingsError,
+  SettingsBundle,
+  createSettingsBundle,
+  canonicalJson,
+  sha256Hex,
+  isRecord,
+  migrateSettings,
+  parseSettingsBundle,
+  SETTINGS_SCHEMA_VERSION,
+  repairSettings,
+} from './engine';
+
+interface EntryInputs {
+  invoiceWithoutPga: string;
+  dutiesWithoutPga: string;
+  buyInvoiceWithoutPga: string;
+  buyInvoiceWithPga: string;
+  sellInvoiceWithoutPga: string;
+  sellInvoiceWithPga: string;
+  lineItems: LineItem[];
+  // Values for admin-declared formula inputs, keyed by variable name
+  extraInputs: Record<string, string>;
+}
+
+// Calculator tabs - the two single entry bond modes and ISF (10+2) filings
+type CalculatorTab = EntryMode | 'isf';
+
+interface LedgerEntry {
+  id?: number;
+  createdAt: string;
+  entryNumber: string;
+  importer: string;
+  mode: EntryMode;
+  inputs: EntryInputs;
+  settings: typeof DEFAULT_SETTINGS;
+  outputs: { bondValue: string; buy: string; sell: string; billingRule: BillingRule };
+  // Added with rate schedules - older entries were priced on the day they were logged
+  entryDate?: string;
+  rateSchedule?: string;
+  // Customer profile name, when one was applied
+  customer?: string;
+  // ISF filing fee included in the outputs; combined when a single entry bond was priced with it
+  isf?: { buy: string; sell: string; combined: boolean };
+}
+
+const ledgerModeLabel = (entry: LedgerEntry): string => {
+  const seb = entry.mode === 'with' ? 'With PGA' : 'Standard';
+  if (!entry.isf) return seb;
+  return entry.isf.combined ? `ISF + ${seb}` : 'ISF';
+};
+
+const EMPTY_ENTRY_INPUTS: EntryInputs = {
+  invoiceWithoutPga: '',
+  dutiesWithoutPga: '',
+  buyInvoiceWithoutPga: '',
+  buyInvoiceWithPga: '',
+  sellInvoiceWithoutPga: '',
+  sellInvoiceWithPga: '',
+  lineItems: [],
+  extraInputs: {},
+};
+
+// IndexedDB persistence - one database, one object store per kind of record
+const DB_NAME = 'teu_bond_calculator';
+const DB_VERSION = 4;
+const LEDGER_STORE = 'entries';
+const AUTH_AUDIT_STORE = 'auth_audit';
+const SETTINGS_VERSION_STORE = 'settings_versions';
+const QUOTE_AUDIT_STORE = 'quote_audit';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(LEDGER_STORE)) {
+      db.createObjectStore(LEDGER_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('createdAt', 'createdAt');
+    }
+    if (!db.objectStoreNames.contains(AUTH_AUDIT_STORE)) {
+      db.createObjectStore(AUTH_AUDIT_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('createdAt', 'createdAt');
+    }
+    if (!db.objectStoreNames.contains(SETTINGS_VERSION_STORE)) {
+      db.createObjectStore(SETTINGS_VERSION_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('createdAt', 'createdAt');
+    }
+    if (!db.objectStoreNames.contains(QUOTE_AUDIT_STORE)) {
+      db.createObjectStore(QUOTE_AUDIT_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('createdAt', 'createdAt');
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runStoreRequest = async <T,>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const addLedgerEntry = (entry: LedgerEntry): Promise<IDBValidKey> =>
+  runStoreRequest(LEDGER_STORE, 'readwrite', store => store.add(entry));
+
+// Newest first
+const listLedgerEntries = async (): Promise<LedgerEntry[]> => {
+  const entries = await runStoreRequest<LedgerEntry[]>(LEDGER_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Settings versions - every Control Center commit is kept so it can be compared or restored
+interface SettingsVersion {
+  id?: number;
+  createdAt: string;
+  author: string;
+  note: string;
+  settings: typeof DEFAULT_SETTINGS;
+}
+
+interface SettingsChange {
+  key: string;
+  before: string;
+  after: string;
+}
+
+const AUTHOR_KEY = 'teu_admin_author';
+
+const addSettingsVersion = (version: SettingsVersion): Promise<IDBValidKey> =>
+  runStoreRequest(SETTINGS_VERSION_STORE, 'readwrite', store => store.add(version));
+
+// Newest first
+const listSettingsVersions = async (): Promise<SettingsVersion[]> => {
+  const versions = await runStoreRequest<SettingsVersion[]>(SETTINGS_VERSION_STORE, 'readonly', store => store.getAll());
+  return versions.sort((a, b) => (b.id ?? 0) - (a.id ?? 0));
+};
+
+const latestSettingsVersion = async (): Promise<SettingsVersion | null> => {
+  const cursor = await runStoreRequest<IDBCursorWithValue | null>(SETTINGS_VERSION_STORE, 'readonly', store => store.openCursor(null, 'prev'));
+  return (cursor?.value as SettingsVersion | undefined) ?? null;
+};
+
+const formatSettingValue = (value: unknown): string =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+// Every formula or parameter whose value differs between two settings snapshots
+const diffSettings = (before: Record<string, unknown>, after: Record<string, unknown>): SettingsChange[] =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .map(key => ({ key, before: formatSettingValue(before[key]), after: formatSettingValue(after[key]) }))
+    .filter(change => change.before !== change.after);
+
+const describeVersion = (version: SettingsVersion): string =>
+  `#${version.id} · ${new Date(version.createdAt).toLocaleString()} · ${version.author}`;
+
+// Stored settings - saved as { schemaVersion, settings } and upgraded on load
+const SETTINGS_STORAGE_KEY = 'teu_admin_settings';
+interface StoredSettings {
+  settings: typeof DEFAULT_SETTINGS;
+  // Shown to the user when anything had to be upgraded, repaired or discarded
+  notice: string | null;
+}
+
+const saveStoredSettings = (settings: typeof DEFAULT_SETTINGS) =>
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ schemaVersion: SETTINGS_SCHEMA_VERSION, settings }));
+
+const loadStoredSettings = (): StoredSettings => {
+  const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!saved) return { settings: DEFAULT_SETTINGS, notice: null };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(saved);
+  } catch (error) {
+    console.error('Stored settings error:', error);
+    return { settings: DEFAULT_SETTINGS, notice: 'Saved settings could not be read and factory defaults are in use. Commit from the Control Center to replace them.' };
+  }
+
+  const envelope = isRecord(data) && typeof data.schemaVersion === 'number' ? data : null;
+  const version = envelope ? envelope.schemaVersion as number : 1;
+  const stored = envelope ? envelope.settings : data;
+  if (isRecord(stored) && Number.isInteger(version) && version > SETTINGS_SCHEMA_VERSION) {
+    return { settings: DEFAULT_SETTINGS, notice: `Saved settings come from a newer version of this calculator (schema ${version}) and factory defaults are in use.` };
+  }
+  // The same migrations the CLI and server run on bundles; a version with no migration path is as corrupt as unreadable JSON
+  const settings = isRecord(stored) ? migrateSettings(stored, version) : null;
+  if (!settings) {
+    return { settings: DEFAULT_SETTINGS, notice: 'Saved settings were corrupt and factory defaults are in use. Commit from the Control Center to replace them.' };
+  }
+
+  const notices: string[] = [];
+  if (version < SETTINGS_SCHEMA_VERSION) notices.push(`Saved settings were upgraded from schema version ${version} to ${SETTINGS_SCHEMA_VERSION}.`);
+
+  const repaired = repairSettings(settings);
+  if (repaired.resetKeys.length) {
+    notices.push(`These saved settings were missing or invalid and were reset to defaults: ${repaired.resetKeys.join(', ')}.`);
+  }
+  if (notices.length) saveStoredSettings(repaired.settings);
+  return { settings: repaired.settings, notice: notices.length ? notices.join(' ') : null };
+};
+
+// Shared settings store - optional. When bond-calc-server runs with --store and SETTINGS_SERVER_URL points at it,
+// every browser prices with the settings committed there; localStorage keeps the last copy for offline use.
+const SETTINGS_SERVER_URL = (process.env.SETTINGS_SERVER_URL ?? '').replace(/\/+$/, '');
+const SETTINGS_REVISION_KEY = 'teu_settings_revision';
+const SETTINGS_POLL_SECONDS = 60;
+
+type SettingsSyncStatus = 'local' | 'checking' | 'synced' | 'offline';
+
+interface RemoteSettings {
+  revision: number;
+  bundle: SettingsBundle;
+}
+
+// Thrown when another admin committed after the revision a change was based on
+class SettingsConflictError extends Error {
+  remote: RemoteSettings;
+  constructor(message: string, remote: RemoteSettings) {
+    super(message);
+    this.name = 'SettingsConflictError';
+    this.remote = remote;
+  }
+}
+
+// The server refused the store token - nothing was committed, and retrying with the same token will not help
+class SettingsAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsAuthError';
+  }
+}
+
+// The revision of the server copy this browser's settings came from; 0 before the first sync
+const loadSettingsRevision = (): number => Number(localStorage.getItem(SETTINGS_REVISION_KEY)) || 0;
+const saveSettingsRevision = (revision: number) => localStorage.setItem(SETTINGS_REVISION_KEY, String(revision));
+
+const parseRevision = (etag: string | null): number => {
+  const revision = Number((etag ?? '').replace(/^W\//, '').replace(/"/g, ''));
+  if (!Number.isInteger(revision) || revision < 1) throw new Error('The settings server did not send a revision.');
+  return revision;
+};
 
-// Default values if nothing is in localStorage
-const DEFAULT_SETTINGS = {
-  logo: 'logo.png',
-  minBilling: 65.00,
-  sellRatePercent: 0.40,
-  buyRateMultiplier: 0.99,
-  pgaMultiplier: 3,
-  standardBuyFormula: '((invoice_value + duties) * 0.99) / 1000',
-  standardSellFormula: '((invoice_value + duties) * 0.40) / 100',
-  pgaBuyFormula: '(((invoice_value_with_pga * 3) + invoice_value_without_pga) * 0.99) / 1000',
-  pgaSellFormula: '(((invoice_value_with_pga * 3) + invoice_value_without_pga) * 0.40) / 100',
+// Server copies are checked like any imported bundle - checksum, schema and formulas
+const readRemoteBundle = async (revision: number, text: string): Promise<RemoteSettings> => {
+  const { bundle, errors } = await parseSettingsBundle(text);
+  if (!bundle) throw new Error(`The settings server sent unusable settings: ${errors.join(' ')}`);
+  return { revision, bundle };
 };
 
-const PALETTES = {
-  classic: { name: 'Classic (TEU)', primary: '#004B8D', accent: '#FF6600' },
-  emerald: { name: 'Emerald', primary: '#065f46', accent: '#10b981' },
-  indigo: { name: 'Indigo', primary: '#3730a3', accent: '#6366f1' },
-  slate: { name: 'Midnight', primary: '#1e293b', accent: '#38bdf8' },
-  clean: { name: 'Modern Sky', primary: '#0ea5e9', accent: '#64748b' },
+const fetchRemoteSettings = async (): Promise<RemoteSettings> => {
+  const response = await fetch(`${SETTINGS_SERVER_URL}/settings/active`, { cache: 'no-store' });
+  if (!response.ok) throw new Error(`The settings server answered ${response.status}.`);
+  return readRemoteBundle(parseRevision(response.headers.get('ETag')), await response.text());
 };
 
-type PaletteKey = keyof typeof PALETTES;
+// Optimistic concurrency - the server only accepts a commit based on its current revision
+const pushRemoteSettings = async (bundle: SettingsBundle, baseRevision: number, token: string): Promise<number> => {
+  const response = await fetch(`${SETTINGS_SERVER_URL}/settings/active`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'If-Match': `"${baseRevision}"`, Authorization: `Bearer ${token}` },
+    body: JSON.stringify(bundle),
+  });
+  if (response.status === 401) {
+    const body = await response.json().catch(() => null);
+    throw new SettingsAuthError(body?.error ?? 'The settings server refused the store token.');
+  }
+  if (response.status === 412) {
+    const body = await response.json();
+    throw new SettingsConflictError(body.error, await readRemoteBundle(body.revision, JSON.stringify(body.bundle)));
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `The settings server answered ${response.status}.`);
+  }
+  return parseRevision(response.headers.get('ETag'));
+};
+
+// Admin credentials - only a salted PBKDF2 hash of the password is ever stored
+interface AdminCredentials {
+  salt: string;
+  hash: string;
+  iterations: number;
+  updatedAt: string;
+}
+
+interface LockoutState {
+  failures: number;
+  lockedUntil: string | null;
+}
+
+const CREDENTIALS_KEY = 'teu_admin_credentials';
+const LOCKOUT_KEY = 'teu_admin_lockout';
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_LOGIN_FAILURES = 5;
+const LOCKOUT_MINUTES = 5;
+const ADMIN_SESSION_TIMEOUT_MINUTES = 15;
 
-// Safe formula evaluation function
-const evaluateFormula = (formula: string, variables: Record<string, number>): number => {
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const derivePasswordHash = async (password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return toBase64(new Uint8Array(bits));
+};
+
+// Unreadable or mistyped credentials count as none, like corrupt settings - a bad value must not take the app down
+const loadAdminCredentials = (): AdminCredentials | null => {
+  const saved = localStorage.getItem(CREDENTIALS_KEY);
+  if (!saved) return null;
   try {
-    // Replace variable names with their values
-    let expression = formula;
-    for (const [key, value] of Object.entries(variables)) {
-      expression = expression.replace(new RegExp(key.replace('_', '_?'), 'g'), value.toString());
+    const data: unknown = JSON.parse(saved);
+    if (isRecord(data) && typeof data.salt === 'string' && typeof data.hash === 'string' && typeof data.iterations === 'number') {
+      return data as unknown as AdminCredentials;
     }
+  } catch (error) {
+    console.error('Stored credentials error:', error);
+  }
+  return null;
+};
 
-    // Basic security check - only allow numbers, operators, and parentheses
-    if (!/^[\d\s+\-*/().]+$/.test(expression.replace(/\s/g, ''))) {
-      throw new Error('Invalid characters in formula');
+const storeAdminPassword = async (password: string): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const credentials: AdminCredentials = {
+    salt: toBase64(salt),
+    hash: await derivePasswordHash(password, salt, PBKDF2_ITERATIONS),
+    iterations: PBKDF2_ITERATIONS,
+    updatedAt: new Date().toISOString(),
+  };
+  localStorage.setItem(CREDENTIALS_KEY, JSON.stringify(credentials));
+};
+
+// Compares every character so timing does not reveal how much of the hash matched
+const verifyAdminPassword = async (password: string, credentials: AdminCredentials): Promise<boolean> => {
+  const hash = await derivePasswordHash(password, fromBase64(credentials.salt), credentials.iterations);
+  let diff = hash.length ^ credentials.hash.length;
+  for (let i = 0; i < hash.length; i++) diff |= hash.charCodeAt(i) ^ credentials.hash.charCodeAt(i);
+  return diff === 0;
+};
+
+// Returns an error message, or null when the new password is acceptable
+const checkNewPassword = (password: string, confirmation: string): string | null => {
+  if (password.length < MIN_PASSWORD_LENGTH) return `The admin password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+  if (password !== confirmation) return 'The passwords do not match.';
+  return null;
+};
+
+const loadLockout = (): LockoutState => {
+  const none: LockoutState = { failures: 0, lockedUntil: null };
+  const saved = localStorage.getItem(LOCKOUT_KEY);
+  if (!saved) return none;
+  try {
+    const data: unknown = JSON.parse(saved);
+    if (isRecord(data) && typeof data.failures === 'number' && (data.lockedUntil === null || typeof data.lockedUntil === 'string')) {
+      return data as unknown as LockoutState;
     }
+  } catch (error) {
+    console.error('Stored lockout error:', error);
+  }
+  return none;
+};
+
+const saveLockout = (state: LockoutState) => localStorage.setItem(LOCKOUT_KEY, JSON.stringify(state));
 
-    // Use Function constructor instead of eval for better security
-    const result = new Function('return ' + expression)();
-    return typeof result === 'number' && isFinite(result) ? result : 0;
+// Local audit log of admin sign-ins and credential changes
+type AuthEvent = 'password-set' | 'login-success' | 'login-failure' | 'lockout' | 'password-change' | 'session-timeout';
+
+interface AuthAuditEntry {
+  id?: number;
+  createdAt: string;
+  event: AuthEvent;
+  detail: string;
+}
+
+const AUTH_EVENT_LABELS: Record<AuthEvent, string> = {
+  'password-set': 'Password Created',
+  'login-success': 'Sign-In',
+  'login-failure': 'Failed Sign-In',
+  'lockout': 'Locked Out',
+  'password-change': 'Password Changed',
+  'session-timeout': 'Session Timeout',
+};
+
+// Audit failures are reported but never block the admin flow itself
+const logAuthEvent = async (event: AuthEvent, detail: string): Promise<void> => {
+  try {
+    await runStoreRequest(AUTH_AUDIT_STORE, 'readwrite', store => store.add({ createdAt: new Date().toISOString(), event, detail }));
   } catch (error) {
-    console.error('Formula evaluation error:', error);
-    return 0;
+    console.error('Auth audit error:', error);
   }
 };
 
-// Validate formula syntax
-const validateFormula = (formula: string, requiredVars: string[]): boolean => {
+const listAuthAuditEntries = async (): Promise<AuthAuditEntry[]> => {
+  const entries = await runStoreRequest<AuthAuditEntry[]>(AUTH_AUDIT_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Quote audit trail - append-only record of every buy/sell figure that leaves the calculator.
+// Each event carries the hash of the one before it, so editing or deleting any event breaks the chain.
+type QuoteAuditAction = 'copy-buy' | 'copy-sell' | 'save-entry' | 'export-quote' | 'print-quote' | 'export-batch';
+
+interface QuoteAuditEvent {
+  id?: number;
+  createdAt: string;
+  action: QuoteAuditAction;
+  user: string;
+  entryNumber: string;
+  importer: string;
+  mode: CalculatorTab | 'batch';
+  inputs: Record<string, unknown>;
+  figures: Record<string, string>;
+  // Where the settings came from, plus a hash of the exact rates that priced the figures
+  settingsVersion: string;
+  settingsHash: string;
+  formulas: { buy: string; sell: string };
+  previousHash: string;
+  hash: string;
+}
+
+type QuoteAuditDraft = Omit<QuoteAuditEvent, 'id' | 'previousHash' | 'hash'>;
+
+const QUOTE_AUDIT_LABELS: Record<QuoteAuditAction, string> = {
+  'copy-buy': 'Copied Buy',
+  'copy-sell': 'Copied Sell',
+  'save-entry': 'Saved Entry',
+  'export-quote': 'Quote PDF',
+  'print-quote': 'Printed Quote',
+  'export-batch': 'Batch Export',
+};
+
+const AGENT_NAME_KEY = 'teu_agent_name';
+const GENESIS_HASH = '0'.repeat(64);
+
+const hashQuoteAuditEvent = ({ id: _id, hash: _hash, ...content }: QuoteAuditEvent): Promise<string> => sha256Hex(canonicalJson(content));
+
+// The head is read and the event added in one readwrite transaction, which IndexedDB runs one at a time across
+// every tab - so two appends can never chain onto the same predecessor
+const appendQuoteAuditEvent = async (draft: QuoteAuditDraft): Promise<void> => {
+  const db = await openDatabase();
   try {
-    // Check if all required variables are present
-    for (const varName of requiredVars) {
-      if (!formula.includes(varName)) {
-        return false;
-      }
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(QUOTE_AUDIT_STORE, 'readwrite');
+      const store = transaction.objectStore(QUOTE_AUDIT_STORE);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('The quote audit append was aborted.'));
+      const head = store.openCursor(null, 'prev');
+      head.onsuccess = () => {
+        const event: QuoteAuditEvent = { ...draft, previousHash: (head.result?.value as QuoteAuditEvent | undefined)?.hash ?? GENESIS_HASH, hash: '' };
+        let hash: string | null = null;
+        hashQuoteAuditEvent(event).then(result => { hash = result; }, () => transaction.abort());
+        // The transaction commits once nothing is pending, so cheap reads keep it open until the hash is ready
+        const addWhenHashed = () => {
+          if (hash) store.add({ ...event, hash });
+          else store.count().onsuccess = addWhenHashed;
+        };
+        addWhenHashed();
+      };
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Oldest first, the order the chain was written in
+const listQuoteAuditEvents = async (): Promise<QuoteAuditEvent[]> => {
+  const events = await runStoreRequest<QuoteAuditEvent[]>(QUOTE_AUDIT_STORE, 'readonly', store => store.getAll());
+  return events.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+// Id of the first event whose hash or link does not match, or null when the whole chain is intact
+const findBrokenQuoteAuditEvent = async (events: QuoteAuditEvent[]): Promise<number | null> => {
+  let previousHash = GENESIS_HASH;
+  for (const event of events) {
+    if (event.previousHash !== previousHash || event.hash !== await hashQuoteAuditEvent(event)) return event.id ?? -1;
+    previousHash = event.hash;
+  }
+  return null;
+};
+
+// Formula text, or the bracket table that replaced it
+const describePricingRule = (settings: typeof DEFAULT_SETTINGS, side: 'buy' | 'sell', mode: EntryMode): string => {
+  const method = side === 'buy' ? settings.buyBracketMethod : settings.sellBracketMethod;
+  if (method !== 'off') {
+    const bands = side === 'buy' ? settings.buyRateBands : settings.sellRateBands;
+    return `${method} brackets: ${bands.map(b => `${b.upTo > 0 ? `up to ${b.upTo}` : 'open'} @ ${b.ratePerThousand}/1000`).join(', ')}`;
+  }
+  if (mode === 'with') return side === 'buy' ? settings.pgaBuyFormula : settings.pgaSellFormula;
+  return side === 'buy' ? settings.standardBuyFormula : settings.standardSellFormula;
+};
+
+// Continuous bond vs. single entry bond - a continuous bond must cover 10% of a year's duties, never less than $50,000
+const CONTINUOUS_BOND_MIN_LIMIT = 50000;
+const CONTINUOUS_BOND_DUTY_SHARE = '0.10';
+
+interface ContinuousBondAdvice {
+  perEntrySell: Decimal;
+  annualSeb: Decimal;
+  requiredLimit: Decimal;
+  tier: ContinuousBondTier | null;
+  exceedsTiers: boolean;
+  breakEvenEntries: number | null;
+  // Annual SEB charges minus the continuous bond premium - positive means the continuous bond is cheaper
+  savings: Decimal;
+}
+
+const sortedBondTiers = (settings: typeof DEFAULT_SETTINGS): ContinuousBondTier[] =>
+  [...(settings.continuousBondTiers ?? DEFAULT_CONTINUOUS_BOND_TIERS)].sort((a, b) => a.limit - b.limit);
+
+const adviseContinuousBond = (
+  settings: typeof DEFAULT_SETTINGS,
+  annualEntries: number,
+  averageInvoice: Decimal,
+  averageDuties: Decimal
+): ContinuousBondAdvice => {
+  const perEntrySell = priceEntry(settings, 'without', { invoice_value: averageInvoice, duties: averageDuties }).billing.billable;
+  const entries = toDecimal(Math.max(Math.floor(annualEntries), 0));
+  const annualSeb = decimalMultiply(perEntrySell, entries);
+
+  const dutyShare = decimalMultiply(decimalMultiply(averageDuties, entries), toDecimal(CONTINUOUS_BOND_DUTY_SHARE));
+  const minimumLimit = toDecimal(CONTINUOUS_BOND_MIN_LIMIT);
+  const requiredLimit = dutyShare > minimumLimit ? dutyShare : minimumLimit;
+
+  const tiers = sortedBondTiers(settings);
+  const coveringTier = tiers.find(t => toDecimal(t.limit) >= requiredLimit);
+  const tier = coveringTier ?? tiers[tiers.length - 1] ?? null;
+  const premium = toDecimal(tier?.premium);
+
+  return {
+    perEntrySell,
+    annualSeb,
+    requiredLimit,
+    tier,
+    exceedsTiers: tier !== null && !coveringTier,
+    breakEvenEntries: tier && perEntrySell > 0n ? decimalToNumber(roundDecimal(decimalDivide(premium, perEntrySell), 0, 'up')) : null,
+    savings: annualSeb - premium,
+  };
+};
+
+// Entry count and average invoice / duties logged over the last year
+const summarizeLedgerYear = (entries: LedgerEntry[], now: Date = new Date()) => {
+  const since = new Date(now);
+  since.setFullYear(since.getFullYear() - 1);
+  const recent = entries.filter(e => e.createdAt >= since.toISOString());
+
+  let invoice = 0n;
+  let duties = 0n;
+  // PGA entries carry no duties - their bond value is the scaled invoice alone
+  recent.forEach(({ mode, inputs }) => {
+    if (mode === 'without') {
+      invoice += toDecimal(inputs.invoiceWithoutPga);
+      duties += toDecimal(inputs.dutiesWithoutPga);
+    } else {
+      invoice += toDecimal(inputs.sellInvoiceWithPga) + toDecimal(inputs.sellInvoiceWithoutPga);
     }
+  });
+
+  const count = toDecimal(recent.length);
+  return {
+    count: recent.length,
+    averageInvoice: recent.length ? decimalDivide(invoice, count) : 0n,
+    averageDuties: recent.length ? decimalDivide(duties, count) : 0n,
+  };
+};
+
+const continuousBondNote = (settings: typeof DEFAULT_SETTINGS): string => {
+  const tier = sortedBondTiers(settings)[0];
+  return tier
+    ? `Opting for a continuous bond incurs a $${tier.premium.toLocaleString()} annual fee for a $${tier.limit.toLocaleString()} limit of liability, valid for 1 year.`
+    : 'Continuous bonds are quoted on request.';
+};
+
+const isfBondNote = (settings: typeof DEFAULT_SETTINGS): string =>
+  `ISF Bonds are fixed at $${formatMoney(toDecimal(settings.isfSellPrice))} per filing.`;
+
+const COMPANY_HEADER = {
+  name: 'TRADE EXPEDITORS USA, INC.',
+  dba: 'DBA TEU GLOBAL',
+  tagline: 'Professional Bond Calculation Engine',
+};
 
-    // Test with sample values
-    const testVars: Record<string, number> = {};
-    requiredVars.forEach(v => testVars[v] = 100);
+// Customer-facing notes printed on every quote
+const QUOTE_NOTES = [
+  'SEB charges only apply in the absence of a Continuous Bond.',
+];
 
-    const result = evaluateFormula(formula, testVars);
-    return !isNaN(result) && isFinite(result);
-  } catch {
-    return false;
+interface BondQuote {
+  quoteNumber: string;
+  issuedAt: string;
+  entryNumber: string;
+  importer: string;
+  title: string;
+  chargeLabel: string;
+  modeLabel: string;
+  inputs: Array<[string, string]>;
+  // null for an ISF filing on its own - the fee does not depend on a bond value
+  bondValue: string | null;
+  sell: string;
+  billingNote: string;
+  isfNote: string;
+  continuousBondNote: string;
+}
+
+type Palette = (typeof PALETTES)[PaletteKey];
+
+const loadImageDataUrl = (src: string): Promise<{ dataUrl: string; width: number; height: number } | null> =>
+  new Promise(resolve => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        canvas.getContext('2d')!.drawImage(image, 0, 0);
+        resolve({ dataUrl: canvas.toDataURL('image/png'), width: image.naturalWidth, height: image.naturalHeight });
+      } catch {
+        resolve(null);
+      }
+    };
+    image.onerror = () => resolve(null);
+    image.src = src;
+  });
+
+// Client-side PDF of the quote - same layout as the printable preview
+const exportQuotePdf = async (quote: BondQuote, colors: Palette, logoSrc: string) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const width = doc.internal.pageSize.getWidth();
+  const margin = 48;
+  let y = margin;
+
+  const logo = await loadImageDataUrl(logoSrc);
+  if (logo) {
+    const logoHeight = 48;
+    doc.addImage(logo.dataUrl, 'PNG', margin, y, (logo.width / logo.height) * logoHeight, logoHeight);
   }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(colors.accent);
+  doc.text(COMPANY_HEADER.name, width - margin, y + 16, { align: 'right' });
+  doc.setTextColor(colors.primary);
+  doc.text(COMPANY_HEADER.dba, width - margin, y + 36, { align: 'right' });
+  y += 64;
+  doc.setFillColor(colors.primary);
+  doc.rect(margin, y, width - margin * 2, 4, 'F');
+  y += 32;
+
+  doc.setFontSize(22);
+  doc.setTextColor('#0f172a');
+  doc.text(quote.title, margin, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor('#64748b');
+  doc.text(`Quote ${quote.quoteNumber}`, width - margin, y - 10, { align: 'right' });
+  doc.text(new Date(quote.issuedAt).toLocaleString(), width - margin, y + 4, { align: 'right' });
+  y += 30;
+
+  const row = (label: string, value: string, bold = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor('#475569');
+    doc.text(label, margin, y);
+    doc.setTextColor('#0f172a');
+    doc.text(value, width - margin, y, { align: 'right' });
+    y += 20;
+  };
+
+  row('Entry Number', quote.entryNumber || '—');
+  row('Importer', quote.importer || '—');
+  row('Calculation Mode', quote.modeLabel);
+  y += 8;
+  quote.inputs.forEach(([label, value]) => row(label, value));
+  if (quote.bondValue !== null) row('Bond Value', `$${quote.bondValue}`, true);
+  y += 12;
+
+  doc.setFillColor(colors.accent);
+  doc.roundedRect(margin, y, width - margin * 2, 56, 8, 8, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor('#ffffff');
+  doc.setFontSize(12);
+  doc.text(quote.chargeLabel.toUpperCase(), margin + 20, y + 34);
+  doc.setFontSize(24);
+  doc.text(`$${quote.sell}`, width - margin - 20, y + 37, { align: 'right' });
+  y += 80;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor('#475569');
+  [quote.billingNote, quote.isfNote, ...QUOTE_NOTES, quote.continuousBondNote].forEach(note => {
+    const lines = doc.splitTextToSize(`• ${note}`, width - margin * 2);
+    doc.text(lines, margin, y);
+    y += lines.length * 14 + 4;
+  });
+
+  doc.save(`${quote.quoteNumber}.pdf`);
+};
+
+// Batch pricing - spreadsheet columns mapped onto the calculator's formula variables
+const BATCH_FIELDS = [
+  { key: 'entry_number', label: 'Entry Number', aliases: ['entry', 'entry number', 'entry no', 'entry #'] },
+  { key: 'importer', label: 'Importer', aliases: ['importer', 'customer', 'importer of record', 'ior'] },
+  { key: 'invoice_value', label: 'Invoice Value', aliases: ['invoice', 'invoice value', 'commercial value', 'value'] },
+  { key: 'duties', label: 'Duties', aliases: ['duties', 'duty', 'duties amount'] },
+  { key: 'invoice_value_with_pga', label: 'Invoice Value (With PGA)', aliases: ['with pga', 'pga value', 'pga invoice value', 'pga'] },
+  { key: 'invoice_value_without_pga', label: 'Invoice Value (Without PGA)', aliases: ['without pga', 'non pga', 'non pga value'] },
+  { key: 'pga_agency', label: 'PGA Agency', aliases: ['agency', 'pga agency', 'program code'] },
+  { key: 'entry_date', label: 'Entry Date', aliases: ['date', 'entry date', 'release date'] },
+] as const;
+
+type BatchField = (typeof BATCH_FIELDS)[number]['key'];
+type BatchMapping = Record<BatchField, number>;
+
+interface BatchSheet {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+interface BatchResult {
+  row: string[];
+  entryNumber: string;
+  importer: string;
+  mode: EntryMode;
+  pricing: EntryPricing;
+  rateSchedule: RateSchedule | null;
+  // Why the row cannot be priced; such rows are left out of the totals
+  error: string | null;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9#]+/g, ' ').trim();
+
+// RFC 4180 CSV: quoted fields, doubled quotes, CRLF or LF line endings
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row);
+      row = []; field = '';
+    } else field += ch;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(cell => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(',')).join('\r\n');
+
+const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Workbook cells as the text a CSV export would hold - numbers keep their stored digits, dates become YYYY-MM-DD
+const xlsxCellText = (cell: unknown): string =>
+  cell instanceof Date ? cell.toISOString().slice(0, 10) : cell === null || cell === undefined ? '' : String(cell);
+
+// CSV, or the first sheet of an .xlsx workbook; legacy binary .xls files have to be re-saved first
+const readBatchFile = async (file: File): Promise<BatchSheet> => {
+  if (/\.xls$/i.test(file.name)) throw new Error('Legacy .xls workbooks cannot be read - save the sheet as .xlsx or CSV and upload that file.');
+  let table: string[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    const { default: readXlsxFile } = await import('read-excel-file/browser');
+    const [first] = await readXlsxFile(file, { parseNumber: text => text });
+    table = (first?.data ?? []).map(row => row.map(xlsxCellText));
+  } else {
+    table = parseCsv(await file.text());
+  }
+  if (table.length < 2) throw new Error('The file needs a header row and at least one entry row.');
+  const [headers, ...rows] = table;
+  return { fileName: file.name, headers: headers.map(h => h.trim()), rows };
+};
+
+const guessBatchMapping = (headers: string[]): BatchMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as BatchMapping;
+  BATCH_FIELDS.forEach(({ key, aliases }) => {
+    const candidates = [normalizeHeader(key), ...aliases];
+    mapping[key] = normalized.findIndex(h => candidates.includes(h));
+  });
+  return mapping;
+};
+
+// Cells may carry currency formatting ("$12,500.00")
+const batchCell = (row: string[], column: number): string => (column >= 0 ? (row[column] ?? '').trim() : '');
+const batchAmount = (row: string[], column: number): Decimal => toDecimal(batchCell(row, column).replace(/[$,\s]/g, ''));
+
+// A filled-in amount cell that is not a usable amount ("12,5OO", "n/a") makes the row an error rather than a zero-value entry
+const BATCH_AMOUNT_FIELDS: BatchField[] = ['invoice_value', 'duties', 'invoice_value_with_pga', 'invoice_value_without_pga'];
+
+const batchAmountError = (row: string[], mapping: BatchMapping): string | null => {
+  for (const field of BATCH_AMOUNT_FIELDS) {
+    const cell = batchCell(row, mapping[field]);
+    const problem = cell ? amountError(cell.replace(/[$,\s]/g, '')) : null;
+    if (problem) return `${BATCH_FIELDS.find(f => f.key === field)?.label} ${problem}: "${cell}"`;
+  }
+  return null;
+};
+
+// Strict pricing for figures an agent acts on - a formula that fails at run time (division by zero, say) is reported
+// next to the lenient figures instead of passing off a zero or the billing minimum as a price
+const priceEntryChecked = (settings: typeof DEFAULT_SETTINGS, mode: EntryMode, variables: Record<string, Decimal>): EntryPricing & { formulaError: string | null } => {
+  try {
+    return { ...priceEntry(settings, mode, variables, true), formulaError: null };
+  } catch (error) {
+    return { ...priceEntry(settings, mode, variables), formulaError: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Rows carrying a PGA value go through the PGA formulas, everything else is a standard entry
+const priceBatchRow = (row: string[], mapping: BatchMapping, baseSettings: typeof DEFAULT_SETTINGS): BatchResult => {
+  const entryDate = normalizeDateKey(batchCell(row, mapping.entry_date)) ?? todayDateKey();
+  const { settings, schedule } = resolveRateSchedule(baseSettings, entryDate);
+  const withPga = batchAmount(row, mapping.invoice_value_with_pga);
+  const mode: EntryMode = withPga > 0n ? 'with' : 'without';
+  // Without a non-PGA column the rest of the invoice is everything outside the PGA share, as in quoteEntry
+  const withoutPga = mapping.invoice_value_without_pga >= 0
+    ? batchAmount(row, mapping.invoice_value_without_pga)
+    : batchAmount(row, mapping.invoice_value) - withPga;
+  const error = batchAmountError(row, mapping) ?? (mode === 'with' && withoutPga < 0n ? 'PGA value is more than the invoice value' : null);
+  const variables = mode === 'with'
+    ? {
+        invoice_value_with_pga: withPga,
+        invoice_value_without_pga: error ? 0n : withoutPga,
+        pga_liability_factor: pgaAgencyFactor(batchCell(row, mapping.pga_agency), settings),
+      }
+    : { invoice_value: batchAmount(row, mapping.invoice_value), duties: batchAmount(row, mapping.duties) };
+  // A formula that fails on this row marks it as an error rather than billing the minimum
+  const { formulaError, ...pricing } = priceEntryChecked(settings, mode, variables);
+  return {
+    row,
+    entryNumber: batchCell(row, mapping.entry_number),
+    importer: batchCell(row, mapping.importer),
+    mode,
+    pricing,
+    rateSchedule: schedule,
+    error: error ?? formulaError,
+  };
+};
+
+const FormulaTraceTree: React.FC<{ trace: FormulaTrace }> = ({ trace }) => (
+  <div className="pl-3 border-l border-white/10">
+    <div className="flex items-baseline gap-2 py-0.5">
+      <span className="font-mono text-xs text-white/90">{trace.label}</span>
+      <span className={`font-mono text-[10px] ${trace.error ? 'text-red-400' : 'text-white/40'}`}>
+        = {trace.error ?? decimalToString(trace.value ?? 0n, 4)}
+      </span>
+    </div>
+    {trace.children.map((child, i) => <FormulaTraceTree key={i} trace={child} />)}
+  </div>
+);
+
+const BracketBreakdown: React.FC<{ brackets: BracketResult; rounding: RoundingMode }> = ({ brackets, rounding }) => (
+  <div className="mt-4 text-left">
+    <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-slate-500 block mb-1">
+      {brackets.method === 'marginal' ? 'Marginal' : 'Whole-Amount'} Bracket Breakdown
+    </span>
+    <table className="w-full text-xs">
+      <tbody>
+        {brackets.lines.map((line, i) => (
+          <tr key={i} className="border-t border-slate-200 dark:border-slate-600">
+            <td className="py-1.5 font-bold text-slate-600 dark:text-slate-300">{describeBracketBand(line)}</td>
+            <td className="py-1.5 text-slate-500 dark:text-slate-400">${formatMoney(line.basis)} @ ${decimalToString(line.ratePerThousand, 4)}/1,000</td>
+            <td className="py-1.5 text-right font-black text-slate-700 dark:text-slate-200">${formatMoney(line.amount, rounding)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const SensitivityChart: React.FC<{ points: SensitivityPoint[]; buyColor: string; sellColor: string }> = ({ points, buyColor, sellColor }) => {
+  const width = 640;
+  const height = 260;
+  const pad = { left: 56, right: 16, top: 16, bottom: 32 };
+  const floor = Math.max(0, ...points.map(p => p.floor));
+  const maxY = Math.max(1, floor, ...points.map(p => Math.max(p.buy, p.sell))) * 1.1;
+  const minX = points[0]?.x ?? 0;
+  const maxX = points[points.length - 1]?.x ?? 1;
+  const scaleX = (x: number) => pad.left + ((x - minX) / (maxX - minX || 1)) * (width - pad.left - pad.right);
+  const scaleY = (y: number) => height - pad.bottom - (y / maxY) * (height - pad.top - pad.bottom);
+  const line = (value: (p: SensitivityPoint) => number) => points.map(p => `${scaleX(p.x).toFixed(1)},${scaleY(value(p)).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto text-slate-400">
+      <line x1={pad.left} y1={height - pad.bottom} x2={width - pad.right} y2={height - pad.bottom} stroke="currentColor" strokeWidth={1} />
+      <line x1={pad.left} y1={pad.top} x2={pad.left} y2={height - pad.bottom} stroke="currentColor" strokeWidth={1} />
+      <text x={pad.left - 6} y={pad.top + 4} textAnchor="end" fontSize={10} fill="currentColor">${maxY.toFixed(0)}</text>
+      <text x={pad.left - 6} y={height - pad.bottom} textAnchor="end" fontSize={10} fill="currentColor">$0</text>
+      <text x={pad.left} y={height - 10} fontSize={10} fill="currentColor">${minX.toLocaleString()}</text>
+      <text x={width - pad.right} y={height - 10} textAnchor="end" fontSize={10} fill="currentColor">${maxX.toLocaleString()}</text>
+      {floor > 0 && (
+        <>
+          <line x1={pad.left} y1={scaleY(floor)} x2={width - pad.right} y2={scaleY(floor)} stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="6 4" />
+          <text x={width - pad.right} y={scaleY(floor) - 4} textAnchor="end" fontSize={10} fill="#f59e0b">Min billing ${floor.toFixed(2)}</text>
+        </>
+      )}
+      <polyline points={line(p => p.buy)} fill="none" stroke={buyColor} strokeWidth={2} />
+      <polyline points={line(p => p.sell)} fill="none" stroke={sellColor} strokeWidth={2.5} />
+    </svg>
+  );
 };
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'without' | 'with'>('without');
+  const [activeTab, setActiveTab] = useState<CalculatorTab>('without');
+  const [isfWithSeb, setIsfWithSeb] = useState<EntryMode | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [palette, setPalette] = useState<PaletteKey>('classic');
@@ -106,12 +1035,37 @@ const App: React.FC = () => {
   // Admin States
   const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
   const [adminPassword, setAdminPassword] = useState('');
-  const [showAdminPanel, setShowAdminPanel] = useState(false);
-  const [adminTab, setAdminTab] = useState<'identity' | 'logic'>('logic');
-  const [adminSettings, setAdminSettings] = useState(() => {
-    const saved = localStorage.getItem('teu_admin_settings');
-    return saved ? JSON.parse(saved) : DEFAULT_SETTINGS;
+  const [adminPasswordConfirm, setAdminPasswordConfirm] = useState('');
+  const [hasAdminPassword, setHasAdminPassword] = useState(() => loadAdminCredentials() !== null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [authAudit, setAuthAudit] = useState<AuthAuditEntry[]>([]);
+  const [passwordChange, setPasswordChange] = useState({ current: '', next: '', confirm: '' });
+
+  // Settings Version States
+  const [settingsVersions, setSettingsVersions] = useState<SettingsVersion[]>([]);
+  const [commitAuthor, setCommitAuthor] = useState(() => localStorage.getItem(AUTHOR_KEY) ?? '');
+  // Store token for bond-calc-server commits - held in memory only, never written to storage
+  const [storeToken, setStoreToken] = useState('');
+  const [commitNote, setCommitNote] = useState('');
+  const [compareFromId, setCompareFromId] = useState<number | null>(null);
+  const [compareToId, setCompareToId] = useState<number | null>(null);
+  const [sandboxInputs, setSandboxInputs] = useState<Record<string, string>>({
+    invoice_value: '10000', duties: '0', invoice_value_with_pga: '10000', invoice_value_without_pga: '0',
   });
+  const [sensitivity, setSensitivity] = useState<{ mode: EntryMode; variable: string; from: string; to: string }>({
+    mode: 'without', variable: 'invoice_value', from: '0', to: '100000',
+  });
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; bundle: SettingsBundle | null; errors: string[] } | null>(null);
+  const [showAdminPanel, setShowAdminPanel] = useState(false);
+  const [adminTab, setAdminTab] = useState<'identity' | 'logic' | 'history' | 'audit'>('logic');
+  const [storedSettings] = useState(loadStoredSettings);
+  const [adminSettings, setAdminSettings] = useState(storedSettings.settings);
+  const [settingsNotice, setSettingsNotice] = useState(storedSettings.notice);
+  const [settingsRevision, setSettingsRevision] = useState(loadSettingsRevision);
+  const [syncStatus, setSyncStatus] = useState<SettingsSyncStatus>(SETTINGS_SERVER_URL ? 'checking' : 'local');
+  // Newer server settings held back until the user applies them, so rates never change under an open entry
+  const [remoteUpdate, setRemoteUpdate] = useState<RemoteSettings | null>(null);
+  const initialSync = useRef(true);
 
   // Local Admin Form States (to prevent immediate calculation churn)
   const [tempSettings, setTempSettings] = useState(adminSettings);
@@ -132,24 +1086,137 @@ const App: React.FC = () => {
   const [buyInvoiceWithPga, setBuyInvoiceWithPga] = useState<string>('');
   const [sellInvoiceWithoutPga, setSellInvoiceWithoutPga] = useState<string>('');
   const [sellInvoiceWithPga, setSellInvoiceWithPga] = useState<string>('');
+  const [entryNumber, setEntryNumber] = useState('');
+  const [importer, setImporter] = useState('');
+  const [customerId, setCustomerId] = useState('');
+  const [agentName, setAgentName] = useState(() => localStorage.getItem(AGENT_NAME_KEY) ?? '');
+  const [quoteAudit, setQuoteAudit] = useState<QuoteAuditEvent[]>([]);
+  const [brokenAuditId, setBrokenAuditId] = useState<number | null>(null);
+  const [entryDate, setEntryDate] = useState(todayDateKey);
+  const [lineItems, setLineItems] = useState<LineItem[]>([]);
+  const [extraInputs, setExtraInputs] = useState<Record<string, string>>({});
+  const lastLoggedEntry = useRef<string | null>(null);
+
+  // Entry History States
+  const [showHistory, setShowHistory] = useState(false);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [historySearch, setHistorySearch] = useState('');
+  const [historyImporter, setHistoryImporter] = useState('');
+  const [historyFrom, setHistoryFrom] = useState('');
+  const [historyTo, setHistoryTo] = useState('');
+  const [activeQuote, setActiveQuote] = useState<BondQuote | null>(null);
+
+  // Batch Pricing States
+  const [showBatch, setShowBatch] = useState(false);
+  const [batchSheet, setBatchSheet] = useState<BatchSheet | null>(null);
+  const [batchMapping, setBatchMapping] = useState<BatchMapping | null>(null);
+
+  // Continuous Bond Advisor States
+  const [advisorEntries, setAdvisorEntries] = useState('');
+  const [advisorInvoice, setAdvisorInvoice] = useState('');
+  const [advisorDuties, setAdvisorDuties] = useState('');
+  const [advisorSource, setAdvisorSource] = useState<string | null>(null);
+
+  // Rates in effect on the entry date - the base settings unless a schedule covers it
+  const rateSchedule = useMemo(() => resolveRateSchedule(adminSettings, entryDate || todayDateKey()), [adminSettings, entryDate]);
+  const customerProfile: CustomerProfile | null = useMemo(
+    () => (adminSettings.customerProfiles ?? []).find((c: CustomerProfile) => c.id === customerId) ?? null,
+    [adminSettings, customerId]
+  );
+  const rates = useMemo(() => applyCustomerProfile(rateSchedule.settings, customerProfile), [rateSchedule, customerProfile]);
+
+  // The single entry bond being priced - on the ISF tab only when one is combined on the same shipment
+  const sebMode: EntryMode | null = activeTab === 'isf' ? isfWithSeb : activeTab;
+  const entryMode: EntryMode = sebMode ?? 'without';
+
+  // Admin-declared inputs shown for the active tab, and their entered values as formula variables
+  const activeFormulaInputs = useMemo(() => (sebMode ? formulaInputsFor(rates, sebMode) : []), [rates, sebMode]);
+  const extraVariables = useMemo(() => {
+    const values: Record<string, Decimal> = {};
+    Object.keys(extraInputs).forEach(name => values[name] = toDecimal(extraInputs[name]));
+    return values;
+  }, [extraInputs]);
+
+  const withoutPgaPricing = useMemo(() => priceEntryChecked(rates, 'without', {
+    ...extraVariables,
+    invoice_value: toDecimal(invoiceWithoutPga),
+    duties: toDecimal(dutiesWithoutPga),
+  }), [invoiceWithoutPga, dutiesWithoutPga, extraVariables, rates]);
 
-  const withoutPgaAmount = useMemo(() => {
-    const inv = parseFloat(invoiceWithoutPga) || 0;
-    const dut = parseFloat(dutiesWithoutPga) || 0;
-    return (inv + dut).toString();
-  }, [invoiceWithoutPga, dutiesWithoutPga]);
+  const hasLineItems = lineItems.length > 0;
+  const lineItemSummary = useMemo(() => summarizeLineItems(lineItems, rates), [lineItems, rates]);
+  const pgaLiabilityFactor = hasLineItems ? blendedPgaFactor(lineItemSummary, rates) : toDecimal(rates.pgaMultiplier);
 
-  const withPgaBuyBondValue = useMemo(() => {
-    const withVal = parseFloat(buyInvoiceWithPga) || 0;
-    const withoutVal = parseFloat(buyInvoiceWithoutPga) || 0;
-    return ((withVal * adminSettings.pgaMultiplier) + withoutVal).toString();
-  }, [buyInvoiceWithPga, buyInvoiceWithoutPga, adminSettings.pgaMultiplier]);
+  const withPgaBuyPricing = useMemo(() => priceEntryChecked(rates, 'with', {
+    ...extraVariables,
+    invoice_value_with_pga: toDecimal(buyInvoiceWithPga),
+    invoice_value_without_pga: toDecimal(buyInvoiceWithoutPga),
+    pga_liability_factor: pgaLiabilityFactor,
+  }), [buyInvoiceWithPga, buyInvoiceWithoutPga, pgaLiabilityFactor, extraVariables, rates]);
 
-  const withPgaSellBondValue = useMemo(() => {
-    const withVal = parseFloat(sellInvoiceWithPga) || 0;
-    const withoutVal = parseFloat(sellInvoiceWithoutPga) || 0;
-    return ((withVal * adminSettings.pgaMultiplier) + withoutVal).toString();
-  }, [sellInvoiceWithPga, sellInvoiceWithoutPga, adminSettings.pgaMultiplier]);
+  const withPgaSellPricing = useMemo(() => priceEntryChecked(rates, 'with', {
+    ...extraVariables,
+    invoice_value_with_pga: toDecimal(sellInvoiceWithPga),
+    invoice_value_without_pga: toDecimal(sellInvoiceWithoutPga),
+    pga_liability_factor: pgaLiabilityFactor,
+  }), [sellInvoiceWithPga, sellInvoiceWithoutPga, pgaLiabilityFactor, extraVariables, rates]);
+
+  // The same entry priced without the customer profile, for the margin comparison on the Sell card
+  const standardPricing: { buy: Decimal; sell: Decimal } | null = useMemo(() => {
+    if (!customerProfile || !sebMode) return null;
+    const standard = rateSchedule.settings;
+    if (sebMode === 'without') {
+      const pricing = priceEntry(standard, 'without', { ...extraVariables, invoice_value: toDecimal(invoiceWithoutPga), duties: toDecimal(dutiesWithoutPga) });
+      return { buy: pricing.buy, sell: pricing.billing.billable };
+    }
+    const factor = hasLineItems ? blendedPgaFactor(summarizeLineItems(lineItems, standard), standard) : toDecimal(standard.pgaMultiplier);
+    const buy = priceEntry(standard, 'with', {
+      ...extraVariables,
+      invoice_value_with_pga: toDecimal(buyInvoiceWithPga),
+      invoice_value_without_pga: toDecimal(buyInvoiceWithoutPga),
+      pga_liability_factor: factor,
+    }).buy;
+    const sell = priceEntry(standard, 'with', {
+      ...extraVariables,
+      invoice_value_with_pga: toDecimal(sellInvoiceWithPga),
+      invoice_value_without_pga: toDecimal(sellInvoiceWithoutPga),
+      pga_liability_factor: factor,
+    }).billing.billable;
+    return { buy, sell };
+  }, [customerProfile, rateSchedule, sebMode, extraVariables, invoiceWithoutPga, dutiesWithoutPga, hasLineItems, lineItems,
+    buyInvoiceWithPga, buyInvoiceWithoutPga, sellInvoiceWithPga, sellInvoiceWithoutPga]);
+
+  // Copying and quoting stay off while a formula fails, so a $0 buy or the minimum floor is never passed on as a price
+  const pricingFormulaError = sebMode === null ? null
+    : sebMode === 'without' ? withoutPgaPricing.formulaError
+    : withPgaBuyPricing.formulaError ?? withPgaSellPricing.formulaError;
+
+  const withoutPgaAmount = formatMoney(withoutPgaPricing.bondValue, rates.displayRounding);
+  const withPgaBuyBondValue = formatMoney(withPgaBuyPricing.bondValue, rates.displayRounding);
+  const withPgaSellBondValue = formatMoney(withPgaSellPricing.bondValue, rates.displayRounding);
+
+  // Shared settings store: newer settings apply on load, later ones wait for the user; offline keeps the cached copy
+  useEffect(() => {
+    if (!SETTINGS_SERVER_URL) return;
+    const checkServer = async () => {
+      try {
+        const remote = await fetchRemoteSettings();
+        setSyncStatus('synced');
+        if (remote.revision > settingsRevision) {
+          if (initialSync.current) applyRemoteSettings(remote);
+          else setRemoteUpdate(remote);
+        }
+      } catch (error) {
+        console.error('Settings server error:', error);
+        setSyncStatus('offline');
+      } finally {
+        initialSync.current = false;
+      }
+    };
+    void checkServer();
+    const timer = setInterval(checkServer, SETTINGS_POLL_SECONDS * 1000);
+    return () => clearInterval(timer);
+  }, [settingsRevision]);
 
   useEffect(() => {
     if (isDarkMode) document.documentElement.classList.add('dark');
@@ -176,54 +1243,423 @@ const App: React.FC = () => {
     triggerLoading();
   };
 
+  const applyEntryInputs = (inputs: EntryInputs) => {
+    setInvoiceWithoutPga(inputs.invoiceWithoutPga); setDutiesWithoutPga(inputs.dutiesWithoutPga);
+    setBuyInvoiceWithoutPga(inputs.buyInvoiceWithoutPga); setBuyInvoiceWithPga(inputs.buyInvoiceWithPga);
+    setSellInvoiceWithoutPga(inputs.sellInvoiceWithoutPga); setSellInvoiceWithPga(inputs.sellInvoiceWithPga);
+    setLineItems(inputs.lineItems);
+    setExtraInputs(inputs.extraInputs);
+  };
+
+  // While lines exist they drive both the buy and sell PGA inputs
+  const updateLineItems = (next: LineItem[]) => {
+    setLineItems(next);
+    if (!next.length) return;
+    const { withPga, withoutPga } = summarizeLineItems(next, rates);
+    setBuyInvoiceWithPga(decimalToString(withPga)); setSellInvoiceWithPga(decimalToString(withPga));
+    setBuyInvoiceWithoutPga(decimalToString(withoutPga)); setSellInvoiceWithoutPga(decimalToString(withoutPga));
+    triggerLoading();
+  };
+
+  const updateLineItem = (id: string, patch: Partial<LineItem>) =>
+    updateLineItems(lineItems.map(line => (line.id === id ? { ...line, ...patch } : line)));
+
+  const currentEntryInputs = (): EntryInputs => ({
+    invoiceWithoutPga, dutiesWithoutPga,
+    buyInvoiceWithoutPga, buyInvoiceWithPga,
+    sellInvoiceWithoutPga, sellInvoiceWithPga,
+    lineItems, extraInputs,
+  });
+
+  // Every figure that leaves the calculator is chained into the quote audit trail
+  const recordQuoteAudit = async (action: QuoteAuditAction, figures: Record<string, string>, batch?: { inputs: Record<string, unknown> }) => {
+    try {
+      const localVersion = SETTINGS_SERVER_URL && settingsRevision ? null : await latestSettingsVersion();
+      const settingsVersion = SETTINGS_SERVER_URL && settingsRevision
+        ? `Server revision ${settingsRevision}`
+        : localVersion ? `Local version #${localVersion.id}` : 'Factory defaults';
+      const settings = batch ? adminSettings : rates;
+      const mode: EntryMode = batch ? 'without' : entryMode;
+      const pricingRule = (side: 'buy' | 'sell') => {
+        if (batch || activeTab !== 'isf') return describePricingRule(settings, side, mode);
+        const isf = `ISF flat $${formatMoney(toDecimal(side === 'buy' ? settings.isfBuyPrice : settings.isfSellPrice))}`;
+        return sebMode ? `${isf} + ${describePricingRule(settings, side, mode)}` : isf;
+      };
+      await appendQuoteAuditEvent({
+        createdAt: new Date().toISOString(),
+        action,
+        user: agentName.trim() || 'Unattributed',
+        entryNumber: batch ? '' : entryNumber.trim(),
+        importer: batch ? '' : importer.trim(),
+        mode: batch ? 'batch' : activeTab,
+        inputs: batch ? batch.inputs : {
+          ...currentEntryInputs(),
+          ...(activeTab === 'isf' ? { isfWithSeb } : {}),
+          entryDate,
+          customer: customerProfile?.name ?? null,
+          rateSchedule: describeRateSchedule(rateSchedule.schedule),
+        },
+        figures,
+        settingsVersion,
+        settingsHash: await sha256Hex(canonicalJson(settings)),
+        formulas: { buy: pricingRule('buy'), sell: pricingRule('sell') },
+      });
+    } catch (error) {
+      console.error('Quote audit error:', error);
+      alert('This figure could not be recorded in the quote audit trail.');
+    }
+  };
+
+  // On the ISF tab buy and sell are the shipment totals, with the ISF and single entry bond parts alongside
+  const currentFigures = (): Record<string, string> => {
+    const seb = entryMode === 'without'
+      ? { bondValue: withoutPgaAmount, buy: withoutPgaResults.buy, sell: withoutPgaResults.sell }
+      : { bondValue: withPgaSellBondValue, buy: withPgaBuyResults.buy, sell: withPgaSellResults.sell };
+    if (activeTab !== 'isf') return seb;
+    return {
+      ...(sebMode ? { bondValue: seb.bondValue, sebBuy: seb.buy, sebSell: seb.sell } : {}),
+      isfBuy: formatMoney(isfPricing.isf.buy, rates.buyRounding),
+      isfSell: formatMoney(isfPricing.isf.sell, rates.sellRounding),
+      buy: formatMoney(isfPricing.buy, rates.buyRounding),
+      sell: formatMoney(isfPricing.sell, rates.sellRounding),
+    };
+  };
+
+  const buildLedgerEntry = (): LedgerEntry | null => {
+    const inputs = currentEntryInputs();
+    const modeInputs = entryMode === 'without'
+      ? [invoiceWithoutPga, dutiesWithoutPga]
+      : [buyInvoiceWithoutPga, buyInvoiceWithPga, sellInvoiceWithoutPga, sellInvoiceWithPga];
+    // An ISF filing on its own has a price with nothing entered
+    if (sebMode && modeInputs.every(v => toDecimal(v) === 0n)) return null;
+
+    const figures = currentFigures();
+    return {
+      createdAt: new Date().toISOString(),
+      entryNumber: entryNumber.trim(),
+      importer: importer.trim(),
+      mode: entryMode,
+      inputs,
+      settings: rates,
+      entryDate,
+      rateSchedule: describeRateSchedule(rateSchedule.schedule),
+      ...(customerProfile ? { customer: customerProfile.name } : {}),
+      ...(activeTab === 'isf' ? { isf: { buy: figures.isfBuy, sell: figures.isfSell, combined: sebMode !== null } } : {}),
+      outputs: {
+        bondValue: figures.bondValue ?? formatMoney(0n),
+        buy: figures.buy,
+        sell: figures.sell,
+        // The flat ISF fee has no billing rule of its own
+        billingRule: sebMode ? (sebMode === 'without' ? withoutPgaResults : withPgaSellResults).billing.rule : 'formula',
+      },
+    };
+  };
+
+  // Writes the current calculation to the ledger, skipping exact repeats of the last one logged
+  const logCurrentEntry = async (): Promise<boolean> => {
+    const entry = buildLedgerEntry();
+    if (!entry) return false;
+    const signature = JSON.stringify({ ...entry, createdAt: null });
+    if (signature === lastLoggedEntry.current) return true;
+    try {
+      await addLedgerEntry(entry);
+      lastLoggedEntry.current = signature;
+      void recordQuoteAudit('save-entry', { bondValue: entry.outputs.bondValue, buy: entry.outputs.buy, sell: entry.outputs.sell });
+      if (showHistory) setLedgerEntries(await listLedgerEntries());
+      return true;
+    } catch (error) {
+      console.error('Entry ledger error:', error);
+      alert('Unable to save this entry to the history ledger.');
+      return false;
+    }
+  };
+
+  const handleSaveEntry = async () => {
+    if (!(await logCurrentEntry())) return;
+    setCopiedId('entry');
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
   const handleClear = () => {
-    setInvoiceWithoutPga(''); setDutiesWithoutPga('');
-    setBuyInvoiceWithoutPga(''); setBuyInvoiceWithPga('');
-    setSellInvoiceWithoutPga(''); setSellInvoiceWithPga('');
+    // Nothing is lost on Clear All - the entry is logged first
+    void logCurrentEntry();
+    applyEntryInputs(EMPTY_ENTRY_INPUTS);
+    setEntryNumber(''); setImporter(''); setEntryDate(todayDateKey()); setCustomerId('');
     triggerLoading();
   };
 
-  const handleCopy = (text: string, id: string) => {
-    navigator.clipboard.writeText(`$${text}`);
+  const handleGenerateQuote = () => {
+    const isStandard = entryMode === 'without';
+    const isIsf = activeTab === 'isf';
+    const results = isStandard ? withoutPgaResults : withPgaSellResults;
+    const money = (value: string) => `$${formatMoney(toDecimal(value), rates.displayRounding)}`;
+    const sebLabel = isStandard ? 'Standard Entry' : 'With PGA Regulation';
+    const issued = new Date();
+    setActiveQuote({
+      quoteNumber: `Q-${issued.toISOString().replace(/\D/g, '').slice(0, 14)}`,
+      issuedAt: issued.toISOString(),
+      entryNumber: entryNumber.trim(),
+      importer: importer.trim(),
+      title: isIsf ? (sebMode ? 'ISF & Single Entry Bond Quote' : 'ISF Bond Quote') : 'Single Entry Bond Quote',
+      chargeLabel: isIsf ? (sebMode ? 'Combined Bond Charge' : 'ISF Bond Charge') : 'Single Entry Bond Charge',
+      modeLabel: isIsf ? (sebMode ? `ISF Bond + ${sebLabel}` : 'ISF Bond (10+2)') : sebLabel,
+      inputs: [
+        ...(!sebMode
+          ? []
+          : isStandard
+          ? [['Invoice Value', money(invoiceWithoutPga)], ['Duties', money(dutiesWithoutPga)]] as Array<[string, string]>
+          : [
+              ['Invoice Value (Without PGA)', money(sellInvoiceWithoutPga)],
+              ['Invoice Value (With PGA)', money(sellInvoiceWithPga)],
+              ['PGA Liability Factor', `${decimalToString(pgaLiabilityFactor, 4)}x`],
+            ] as Array<[string, string]>),
+        ...activeFormulaInputs.map(input => [input.label || input.name, money(extraInputs[input.name] ?? '')] as [string, string]),
+        ['Entry Date', entryDate],
+        ['Rate Schedule', describeRateSchedule(rateSchedule.schedule)],
+        ...(customerProfile ? [['Pricing Profile', customerProfile.name] as [string, string]] : []),
+        ...(isIsf ? [['ISF Bond', `$${formatMoney(isfPricing.isf.sell, rates.sellRounding)}`] as [string, string]] : []),
+        ...(isIsf && sebMode ? [['Single Entry Bond', `$${formatMoney(results.sellValue, rates.sellRounding)}`] as [string, string]] : []),
+      ],
+      bondValue: sebMode ? (isStandard ? withoutPgaAmount : withPgaSellBondValue) : null,
+      sell: formatMoney(isIsf ? isfPricing.sell : results.sellValue, rates.invoiceRounding),
+      billingNote: !sebMode
+        ? 'No minimum billing applies to an ISF filing on its own.'
+        : results.sellWarning ?? `A minimum billing of $${formatMoney(results.billing.floor)} applies to every single entry bond.`,
+      isfNote: isfBondNote(rates),
+      continuousBondNote: continuousBondNote(rates),
+    });
+  };
+
+  const handleDownloadQuote = async () => {
+    if (!activeQuote) return;
+    try {
+      await exportQuotePdf(activeQuote, COLORS, adminSettings.logo);
+      void recordQuoteAudit('export-quote', { quoteNumber: activeQuote.quoteNumber, bondValue: activeQuote.bondValue ?? '', sell: activeQuote.sell });
+    } catch (error) {
+      console.error('Quote export error:', error);
+      alert('Unable to generate the quote PDF.');
+    }
+  };
+
+  const handleBatchUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const sheet = await readBatchFile(file);
+      setBatchSheet(sheet);
+      setBatchMapping(guessBatchMapping(sheet.headers));
+    } catch (error) {
+      console.error('Batch import error:', error);
+      alert(`Unable to read ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const batchResults = useMemo(
+    () => (batchSheet && batchMapping ? batchSheet.rows.map(row => priceBatchRow(row, batchMapping, adminSettings)) : []),
+    [batchSheet, batchMapping, adminSettings]
+  );
+
+  const batchTotals = useMemo(() => batchResults.filter(result => !result.error).reduce(
+    (totals, { pricing }) => ({ buy: totals.buy + pricing.buy, sell: totals.sell + pricing.billing.billable }),
+    { buy: 0n, sell: 0n }
+  ), [batchResults]);
+
+  const exportBatchResults = () => {
+    if (!batchSheet) return;
+    const rows = batchResults.map(({ row, mode, pricing, rateSchedule, error }) => [
+      ...batchSheet.headers.map((_, i) => row[i] ?? ''),
+      mode === 'with' ? 'PGA' : 'Standard',
+      ...(error
+        ? ['', '', '', '', '']
+        : [
+            formatMoney(pricing.bondValue, adminSettings.displayRounding),
+            formatMoney(pricing.buy, adminSettings.buyRounding),
+            formatMoney(pricing.billing.billable, adminSettings.invoiceRounding),
+            BILLING_RULE_LABELS[pricing.billing.rule],
+            pricing.billing.rule === 'minimum' || pricing.billing.rule === 'mode-floor' ? 'YES' : 'NO',
+          ]),
+      describeRateSchedule(rateSchedule),
+      error ?? '',
+    ]);
+    const headers = [...batchSheet.headers, 'Mode', 'Bond Value', 'Buy', 'Sell', 'Billing Rule', 'Minimum Billing Applied', 'Rate Schedule', 'Error'];
+    downloadFile(`${batchSheet.fileName.replace(/\.[^.]+$/, '')}-priced.csv`, toCsv([headers, ...rows]), 'text/csv');
+    void recordQuoteAudit(
+      'export-batch',
+      { entries: String(batchResults.filter(result => !result.error).length), buy: formatMoney(batchTotals.buy, adminSettings.buyRounding), sell: formatMoney(batchTotals.sell, adminSettings.invoiceRounding) },
+      { inputs: { fileName: batchSheet.fileName, headers: batchSheet.headers, rows: batchSheet.rows, mapping: batchMapping } }
+    );
+  };
+
+  const openHistory = async () => {
+    try {
+      setLedgerEntries(await listLedgerEntries());
+      setShowHistory(true);
+    } catch (error) {
+      console.error('Entry ledger error:', error);
+      alert('Unable to open the entry history ledger.');
+    }
+  };
+
+  const reopenEntry = (entry: LedgerEntry) => {
+    applyEntryInputs({ ...EMPTY_ENTRY_INPUTS, ...entry.inputs });
+    setEntryNumber(entry.entryNumber);
+    setImporter(entry.importer);
+    setEntryDate(entry.entryDate ?? toDateKey(new Date(entry.createdAt)));
+    setCustomerId((adminSettings.customerProfiles ?? []).find((c: CustomerProfile) => c.name === entry.customer)?.id ?? '');
+    setActiveTab(entry.isf ? 'isf' : entry.mode);
+    setIsfWithSeb(entry.isf?.combined ? entry.mode : null);
+    setShowHistory(false);
+    triggerLoading();
+  };
+
+  const historyImporters = useMemo(
+    () => Array.from(new Set(ledgerEntries.map(e => e.importer).filter(Boolean))).sort(),
+    [ledgerEntries]
+  );
+
+  const filteredLedgerEntries = useMemo(() => {
+    const query = historySearch.trim().toLowerCase();
+    return ledgerEntries.filter(entry => {
+      const day = entry.createdAt.slice(0, 10);
+      if (historyFrom && day < historyFrom) return false;
+      if (historyTo && day > historyTo) return false;
+      if (historyImporter && entry.importer !== historyImporter) return false;
+      if (!query) return true;
+      return [entry.entryNumber, entry.importer, entry.outputs.sell, entry.outputs.buy]
+        .some(field => field.toLowerCase().includes(query));
+    });
+  }, [ledgerEntries, historySearch, historyImporter, historyFrom, historyTo]);
+
+  const bondAdvice = useMemo(
+    () => adviseContinuousBond(rates, parseInt(advisorEntries) || 0, toDecimal(advisorInvoice), toDecimal(advisorDuties)),
+    [advisorEntries, advisorInvoice, advisorDuties, rates]
+  );
+
+  const pullAdvisorFromHistory = async () => {
+    try {
+      const summary = summarizeLedgerYear(await listLedgerEntries());
+      if (summary.count === 0) {
+        alert('No entries have been logged in the last 12 months.');
+        return;
+      }
+      setAdvisorEntries(String(summary.count));
+      setAdvisorInvoice(formatMoney(summary.averageInvoice));
+      setAdvisorDuties(formatMoney(summary.averageDuties));
+      setAdvisorSource(`${summary.count} entries logged in the last 12 months`);
+    } catch (error) {
+      console.error('Entry ledger error:', error);
+      alert('Unable to read the entry history ledger.');
+    }
+  };
+
+  // Copied figures go straight onto invoices, so they use the invoice rounding mode
+  const handleCopy = (value: Decimal, id: 'buy' | 'sell') => {
+    const copied = `$${formatMoney(value, rates.invoiceRounding)}`;
+    navigator.clipboard.writeText(copied);
+    void recordQuoteAudit(id === 'buy' ? 'copy-buy' : 'copy-sell', { ...currentFigures(), copied });
     setCopiedId(id);
     setTimeout(() => setCopiedId(null), 2000);
   };
 
   const withoutPgaResults = useMemo(() => {
-    const amount = parseFloat(withoutPgaAmount) || 0;
-    const sellVal = (amount * adminSettings.sellRatePercent) / 100;
-    const isBelowMin = amount > 0 && sellVal < adminSettings.minBilling;
+    const { buy, billing } = withoutPgaPricing;
     return {
-      buy: ((amount * adminSettings.buyRateMultiplier) / 1000).toFixed(6),
-      sell: sellVal.toFixed(6),
-      isBelowMin,
-      sellWarning: isBelowMin ? `Note: A minimum billing of $${adminSettings.minBilling.toFixed(2)} usually applies.` : null
+      buy: formatMoney(buy, rates.buyRounding),
+      sell: formatMoney(billing.billable, rates.sellRounding),
+      buyValue: buy,
+      sellValue: billing.billable,
+      billing,
+      isBelowMin: billing.rule === 'minimum' || billing.rule === 'mode-floor',
+      sellWarning: describeBillingResult(billing)
     };
-  }, [withoutPgaAmount, adminSettings]);
+  }, [withoutPgaPricing, rates]);
 
-  const withPgaBuyResults = useMemo(() => {
-    const base = parseFloat(withPgaBuyBondValue) || 0;
-    return { buy: ((base * adminSettings.buyRateMultiplier) / 1000).toFixed(6) };
-  }, [withPgaBuyBondValue, adminSettings]);
+  const withPgaBuyResults = useMemo(() => ({
+    buy: formatMoney(withPgaBuyPricing.buy, rates.buyRounding),
+    buyValue: withPgaBuyPricing.buy,
+  }), [withPgaBuyPricing, rates]);
 
   const withPgaSellResults = useMemo(() => {
-    const base = parseFloat(withPgaSellBondValue) || 0;
-    const sellVal = (base * adminSettings.sellRatePercent) / 100;
-    const isBelowMin = base > 0 && sellVal < adminSettings.minBilling;
+    const { billing } = withPgaSellPricing;
     return {
-      sell: sellVal.toFixed(6),
-      isBelowMin,
-      sellWarning: isBelowMin ? `Note: A minimum billing of $${adminSettings.minBilling.toFixed(2)} usually applies.` : null
+      sell: formatMoney(billing.billable, rates.sellRounding),
+      sellValue: billing.billable,
+      billing,
+      isBelowMin: billing.rule === 'minimum' || billing.rule === 'mode-floor',
+      sellWarning: describeBillingResult(billing)
+    };
+  }, [withPgaSellPricing, rates]);
+
+  const isfPricing: IsfPricing = useMemo(() => priceIsfShipment(rates, isfWithSeb === null
+    ? null
+    : isfWithSeb === 'without'
+    ? { buy: withoutPgaResults.buyValue, sell: withoutPgaResults.sellValue }
+    : { buy: withPgaBuyResults.buyValue, sell: withPgaSellResults.sellValue }
+  ), [rates, isfWithSeb, withoutPgaResults, withPgaBuyResults, withPgaSellResults]);
+
+  // Totals on the Buy and Sell cards - the shipment total on the ISF tab
+  const buyTotal: Decimal = activeTab === 'isf' ? isfPricing.buy : entryMode === 'without' ? withoutPgaResults.buyValue : withPgaBuyResults.buyValue;
+  const sellTotal: Decimal = activeTab === 'isf' ? isfPricing.sell : entryMode === 'without' ? withoutPgaResults.sellValue : withPgaSellResults.sellValue;
+
+  const testSuiteResults = useMemo(
+    () => (tempSettings.formulaTestCases ?? []).map((testCase: FormulaTestCase) => runFormulaTestCase(tempSettings, testCase)),
+    [tempSettings]
+  );
+  const failingTestCount = testSuiteResults.filter((result: FormulaTestResult) => !result.passed).length;
+
+  const updateTestCase = (id: string, patch: Partial<FormulaTestCase>) => setTempSettings({
+    ...tempSettings,
+    formulaTestCases: tempSettings.formulaTestCases.map((c: FormulaTestCase) => (c.id === id ? { ...c, ...patch } : c)),
+  });
+
+  // New cases expect what the committed settings produce today, so they guard against regressions
+  const addFormulaTestCase = (mode: EntryMode) => {
+    const cases: FormulaTestCase[] = tempSettings.formulaTestCases ?? [];
+    const testCase: FormulaTestCase = {
+      id: crypto.randomUUID(),
+      name: `Case ${cases.length + 1}`,
+      mode,
+      inputs: mode === 'without' ? { invoice_value: 10000, duties: 0 } : { invoice_value_with_pga: 10000, invoice_value_without_pga: 0 },
+      expectedBuy: 0,
+      expectedSell: 0,
     };
-  }, [withPgaSellBondValue, adminSettings]);
+    const committed = runFormulaTestCase(adminSettings, testCase);
+    setTempSettings({
+      ...tempSettings,
+      formulaTestCases: [...cases, { ...testCase, expectedBuy: decimalToNumber(committed.buy), expectedSell: decimalToNumber(committed.sell) }],
+    });
+  };
+
+  // Formula Studio sandbox - drives the live results, expression trees and sensitivity chart
+  const sandboxVariables = useMemo(() => {
+    const values: Record<string, Decimal> = {};
+    Object.keys(sandboxInputs).forEach(name => values[name] = toDecimal(sandboxInputs[name]));
+    return values;
+  }, [sandboxInputs]);
+
+  const sensitivityPoints = useMemo(
+    () => sweepSensitivity(tempSettings, sensitivity.mode, sensitivity.variable, sandboxVariables, parseFloat(sensitivity.from) || 0, parseFloat(sensitivity.to) || 0),
+    [tempSettings, sensitivity, sandboxVariables]
+  );
+
+  const renderFormulaTrace = (key: FormulaKey) => {
+    const trace = traceFormula(tempSettings, key, sandboxVariables);
+    return typeof trace === 'string'
+      ? <p className="mt-4 text-xs font-mono text-red-400">{trace}</p>
+      : (
+        <div className="mt-4 max-h-64 overflow-auto custom-scrollbar bg-black/30 rounded-2xl p-4 border border-white/10">
+          <FormulaTraceTree trace={trace} />
+        </div>
+      );
+  };
 
   const testResults = useMemo(() => {
-    const testValue = 10000;
-    const buy = ((testValue * tempSettings.buyRateMultiplier) / 1000).toFixed(6);
-    const sellVal = (testValue * tempSettings.sellRatePercent) / 100;
-    const sell = Math.max(tempSettings.minBilling, sellVal).toFixed(6);
-    return { buy, sell };
-  }, [tempSettings]);
+    const { buy: buyVal, billing } = priceEntry(tempSettings, 'without', sandboxVariables);
+    const buy = formatMoney(buyVal, tempSettings.buyRounding);
+    const sell = formatMoney(billing.billable, tempSettings.sellRounding);
+    return { buy, sell, rule: billing.rule };
+  }, [tempSettings, sandboxVariables]);
 
   const handleCalcBtn = (val: string) => {
     if (val === 'C') {
@@ -265,10 +1701,9 @@ const App: React.FC = () => {
     else if (val === '=') {
       try {
         const cleanExpr = calcExpression.replace(/×/g, '*').replace(/÷/g, '/');
-        // Simple safety check: only allow digits and operators
-        if (/[^0-9+\-*/.]/.test(cleanExpr)) throw new Error();
-        const result = eval(cleanExpr);
-        const roundedResult = Number.isInteger(result) ? result : parseFloat(result.toFixed(8));
+        // Same parser as the Formula Studio, with no variables in scope
+        const result = evaluateNode(parseFormula(cleanExpr), {});
+        const roundedResult = decimalToString(result, 8);
         setCalcDisplay(String(roundedResult));
         setCalcExpression(String(roundedResult));
       } catch {
@@ -289,40 +1724,312 @@ const App: React.FC = () => {
   };
 
 
-  const checkPassword = () => {
-    if (adminPassword === '332') {
+  const refreshAuthAudit = async () => {
+    try {
+      setAuthAudit(await listAuthAuditEntries());
+    } catch (error) {
+      console.error('Auth audit error:', error);
+    }
+  };
+
+  const refreshQuoteAudit = async () => {
+    try {
+      const events = await listQuoteAuditEvents();
+      setQuoteAudit(events);
+      setBrokenAuditId(await findBrokenQuoteAuditEvent(events));
+    } catch (error) {
+      console.error('Quote audit error:', error);
+    }
+  };
+
+  // Recorded outside the browser, the head hash and count show whether events were later cut from the end of the chain
+  const quoteAuditHead = quoteAudit.length ? quoteAudit[quoteAudit.length - 1].hash : GENESIS_HASH;
+
+  const exportQuoteAudit = (format: 'json' | 'csv') => {
+    const name = `teu-quote-audit-${todayDateKey()}`;
+    if (format === 'json') {
+      downloadFile(`${name}.json`, JSON.stringify({
+        exportedAt: new Date().toISOString(),
+        chainIntact: brokenAuditId === null,
+        eventCount: quoteAudit.length,
+        headHash: quoteAuditHead,
+        events: quoteAudit,
+      }, null, 2), 'application/json');
+      return;
+    }
+    const headers = ['Id', 'Time', 'Action', 'User', 'Entry Number', 'Importer', 'Mode', 'Bond Value', 'Buy', 'Sell', 'Copied', 'Settings Version', 'Settings Hash', 'Buy Rule', 'Sell Rule', 'Inputs', 'Previous Hash', 'Hash'];
+    const rows = quoteAudit.map(event => [
+      String(event.id ?? ''), event.createdAt, QUOTE_AUDIT_LABELS[event.action], event.user, event.entryNumber, event.importer, event.mode,
+      event.figures.bondValue ?? '', event.figures.buy ?? '', event.figures.sell ?? '', event.figures.copied ?? '',
+      event.settingsVersion, event.settingsHash, event.formulas.buy, event.formulas.sell, JSON.stringify(event.inputs), event.previousHash, event.hash,
+    ]);
+    downloadFile(`${name}.csv`, toCsv([headers, ...rows]), 'text/csv');
+  };
+
+  const refreshSettingsVersions = async () => {
+    try {
+      const versions = await listSettingsVersions();
+      setSettingsVersions(versions);
+      setCompareToId(versions[0]?.id ?? null);
+      setCompareFromId(versions[1]?.id ?? versions[0]?.id ?? null);
+    } catch (error) {
+      console.error('Settings history error:', error);
+    }
+  };
+
+  const openControlCenter = () => {
+    setAdminPassword('');
+    setAdminPasswordConfirm('');
+    setShowPasswordPrompt(false);
+    setShowAdminPanel(true);
+    setTempSettings(adminSettings);
+    refreshAuthAudit();
+    refreshSettingsVersions();
+  };
+
+  const checkPassword = async () => {
+    if (isVerifying) return;
+    const lockout = loadLockout();
+    if (lockout.lockedUntil && new Date(lockout.lockedUntil) > new Date()) {
+      alert(`Too many failed attempts. Admin access is locked until ${new Date(lockout.lockedUntil).toLocaleTimeString()}.`);
       setAdminPassword('');
-      setShowPasswordPrompt(false);
-      setShowAdminPanel(true);
-      setTempSettings(adminSettings);
-    } else {
-      alert('Unauthorized access attempt logged.');
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const credentials = loadAdminCredentials();
+
+      // First run - the password entered here becomes the admin password
+      if (!credentials) {
+        const error = checkNewPassword(adminPassword, adminPasswordConfirm);
+        if (error) {
+          alert(error);
+          return;
+        }
+        await storeAdminPassword(adminPassword);
+        setHasAdminPassword(true);
+        await logAuthEvent('password-set', 'Initial admin password created');
+        openControlCenter();
+        return;
+      }
+
+      if (await verifyAdminPassword(adminPassword, credentials)) {
+        saveLockout({ failures: 0, lockedUntil: null });
+        await logAuthEvent('login-success', 'Control Center opened');
+        openControlCenter();
+        return;
+      }
+
+      const failures = lockout.failures + 1;
       setAdminPassword('');
+      if (failures >= MAX_LOGIN_FAILURES) {
+        const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60000).toISOString();
+        saveLockout({ failures: 0, lockedUntil });
+        await logAuthEvent('login-failure', `Incorrect password (attempt ${failures} of ${MAX_LOGIN_FAILURES})`);
+        await logAuthEvent('lockout', `Admin access locked for ${LOCKOUT_MINUTES} minutes`);
+        alert(`Incorrect password. Admin access is locked for ${LOCKOUT_MINUTES} minutes.`);
+      } else {
+        saveLockout({ failures, lockedUntil: null });
+        await logAuthEvent('login-failure', `Incorrect password (attempt ${failures} of ${MAX_LOGIN_FAILURES})`);
+        alert(`Incorrect password. ${MAX_LOGIN_FAILURES - failures} attempt(s) remaining before lockout.`);
+      }
+    } catch (error) {
+      console.error('Admin authentication error:', error);
+      alert('Unable to verify the admin password.');
+    } finally {
+      setIsVerifying(false);
     }
   };
 
-  const saveSettings = () => {
-    // Validate formulas
-    const validations = [
-      { formula: tempSettings.standardBuyFormula, vars: ['invoice_value', 'duties'], name: 'Standard Buy Formula' },
-      { formula: tempSettings.standardSellFormula, vars: ['invoice_value', 'duties'], name: 'Standard Sell Formula' },
-      { formula: tempSettings.pgaBuyFormula, vars: ['invoice_value_with_pga', 'invoice_value_without_pga'], name: 'PGA Buy Formula' },
-      { formula: tempSettings.pgaSellFormula, vars: ['invoice_value_with_pga', 'invoice_value_without_pga'], name: 'PGA Sell Formula' },
-    ];
-
-    for (const { formula, vars, name } of validations) {
-      if (!validateFormula(formula, vars)) {
-        alert(`Invalid ${name}. Please check the formula syntax and ensure all required variables are included.`);
+  const changeAdminPassword = async () => {
+    try {
+      const credentials = loadAdminCredentials();
+      if (!credentials || !(await verifyAdminPassword(passwordChange.current, credentials))) {
+        await logAuthEvent('login-failure', 'Password change rejected - current password incorrect');
+        alert('The current password is incorrect.');
+        return;
+      }
+      const error = checkNewPassword(passwordChange.next, passwordChange.confirm);
+      if (error) {
+        alert(error);
         return;
       }
+      await storeAdminPassword(passwordChange.next);
+      await logAuthEvent('password-change', 'Admin password changed');
+      setPasswordChange({ current: '', next: '', confirm: '' });
+      refreshAuthAudit();
+      alert('Admin password updated.');
+    } catch (error) {
+      console.error('Admin authentication error:', error);
+      alert('Unable to change the admin password.');
     }
+  };
 
+  // Close the Control Center after a stretch without any pointer or keyboard activity
+  useEffect(() => {
+    if (!showAdminPanel) return;
+    let lastActivity = Date.now();
+    const touch = () => { lastActivity = Date.now(); };
+    const events = ['pointerdown', 'keydown', 'wheel'] as const;
+    events.forEach(name => window.addEventListener(name, touch));
+    const timer = window.setInterval(() => {
+      if (Date.now() - lastActivity < ADMIN_SESSION_TIMEOUT_MINUTES * 60000) return;
+      window.clearInterval(timer);
+      setShowAdminPanel(false);
+      logAuthEvent('session-timeout', `Control Center closed after ${ADMIN_SESSION_TIMEOUT_MINUTES} minutes of inactivity`);
+      alert('Your admin session timed out. Unsaved changes were discarded.');
+    }, 30000);
+    return () => {
+      events.forEach(name => window.removeEventListener(name, touch));
+      window.clearInterval(timer);
+    };
+  }, [showAdminPanel]);
+
+  const applyRemoteSettings = (remote: RemoteSettings) => {
+    setAdminSettings(remote.bundle.settings);
+    saveStoredSettings(remote.bundle.settings);
+    setSettingsRevision(remote.revision);
+    saveSettingsRevision(remote.revision);
+    setRemoteUpdate(null);
+    triggerLoading();
+  };
+
+  // Pushes a commit to the shared store first; nothing is saved locally unless the server took it
+  const publishSettings = async (settings: typeof DEFAULT_SETTINGS, author: string): Promise<boolean> => {
+    if (!SETTINGS_SERVER_URL) return true;
+    if (!storeToken.trim()) {
+      alert('Enter the settings store token before committing - the shared settings server only accepts commits that carry it.');
+      return false;
+    }
+    try {
+      const revision = await pushRemoteSettings(await createSettingsBundle(settings, palette, author), settingsRevision, storeToken.trim());
+      setSettingsRevision(revision);
+      saveSettingsRevision(revision);
+      setSyncStatus('synced');
+      return true;
+    } catch (error) {
+      console.error('Settings server error:', error);
+      if (error instanceof SettingsConflictError) {
+        setRemoteUpdate(error.remote);
+        alert(`${error.message} Nothing was committed. Apply the newer settings from the banner, then make your changes again.`);
+      } else if (error instanceof SettingsAuthError) {
+        alert(`${error.message} Nothing was committed - check the store token and try again.`);
+      } else {
+        setSyncStatus('offline');
+        alert('The shared settings server could not be reached, so nothing was committed. Try again once it is back online.');
+      }
+      return false;
+    }
+  };
+
+  const saveSettings = async () => {
+    // Validate formulas, agencies, schedules and tiers
+    const settingsError = findSettingsError(tempSettings);
+    if (settingsError) {
+      alert(settingsError);
+      return;
+    }
+
+    if (failingTestCount > 0) {
+      alert(`${failingTestCount} formula test case(s) fail against the draft formulas. Fix the formulas or update the expected values before committing.`);
+      return;
+    }
+
+    const author = commitAuthor.trim();
+    if (!author) {
+      alert('Enter your name before committing so the change can be attributed in the version history.');
+      return;
+    }
+
+    if (!(await publishSettings(tempSettings, author))) return;
     setAdminSettings(tempSettings);
-    localStorage.setItem('teu_admin_settings', JSON.stringify(tempSettings));
+    saveStoredSettings(tempSettings);
+    localStorage.setItem(AUTHOR_KEY, author);
+    try {
+      // The first commit also records what was in effect before history was kept
+      if (settingsVersions.length === 0 && (await listSettingsVersions()).length === 0) {
+        await addSettingsVersion({ createdAt: new Date().toISOString(), author: 'System', note: 'Settings in effect before version history', settings: adminSettings });
+      }
+      await addSettingsVersion({ createdAt: new Date().toISOString(), author, note: commitNote.trim(), settings: tempSettings });
+    } catch (error) {
+      console.error('Settings history error:', error);
+      alert('Settings were saved, but this version could not be added to the version history.');
+    }
+    setCommitNote('');
     setShowAdminPanel(false);
     triggerLoading();
   };
 
+  const rollbackToVersion = async (version: SettingsVersion) => {
+    const author = commitAuthor.trim();
+    if (!author) {
+      alert('Enter your name before rolling back so the change can be attributed in the version history.');
+      return;
+    }
+    if (!confirm(`Roll back all formulas and parameters to version ${describeVersion(version)}?`)) return;
+
+    // Versions recorded by older builds may predate newer settings - those take their defaults
+    const { settings } = repairSettings(version.settings);
+    if (!(await publishSettings(settings, author))) return;
+    setAdminSettings(settings);
+    setTempSettings(settings);
+    saveStoredSettings(settings);
+    localStorage.setItem(AUTHOR_KEY, author);
+    try {
+      await addSettingsVersion({ createdAt: new Date().toISOString(), author, note: `Rolled back to version #${version.id}`, settings });
+      await refreshSettingsVersions();
+    } catch (error) {
+      console.error('Settings history error:', error);
+      alert('Settings were rolled back, but the rollback could not be added to the version history.');
+    }
+    triggerLoading();
+  };
+
+  const versionChanges = useMemo(() => {
+    const from = settingsVersions.find(v => v.id === compareFromId);
+    const to = settingsVersions.find(v => v.id === compareToId);
+    return from && to ? diffSettings(from.settings, to.settings) : [];
+  }, [settingsVersions, compareFromId, compareToId]);
+
+  const exportSettingsBundle = async () => {
+    try {
+      const bundle = await createSettingsBundle(adminSettings, palette, commitAuthor.trim() || 'Unknown');
+      downloadFile(`teu-bond-settings-${todayDateKey()}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+    } catch (error) {
+      console.error('Settings export error:', error);
+      alert('Unable to export the settings bundle.');
+    }
+  };
+
+  const handleSettingsImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingImport({ fileName: file.name, ...(await parseSettingsBundle(await file.text())) });
+    } catch (error) {
+      console.error('Settings import error:', error);
+      alert(`Unable to read ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Imported settings land in the draft - they still go through COMMIT ALL PARAMETERS like any other change
+  const applySettingsImport = () => {
+    if (!pendingImport?.bundle) return;
+    const { bundle } = pendingImport;
+    setTempSettings(bundle.settings);
+    setPalette(bundle.palette);
+    setCommitNote(`Imported ${pendingImport.fileName} (exported ${new Date(bundle.exportedAt).toLocaleString()} by ${bundle.exportedBy})`);
+    setPendingImport(null);
+    setAdminTab('logic');
+  };
+
+  const importChanges = useMemo(
+    () => (pendingImport?.bundle ? diffSettings(tempSettings, pendingImport.bundle.settings) : []),
+    [pendingImport, tempSettings]
+  );
+
   const resetToDefault = () => {
     if (confirm('Reset all formulas, parameters, and branding to factory defaults?')) {
       setTempSettings(DEFAULT_SETTINGS);
@@ -393,16 +2100,22 @@ const App: React.FC = () => {
             </div>
             <div className="flex flex-col items-center md:items-start">
               <div className="flex flex-col sm:flex-row items-center gap-2">
-                <h1 className="text-xl md:text-3xl font-black" style={{ color: COLORS.accent }}>TRADE EXPEDITORS USA, INC.</h1>
-                <h1 className="text-xl md:text-3xl font-black" style={{ color: COLORS.primary }}>DBA TEU GLOBAL</h1>
+                <h1 className="text-xl md:text-3xl font-black" style={{ color: COLORS.accent }}>{COMPANY_HEADER.name}</h1>
+                <h1 className="text-xl md:text-3xl font-black" style={{ color: COLORS.primary }}>{COMPANY_HEADER.dba}</h1>
               </div>
-              <h2 className="text-[10px] md:text-xs font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.3em] mt-1">Professional Bond Calculation Engine</h2>
+              <h2 className="text-[10px] md:text-xs font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.3em] mt-1">{COMPANY_HEADER.tagline}</h2>
             </div>
           </div>
           <div className="flex items-center gap-3 relative" ref={menuRef}>
             <button onClick={() => setShowPasswordPrompt(true)} className="p-3 rounded-full bg-slate-50 dark:bg-slate-700 text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:scale-110 transition-all border border-slate-200 dark:border-slate-600 shadow-sm" title="Admin Settings">
               <Lock size={20} />
             </button>
+            <button onClick={() => setShowBatch(true)} className="p-3 rounded-full bg-slate-50 dark:bg-slate-700 text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:scale-110 transition-all border border-slate-200 dark:border-slate-600 shadow-sm" title="Batch Pricing">
+              <Table size={20} />
+            </button>
+            <button onClick={openHistory} className="p-3 rounded-full bg-slate-50 dark:bg-slate-700 text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:scale-110 transition-all border border-slate-200 dark:border-slate-600 shadow-sm" title="Entry History">
+              <History size={20} />
+            </button>
             <button onClick={() => setIsDarkMode(!isDarkMode)} className="p-3 rounded-full bg-slate-50 dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-b border-r border-slate-200 dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-600 hover:scale-110 transition-all shadow-sm">
               {isDarkMode ? <Sun size={22} /> : <Moon size={22} />}
             </button>
@@ -473,7 +2186,7 @@ const App: React.FC = () => {
               {/* Enhanced Sidebar Tabs */}
               <div className="w-72 border-r border-slate-200/60 dark:border-slate-700/60 bg-gradient-to-b from-slate-50/80 to-white/80 dark:from-slate-900/80 dark:to-slate-800/80 backdrop-blur-sm p-8 space-y-3 relative">
                 {/* Tab indicator */}
-                <div className={`absolute left-0 top-0 w-1 h-20 bg-gradient-to-b from-blue-600 to-blue-700 rounded-r-full transition-all duration-300 ${adminTab === 'identity' ? 'translate-y-8' : 'translate-y-28'}`} />
+                <div className={`absolute left-0 top-0 w-1 h-20 bg-gradient-to-b from-blue-600 to-blue-700 rounded-r-full transition-all duration-300 ${adminTab === 'identity' ? 'translate-y-8' : adminTab === 'logic' ? 'translate-y-28' : adminTab === 'history' ? 'translate-y-52' : 'translate-y-[19rem]'}`} />
 
                 <button
                   onClick={() => setAdminTab('identity')}
@@ -538,6 +2251,70 @@ const App: React.FC = () => {
                     </div>
                   )}
                 </button>
+
+                <button
+                  onClick={() => { setAdminTab('history'); refreshSettingsVersions(); }}
+                  className={`w-full flex items-center gap-4 px-6 py-5 rounded-3xl font-black text-sm tracking-wide transition-all duration-300 group relative overflow-hidden ${
+                    adminTab === 'history'
+                      ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-xl shadow-blue-500/30 scale-105'
+                      : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-white/60 dark:hover:bg-slate-800/60 hover:shadow-md'
+                  }`}
+                >
+                  <div className={`p-2 rounded-xl transition-all duration-300 ${
+                    adminTab === 'history'
+                      ? 'bg-white/20'
+                      : 'bg-slate-100 dark:bg-slate-700 group-hover:bg-slate-200 dark:group-hover:bg-slate-600'
+                  }`}>
+                    <History size={20} />
+                  </div>
+                  <div className="text-left">
+                    <div className="font-black">VERSIONS</div>
+                    <div className={`text-xs font-bold uppercase tracking-wider transition-all ${
+                      adminTab === 'history'
+                        ? 'text-blue-100'
+                        : 'text-slate-400 dark:text-slate-500'
+                    }`}>
+                      Change History
+                    </div>
+                  </div>
+                  {adminTab === 'history' && (
+                    <div className="ml-auto">
+                      <Check size={18} className="text-white animate-in zoom-in duration-200" />
+                    </div>
+                  )}
+                </button>
+
+                <button
+                  onClick={() => { setAdminTab('audit'); refreshQuoteAudit(); }}
+                  className={`w-full flex items-center gap-4 px-6 py-5 rounded-3xl font-black text-sm tracking-wide transition-all duration-300 group relative overflow-hidden ${
+                    adminTab === 'audit'
+                      ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-xl shadow-blue-500/30 scale-105'
+                      : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-white/60 dark:hover:bg-slate-800/60 hover:shadow-md'
+                  }`}
+                >
+                  <div className={`p-2 rounded-xl transition-all duration-300 ${
+                    adminTab === 'audit'
+                      ? 'bg-white/20'
+                      : 'bg-slate-100 dark:bg-slate-700 group-hover:bg-slate-200 dark:group-hover:bg-slate-600'
+                  }`}>
+                    <ShieldCheck size={20} />
+                  </div>
+                  <div className="text-left">
+                    <div className="font-black">AUDIT TRAIL</div>
+                    <div className={`text-xs font-bold uppercase tracking-wider transition-all ${
+                      adminTab === 'audit'
+                        ? 'text-blue-100'
+                        : 'text-slate-400 dark:text-slate-500'
+                    }`}>
+                      Quoted Figures
+                    </div>
+                  </div>
+                  {adminTab === 'audit' && (
+                    <div className="ml-auto">
+                      <Check size={18} className="text-white animate-in zoom-in duration-200" />
+                    </div>
+                  )}
+                </button>
               </div>
 
               {/* Tab Content */}
@@ -579,13 +2356,273 @@ const App: React.FC = () => {
                             </p>
                           </div>
 
-                          <div className="flex items-center justify-center lg:justify-start gap-4">
-                            <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
-                              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
-                              <span className="font-medium">Asset Status: Active</span>
-                            </div>
+                          <div className="flex items-center justify-center lg:justify-start gap-4">
+                            <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+                              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                              <span className="font-medium">Asset Status: Active</span>
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    </section>
+
+                    <section className="animate-in slide-in-from-left-4 duration-500">
+                      <h4 className="text-sm font-black uppercase text-blue-600 tracking-widest mb-8 flex items-center gap-3">
+                        <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+                          <Lock size={16} className="text-blue-600" />
+                        </div>
+                        <span>Admin Security</span>
+                      </h4>
+
+                      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                        <div className="p-8 bg-gradient-to-br from-slate-50 to-white dark:from-slate-900 dark:to-slate-800 rounded-3xl border border-slate-200/60 dark:border-slate-700/60 shadow-xl space-y-4">
+                          <h5 className="text-lg font-black text-slate-900 dark:text-white">Change Admin Password</h5>
+                          <p className="text-xs text-slate-500 dark:text-slate-400">
+                            Sessions close after {ADMIN_SESSION_TIMEOUT_MINUTES} minutes of inactivity. {MAX_LOGIN_FAILURES} failed sign-ins lock admin access for {LOCKOUT_MINUTES} minutes.
+                          </p>
+                          {([
+                            { key: 'current', label: 'Current Password' },
+                            { key: 'next', label: 'New Password' },
+                            { key: 'confirm', label: 'Confirm New Password' },
+                          ] as const).map(({ key, label }) => (
+                            <div key={key}>
+                              <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">{label}</label>
+                              <input
+                                type="password"
+                                value={passwordChange[key]}
+                                onChange={(e) => setPasswordChange({ ...passwordChange, [key]: e.target.value })}
+                                className="w-full rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 py-3 px-4 font-mono outline-none focus:border-blue-500 transition-all"
+                              />
+                            </div>
+                          ))}
+                          <button
+                            onClick={changeAdminPassword}
+                            className="w-full py-4 bg-blue-600 text-white rounded-2xl font-black shadow-xl shadow-blue-600/30 transition-all active:scale-95 uppercase tracking-widest text-xs"
+                          >
+                            Update Password
+                          </button>
+                        </div>
+
+                        <div className="p-8 bg-gradient-to-br from-slate-50 to-white dark:from-slate-900 dark:to-slate-800 rounded-3xl border border-slate-200/60 dark:border-slate-700/60 shadow-xl flex flex-col">
+                          <div className="flex items-center justify-between mb-4">
+                            <h5 className="text-lg font-black text-slate-900 dark:text-white">Access Audit Log</h5>
+                            <button onClick={refreshAuthAudit} className="p-2 text-slate-400 hover:text-blue-600 rounded-lg transition-all" title="Refresh">
+                              <RefreshCw size={16} />
+                            </button>
+                          </div>
+                          <div className="flex-1 max-h-80 overflow-y-auto custom-scrollbar divide-y divide-slate-100 dark:divide-slate-700">
+                            {authAudit.length === 0 && (
+                              <p className="text-sm text-slate-500 py-4">No admin access events recorded.</p>
+                            )}
+                            {authAudit.map(entry => (
+                              <div key={entry.id} className="py-3 flex items-start justify-between gap-4 text-sm">
+                                <div>
+                                  <span className={`font-black uppercase tracking-wide text-xs ${entry.event === 'login-failure' || entry.event === 'lockout' ? 'text-red-600' : 'text-slate-700 dark:text-slate-300'}`}>
+                                    {AUTH_EVENT_LABELS[entry.event]}
+                                  </span>
+                                  <p className="text-xs text-slate-500 dark:text-slate-400">{entry.detail}</p>
+                                </div>
+                                <span className="text-xs font-mono text-slate-400 shrink-0">{new Date(entry.createdAt).toLocaleString()}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      </div>
+                    </section>
+                  </div>
+                ) : adminTab === 'audit' ? (
+                  <div className="space-y-10">
+                    <section className="animate-in slide-in-from-left-4 duration-500">
+                      <div className="flex items-center justify-between mb-8">
+                        <h4 className="text-sm font-black uppercase text-blue-600 tracking-widest flex items-center gap-3">
+                          <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+                            <ShieldCheck size={16} className="text-blue-600" />
+                          </div>
+                          <span>Quote Audit Trail</span>
+                        </h4>
+                        <div className="flex gap-3">
+                          <button onClick={refreshQuoteAudit} className="p-3 text-slate-400 hover:text-blue-600 rounded-xl transition-all" title="Refresh">
+                            <RefreshCw size={16} />
+                          </button>
+                          <button onClick={() => exportQuoteAudit('csv')} disabled={quoteAudit.length === 0} className="px-5 py-3 bg-white dark:bg-slate-800 border-2 border-slate-200 dark:border-slate-700 rounded-xl font-black uppercase tracking-widest text-xs text-slate-700 dark:text-slate-300 hover:border-blue-500 transition-all flex items-center gap-2 disabled:opacity-40">
+                            <Download size={14} /> <span>CSV</span>
+                          </button>
+                          <button onClick={() => exportQuoteAudit('json')} disabled={quoteAudit.length === 0} className="px-5 py-3 bg-blue-600 text-white rounded-xl font-black uppercase tracking-widest text-xs shadow-lg shadow-blue-500/30 hover:bg-blue-700 transition-all flex items-center gap-2 disabled:opacity-40">
+                            <Download size={14} /> <span>JSON</span>
+                          </button>
+                        </div>
+                      </div>
+                      {quoteAudit.length > 0 && (
+                        <div className={`mb-6 p-4 rounded-2xl border text-sm font-bold flex items-center gap-3 ${brokenAuditId === null ? 'bg-green-50 dark:bg-green-900/20 border-green-300 dark:border-green-700 text-green-800 dark:text-green-300' : 'bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-700 text-red-800 dark:text-red-300'}`}>
+                          {brokenAuditId === null ? <Check size={16} /> : <AlertTriangle size={16} />}
+                          <span className="flex-1">
+                            {brokenAuditId === null
+                              ? `Hash chain intact across all ${quoteAudit.length} events.`
+                              : `Hash chain broken at event #${brokenAuditId} - it or an earlier event was altered or removed.`}
+                          </span>
+                          <span className="font-mono text-[10px] break-all text-right" title="Record the head hash and event count elsewhere - a chain later cut short will no longer match them">
+                            {quoteAudit.length} events · head {quoteAuditHead}
+                          </span>
+                        </div>
+                      )}
+                      <div className="rounded-3xl border-2 border-slate-200 dark:border-slate-700 overflow-hidden shadow-lg">
+                        <table className="w-full text-sm">
+                          <thead className="bg-slate-50 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                            <tr>
+                              <th className="p-3 text-left">#</th>
+                              <th className="p-3 text-left">Time</th>
+                              <th className="p-3 text-left">Action</th>
+                              <th className="p-3 text-left">User</th>
+                              <th className="p-3 text-left">Entry</th>
+                              <th className="p-3 text-right">Buy</th>
+                              <th className="p-3 text-right">Sell</th>
+                              <th className="p-3 text-left">Settings</th>
+                              <th className="p-3 text-left">Hash</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {quoteAudit.length === 0 && (
+                              <tr><td colSpan={9} className="p-6 text-center text-slate-500">No quoted figures recorded yet.</td></tr>
+                            )}
+                            {[...quoteAudit].reverse().map(event => (
+                              <tr key={event.id} className={`border-t border-slate-100 dark:border-slate-700 ${event.id === brokenAuditId ? 'bg-red-50 dark:bg-red-900/20' : ''}`}>
+                                <td className="p-3 font-mono text-xs text-slate-400">{event.id}</td>
+                                <td className="p-3 text-xs whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</td>
+                                <td className="p-3 text-xs font-black uppercase tracking-wide">{QUOTE_AUDIT_LABELS[event.action]}</td>
+                                <td className="p-3 text-xs">{event.user}</td>
+                                <td className="p-3 text-xs">{[event.entryNumber, event.importer].filter(Boolean).join(' · ') || (event.mode === 'batch' ? `${event.figures.entries} batch rows` : '-')}</td>
+                                <td className="p-3 text-right font-bold">{event.figures.buy ? `$${event.figures.buy}` : '-'}</td>
+                                <td className="p-3 text-right font-bold">{event.figures.sell ? `$${event.figures.sell}` : '-'}</td>
+                                <td className="p-3 text-xs" title={`Buy: ${event.formulas.buy}\nSell: ${event.formulas.sell}\nRates hash: ${event.settingsHash}`}>{event.settingsVersion}</td>
+                                <td className="p-3 font-mono text-[10px] text-slate-400" title={event.hash}>{event.hash.slice(0, 12)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </section>
+                  </div>
+                ) : adminTab === 'history' ? (
+                  <div className="space-y-10">
+                    <section className="animate-in slide-in-from-left-4 duration-500">
+                      <h4 className="text-sm font-black uppercase text-blue-600 tracking-widest mb-8 flex items-center gap-3">
+                        <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+                          <Download size={16} className="text-blue-600" />
+                        </div>
+                        <span>Share Settings</span>
+                      </h4>
+                      <div className="mb-6 p-4 rounded-2xl bg-slate-50 dark:bg-slate-900/60 border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-400 flex items-center gap-3">
+                        <RefreshCw size={14} className="shrink-0" />
+                        {SETTINGS_SERVER_URL ? (
+                          <span>
+                            Shared store {SETTINGS_SERVER_URL} · revision {settingsRevision || 'none'} · {syncStatus === 'synced' ? 'in sync' : syncStatus === 'checking' ? 'checking' : 'offline - commits are blocked until it is back'}
+                          </span>
+                        ) : (
+                          <span>Committed settings live in this browser only. Set SETTINGS_SERVER_URL when building to share them through bond-calc-server.</span>
+                        )}
+                      </div>
+                      <div className="p-6 rounded-3xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 flex flex-col md:flex-row md:items-center gap-6">
+                        <p className="flex-1 text-sm text-slate-600 dark:text-slate-400">
+                          Export the committed formulas, parameters, palette and rate schedules as a checksummed bundle, or import a bundle from another office. Imports are validated and shown as a diff before they touch the draft.
+                        </p>
+                        <div className="flex gap-3 shrink-0">
+                          <button onClick={exportSettingsBundle} className="px-5 py-3 bg-blue-600 text-white rounded-xl font-black uppercase tracking-widest text-xs shadow-lg shadow-blue-500/30 hover:bg-blue-700 transition-all flex items-center gap-2">
+                            <Download size={14} /> <span>Export Bundle</span>
+                          </button>
+                          <label className="px-5 py-3 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-xl font-black uppercase tracking-widest text-xs hover:bg-slate-200 dark:hover:bg-slate-600 transition-all cursor-pointer flex items-center gap-2">
+                            <Upload size={14} /> <span>Import Bundle</span>
+                            <input type="file" accept=".json,application/json" onChange={handleSettingsImport} className="hidden" />
+                          </label>
+                        </div>
+                      </div>
+                    </section>
+
+                    <section className="animate-in slide-in-from-left-4 duration-500">
+                      <h4 className="text-sm font-black uppercase text-blue-600 tracking-widest mb-8 flex items-center gap-3">
+                        <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+                          <History size={16} className="text-blue-600" />
+                        </div>
+                        <span>Compare Versions</span>
+                      </h4>
+
+                      {settingsVersions.length === 0 ? (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">No versions recorded yet. Every commit from the Control Center is saved here.</p>
+                      ) : (
+                        <div className="space-y-6">
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            {[
+                              { label: 'From', value: compareFromId, set: setCompareFromId },
+                              { label: 'To', value: compareToId, set: setCompareToId },
+                            ].map(({ label, value, set }) => (
+                              <div key={label}>
+                                <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">{label}</label>
+                                <select
+                                  value={value ?? ''}
+                                  onChange={(e) => set(Number(e.target.value))}
+                                  className="w-full rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 py-3 px-4 font-bold text-sm outline-none focus:border-blue-500"
+                                >
+                                  {settingsVersions.map(version => (
+                                    <option key={version.id} value={version.id}>{describeVersion(version)}</option>
+                                  ))}
+                                </select>
+                              </div>
+                            ))}
+                          </div>
+
+                          <div className="rounded-3xl border-2 border-slate-200 dark:border-slate-700 overflow-hidden shadow-lg">
+                            <table className="w-full text-sm">
+                              <thead className="bg-slate-50 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                                <tr>
+                                  <th className="p-3 text-left">Setting</th>
+                                  <th className="p-3 text-left">From</th>
+                                  <th className="p-3 text-left">To</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {versionChanges.length === 0 && (
+                                  <tr><td colSpan={3} className="p-4 text-center text-slate-500">No differences between these versions.</td></tr>
+                                )}
+                                {versionChanges.map(change => (
+                                  <tr key={change.key} className="border-t border-slate-100 dark:border-slate-700 align-top">
+                                    <td className="p-3 font-mono text-xs font-bold text-slate-700 dark:text-slate-300">{change.key}</td>
+                                    <td className="p-3 font-mono text-xs break-all text-red-600 dark:text-red-400 bg-red-50/50 dark:bg-red-900/10">{change.before}</td>
+                                    <td className="p-3 font-mono text-xs break-all text-green-700 dark:text-green-400 bg-green-50/50 dark:bg-green-900/10">{change.after}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
                           </div>
                         </div>
+                      )}
+                    </section>
+
+                    <section className="animate-in slide-in-from-left-4 duration-500">
+                      <h4 className="text-sm font-black uppercase text-blue-600 tracking-widest mb-8 flex items-center gap-3">
+                        <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+                          <RefreshCw size={16} className="text-blue-600" />
+                        </div>
+                        <span>Version History</span>
+                      </h4>
+                      <div className="space-y-3">
+                        {settingsVersions.map((version, index) => (
+                          <div key={version.id} className="p-5 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 flex items-center justify-between gap-6">
+                            <div className="min-w-0">
+                              <div className="font-black text-slate-900 dark:text-white text-sm">{describeVersion(version)}</div>
+                              <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{version.note || 'No change note'}</p>
+                            </div>
+                            {index === 0 ? (
+                              <span className="text-[10px] font-black uppercase tracking-widest text-green-600 shrink-0">Current</span>
+                            ) : (
+                              <button
+                                onClick={() => rollbackToVersion(version)}
+                                className="px-4 py-2.5 rounded-xl border-2 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 font-bold uppercase tracking-wide text-xs hover:border-blue-500 hover:text-blue-600 transition-all flex items-center gap-2 shrink-0"
+                              >
+                                <RefreshCw size={14} />
+                                <span>Roll Back</span>
+                              </button>
+                            )}
+                          </div>
+                        ))}
                       </div>
                     </section>
                   </div>
@@ -595,6 +2632,21 @@ const App: React.FC = () => {
                       <h4 className="text-xs font-black uppercase text-blue-600 tracking-widest mb-8 flex items-center gap-2">
                         <Activity size={14} /> Formula Studio
                       </h4>
+
+                      {/* Sandbox Inputs */}
+                      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+                        {Object.keys(sandboxInputs).map(name => (
+                          <div key={name}>
+                            <label className="text-[10px] font-black uppercase tracking-widest text-slate-500 block mb-1 font-mono">{name}</label>
+                            <input
+                              type="number"
+                              value={sandboxInputs[name]}
+                              onChange={(e) => setSandboxInputs({ ...sandboxInputs, [name]: e.target.value })}
+                              className="w-full rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 py-2 px-3 font-bold text-sm outline-none focus:border-blue-500"
+                            />
+                          </div>
+                        ))}
+                      </div>
                       
                       {/* Enhanced Formula Visualizer */}
                       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12">
@@ -610,6 +2662,7 @@ const App: React.FC = () => {
                             <div className="font-mono text-base text-white/90 leading-relaxed bg-gradient-to-r from-black/60 to-black/40 p-6 rounded-2xl border border-white/10 shadow-inner">
                               <div className="text-blue-300 font-bold mb-2">{tempSettings.standardBuyFormula}</div>
                             </div>
+                            {renderFormulaTrace('standardBuyFormula')}
                             <div className="mt-4 flex items-center gap-2 text-xs text-blue-300">
                               <Activity size={12} className="animate-pulse" />
                               <span>Real-time calculation engine</span>
@@ -629,6 +2682,7 @@ const App: React.FC = () => {
                             <div className="font-mono text-base text-white/90 leading-relaxed bg-gradient-to-r from-black/60 to-black/40 p-6 rounded-2xl border border-white/10 shadow-inner">
                               <div className="text-orange-300 font-bold mb-2">{tempSettings.standardSellFormula}</div>
                             </div>
+                            {renderFormulaTrace('standardSellFormula')}
                             <div className="mt-4 flex items-center gap-2 text-xs text-orange-300">
                               <Activity size={12} className="animate-pulse" />
                               <span>Advanced fee calculation</span>
@@ -651,6 +2705,7 @@ const App: React.FC = () => {
                             <div className="font-mono text-base text-white/90 leading-relaxed bg-gradient-to-r from-black/60 to-black/40 p-6 rounded-2xl border border-white/10 shadow-inner">
                               <div className="text-green-300 font-bold mb-2">{tempSettings.pgaBuyFormula}</div>
                             </div>
+                            {renderFormulaTrace('pgaBuyFormula')}
                             <div className="mt-4 flex items-center gap-2 text-xs text-green-300">
                               <Activity size={12} className="animate-pulse" />
                               <span>PGA calculation engine</span>
@@ -670,6 +2725,7 @@ const App: React.FC = () => {
                             <div className="font-mono text-base text-white/90 leading-relaxed bg-gradient-to-r from-black/60 to-black/40 p-6 rounded-2xl border border-white/10 shadow-inner">
                               <div className="text-purple-300 font-bold mb-2">{tempSettings.pgaSellFormula}</div>
                             </div>
+                            {renderFormulaTrace('pgaSellFormula')}
                             <div className="mt-4 flex items-center gap-2 text-xs text-purple-300">
                               <Activity size={12} className="animate-pulse" />
                               <span>PGA fee calculation</span>
@@ -753,6 +2809,70 @@ const App: React.FC = () => {
                         </div>
                       </div>
 
+                      {/* Named Constants & Input Variables */}
+                      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12">
+                        {([
+                          { listKey: 'formulaConstants', title: 'Named Constants', hint: 'Fixed values formulas reference by name', icon: Code2 },
+                          { listKey: 'formulaInputs', title: 'Input Variables', hint: 'Entered with each entry - the calculators add a field automatically', icon: Keyboard },
+                        ] as const).map(({ listKey, title, hint, icon: Icon }) => (
+                          <div key={listKey} className="space-y-4">
+                            <div className="flex items-center justify-between">
+                              <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
+                                <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+                                  <Icon size={16} className="text-blue-600" />
+                                </div>
+                                <span>{title}</span>
+                              </label>
+                              <button
+                                onClick={() => setTempSettings({
+                                  ...tempSettings,
+                                  [listKey]: [
+                                    ...(tempSettings[listKey] ?? []),
+                                    listKey === 'formulaConstants'
+                                      ? { id: crypto.randomUUID(), name: '', value: 0, description: '' }
+                                      : { id: crypto.randomUUID(), name: '', label: '' },
+                                  ],
+                                })}
+                                className="px-3 py-2 bg-blue-600 text-white rounded-xl font-black uppercase tracking-widest text-[10px] shadow-lg shadow-blue-500/30 hover:bg-blue-700 transition-all active:scale-95 flex items-center gap-1"
+                              >
+                                <Plus size={12} />
+                                <span>Add</span>
+                              </button>
+                            </div>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">{hint}</p>
+                            {(tempSettings[listKey] ?? []).map((item: FormulaConstant | FormulaInput) => {
+                              const updateItem = (patch: Partial<FormulaConstant & FormulaInput>) => setTempSettings({
+                                ...tempSettings,
+                                [listKey]: tempSettings[listKey].map((i: FormulaConstant | FormulaInput) => (i.id === item.id ? { ...i, ...patch } : i)),
+                              });
+                              return (
+                                <div key={item.id} className="flex items-center gap-2">
+                                  <input type="text" value={item.name} onChange={(e) => updateItem({ name: e.target.value.trim() })} placeholder="variable_name" className="w-40 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-mono text-sm outline-none focus:border-blue-500" />
+                                  {'value' in item ? (
+                                    <>
+                                      <input type="number" step="any" value={item.value} onChange={(e) => updateItem({ value: parseFloat(e.target.value) || 0 })} className="w-28 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-blue-500" />
+                                      <input type="text" value={item.description} onChange={(e) => updateItem({ description: e.target.value })} placeholder="Description" className="flex-1 min-w-0 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 text-sm outline-none focus:border-blue-500" />
+                                    </>
+                                  ) : (
+                                    <input type="text" value={item.label} onChange={(e) => updateItem({ label: e.target.value })} placeholder="Field label (e.g. MPF)" className="flex-1 min-w-0 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 text-sm outline-none focus:border-blue-500" />
+                                  )}
+                                  <button
+                                    onClick={() => setTempSettings({ ...tempSettings, [listKey]: tempSettings[listKey].filter((i: FormulaConstant | FormulaInput) => i.id !== item.id) })}
+                                    className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all"
+                                    title="Remove"
+                                  >
+                                    <Trash2 size={14} />
+                                  </button>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        ))}
+                        <p className="lg:col-span-2 text-xs text-slate-500 dark:text-slate-400">
+                          Every formula can also use <code className="font-mono">{Object.keys(PARAMETER_VARIABLES).join(', ')}</code> from the parameters below.
+                        </p>
+                      </div>
+
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                         <div className="space-y-6">
                           <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
@@ -813,7 +2933,7 @@ const App: React.FC = () => {
                             <div className="p-2 bg-orange-100 dark:bg-orange-900/30 rounded-xl">
                               <Ship size={16} className="text-orange-600" />
                             </div>
-                            <span>PGA Liability Factor</span>
+                            <span>Default PGA Liability Factor</span>
                           </label>
                           <div className="relative group">
                             <input
@@ -828,6 +2948,442 @@ const App: React.FC = () => {
                         </div>
                       </div>
 
+                      {/* PGA Agency Liability Factors */}
+                      <div className="mt-12 space-y-6">
+                        <div className="flex items-center justify-between">
+                          <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
+                            <div className="p-2 bg-orange-100 dark:bg-orange-900/30 rounded-xl">
+                              <Ship size={16} className="text-orange-600" />
+                            </div>
+                            <span>PGA Agency Liability Factors</span>
+                          </label>
+                          <button
+                            onClick={() => setTempSettings({
+                              ...tempSettings,
+                              pgaAgencies: [...(tempSettings.pgaAgencies ?? []), { id: crypto.randomUUID(), agency: '', program: '', description: '', factor: tempSettings.pgaMultiplier }],
+                            })}
+                            className="px-4 py-2.5 bg-orange-600 text-white rounded-xl font-black uppercase tracking-widest text-xs shadow-lg shadow-orange-500/30 hover:bg-orange-700 transition-all active:scale-95 flex items-center gap-2"
+                          >
+                            <Plus size={14} />
+                            <span>Add Agency</span>
+                          </button>
+                        </div>
+                        <div className="rounded-3xl border-2 border-slate-200 dark:border-slate-700 overflow-hidden shadow-lg">
+                          <table className="w-full text-sm">
+                            <thead className="bg-slate-50 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                              <tr>
+                                <th className="p-3 text-left">Agency</th>
+                                <th className="p-3 text-left">Program Code</th>
+                                <th className="p-3 text-left">Description</th>
+                                <th className="p-3 text-left">Liability Factor</th>
+                                <th className="p-3" />
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {(tempSettings.pgaAgencies ?? []).map((agency: PgaAgency) => {
+                                const updateAgency = (patch: Partial<PgaAgency>) => setTempSettings({
+                                  ...tempSettings,
+                                  pgaAgencies: tempSettings.pgaAgencies.map((a: PgaAgency) => (a.id === agency.id ? { ...a, ...patch } : a)),
+                                });
+                                return (
+                                  <tr key={agency.id} className="border-t border-slate-100 dark:border-slate-700">
+                                    <td className="p-2"><input type="text" value={agency.agency} onChange={(e) => updateAgency({ agency: e.target.value.toUpperCase() })} placeholder="FDA" className="w-24 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-orange-500" /></td>
+                                    <td className="p-2"><input type="text" value={agency.program} onChange={(e) => updateAgency({ program: e.target.value.toUpperCase() })} placeholder="FOO" className="w-24 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-mono text-sm outline-none focus:border-orange-500" /></td>
+                                    <td className="p-2"><input type="text" value={agency.description} onChange={(e) => updateAgency({ description: e.target.value })} placeholder="Program description" className="w-full rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 text-sm outline-none focus:border-orange-500" /></td>
+                                    <td className="p-2"><input type="number" step="0.1" min="0" value={agency.factor} onChange={(e) => updateAgency({ factor: parseFloat(e.target.value) || 0 })} className="w-24 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-orange-500" /></td>
+                                    <td className="p-2 text-right">
+                                      <button
+                                        onClick={() => setTempSettings({ ...tempSettings, pgaAgencies: tempSettings.pgaAgencies.filter((a: PgaAgency) => a.id !== agency.id) })}
+                                        className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all"
+                                        title="Remove agency"
+                                      >
+                                        <Trash2 size={14} />
+                                      </button>
+                                    </td>
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+
+                      {/* Effective-Dated Rate Schedules */}
+                      <div className="mt-12 space-y-6">
+                        <div className="flex items-center justify-between">
+                          <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
+                            <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+                              <History size={16} className="text-blue-600" />
+                            </div>
+                            <span>Rate Schedules</span>
+                          </label>
+                          <button
+                            onClick={() => setTempSettings({
+                              ...tempSettings,
+                              rateSchedules: [...(tempSettings.rateSchedules ?? []), {
+                                id: crypto.randomUUID(),
+                                name: `Rates from ${nextQuarterStart()}`,
+                                effectiveFrom: nextQuarterStart(),
+                                effectiveTo: '',
+                                rates: pickScheduleRates(tempSettings),
+                              }],
+                            })}
+                            className="px-4 py-2.5 bg-blue-600 text-white rounded-xl font-black uppercase tracking-widest text-xs shadow-lg shadow-blue-500/30 hover:bg-blue-700 transition-all active:scale-95 flex items-center gap-2"
+                          >
+                            <Plus size={14} />
+                            <span>Stage Next Quarter</span>
+                          </button>
+                        </div>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          The base formulas and parameters above apply on any date no schedule covers. A new schedule starts as a copy of the base rates.
+                        </p>
+                        {(tempSettings.rateSchedules ?? []).map((schedule: RateSchedule) => {
+                          const updateSchedule = (patch: Partial<RateSchedule>) => setTempSettings({
+                            ...tempSettings,
+                            rateSchedules: tempSettings.rateSchedules.map((s: RateSchedule) => (s.id === schedule.id ? { ...s, ...patch } : s)),
+                          });
+                          return (
+                            <div key={schedule.id} className="p-6 rounded-3xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-lg space-y-4">
+                              <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-4 items-end">
+                                <div>
+                                  <label className="text-[10px] font-black uppercase tracking-widest text-slate-500 block mb-2">Schedule Name</label>
+                                  <input type="text" value={schedule.name} onChange={(e) => updateSchedule({ name: e.target.value })} className="w-full rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-blue-500" />
+                                </div>
+                                <div>
+                                  <label className="text-[10px] font-black uppercase tracking-widest text-slate-500 block mb-2">Effective From</label>
+                                  <input type="date" value={schedule.effectiveFrom} onChange={(e) => updateSchedule({ effectiveFrom: e.target.value })} className="w-full rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-bold text-sm outline-none focus:border-blue-500" />
+                                </div>
+                                <div>
+                                  <label className="text-[10px] font-black uppercase tracking-widest text-slate-500 block mb-2">Effective To</label>
+                                  <input type="date" value={schedule.effectiveTo} onChange={(e) => updateSchedule({ effectiveTo: e.target.value })} className="w-full rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-bold text-sm outline-none focus:border-blue-500" />
+                                </div>
+                                <button
+                                  onClick={() => setTempSettings({ ...tempSettings, rateSchedules: tempSettings.rateSchedules.filter((s: RateSchedule) => s.id !== schedule.id) })}
+                                  className="p-2.5 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all"
+                                  title="Remove schedule"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              </div>
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                {SCHEDULE_RATE_FIELDS.map(({ key, label }) => (
+                                  <div key={key} className={typeof schedule.rates[key] === 'string' ? 'md:col-span-2' : ''}>
+                                    <label className="text-[10px] font-black uppercase tracking-widest text-slate-500 block mb-1">{label}</label>
+                                    {typeof schedule.rates[key] === 'string' ? (
+                                      <input
+                                        type="text"
+                                        value={schedule.rates[key]}
+                                        onChange={(e) => updateSchedule({ rates: { ...schedule.rates, [key]: e.target.value } })}
+                                        className="w-full rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-800 py-2 px-3 font-mono text-xs outline-none focus:border-blue-500"
+                                      />
+                                    ) : (
+                                      <input
+                                        type="number"
+                                        step="0.01"
+                                        value={schedule.rates[key]}
+                                        onChange={(e) => updateSchedule({ rates: { ...schedule.rates, [key]: parseFloat(e.target.value) || 0 } })}
+                                        className="w-full rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-800 py-2 px-3 font-bold text-sm outline-none focus:border-blue-500"
+                                      />
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+
+                      {/* Bracketed Rate Tables */}
+                      <div className="mt-12 space-y-6">
+                        <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
+                          <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+                            <Layers size={16} className="text-blue-600" />
+                          </div>
+                          <span>Bracketed Rate Tables (rate per $1,000 of bond value)</span>
+                        </label>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          When a table is switched on it replaces the buy or sell formula for both modes. Limits are band upper bounds; the open-ended top band has a limit of 0.
+                        </p>
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                          {(['buy', 'sell'] as const).map(side => {
+                            const methodKey = side === 'buy' ? 'buyBracketMethod' : 'sellBracketMethod';
+                            const bandsKey = side === 'buy' ? 'buyRateBands' : 'sellRateBands';
+                            const bands: RateBand[] = tempSettings[bandsKey] ?? DEFAULT_SETTINGS[bandsKey];
+                            const updateBand = (id: string, patch: Partial<RateBand>) => setTempSettings({
+                              ...tempSettings,
+                              [bandsKey]: bands.map(b => (b.id === id ? { ...b, ...patch } : b)),
+                            });
+                            return (
+                              <div key={side} className="rounded-3xl border-2 border-slate-200 dark:border-slate-700 overflow-hidden shadow-lg">
+                                <div className="p-4 bg-slate-50 dark:bg-slate-900 flex items-center justify-between gap-3">
+                                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{side === 'buy' ? 'Buy' : 'Sell'} Brackets</span>
+                                  <div className="flex items-center gap-2">
+                                    <select
+                                      value={tempSettings[methodKey] ?? 'off'}
+                                      onChange={(e) => setTempSettings({ ...tempSettings, [methodKey]: e.target.value as BracketMethod })}
+                                      className="rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 py-1.5 px-2 font-bold text-xs outline-none focus:border-blue-500"
+                                    >
+                                      {(Object.keys(BRACKET_METHODS) as BracketMethod[]).map(method => (
+                                        <option key={method} value={method}>{BRACKET_METHODS[method]}</option>
+                                      ))}
+                                    </select>
+                                    <button
+                                      onClick={() => setTempSettings({ ...tempSettings, [bandsKey]: [...bands, { id: crypto.randomUUID(), upTo: 0, ratePerThousand: 0 }] })}
+                                      className="p-2 bg-blue-600 text-white rounded-lg shadow-lg shadow-blue-500/30 hover:bg-blue-700 transition-all active:scale-95"
+                                      title="Add band"
+                                    >
+                                      <Plus size={14} />
+                                    </button>
+                                  </div>
+                                </div>
+                                <table className="w-full text-sm">
+                                  <thead className="bg-slate-50 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                                    <tr>
+                                      <th className="p-3 text-left">Up To ($)</th>
+                                      <th className="p-3 text-left">Rate / $1,000</th>
+                                      <th className="p-3" />
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {bands.map(band => (
+                                      <tr key={band.id} className="border-t border-slate-100 dark:border-slate-700">
+                                        <td className="p-2"><input type="number" step="1000" min="0" value={band.upTo} onChange={(e) => updateBand(band.id, { upTo: parseFloat(e.target.value) || 0 })} className="w-full rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-blue-500" /></td>
+                                        <td className="p-2"><input type="number" step="0.01" min="0" value={band.ratePerThousand} onChange={(e) => updateBand(band.id, { ratePerThousand: parseFloat(e.target.value) || 0 })} className="w-full rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-blue-500" /></td>
+                                        <td className="p-2 text-right">
+                                          <button
+                                            onClick={() => setTempSettings({ ...tempSettings, [bandsKey]: bands.filter(b => b.id !== band.id) })}
+                                            className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all"
+                                            title="Remove band"
+                                          >
+                                            <Trash2 size={14} />
+                                          </button>
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+
+                      {/* Customer Pricing Profiles */}
+                      <div className="mt-12 space-y-6">
+                        <div className="flex items-center justify-between">
+                          <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
+                            <div className="p-2 bg-orange-100 dark:bg-orange-900/30 rounded-xl">
+                              <Users size={16} className="text-orange-600" />
+                            </div>
+                            <span>Customer Pricing Profiles (0 = standard)</span>
+                          </label>
+                          <button
+                            onClick={() => setTempSettings({
+                              ...tempSettings,
+                              customerProfiles: [...(tempSettings.customerProfiles ?? []), { id: crypto.randomUUID(), name: '', sellRatePercent: 0, minBilling: 0, pgaMultiplier: 0 }],
+                            })}
+                            className="px-4 py-2.5 bg-orange-600 text-white rounded-xl font-black uppercase tracking-widest text-xs shadow-lg shadow-orange-500/30 hover:bg-orange-700 transition-all active:scale-95 flex items-center gap-2"
+                          >
+                            <Plus size={14} />
+                            <span>Add Customer</span>
+                          </button>
+                        </div>
+                        {(tempSettings.customerProfiles ?? []).length === 0 ? (
+                          <p className="text-xs text-slate-500 dark:text-slate-400">No customer profiles - every importer is billed at standard pricing.</p>
+                        ) : (
+                          <div className="rounded-3xl border-2 border-slate-200 dark:border-slate-700 overflow-hidden shadow-lg">
+                            <table className="w-full text-sm">
+                              <thead className="bg-slate-50 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                                <tr>
+                                  <th className="p-3 text-left">Customer</th>
+                                  <th className="p-3 text-left">Sell Rate (%)</th>
+                                  <th className="p-3 text-left">Min Billing ($)</th>
+                                  <th className="p-3 text-left">PGA Factor (x)</th>
+                                  <th className="p-3" />
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {(tempSettings.customerProfiles as CustomerProfile[]).map(profile => {
+                                  const profiles: CustomerProfile[] = tempSettings.customerProfiles;
+                                  const updateProfile = (patch: Partial<CustomerProfile>) => setTempSettings({
+                                    ...tempSettings,
+                                    customerProfiles: profiles.map(c => (c.id === profile.id ? { ...c, ...patch } : c)),
+                                  });
+                                  return (
+                                    <tr key={profile.id} className="border-t border-slate-100 dark:border-slate-700">
+                                      <td className="p-2"><input type="text" value={profile.name} onChange={(e) => updateProfile({ name: e.target.value })} className="w-full rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-orange-500" placeholder="Importer name" /></td>
+                                      <td className="p-2"><input type="number" step="0.01" min="0" value={profile.sellRatePercent} onChange={(e) => updateProfile({ sellRatePercent: parseFloat(e.target.value) || 0 })} className="w-28 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-orange-500" /></td>
+                                      <td className="p-2"><input type="number" step="1" min="0" value={profile.minBilling} onChange={(e) => updateProfile({ minBilling: parseFloat(e.target.value) || 0 })} className="w-28 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-orange-500" /></td>
+                                      <td className="p-2"><input type="number" step="0.1" min="0" value={profile.pgaMultiplier} onChange={(e) => updateProfile({ pgaMultiplier: parseFloat(e.target.value) || 0 })} className="w-28 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-orange-500" /></td>
+                                      <td className="p-2 text-right">
+                                        <button
+                                          onClick={() => setTempSettings({ ...tempSettings, customerProfiles: profiles.filter(c => c.id !== profile.id) })}
+                                          className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all"
+                                          title="Remove customer"
+                                        >
+                                          <Trash2 size={14} />
+                                        </button>
+                                      </td>
+                                    </tr>
+                                  );
+                                })}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Continuous Bond Premium Tiers */}
+                      <div className="mt-12 space-y-6">
+                        <div className="flex items-center justify-between">
+                          <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
+                            <div className="p-2 bg-orange-100 dark:bg-orange-900/30 rounded-xl">
+                              <ShieldCheck size={16} className="text-orange-600" />
+                            </div>
+                            <span>Continuous Bond Premium Tiers</span>
+                          </label>
+                          <button
+                            onClick={() => setTempSettings({
+                              ...tempSettings,
+                              continuousBondTiers: [...(tempSettings.continuousBondTiers ?? DEFAULT_CONTINUOUS_BOND_TIERS), { id: crypto.randomUUID(), limit: 0, premium: 0 }],
+                            })}
+                            className="px-4 py-2.5 bg-orange-600 text-white rounded-xl font-black uppercase tracking-widest text-xs shadow-lg shadow-orange-500/30 hover:bg-orange-700 transition-all active:scale-95 flex items-center gap-2"
+                          >
+                            <Plus size={14} />
+                            <span>Add Tier</span>
+                          </button>
+                        </div>
+                        <div className="rounded-3xl border-2 border-slate-200 dark:border-slate-700 overflow-hidden shadow-lg">
+                          <table className="w-full text-sm">
+                            <thead className="bg-slate-50 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                              <tr>
+                                <th className="p-3 text-left">Limit of Liability ($)</th>
+                                <th className="p-3 text-left">Annual Premium ($)</th>
+                                <th className="p-3" />
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {(tempSettings.continuousBondTiers ?? DEFAULT_CONTINUOUS_BOND_TIERS).map((tier: ContinuousBondTier) => {
+                                const tiers: ContinuousBondTier[] = tempSettings.continuousBondTiers ?? DEFAULT_CONTINUOUS_BOND_TIERS;
+                                const updateTier = (patch: Partial<ContinuousBondTier>) => setTempSettings({
+                                  ...tempSettings,
+                                  continuousBondTiers: tiers.map(t => (t.id === tier.id ? { ...t, ...patch } : t)),
+                                });
+                                return (
+                                  <tr key={tier.id} className="border-t border-slate-100 dark:border-slate-700">
+                                    <td className="p-2"><input type="number" step="1000" min="0" value={tier.limit} onChange={(e) => updateTier({ limit: parseFloat(e.target.value) || 0 })} className="w-40 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-orange-500" /></td>
+                                    <td className="p-2"><input type="number" step="1" min="0" value={tier.premium} onChange={(e) => updateTier({ premium: parseFloat(e.target.value) || 0 })} className="w-40 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-black text-sm outline-none focus:border-orange-500" /></td>
+                                    <td className="p-2 text-right">
+                                      <button
+                                        onClick={() => setTempSettings({ ...tempSettings, continuousBondTiers: tiers.filter(t => t.id !== tier.id) })}
+                                        className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all"
+                                        title="Remove tier"
+                                      >
+                                        <Trash2 size={14} />
+                                      </button>
+                                    </td>
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+
+                      {/* Billing Rules */}
+                      <div className="mt-12 space-y-6">
+                        <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
+                          <div className="p-2 bg-amber-100 dark:bg-amber-900/30 rounded-xl">
+                            <ShieldCheck size={16} className="text-amber-600" />
+                          </div>
+                          <span>Billing Rules (0 = not applied)</span>
+                        </label>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                          {([
+                            { key: 'maxBilling', label: 'Maximum Bill Cap' },
+                            { key: 'standardMinBilling', label: 'Standard Entry Floor' },
+                            { key: 'pgaMinBilling', label: 'PGA Entry Floor' },
+                          ] as const).map(({ key, label }) => (
+                            <div key={key} className="space-y-2">
+                              <span className="text-[10px] font-black uppercase text-slate-500 dark:text-slate-400 tracking-widest">{label}</span>
+                              <div className="relative group">
+                                <input
+                                  type="number"
+                                  step="1"
+                                  min="0"
+                                  value={tempSettings[key] ?? 0}
+                                  onChange={(e) => setTempSettings({ ...tempSettings, [key]: parseFloat(e.target.value) || 0 })}
+                                  className="w-full bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-2xl py-4 px-5 font-black text-xl outline-none focus:border-amber-500 focus:ring-4 focus:ring-amber-500/10 transition-all duration-300 shadow-lg text-slate-900 dark:text-white"
+                                />
+                                <div className="absolute right-5 top-1/2 -translate-y-1/2 text-slate-400 dark:text-slate-500 font-black text-sm">$ USD</div>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
+                      {/* ISF Bond Pricing */}
+                      <div className="mt-12 space-y-6">
+                        <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
+                          <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-xl">
+                            <Ship size={16} className="text-emerald-600" />
+                          </div>
+                          <span>ISF Bond Pricing (per filing)</span>
+                        </label>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                          {([
+                            { key: 'isfBuyPrice', label: 'ISF Buy Price' },
+                            { key: 'isfSellPrice', label: 'ISF Sell Price' },
+                          ] as const).map(({ key, label }) => (
+                            <div key={key} className="space-y-2">
+                              <span className="text-[10px] font-black uppercase text-slate-500 dark:text-slate-400 tracking-widest">{label}</span>
+                              <div className="relative group">
+                                <input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={tempSettings[key] ?? 0}
+                                  onChange={(e) => setTempSettings({ ...tempSettings, [key]: parseFloat(e.target.value) || 0 })}
+                                  className="w-full bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-2xl py-4 px-5 font-black text-xl outline-none focus:border-emerald-500 focus:ring-4 focus:ring-emerald-500/10 transition-all duration-300 shadow-lg text-slate-900 dark:text-white"
+                                />
+                                <div className="absolute right-5 top-1/2 -translate-y-1/2 text-slate-400 dark:text-slate-500 font-black text-sm">$ USD</div>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
+                      {/* Rounding Policy */}
+                      <div className="mt-12 space-y-6">
+                        <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
+                          <div className="p-2 bg-slate-100 dark:bg-slate-700 rounded-xl">
+                            <Calculator size={16} className="text-slate-600 dark:text-slate-300" />
+                          </div>
+                          <span>Rounding Policy (to the cent)</span>
+                        </label>
+                        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+                          {([
+                            { key: 'buyRounding', label: 'Buy Output' },
+                            { key: 'sellRounding', label: 'Sell Output' },
+                            { key: 'displayRounding', label: 'Bond Value Display' },
+                            { key: 'invoiceRounding', label: 'Invoice / Copy' },
+                          ] as const).map(({ key, label }) => (
+                            <div key={key} className="space-y-2">
+                              <span className="text-[10px] font-black uppercase text-slate-500 dark:text-slate-400 tracking-widest">{label}</span>
+                              <select
+                                value={tempSettings[key] ?? 'half-up'}
+                                onChange={(e) => setTempSettings({ ...tempSettings, [key]: e.target.value as RoundingMode })}
+                                className="w-full bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-2xl py-4 px-5 font-bold text-sm outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 transition-all duration-300 shadow-lg text-slate-900 dark:text-white"
+                              >
+                                {(Object.keys(ROUNDING_MODES) as RoundingMode[]).map(mode => (
+                                  <option key={mode} value={mode}>{ROUNDING_MODES[mode]}</option>
+                                ))}
+                              </select>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
                       {/* Enhanced Live Sandbox Validation */}
                       <div className="mt-12 relative overflow-hidden">
                         <div className="absolute inset-0 bg-gradient-to-r from-blue-600 via-blue-700 to-blue-800 rounded-3xl" />
@@ -845,7 +3401,7 @@ const App: React.FC = () => {
                             </div>
                             <div className="flex items-center gap-3">
                               <div className="px-4 py-2 bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20">
-                                <span className="text-sm font-black uppercase tracking-wider">Test Entry: $10,000</span>
+                                <span className="text-sm font-black uppercase tracking-wider">Test Entry: ${formatMoney(sandboxVariables.invoice_value ?? 0n)}</span>
                               </div>
                               <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse shadow-lg shadow-green-400/50" />
                             </div>
@@ -871,7 +3427,7 @@ const App: React.FC = () => {
                                 <p className="text-sm font-black uppercase opacity-80 tracking-wider">Sell Output</p>
                               </div>
                               <p className="text-5xl font-black text-white">${testResults.sell}</p>
-                              <p className="text-xs text-green-100 mt-2 font-medium">Final fee calculation</p>
+                              <p className="text-xs text-green-100 mt-2 font-medium">Final fee calculation · {BILLING_RULE_LABELS[testResults.rule]}</p>
                             </div>
                           </div>
 
@@ -881,6 +3437,167 @@ const App: React.FC = () => {
                           </div>
                         </div>
                       </div>
+
+                      {/* Sensitivity Chart */}
+                      <div className="mt-12 space-y-6">
+                        <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
+                          <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+                            <Activity size={16} className="text-blue-600" />
+                          </div>
+                          <span>Sensitivity</span>
+                        </label>
+                        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                          <select
+                            value={sensitivity.mode}
+                            onChange={(e) => {
+                              const mode = e.target.value as EntryMode;
+                              setSensitivity({ ...sensitivity, mode, variable: SENSITIVITY_VARIABLES[mode][0].name });
+                            }}
+                            className="rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 py-2 px-3 font-bold text-sm outline-none focus:border-blue-500"
+                          >
+                            <option value="without">Standard Formulas</option>
+                            <option value="with">PGA Formulas</option>
+                          </select>
+                          <select
+                            value={sensitivity.variable}
+                            onChange={(e) => setSensitivity({ ...sensitivity, variable: e.target.value })}
+                            className="rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 py-2 px-3 font-bold text-sm outline-none focus:border-blue-500"
+                          >
+                            {SENSITIVITY_VARIABLES[sensitivity.mode].map(({ name, label }) => <option key={name} value={name}>Sweep {label}</option>)}
+                          </select>
+                          {(['from', 'to'] as const).map(bound => (
+                            <div key={bound} className="relative">
+                              <input
+                                type="number"
+                                value={sensitivity[bound]}
+                                onChange={(e) => setSensitivity({ ...sensitivity, [bound]: e.target.value })}
+                                className="w-full rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 py-2 pl-3 pr-12 font-bold text-sm outline-none focus:border-blue-500"
+                              />
+                              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-[10px] font-black uppercase text-slate-400">{bound}</span>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="p-6 rounded-3xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-lg">
+                          <SensitivityChart points={sensitivityPoints} buyColor={COLORS.primary} sellColor={COLORS.accent} />
+                          <div className="flex items-center justify-center gap-6 mt-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                            <span className="flex items-center gap-2"><span className="w-4 h-0.5" style={{ backgroundColor: COLORS.primary }} /> Buy</span>
+                            <span className="flex items-center gap-2"><span className="w-4 h-0.5" style={{ backgroundColor: COLORS.accent }} /> Sell (billed)</span>
+                            <span className="flex items-center gap-2"><span className="w-4 border-t-2 border-dashed border-amber-500" /> Minimum Billing</span>
+                          </div>
+                        </div>
+                      </div>
+
+                      {/* Formula Test Suite */}
+                      <div className="mt-12 space-y-6">
+                        <div className="flex items-center justify-between">
+                          <label className="text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3">
+                            <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+                              <Check size={16} className="text-blue-600" />
+                            </div>
+                            <span>Formula Test Suite</span>
+                            {testSuiteResults.length > 0 && (
+                              <span className={`px-2 py-1 rounded-lg text-[10px] ${failingTestCount ? 'bg-red-100 text-red-600 dark:bg-red-900/30' : 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'}`}>
+                                {failingTestCount ? `${failingTestCount} failing` : 'All passing'}
+                              </span>
+                            )}
+                          </label>
+                          <div className="flex gap-2">
+                            {(['without', 'with'] as const).map(mode => (
+                              <button
+                                key={mode}
+                                onClick={() => addFormulaTestCase(mode)}
+                                className="px-4 py-2.5 bg-blue-600 text-white rounded-xl font-black uppercase tracking-widest text-xs shadow-lg shadow-blue-500/30 hover:bg-blue-700 transition-all active:scale-95 flex items-center gap-2"
+                              >
+                                <Plus size={14} />
+                                <span>{mode === 'without' ? 'Standard Case' : 'PGA Case'}</span>
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          Every case is re-run against the draft formulas on each edit. Commits are blocked while any case fails.
+                        </p>
+                        {(tempSettings.formulaTestCases ?? []).length > 0 && (
+                          <div className="rounded-3xl border-2 border-slate-200 dark:border-slate-700 overflow-x-auto shadow-lg">
+                            <table className="w-full text-sm">
+                              <thead className="bg-slate-50 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                                <tr>
+                                  <th className="p-3 text-left">Case</th>
+                                  <th className="p-3 text-left">Inputs</th>
+                                  <th className="p-3 text-left">Expected Buy</th>
+                                  <th className="p-3 text-left">Expected Sell</th>
+                                  <th className="p-3 text-right">Actual Buy</th>
+                                  <th className="p-3 text-right">Actual Sell</th>
+                                  <th className="p-3" />
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {(tempSettings.formulaTestCases as FormulaTestCase[]).map((testCase, i) => {
+                                  const result: FormulaTestResult = testSuiteResults[i];
+                                  const variables = [...TEST_CASE_VARIABLES[testCase.mode], ...formulaInputsFor(tempSettings, testCase.mode).map(input => input.name)];
+                                  const delta = (value: Decimal) => (value === 0n ? null : `${value > 0n ? '+' : ''}${decimalToString(value, 2)}`);
+                                  return (
+                                    <tr key={testCase.id} className={`border-t border-slate-100 dark:border-slate-700 align-top ${result.passed ? '' : 'bg-red-50/60 dark:bg-red-900/10'}`}>
+                                      <td className="p-2">
+                                        <input type="text" value={testCase.name} onChange={(e) => updateTestCase(testCase.id, { name: e.target.value })} className="w-32 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-bold text-sm outline-none focus:border-blue-500" />
+                                        <span className="block mt-1 text-[10px] font-black uppercase tracking-widest text-slate-400">{testCase.mode === 'without' ? 'Standard' : 'PGA'}</span>
+                                      </td>
+                                      <td className="p-2 space-y-1">
+                                        {variables.map(name => (
+                                          <div key={name} className="flex items-center gap-2">
+                                            <span className="w-44 font-mono text-[10px] text-slate-500 truncate">{name}</span>
+                                            <input
+                                              type="number"
+                                              value={testCase.inputs[name] ?? ''}
+                                              onChange={(e) => {
+                                                const { [name]: _previous, ...rest } = testCase.inputs;
+                                                updateTestCase(testCase.id, { inputs: e.target.value === '' ? rest : { ...rest, [name]: parseFloat(e.target.value) || 0 } });
+                                              }}
+                                              placeholder={name === 'pga_liability_factor' ? 'default' : '0'}
+                                              className="w-28 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-1 px-2 font-mono text-xs outline-none focus:border-blue-500"
+                                            />
+                                          </div>
+                                        ))}
+                                      </td>
+                                      {(['expectedBuy', 'expectedSell'] as const).map(key => (
+                                        <td key={key} className="p-2">
+                                          <input type="number" step="0.01" value={testCase[key]} onChange={(e) => updateTestCase(testCase.id, { [key]: parseFloat(e.target.value) || 0 })} className="w-28 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-mono text-sm outline-none focus:border-blue-500" />
+                                        </td>
+                                      ))}
+                                      {[{ actual: result.buy, diff: delta(result.buyDelta) }, { actual: result.sell, diff: delta(result.sellDelta) }].map(({ actual, diff }, j) => (
+                                        <td key={j} className="p-3 text-right font-mono">
+                                          <span className="font-bold">${formatMoney(actual)}</span>
+                                          {diff && <span className="block text-xs font-black text-red-600">{diff}</span>}
+                                        </td>
+                                      ))}
+                                      <td className="p-2 text-right whitespace-nowrap">
+                                        {result.passed ? (
+                                          <span className="inline-flex p-2 text-green-600"><Check size={16} /></span>
+                                        ) : (
+                                          <button
+                                            onClick={() => updateTestCase(testCase.id, { expectedBuy: decimalToNumber(result.buy), expectedSell: decimalToNumber(result.sell) })}
+                                            className="px-2 py-1 rounded-lg border border-red-300 text-red-600 text-[10px] font-black uppercase tracking-widest hover:bg-red-100 dark:hover:bg-red-900/30 transition-all"
+                                            title="Accept the draft results as the new expected values"
+                                          >
+                                            Accept
+                                          </button>
+                                        )}
+                                        <button
+                                          onClick={() => setTempSettings({ ...tempSettings, formulaTestCases: tempSettings.formulaTestCases.filter((c: FormulaTestCase) => c.id !== testCase.id) })}
+                                          className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all"
+                                          title="Remove case"
+                                        >
+                                          <Trash2 size={14} />
+                                        </button>
+                                      </td>
+                                    </tr>
+                                  );
+                                })}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
+                      </div>
                     </section>
                   </div>
                 )}
@@ -896,6 +3613,30 @@ const App: React.FC = () => {
               </div>
 
               <div className="flex flex-col sm:flex-row gap-4 w-full lg:w-auto lg:ml-auto order-1 lg:order-2">
+                <input
+                  type="text"
+                  value={commitAuthor}
+                  onChange={(e) => setCommitAuthor(e.target.value)}
+                  placeholder="Your name"
+                  className="px-4 py-4 rounded-2xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 font-bold text-sm outline-none focus:border-blue-500 sm:w-40"
+                />
+                {SETTINGS_SERVER_URL && (
+                  <input
+                    type="password"
+                    value={storeToken}
+                    onChange={(e) => setStoreToken(e.target.value)}
+                    placeholder="Store token"
+                    autoComplete="off"
+                    className="px-4 py-4 rounded-2xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 font-bold text-sm outline-none focus:border-blue-500 sm:w-40"
+                  />
+                )}
+                <input
+                  type="text"
+                  value={commitNote}
+                  onChange={(e) => setCommitNote(e.target.value)}
+                  placeholder="Change note (optional)"
+                  className="px-4 py-4 rounded-2xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm outline-none focus:border-blue-500 sm:w-56"
+                />
                 <button
                   onClick={resetToDefault}
                   className="px-8 py-4 bg-gradient-to-r from-slate-200 to-slate-300 dark:from-slate-700 dark:to-slate-600 text-slate-700 dark:text-slate-300 rounded-2xl font-black uppercase tracking-widest hover:from-slate-300 hover:to-slate-400 dark:hover:from-slate-600 dark:hover:to-slate-500 transition-all active:scale-95 shadow-lg hover:shadow-xl flex items-center justify-center gap-3 text-sm border border-slate-300 dark:border-slate-600"
@@ -906,7 +3647,9 @@ const App: React.FC = () => {
 
                 <button
                   onClick={saveSettings}
-                  className="px-8 py-4 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-2xl font-black uppercase tracking-widest shadow-2xl shadow-blue-500/40 hover:shadow-blue-500/60 hover:from-blue-700 hover:to-blue-800 transition-all active:scale-95 flex items-center justify-center gap-3 text-sm"
+                  disabled={failingTestCount > 0}
+                  title={failingTestCount > 0 ? `${failingTestCount} formula test case(s) failing` : undefined}
+                  className="px-8 py-4 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-2xl font-black uppercase tracking-widest shadow-2xl shadow-blue-500/40 hover:shadow-blue-500/60 hover:from-blue-700 hover:to-blue-800 transition-all active:scale-95 flex items-center justify-center gap-3 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <Save size={18} />
                   <span>COMMIT ALL PARAMETERS</span>
@@ -917,6 +3660,321 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Entry History Ledger */}
+      {showHistory && (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl animate-in fade-in duration-300">
+          <div className="bg-white dark:bg-slate-800 w-full max-w-5xl rounded-[2rem] shadow-2xl border border-slate-200/50 dark:border-slate-700/50 overflow-hidden flex flex-col h-[85vh]">
+            <div className="flex items-center justify-between p-8 bg-gradient-to-r from-slate-50 via-white to-slate-50 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900 border-b border-slate-200/60 dark:border-slate-700/60">
+              <div className="flex items-center gap-4">
+                <div className="p-4 bg-gradient-to-br from-blue-600 to-blue-700 rounded-2xl text-white shadow-xl shadow-blue-500/30">
+                  <History size={28} />
+                </div>
+                <div>
+                  <h3 className="text-3xl font-black tracking-tight uppercase">Entry History</h3>
+                  <p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest mt-1">{ledgerEntries.length} entries stored on this device</p>
+                </div>
+              </div>
+              <button onClick={() => setShowHistory(false)} className="p-4 rounded-2xl hover:bg-slate-100 dark:hover:bg-slate-700 transition-all text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 hover:scale-110 group">
+                <X size={28} className="group-hover:rotate-90 transition-transform duration-200" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-6 border-b border-slate-200/60 dark:border-slate-700/60">
+              <div className="relative md:col-span-1">
+                <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input type="text" value={historySearch} onChange={(e) => setHistorySearch(e.target.value)} placeholder="Search entry, importer, amount" className="w-full rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2.5 pl-10 pr-4 text-sm font-bold outline-none focus:border-blue-500" />
+              </div>
+              <select value={historyImporter} onChange={(e) => setHistoryImporter(e.target.value)} className="rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2.5 px-4 text-sm font-bold outline-none focus:border-blue-500">
+                <option value="">All importers</option>
+                {historyImporters.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              <input type="date" value={historyFrom} onChange={(e) => setHistoryFrom(e.target.value)} title="From date" className="rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2.5 px-4 text-sm font-bold outline-none focus:border-blue-500" />
+              <input type="date" value={historyTo} onChange={(e) => setHistoryTo(e.target.value)} title="To date" className="rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2.5 px-4 text-sm font-bold outline-none focus:border-blue-500" />
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-3 custom-scrollbar">
+              {filteredLedgerEntries.length === 0 && (
+                <p className="text-center text-sm font-bold text-slate-400 uppercase tracking-widest py-16">No matching entries</p>
+              )}
+              {filteredLedgerEntries.map(entry => (
+                <div key={entry.id} className="flex flex-col md:flex-row md:items-center gap-4 p-5 rounded-2xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 hover:shadow-lg transition-all">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-3">
+                      <span className="font-black text-slate-900 dark:text-white truncate">{entry.entryNumber || 'Unnumbered Entry'}</span>
+                      <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-1 rounded-lg ${entry.isf ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300' : entry.mode === 'with' ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300' : 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'}`}>
+                        {ledgerModeLabel(entry)}
+                      </span>
+                    </div>
+                    <p className="text-xs font-bold text-slate-500 dark:text-slate-400 mt-1 truncate">
+                      {entry.importer || 'No importer'} · {new Date(entry.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-3 gap-4 text-right text-sm">
+                    <div><span className="block text-[10px] font-black uppercase text-slate-400">Bond</span><span className="font-bold">${entry.outputs.bondValue}</span></div>
+                    <div><span className="block text-[10px] font-black uppercase text-slate-400">Buy</span><span className="font-bold" style={{ color: COLORS.primary }}>${entry.outputs.buy}</span></div>
+                    <div><span className="block text-[10px] font-black uppercase text-slate-400">Sell</span><span className="font-bold" style={{ color: COLORS.accent }}>${entry.outputs.sell}</span></div>
+                  </div>
+                  <button onClick={() => reopenEntry(entry)} className="px-5 py-3 bg-blue-600 text-white rounded-xl font-black uppercase tracking-widest text-xs shadow-lg shadow-blue-500/30 hover:bg-blue-700 transition-all active:scale-95 flex items-center justify-center gap-2">
+                    <FolderOpen size={14} />
+                    <span>Reopen</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Settings Import Review */}
+      {pendingImport && (
+        <div className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl animate-in fade-in duration-300">
+          <div className="bg-white dark:bg-slate-800 w-full max-w-4xl max-h-[85vh] rounded-[2rem] shadow-2xl border border-slate-200/50 dark:border-slate-700/50 flex flex-col overflow-hidden">
+            <div className="flex items-center justify-between p-8 border-b border-slate-200 dark:border-slate-700">
+              <div>
+                <h3 className="text-2xl font-black tracking-tight uppercase">Import Settings Bundle</h3>
+                <p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest mt-1">
+                  {pendingImport.fileName}
+                  {pendingImport.bundle && ` · exported ${new Date(pendingImport.bundle.exportedAt).toLocaleString()} by ${pendingImport.bundle.exportedBy}`}
+                </p>
+              </div>
+              <button onClick={() => setPendingImport(null)} className="p-3 rounded-2xl hover:bg-slate-100 dark:hover:bg-slate-700 transition-all text-slate-400 hover:text-slate-600 dark:hover:text-slate-300">
+                <X size={24} />
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+              {pendingImport.errors.length > 0 ? (
+                <div className="p-6 rounded-2xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 space-y-2">
+                  <div className="flex items-center gap-2 font-black text-red-600 dark:text-red-400 uppercase tracking-wide text-sm">
+                    <AlertTriangle size={16} /> <span>This bundle cannot be imported</span>
+                  </div>
+                  <ul className="list-disc pl-6 text-sm text-red-700 dark:text-red-300 space-y-1">
+                    {pendingImport.errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                </div>
+              ) : (
+                <>
+                  {pendingImport.bundle && pendingImport.bundle.palette !== palette && (
+                    <p className="text-sm font-bold text-slate-600 dark:text-slate-300">
+                      Palette: {PALETTES[palette].name} → {PALETTES[pendingImport.bundle.palette].name}
+                    </p>
+                  )}
+                  <div className="rounded-3xl border-2 border-slate-200 dark:border-slate-700 overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-slate-50 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                        <tr>
+                          <th className="p-3 text-left">Setting</th>
+                          <th className="p-3 text-left">Current Draft</th>
+                          <th className="p-3 text-left">Bundle</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {importChanges.length === 0 && (
+                          <tr><td colSpan={3} className="p-4 text-center text-slate-500">The bundle matches the current draft.</td></tr>
+                        )}
+                        {importChanges.map(change => (
+                          <tr key={change.key} className="border-t border-slate-100 dark:border-slate-700 align-top">
+                            <td className="p-3 font-mono text-xs font-bold text-slate-700 dark:text-slate-300">{change.key}</td>
+                            <td className="p-3 font-mono text-xs break-all text-red-600 dark:text-red-400 bg-red-50/50 dark:bg-red-900/10">{change.before}</td>
+                            <td className="p-3 font-mono text-xs break-all text-green-700 dark:text-green-400 bg-green-50/50 dark:bg-green-900/10">{change.after}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </div>
+            <div className="p-6 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-4">
+              <button onClick={() => setPendingImport(null)} className="px-6 py-3 bg-slate-100 dark:bg-slate-700 rounded-xl font-black text-slate-500 dark:text-slate-300 uppercase tracking-widest text-xs">Cancel</button>
+              <button
+                onClick={applySettingsImport}
+                disabled={!pendingImport.bundle}
+                className="px-6 py-3 bg-blue-600 text-white rounded-xl font-black uppercase tracking-widest text-xs shadow-lg shadow-blue-500/30 hover:bg-blue-700 transition-all disabled:opacity-40"
+              >
+                Apply to Draft
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Batch Pricing */}
+      {showBatch && (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl animate-in fade-in duration-300">
+          <div className="bg-white dark:bg-slate-800 w-full max-w-7xl rounded-[2rem] shadow-2xl border border-slate-200/50 dark:border-slate-700/50 overflow-hidden flex flex-col h-[90vh]">
+            <div className="flex items-center justify-between p-8 bg-gradient-to-r from-slate-50 via-white to-slate-50 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900 border-b border-slate-200/60 dark:border-slate-700/60">
+              <div className="flex items-center gap-4">
+                <div className="p-4 bg-gradient-to-br from-blue-600 to-blue-700 rounded-2xl text-white shadow-xl shadow-blue-500/30">
+                  <Table size={28} />
+                </div>
+                <div>
+                  <h3 className="text-3xl font-black tracking-tight uppercase">Batch Pricing</h3>
+                  <p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest mt-1">
+                    {batchSheet ? `${batchSheet.fileName} · ${batchSheet.rows.length} rows` : 'Upload a CSV or Excel (.xlsx) file with one entry per row'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="px-5 py-3 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-xl font-black uppercase tracking-widest text-xs hover:bg-slate-200 dark:hover:bg-slate-600 transition-all cursor-pointer flex items-center gap-2">
+                  <Upload size={14} /> <span>Upload File</span>
+                  <input type="file" accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" onChange={handleBatchUpload} className="hidden" />
+                </label>
+                <button onClick={exportBatchResults} disabled={!batchResults.length} className="px-5 py-3 bg-blue-600 text-white rounded-xl font-black uppercase tracking-widest text-xs shadow-lg shadow-blue-500/30 hover:bg-blue-700 transition-all disabled:opacity-40 flex items-center gap-2">
+                  <Download size={14} /> <span>Export CSV</span>
+                </button>
+                <button onClick={() => setShowBatch(false)} className="p-4 rounded-2xl hover:bg-slate-100 dark:hover:bg-slate-700 transition-all text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 hover:scale-110 group">
+                  <X size={28} className="group-hover:rotate-90 transition-transform duration-200" />
+                </button>
+              </div>
+            </div>
+
+            {batchSheet && batchMapping && (
+              <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4 p-6 border-b border-slate-200/60 dark:border-slate-700/60">
+                {BATCH_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <span className="text-[10px] font-black uppercase text-slate-500 dark:text-slate-400 tracking-widest">{field.label}</span>
+                    <select
+                      value={batchMapping[field.key]}
+                      onChange={(e) => setBatchMapping({ ...batchMapping, [field.key]: parseInt(e.target.value, 10) })}
+                      className="w-full rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 text-sm font-bold outline-none focus:border-blue-500"
+                    >
+                      <option value={-1}>— not mapped —</option>
+                      {batchSheet.headers.map((header, i) => <option key={i} value={i}>{header || `Column ${i + 1}`}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex-1 overflow-auto custom-scrollbar">
+              {batchResults.length === 0 ? (
+                <p className="text-center text-sm font-bold text-slate-400 uppercase tracking-widest py-16">No file loaded</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                    <tr>
+                      <th className="p-3 text-left">#</th>
+                      <th className="p-3 text-left">Entry</th>
+                      <th className="p-3 text-left">Importer</th>
+                      <th className="p-3 text-left">Mode</th>
+                      <th className="p-3 text-right">Bond Value</th>
+                      <th className="p-3 text-right">Buy</th>
+                      <th className="p-3 text-right">Sell</th>
+                      <th className="p-3 text-left">Billing Rule</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {batchResults.map(({ entryNumber: entry, importer: rowImporter, mode, pricing, error }, i) => (
+                      <tr key={i} className="border-t border-slate-100 dark:border-slate-700">
+                        <td className="p-3 text-slate-400 font-mono">{i + 1}</td>
+                        <td className="p-3 font-bold">{entry || '—'}</td>
+                        <td className="p-3">{rowImporter || '—'}</td>
+                        <td className="p-3">{mode === 'with' ? 'PGA' : 'Standard'}</td>
+                        {error ? (
+                          <td className="p-3 text-xs font-bold text-red-600 dark:text-red-400" colSpan={4}>{error} - not priced</td>
+                        ) : (
+                          <>
+                            <td className="p-3 text-right font-mono">${formatMoney(pricing.bondValue, adminSettings.displayRounding)}</td>
+                            <td className="p-3 text-right font-mono font-bold" style={{ color: COLORS.primary }}>${formatMoney(pricing.buy, adminSettings.buyRounding)}</td>
+                            <td className="p-3 text-right font-mono font-bold" style={{ color: COLORS.accent }}>${formatMoney(pricing.billing.billable, adminSettings.sellRounding)}</td>
+                            <td className="p-3">
+                              <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-1 rounded-lg ${pricing.billing.rule === 'formula' ? 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300' : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'}`}>
+                                {BILLING_RULE_LABELS[pricing.billing.rule]}
+                              </span>
+                            </td>
+                          </>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="sticky bottom-0 bg-slate-50 dark:bg-slate-900 font-black">
+                    <tr>
+                      <td className="p-3" colSpan={5}>Totals</td>
+                      <td className="p-3 text-right font-mono" style={{ color: COLORS.primary }}>${formatMoney(batchTotals.buy, adminSettings.buyRounding)}</td>
+                      <td className="p-3 text-right font-mono" style={{ color: COLORS.accent }}>${formatMoney(batchTotals.sell, adminSettings.sellRounding)}</td>
+                      <td className="p-3" />
+                    </tr>
+                  </tfoot>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Quote Preview */}
+      {activeQuote && (
+        <div className="fixed inset-0 z-[115] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl animate-in fade-in duration-300 quote-overlay">
+          <div className="w-full max-w-3xl max-h-[92vh] flex flex-col gap-4">
+            <div className="flex items-center justify-end gap-3 quote-actions">
+              <button
+                onClick={() => {
+                  void recordQuoteAudit('print-quote', { quoteNumber: activeQuote.quoteNumber, bondValue: activeQuote.bondValue ?? '', sell: activeQuote.sell });
+                  window.print();
+                }}
+                className="px-5 py-3 bg-white/10 text-white rounded-xl font-black uppercase tracking-widest text-xs border border-white/20 hover:bg-white/20 transition-all flex items-center gap-2">
+                <Printer size={14} /> <span>Print</span>
+              </button>
+              <button onClick={handleDownloadQuote} className="px-5 py-3 bg-blue-600 text-white rounded-xl font-black uppercase tracking-widest text-xs shadow-lg shadow-blue-500/30 hover:bg-blue-700 transition-all flex items-center gap-2">
+                <Download size={14} /> <span>Download PDF</span>
+              </button>
+              <button onClick={() => setActiveQuote(null)} className="p-3 rounded-xl text-white/70 hover:text-white hover:bg-white/10 transition-all">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div id="quote-document" className="bg-white text-slate-900 rounded-2xl shadow-2xl overflow-y-auto p-12">
+              <div className="flex items-center justify-between gap-6 pb-6 border-b-4" style={{ borderColor: COLORS.primary }}>
+                <img src={adminSettings.logo} alt="Brand Logo" className="h-14 w-auto object-contain" onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }} />
+                <div className="text-right">
+                  <p className="text-xl font-black" style={{ color: COLORS.accent }}>{COMPANY_HEADER.name}</p>
+                  <p className="text-xl font-black" style={{ color: COLORS.primary }}>{COMPANY_HEADER.dba}</p>
+                </div>
+              </div>
+
+              <div className="flex items-end justify-between mt-8 mb-6">
+                <h3 className="text-3xl font-black tracking-tight">{activeQuote.title}</h3>
+                <div className="text-right text-xs text-slate-500">
+                  <p className="font-bold">Quote {activeQuote.quoteNumber}</p>
+                  <p>{new Date(activeQuote.issuedAt).toLocaleString()}</p>
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <tbody>
+                  {([
+                    ['Entry Number', activeQuote.entryNumber || '—'],
+                    ['Importer', activeQuote.importer || '—'],
+                    ['Calculation Mode', activeQuote.modeLabel],
+                    ...activeQuote.inputs,
+                  ] as Array<[string, string]>).map(([label, value]) => (
+                    <tr key={label} className="border-b border-slate-100">
+                      <td className="py-2.5 text-slate-500 font-medium">{label}</td>
+                      <td className="py-2.5 text-right font-bold">{value}</td>
+                    </tr>
+                  ))}
+                  {activeQuote.bondValue !== null && (
+                    <tr>
+                      <td className="py-3 font-black">Bond Value</td>
+                      <td className="py-3 text-right font-black">${activeQuote.bondValue}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+
+              <div className="mt-6 rounded-xl px-6 py-5 flex items-center justify-between text-white" style={{ backgroundColor: COLORS.accent }}>
+                <span className="text-sm font-black uppercase tracking-widest">{activeQuote.chargeLabel}</span>
+                <span className="text-3xl font-black">${activeQuote.sell}</span>
+              </div>
+
+              <ul className="mt-8 space-y-2 text-xs text-slate-600 list-disc pl-5">
+                {[activeQuote.billingNote, activeQuote.isfNote, ...QUOTE_NOTES, activeQuote.continuousBondNote].map(note => <li key={note}>{note}</li>)}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Password Prompt */}
       {showPasswordPrompt && (
         <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl">
@@ -924,30 +3982,100 @@ const App: React.FC = () => {
             <div className="w-24 h-24 bg-blue-600 rounded-[2rem] flex items-center justify-center text-white mx-auto mb-10 shadow-[0_20px_40px_-10px_rgba(37,99,235,0.4)]">
               <Lock size={48} />
             </div>
-            <h3 className="text-3xl font-black mb-3 tracking-tighter">Identity Verification</h3>
-            <p className="text-slate-500 dark:text-slate-400 text-sm font-medium mb-12">Administrative access requires high-clearance credentials.</p>
-            <div className="relative mb-10">
+            <h3 className="text-3xl font-black mb-3 tracking-tighter">{hasAdminPassword ? 'Identity Verification' : 'Create Admin Password'}</h3>
+            <p className="text-slate-500 dark:text-slate-400 text-sm font-medium mb-12">
+              {hasAdminPassword
+                ? 'Administrative access requires high-clearance credentials.'
+                : `No admin password is set on this device yet. Choose one with at least ${MIN_PASSWORD_LENGTH} characters.`}
+            </p>
+            <div className="relative mb-10 space-y-4">
               <input 
-                type="password" autoFocus placeholder="••••" value={adminPassword}
+                type="password" autoFocus placeholder="••••••••" value={adminPassword}
                 onChange={(e) => setAdminPassword(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && checkPassword()}
-                className="w-full bg-slate-50 dark:bg-slate-900 border-b border-r border-transparent focus:border-blue-600 rounded-3xl py-6 px-8 text-center text-5xl font-mono tracking-[0.8em] outline-none transition-all shadow-inner placeholder:opacity-20"
+                className="w-full bg-slate-50 dark:bg-slate-900 border-b border-r border-transparent focus:border-blue-600 rounded-3xl py-6 px-8 text-center text-2xl font-mono tracking-[0.3em] outline-none transition-all shadow-inner placeholder:opacity-20"
               />
+              {!hasAdminPassword && (
+                <input
+                  type="password" placeholder="Confirm password" value={adminPasswordConfirm}
+                  onChange={(e) => setAdminPasswordConfirm(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && checkPassword()}
+                  className="w-full bg-slate-50 dark:bg-slate-900 border-b border-r border-transparent focus:border-blue-600 rounded-3xl py-6 px-8 text-center text-lg font-mono outline-none transition-all shadow-inner placeholder:opacity-40"
+                />
+              )}
             </div>
             <div className="flex gap-4">
-              <button onClick={() => setShowPasswordPrompt(false)} className="flex-1 py-5 bg-slate-100 dark:bg-slate-700 rounded-2xl font-black text-slate-500 dark:text-slate-300 transition-all active:scale-95 uppercase tracking-widest text-xs">CANCEL</button>
-              <button onClick={checkPassword} className="flex-1 py-5 bg-blue-600 text-white rounded-2xl font-black shadow-xl shadow-blue-600/30 transition-all active:scale-95 uppercase tracking-widest text-xs">VERIFY</button>
+              <button onClick={() => { setShowPasswordPrompt(false); setAdminPassword(''); setAdminPasswordConfirm(''); }} className="flex-1 py-5 bg-slate-100 dark:bg-slate-700 rounded-2xl font-black text-slate-500 dark:text-slate-300 transition-all active:scale-95 uppercase tracking-widest text-xs">CANCEL</button>
+              <button onClick={checkPassword} disabled={isVerifying} className="flex-1 py-5 bg-blue-600 text-white rounded-2xl font-black shadow-xl shadow-blue-600/30 transition-all active:scale-95 uppercase tracking-widest text-xs disabled:opacity-50">{hasAdminPassword ? 'VERIFY' : 'SET PASSWORD'}</button>
             </div>
           </div>
         </div>
       )}
 
        <main className="max-w-8xl mx-auto px-4 sm:px-6 lg:px-8 mt-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+         {settingsNotice && (
+           <div className="mb-8 p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 flex items-start gap-3 text-amber-800 dark:text-amber-300">
+             <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+             <p className="flex-1 text-sm font-bold">{settingsNotice}</p>
+             <button onClick={() => setSettingsNotice(null)} className="p-1 rounded-lg hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-all" title="Dismiss">
+               <X size={16} />
+             </button>
+           </div>
+         )}
+         {remoteUpdate && (
+           <div className="mb-8 p-4 rounded-2xl bg-blue-50 dark:bg-blue-900/20 border border-blue-300 dark:border-blue-700 flex items-center gap-3 text-blue-800 dark:text-blue-300">
+             <RefreshCw size={18} className="shrink-0" />
+             <p className="flex-1 text-sm font-bold">
+               Newer settings are on the server - revision {remoteUpdate.revision}, committed by {remoteUpdate.bundle.exportedBy} on {new Date(remoteUpdate.bundle.exportedAt).toLocaleString()}. This browser is on revision {settingsRevision || 'none'}.
+             </p>
+             <button onClick={() => applyRemoteSettings(remoteUpdate)} className="px-4 py-2 rounded-xl bg-blue-600 text-white text-xs font-black uppercase tracking-widest hover:bg-blue-700 transition-all active:scale-95">
+               Apply
+             </button>
+           </div>
+         )}
+         {syncStatus === 'offline' && (
+           <div className="mb-8 p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 flex items-start gap-3 text-amber-800 dark:text-amber-300">
+             <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+             <p className="flex-1 text-sm font-bold">
+               The shared settings server cannot be reached. Prices use the copy saved in this browser{settingsRevision ? ` (revision ${settingsRevision})` : ''} until it is back.
+             </p>
+           </div>
+         )}
          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12">
            {/* Left side: Tab selection and Buy/Sell calculators */}
            <div className="space-y-6">
              {/* Enhanced Tab Selection */}
              <div className="bg-white dark:bg-slate-800 rounded-3xl p-6 shadow-lg border-b border-r border-blue-500 dark:border-orange-700">
+               <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-6 pb-6 border-b border-slate-200 dark:border-slate-700">
+                 <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide flex items-center gap-2 shrink-0">
+                   <Users size={14} /> Customer
+                 </label>
+                 <select
+                   value={customerId}
+                   onChange={(e) => {
+                     const profile = (adminSettings.customerProfiles ?? []).find((c: CustomerProfile) => c.id === e.target.value);
+                     setCustomerId(e.target.value);
+                     if (profile && !importer.trim()) setImporter(profile.name);
+                     triggerLoading();
+                   }}
+                   className="flex-1 rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2.5 px-4 font-bold text-sm outline-none focus:border-[var(--brand-primary)] transition-all"
+                 >
+                   <option value="">Standard Pricing</option>
+                   {(adminSettings.customerProfiles ?? []).map((profile: CustomerProfile) => (
+                     <option key={profile.id} value={profile.id}>{profile.name}</option>
+                   ))}
+                 </select>
+                 <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide flex items-center gap-2 shrink-0">
+                   <User size={14} /> Prepared By
+                 </label>
+                 <input
+                   type="text"
+                   value={agentName}
+                   onChange={(e) => { setAgentName(e.target.value); localStorage.setItem(AGENT_NAME_KEY, e.target.value); }}
+                   className="flex-1 rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2.5 px-4 font-bold text-sm outline-none focus:border-[var(--brand-primary)] transition-all"
+                   placeholder="Your name for the audit trail"
+                 />
+               </div>
                <div className="flex flex-col lg:flex-row items-center justify-between gap-6">
                  <div className="flex flex-col sm:flex-row items-center gap-6">
                    <div className="flex items-center gap-2 p-2 bg-slate-100 dark:bg-slate-700 rounded-2xl">
@@ -969,11 +4097,20 @@ const App: React.FC = () => {
                      >
                        WITH PGA Regulation
                      </button>
+                     <button
+                       onClick={() => setActiveTab('isf')}
+                       className={`px-6 py-3 rounded-xl font-bold transition-all duration-300 text-sm uppercase relative overflow-hidden
+                         ${activeTab === 'isf'
+                           ? 'bg-gradient-to-r from-emerald-600 to-emerald-700 text-white shadow-lg shadow-emerald-500/30'
+                           : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-200 dark:hover:bg-slate-600'}`}
+                     >
+                       ISF Bond
+                     </button>
                    </div>
                    <div className="text-center lg:text-left">
                      <p className="text-sm text-slate-600 dark:text-slate-400">
                        Active Mode: <span className="font-bold text-slate-900 dark:text-white">
-                         {activeTab === 'without' ? 'Standard Entry Protocol' : 'PGA Regulation Logic'}
+                         {activeTab === 'without' ? 'Standard Entry Protocol' : activeTab === 'with' ? 'PGA Regulation Logic' : 'ISF (10+2) Filing'}
                        </span>
                      </p>
                    </div>
@@ -986,6 +4123,59 @@ const App: React.FC = () => {
                    <span className="text-sm">Clear All</span>
                  </button>
                </div>
+               {activeTab === 'isf' && (
+                 <div className="flex flex-col sm:flex-row sm:items-center gap-3 mt-6 pt-6 border-t border-slate-200 dark:border-slate-700">
+                   <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide flex items-center gap-2 shrink-0">
+                     <Ship size={14} /> Same Shipment
+                   </label>
+                   <select
+                     value={isfWithSeb ?? ''}
+                     onChange={(e) => { setIsfWithSeb(e.target.value ? e.target.value as EntryMode : null); triggerLoading(); }}
+                     className="flex-1 rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2.5 px-4 font-bold text-sm outline-none focus:border-[var(--brand-primary)] transition-all"
+                   >
+                     <option value="">ISF filing only</option>
+                     <option value="without">+ Single Entry Bond (Standard Entry)</option>
+                     <option value="with">+ Single Entry Bond (With PGA Regulation)</option>
+                   </select>
+                 </div>
+               )}
+               <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto_auto] gap-4 mt-6 pt-6 border-t border-slate-200 dark:border-slate-700 items-end">
+                 <div>
+                   <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">Entry Number</label>
+                   <input type="text" value={entryNumber} onChange={(e) => setEntryNumber(e.target.value)} className="w-full rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2.5 px-4 font-bold text-sm outline-none focus:border-[var(--brand-primary)] transition-all" placeholder="e.g. ABC-1234567-8" />
+                 </div>
+                 <div>
+                   <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">Importer</label>
+                   <input type="text" value={importer} onChange={(e) => setImporter(e.target.value)} className="w-full rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2.5 px-4 font-bold text-sm outline-none focus:border-[var(--brand-primary)] transition-all" placeholder="Importer of record" />
+                 </div>
+                 <div>
+                   <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">Entry Date</label>
+                   <input type="date" value={entryDate} onChange={(e) => setEntryDate(e.target.value)} className="w-full rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2.5 px-4 font-bold text-sm outline-none focus:border-[var(--brand-primary)] transition-all" />
+                 </div>
+                 <button
+                   onClick={handleSaveEntry}
+                   className="bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 px-6 py-3 rounded-xl font-bold border-b border-r border-blue-500 dark:border-blue-700 hover:bg-blue-100 dark:hover:bg-blue-900/40 hover:scale-105 transition-all shadow-sm flex items-center justify-center gap-2"
+                 >
+                   {copiedId === 'entry' ? <Check size={16} className="text-green-500" /> : <Save size={16} />}
+                   <span className="text-sm">Save Entry</span>
+                 </button>
+               </div>
+               {activeFormulaInputs.length > 0 && (
+                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-6 pt-6 border-t border-slate-200 dark:border-slate-700">
+                   {activeFormulaInputs.map(input => (
+                     <div key={input.id}>
+                       <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">{input.label || input.name} ($)</label>
+                       <input
+                         type="number"
+                         value={extraInputs[input.name] ?? ''}
+                         onChange={(e) => handleInputChange(value => setExtraInputs({ ...extraInputs, [input.name]: value }), e.target.value)}
+                         className="w-full rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2.5 px-4 font-bold text-sm outline-none focus:border-[var(--brand-primary)] transition-all"
+                         placeholder="0.00"
+                       />
+                     </div>
+                   ))}
+                 </div>
+               )}
              </div>
 
              {/* Buy and Sell Calculators Grid */}
@@ -997,7 +4187,16 @@ const App: React.FC = () => {
                    <Calculator className="opacity-60" size={24} />
                  </div>
                  <div className="p-6 space-y-6 flex-1 flex flex-col relative z-10">
-                   {activeTab === 'without' ? (
+                   {sebMode === null ? (
+                     <div>
+                       <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">ISF Bond Buy (per filing)</label>
+                       <div className="relative">
+                         <input readOnly value={formatMoney(isfPricing.isf.buy, rates.buyRounding)} className={`${getInputClassName(true)} bg-slate-50 dark:bg-slate-700 opacity-75 cursor-not-allowed`} />
+                         <span className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">$</span>
+                       </div>
+                       <p className="text-xs text-slate-500 dark:text-slate-400 mt-3">Flat fee. Combine a single entry bond on the same shipment to price both together.</p>
+                     </div>
+                   ) : sebMode === 'without' ? (
                      <>
                        <div className="space-y-4">
                          <div>
@@ -1022,11 +4221,11 @@ const App: React.FC = () => {
                        <div className="space-y-4">
                          <div>
                            <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">Invoice Value (Without PGA)</label>
-                           <input type="number" value={buyInvoiceWithoutPga} onChange={(e) => handleInputChange(setBuyInvoiceWithoutPga, e.target.value)} className={getInputClassName(true)} placeholder="0.00" />
+                           <input type="number" value={buyInvoiceWithoutPga} readOnly={hasLineItems} onChange={(e) => handleInputChange(setBuyInvoiceWithoutPga, e.target.value)} className={`${getInputClassName(true)} ${hasLineItems ? 'opacity-75 cursor-not-allowed' : ''}`} placeholder="0.00" />
                          </div>
                          <div>
                            <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">Invoice Value (With PGA)</label>
-                           <input type="number" value={buyInvoiceWithPga} onChange={(e) => handleInputChange(setBuyInvoiceWithPga, e.target.value)} className={getInputClassName(false)} placeholder="0.00" />
+                           <input type="number" value={buyInvoiceWithPga} readOnly={hasLineItems} onChange={(e) => handleInputChange(setBuyInvoiceWithPga, e.target.value)} className={`${getInputClassName(false)} ${hasLineItems ? 'opacity-75 cursor-not-allowed' : ''}`} placeholder="0.00" />
                          </div>
                        </div>
                        <div>
@@ -1045,22 +4244,36 @@ const App: React.FC = () => {
                        )}
                        <div className="relative">
                          <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide block mb-3 flex items-center justify-center gap-2">
-                           Buy Rate Total
+                           {activeTab === 'isf' ? (isfPricing.seb ? 'Combined Buy Total' : 'ISF Buy Total') : 'Buy Rate Total'}
                            {isLoading && <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" />}
                          </span>
                          <div className="flex items-center justify-center gap-3">
-                           <span className={`text-3xl font-black transition-all duration-300 ${isLoading ? 'blur-sm' : ''}`} style={{ color: COLORS.primary }}>
-                             ${activeTab === 'without' ? withoutPgaResults.buy : withPgaBuyResults.buy}
+                           <span className={`text-3xl font-black transition-all duration-300 ${isLoading ? 'blur-sm' : ''} ${pricingFormulaError ? 'opacity-30 line-through' : ''}`} style={{ color: COLORS.primary }}>
+                             ${formatMoney(buyTotal, rates.buyRounding)}
                            </span>
                            <button
-                             onClick={() => handleCopy(activeTab === 'without' ? withoutPgaResults.buy : withPgaBuyResults.buy, 'buy')}
-                             className="p-2 text-slate-400 hover:text-[var(--brand-primary)] hover:scale-110 transition-all rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 hover:shadow-md"
-                             disabled={isLoading}
+                             onClick={() => handleCopy(buyTotal, 'buy')}
+                             className="p-2 text-slate-400 hover:text-[var(--brand-primary)] hover:scale-110 transition-all rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 hover:shadow-md disabled:opacity-40 disabled:pointer-events-none"
+                             disabled={isLoading || pricingFormulaError !== null}
                              title="Copy to clipboard"
                            >
                              {copiedId === 'buy' ? <Check size={18} className="text-green-500 animate-in zoom-in" /> : <Copy size={18} />}
                            </button>
                          </div>
+                         {pricingFormulaError && (
+                           <div className="mt-3 text-xs font-bold text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg border border-red-300 dark:border-red-700">
+                             {pricingFormulaError}. Fix the formula in the Control Center before quoting.
+                           </div>
+                         )}
+                         {activeTab === 'isf' && isfPricing.seb && (
+                           <div className="mt-3 text-xs text-left bg-white/60 dark:bg-slate-900/40 rounded-lg p-3 space-y-1">
+                             <div className="flex justify-between"><span className="text-slate-500">ISF Bond</span><span className="font-bold">${formatMoney(isfPricing.isf.buy, rates.buyRounding)}</span></div>
+                             <div className="flex justify-between"><span className="text-slate-500">Single Entry Bond</span><span className="font-bold">${formatMoney(isfPricing.seb.buy, rates.buyRounding)}</span></div>
+                           </div>
+                         )}
+                         {sebMode && (sebMode === 'without' ? withoutPgaPricing : withPgaBuyPricing).buyBrackets && (
+                           <BracketBreakdown brackets={(sebMode === 'without' ? withoutPgaPricing : withPgaBuyPricing).buyBrackets!} rounding={rates.buyRounding} />
+                         )}
                        </div>
                      </div>
                    </div>
@@ -1074,7 +4287,16 @@ const App: React.FC = () => {
                    <DollarSign className="opacity-60" size={24} />
                  </div>
                  <div className="p-6 space-y-6 flex-1 flex flex-col relative z-10">
-                   {activeTab === 'without' ? (
+                   {sebMode === null ? (
+                     <div>
+                       <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">ISF Bond Sell (per filing)</label>
+                       <div className="relative">
+                         <input readOnly value={formatMoney(isfPricing.isf.sell, rates.sellRounding)} className={`${getInputClassName(true)} bg-slate-50 dark:bg-slate-700 opacity-75 cursor-not-allowed`} />
+                         <span className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">$</span>
+                       </div>
+                       <p className="text-xs text-slate-500 dark:text-slate-400 mt-3">Flat fee. Combine a single entry bond on the same shipment to price both together.</p>
+                     </div>
+                   ) : sebMode === 'without' ? (
                      <>
                        <div className="space-y-4">
                          <div>
@@ -1099,11 +4321,11 @@ const App: React.FC = () => {
                        <div className="space-y-4">
                          <div>
                            <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">Invoice Value (Without PGA)</label>
-                           <input type="number" value={sellInvoiceWithoutPga} onChange={(e) => handleInputChange(setSellInvoiceWithoutPga, e.target.value)} className={getInputClassName(true)} placeholder="0.00" />
+                           <input type="number" value={sellInvoiceWithoutPga} readOnly={hasLineItems} onChange={(e) => handleInputChange(setSellInvoiceWithoutPga, e.target.value)} className={`${getInputClassName(true)} ${hasLineItems ? 'opacity-75 cursor-not-allowed' : ''}`} placeholder="0.00" />
                          </div>
                          <div>
                            <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">Invoice Value (With PGA)</label>
-                           <input type="number" value={sellInvoiceWithPga} onChange={(e) => handleInputChange(setSellInvoiceWithPga, e.target.value)} className={getInputClassName(false)} placeholder="0.00" />
+                           <input type="number" value={sellInvoiceWithPga} readOnly={hasLineItems} onChange={(e) => handleInputChange(setSellInvoiceWithPga, e.target.value)} className={`${getInputClassName(false)} ${hasLineItems ? 'opacity-75 cursor-not-allowed' : ''}`} placeholder="0.00" />
                          </div>
                        </div>
                        <div>
@@ -1117,22 +4339,78 @@ const App: React.FC = () => {
                    )}
                    <div className="mt-auto pt-6 border-t border-slate-200 dark:border-slate-700">
                      <div className="bg-gradient-to-r from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-700 rounded-2xl p-6 text-center relative">
-                       <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide block mb-3">Sell Rate Total</span>
+                       <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide block mb-3">
+                         {activeTab === 'isf' ? (isfPricing.seb ? 'Combined Sell Total' : 'ISF Sell Total') : 'Sell Rate Total'}
+                       </span>
                        <div className="flex items-center justify-center gap-3">
-                         <span className="text-3xl font-black" style={{ color: COLORS.accent }}>
-                           ${activeTab === 'without' ? withoutPgaResults.sell : withPgaSellResults.sell}
+                         <span className={`text-3xl font-black ${pricingFormulaError ? 'opacity-30 line-through' : ''}`} style={{ color: COLORS.accent }}>
+                           ${formatMoney(sellTotal, rates.sellRounding)}
                          </span>
                          <button
-                           onClick={() => handleCopy(activeTab === 'without' ? withoutPgaResults.sell : withPgaSellResults.sell, 'sell')}
-                           className="p-2 text-slate-400 hover:text-[var(--brand-accent)] hover:scale-110 transition-all rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 hover:shadow-md"
+                           onClick={() => handleCopy(sellTotal, 'sell')}
+                           className="p-2 text-slate-400 hover:text-[var(--brand-accent)] hover:scale-110 transition-all rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 hover:shadow-md disabled:opacity-40 disabled:pointer-events-none"
+                           disabled={pricingFormulaError !== null}
                            title="Copy to clipboard"
                          >
                            {copiedId === 'sell' ? <Check size={18} className="text-green-500 animate-in zoom-in" /> : <Copy size={18} />}
                          </button>
                        </div>
-                       {(activeTab === 'without' ? withoutPgaResults.sellWarning : withPgaSellResults.sellWarning) && (
+                       <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest block mt-2">
+                         Billing Rule: {sebMode ? BILLING_RULE_LABELS[(sebMode === 'without' ? withoutPgaResults : withPgaSellResults).billing.rule] : 'ISF Flat Fee'}
+                       </span>
+                       {activeTab === 'isf' && isfPricing.seb && (
+                         <div className="mt-3 text-xs text-left bg-white/60 dark:bg-slate-900/40 rounded-lg p-3 space-y-1">
+                           <div className="flex justify-between"><span className="text-slate-500">ISF Bond</span><span className="font-bold">${formatMoney(isfPricing.isf.sell, rates.sellRounding)}</span></div>
+                           <div className="flex justify-between"><span className="text-slate-500">Single Entry Bond</span><span className="font-bold">${formatMoney(isfPricing.seb.sell, rates.sellRounding)}</span></div>
+                         </div>
+                       )}
+                       <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest block mt-1">
+                         Rate Schedule: {describeRateSchedule(rateSchedule.schedule)}
+                       </span>
+                       <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest block mt-1">
+                         Pricing Profile: {customerProfile ? customerProfile.name : 'Standard'}
+                       </span>
+                       {customerProfile && standardPricing && (() => {
+                         const sellValue: Decimal = (sebMode === 'without' ? withoutPgaResults : withPgaSellResults).sellValue;
+                         const buyValue: Decimal = sebMode === 'without' ? withoutPgaResults.buyValue : withPgaBuyResults.buyValue;
+                         const margin = sellValue - buyValue;
+                         const standardMargin = standardPricing.sell - standardPricing.buy;
+                         const difference = margin - standardMargin;
+                         return (
+                           <div className="mt-3 text-xs text-left bg-white/60 dark:bg-slate-900/40 rounded-lg p-3 space-y-1">
+                             <div className="flex justify-between"><span className="text-slate-500">Standard Sell</span><span className="font-bold">${formatMoney(standardPricing.sell, rates.sellRounding)}</span></div>
+                             <div className="flex justify-between"><span className="text-slate-500">Margin ({customerProfile.name})</span><span className="font-bold">${formatMoney(margin, rates.displayRounding)}</span></div>
+                             <div className="flex justify-between"><span className="text-slate-500">Margin (Standard)</span><span className="font-bold">${formatMoney(standardMargin, rates.displayRounding)}</span></div>
+                             <div className="flex justify-between">
+                               <span className="text-slate-500">Vs Standard</span>
+                               <span className={`font-black ${difference < 0n ? 'text-red-600' : 'text-green-600'}`}>
+                                 {difference < 0n ? '-' : '+'}${formatMoney(difference < 0n ? 0n - difference : difference, rates.displayRounding)}
+                               </span>
+                             </div>
+                           </div>
+                         );
+                       })()}
+                       {sebMode && (sebMode === 'without' ? withoutPgaPricing : withPgaSellPricing).sellBrackets && (
+                         <BracketBreakdown brackets={(sebMode === 'without' ? withoutPgaPricing : withPgaSellPricing).sellBrackets!} rounding={rates.sellRounding} />
+                       )}
+                       {pricingFormulaError && (
+                         <div className="mt-3 text-xs font-bold text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg border border-red-300 dark:border-red-700">
+                           {pricingFormulaError}. Copying and quotes are off until it is fixed.
+                         </div>
+                       )}
+                       <button
+                         onClick={handleGenerateQuote}
+                         disabled={pricingFormulaError !== null}
+                         title={pricingFormulaError ?? undefined}
+                         className="mt-4 px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest text-white shadow-lg hover:scale-105 transition-all active:scale-95 inline-flex items-center gap-2 disabled:opacity-40 disabled:pointer-events-none"
+                         style={{ backgroundColor: COLORS.accent }}
+                       >
+                         <FileText size={14} />
+                         <span>Generate Quote</span>
+                       </button>
+                       {sebMode && (sebMode === 'without' ? withoutPgaResults.sellWarning : withPgaSellResults.sellWarning) && (
                          <div className="mt-3 text-xs font-bold text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 p-3 rounded-lg border-b border-r border-amber-500 dark:border-orange-700">
-                           ⚠️ {activeTab === 'without' ? withoutPgaResults.sellWarning : withPgaSellResults.sellWarning}
+                           ⚠️ {sebMode === 'without' ? withoutPgaResults.sellWarning : withPgaSellResults.sellWarning}
                          </div>
                        )}
                      </div>
@@ -1140,6 +4418,74 @@ const App: React.FC = () => {
                  </div>
                </div>
              </div>
+
+             {/* Commercial Invoice Lines (PGA mode) */}
+             {sebMode === 'with' && (
+               <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-xl border-b border-r border-blue-500 dark:border-orange-700 overflow-hidden">
+                 <div className="py-5 px-8 flex items-center justify-between border-b border-slate-200 dark:border-slate-700">
+                   <div>
+                     <h3 className="text-lg font-black uppercase tracking-wide text-slate-900 dark:text-white">Commercial Invoice Lines</h3>
+                     <p className="text-xs text-slate-500 dark:text-slate-400">{hasLineItems ? 'Line totals drive the PGA buy and sell inputs' : 'Add lines to total PGA and non-PGA values automatically'}</p>
+                   </div>
+                   <button
+                     onClick={() => updateLineItems([...lineItems, createLineItem()])}
+                     className="px-4 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest text-white shadow-lg hover:scale-105 transition-all active:scale-95 flex items-center gap-2"
+                     style={{ backgroundColor: COLORS.primary }}
+                   >
+                     <Plus size={14} />
+                     <span>Add Line</span>
+                   </button>
+                 </div>
+                 {hasLineItems && (
+                   <div className="overflow-x-auto">
+                     <table className="w-full text-sm">
+                       <thead className="bg-slate-50 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                         <tr>
+                           <th className="p-3 text-left">HTS Code</th>
+                           <th className="p-3 text-left">Value ($)</th>
+                           <th className="p-3 text-left">PGA Agency</th>
+                           <th className="p-3 text-right">Bond Contribution</th>
+                           <th className="p-3" />
+                         </tr>
+                       </thead>
+                       <tbody>
+                         {lineItems.map((line, i) => (
+                           <tr key={line.id} className="border-t border-slate-100 dark:border-slate-700">
+                             <td className="p-2"><input type="text" value={line.htsCode} onChange={(e) => updateLineItem(line.id, { htsCode: e.target.value })} placeholder="0000.00.0000" className="w-32 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-mono text-sm outline-none focus:border-[var(--brand-primary)]" /></td>
+                             <td className="p-2"><input type="number" value={line.value} onChange={(e) => updateLineItem(line.id, { value: e.target.value })} placeholder="0.00" className="w-32 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-bold text-sm outline-none focus:border-[var(--brand-primary)]" /></td>
+                             <td className="p-2">
+                               <select value={line.agency} onChange={(e) => updateLineItem(line.id, { agency: e.target.value })} className="rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 py-2 px-3 font-bold text-sm outline-none focus:border-[var(--brand-accent)]">
+                                 <option value="">No PGA</option>
+                                 {(adminSettings.pgaAgencies ?? []).map((agency: PgaAgency) => (
+                                   <option key={agency.id} value={agency.id}>{agency.agency} · {agency.program} ({agency.factor}x)</option>
+                                 ))}
+                               </select>
+                             </td>
+                             <td className="p-3 text-right font-mono font-bold" style={{ color: line.agency ? COLORS.accent : undefined }}>
+                               ${formatMoney(lineItemSummary.contributions[i], adminSettings.displayRounding)}
+                             </td>
+                             <td className="p-2 text-right">
+                               <button onClick={() => updateLineItems(lineItems.filter(l => l.id !== line.id))} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all" title="Remove line">
+                                 <Trash2 size={14} />
+                               </button>
+                             </td>
+                           </tr>
+                         ))}
+                       </tbody>
+                       <tfoot className="bg-slate-50 dark:bg-slate-900 text-xs font-black">
+                         <tr>
+                           <td className="p-3 uppercase tracking-widest text-slate-500" colSpan={3}>
+                             Non-PGA ${formatMoney(lineItemSummary.withoutPga, adminSettings.displayRounding)} · PGA ${formatMoney(lineItemSummary.withPga, adminSettings.displayRounding)}
+                           </td>
+                           <td className="p-3 text-right font-mono text-sm" style={{ color: COLORS.primary }}>${withPgaSellBondValue}</td>
+                           <td />
+                         </tr>
+                       </tfoot>
+                     </table>
+                   </div>
+                 )}
+               </div>
+             )}
            </div>
 
            {/* Right side: Regulations and Calculator */}
@@ -1156,7 +4502,7 @@ const App: React.FC = () => {
                      <div className="flex-1">
                        <h4 className="font-black text-slate-900 dark:text-white uppercase tracking-wide mb-2 text-lg sm:text-xl">Standard Entry Protocol</h4>
                        <p className="text-base sm:text-lg text-slate-700 dark:text-slate-300 leading-relaxed">
-                         ISF Bonds are fixed at <span className="text-blue-600 font-black">$60</span>. Single-entry bonds bill the greater of <span className="text-blue-600 font-black">${adminSettings.minBilling.toFixed(2)}</span> or <span className="text-blue-600 font-black">{adminSettings.sellRatePercent.toFixed(2)}%</span> of total invoice value + duties.
+                         ISF Bonds are fixed at <span className="text-blue-600 font-black">${rates.isfSellPrice.toFixed(2)}</span>. Single-entry bonds bill the greater of <span className="text-blue-600 font-black">${rates.minBilling.toFixed(2)}</span> or <span className="text-blue-600 font-black">{rates.sellRatePercent.toFixed(2)}%</span> of total invoice value + duties.
                        </p>
                      </div>
                    </div>
@@ -1165,7 +4511,7 @@ const App: React.FC = () => {
                      <div className="flex-1">
                        <h4 className="font-black text-slate-900 dark:text-white uppercase tracking-wide mb-2 text-lg sm:text-xl">PGA Regulation Logic</h4>
                        <p className="text-base sm:text-lg text-slate-700 dark:text-slate-300 leading-relaxed">
-                         For PGA commodities, calculation base is scaled by <span className="text-blue-600 font-black">{adminSettings.pgaMultiplier}x</span>. Final fee is the greater of <span className="text-blue-600 font-black">${adminSettings.minBilling.toFixed(2)}</span> or <span className="text-blue-600 font-black">{adminSettings.sellRatePercent.toFixed(2)}%</span> of the scaled base.
+                         For PGA commodities, calculation base is scaled by each agency's liability factor (default <span className="text-blue-600 font-black">{rates.pgaMultiplier}x</span>). Final fee is the greater of <span className="text-blue-600 font-black">${rates.minBilling.toFixed(2)}</span> or <span className="text-blue-600 font-black">{rates.sellRatePercent.toFixed(2)}%</span> of the scaled base.
                        </p>
                      </div>
                    </div>
@@ -1188,7 +4534,7 @@ const App: React.FC = () => {
                        <div className="p-4 bg-white dark:bg-slate-800 rounded-xl border border-orange-200 dark:border-orange-800/50 shadow-sm">
                          <div className="flex items-start gap-3">
                            <span className="shrink-0 w-6 h-6 rounded-lg bg-orange-100 dark:bg-orange-900/50 flex items-center justify-center text-orange-600 font-black text-xs">02</span>
-                           <p className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed">Opting for a continuous bond incurs a <span className="font-bold text-slate-900 dark:text-white">$550 annual fee</span> for a <span className="font-bold text-slate-900 dark:text-white">$50,000</span> limit of liability, valid for 1 year.</p>
+                           <p className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed">{continuousBondNote(rates)} Use the break-even advisor below to compare against single entry bonds.</p>
                          </div>
                        </div>
                      </div>
@@ -1197,6 +4543,82 @@ const App: React.FC = () => {
                </div>
              </div>
 
+             {/* Continuous Bond Advisor */}
+             <div className="bg-white dark:bg-slate-800 border-b border-r border-orange-500 dark:border-orange-700 rounded-3xl p-6 sm:p-8 shadow-xl hover:shadow-2xl transition-all duration-300 space-y-6">
+               <div className="flex items-center justify-between gap-4">
+                 <div className="flex items-center gap-3">
+                   <div className="p-2 bg-orange-100 dark:bg-orange-900/30 rounded-lg">
+                     <Activity size={18} className="text-orange-600" />
+                   </div>
+                   <div>
+                     <h3 className="font-bold uppercase text-sm tracking-wide text-slate-900 dark:text-white">Continuous Bond Advisor</h3>
+                     <p className="text-xs text-slate-500 dark:text-slate-400">{advisorSource ?? 'Annual SEB charges vs. continuous bond premium'}</p>
+                   </div>
+                 </div>
+                 <button
+                   onClick={pullAdvisorFromHistory}
+                   className="px-4 py-2 rounded-xl border-2 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 font-bold uppercase tracking-wide text-xs hover:border-orange-500 hover:text-orange-600 transition-all flex items-center gap-2"
+                   title="Use the last 12 months of entry history"
+                 >
+                   <History size={14} />
+                   <span>From History</span>
+                 </button>
+               </div>
+               <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                 {[
+                   { label: 'Entries / Year', value: advisorEntries, set: setAdvisorEntries, step: '1' },
+                   { label: 'Avg Invoice Value', value: advisorInvoice, set: setAdvisorInvoice, step: '0.01' },
+                   { label: 'Avg Duties', value: advisorDuties, set: setAdvisorDuties, step: '0.01' },
+                 ].map(({ label, value, set, step }) => (
+                   <div key={label}>
+                     <label className="text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2">{label}</label>
+                     <input
+                       type="number"
+                       min="0"
+                       step={step}
+                       value={value}
+                       onChange={(e) => { set(e.target.value); setAdvisorSource(null); }}
+                       placeholder="0"
+                       className="w-full rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 py-3 px-4 font-bold text-slate-900 dark:text-white outline-none focus:border-orange-500 transition-all"
+                     />
+                   </div>
+                 ))}
+               </div>
+               {(parseInt(advisorEntries) || 0) > 0 && (
+                 <div className="space-y-4">
+                   <div className="grid grid-cols-2 gap-4 text-sm">
+                     <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700">
+                       <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 block mb-1">SEB Charges / Year</span>
+                       <span className="text-xl font-black text-slate-900 dark:text-white">${formatMoney(bondAdvice.annualSeb, rates.displayRounding)}</span>
+                       <span className="text-xs text-slate-500 block">${formatMoney(bondAdvice.perEntrySell, rates.displayRounding)} per entry</span>
+                     </div>
+                     <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700">
+                       <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 block mb-1">Continuous Bond / Year</span>
+                       <span className="text-xl font-black text-slate-900 dark:text-white">{bondAdvice.tier ? `$${bondAdvice.tier.premium.toLocaleString()}` : '—'}</span>
+                       <span className="text-xs text-slate-500 block">
+                         {bondAdvice.tier ? `$${bondAdvice.tier.limit.toLocaleString()} limit` : 'No premium tiers configured'}
+                         {bondAdvice.exceedsTiers && ` (needs $${formatMoney(bondAdvice.requiredLimit)})`}
+                       </span>
+                     </div>
+                   </div>
+                   {bondAdvice.tier && (
+                     <div className={`p-4 rounded-xl border text-sm font-bold ${bondAdvice.savings > 0n ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-700 dark:text-green-400' : 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-400'}`}>
+                       {bondAdvice.savings > 0n
+                         ? `A continuous bond saves $${formatMoney(bondAdvice.savings, rates.displayRounding)} per year.`
+                         : `Single entry bonds cost $${formatMoney(0n - bondAdvice.savings, rates.displayRounding)} less per year.`}
+                       {bondAdvice.breakEvenEntries !== null && ` Break-even at ${bondAdvice.breakEvenEntries.toLocaleString()} entries per year.`}
+                     </div>
+                   )}
+                   {bondAdvice.exceedsTiers && (
+                     <p className="text-xs font-bold text-red-600 dark:text-red-400 flex items-center gap-2">
+                       <AlertTriangle size={14} />
+                       <span>Projected duties exceed the highest premium tier - the continuous bond must be quoted separately.</span>
+                     </p>
+                   )}
+                 </div>
+               )}
+             </div>
+
              {/* Calculator */}
              <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-xl border-b border-r border-purple-600 dark:border-red-700 overflow-hidden transition-all hover:shadow-2xl max-w-xl ml-auto cursor-pointer group">
                <div className="py-6 px-8 bg-gradient-to-r from-slate-50 to-slate-100 dark:from-slate-700 dark:to-slate-800 border-b border-orange-600 dark:border-orange-700">
@@ -1374,7 +4796,7 @@ const App: React.FC = () => {
                    <div className="grid grid-cols-3 gap-2">
                      {[
                        { label: '% of', action: () => handleCalcBtn('/100*'), title: 'Percentage of' },
-                       { label: '√', action: () => handleCalcBtn('Math.sqrt('), title: 'Square Root' },
+                       { label: '√', action: () => handleCalcBtn('sqrt('), title: 'Square Root' },
                        { label: 'x²', action: () => handleCalcBtn('**2'), title: 'Square' },
                      ].map((preset, index) => (
                        <button
@@ -1416,6 +4838,13 @@ const App: React.FC = () => {
         .dark .custom-scrollbar::-webkit-scrollbar-thumb {
           background: #334155;
         }
+        @media print {
+          body * { visibility: hidden; }
+          #quote-document, #quote-document * { visibility: visible; }
+          #quote-document { position: absolute; inset: 0; overflow: visible; box-shadow: none; border-radius: 0; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+          .quote-overlay { position: static; background: none; backdrop-filter: none; }
+          .quote-actions { display: none; }
+        }
         .animate-ship-travel {
           animation: ship-travel 1.2s ease-in-out infinite;
         }
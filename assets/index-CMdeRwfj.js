@@ -1,38 +0,0 @@
-(function(){const R=document.createElement("link").relList;if(R&&R.supports&&R.supports("modulepreload"))return;for(const U of document.querySelectorAll('link[rel="modulepreload"]'))m(U);new MutationObserver(U=>{for(const Y of U)if(Y.type==="childList")for(const dt of Y.addedNodes)dt.tagName==="LINK"&&dt.rel==="modulepreload"&&m(dt)}).observe(document,{childList:!0,subtree:!0});function z(U){const Y={};return U.integrity&&(Y.integrity=U.integrity),U.referrerPolicy&&(Y.referrerPolicy=U.referrerPolicy),U.crossOrigin==="use-credentials"?Y.credentials="include":U.crossOrigin==="anonymous"?Y.credentials="omit":Y.credentials="same-origin",Y}function m(U){if(U.ep)return;U.ep=!0;const Y=z(U);fetch(U.href,Y)}})();function getDefaultExportFromCjs(r){return r&&r.__esModule&&Object.prototype.hasOwnProperty.call(r,"default")?r.default:r}var jsxRuntime={exports:{}},reactJsxRuntime_production={};var hasRequiredReactJsxRuntime_production;function requireReactJsxRuntime_production(){if(hasRequiredReactJsxRuntime_production)return reactJsxRuntime_production;hasRequiredReactJsxRuntime_production=1;var r=Symbol.for("react.transitional.element"),R=Symbol.for("react.fragment");function z(m,U,Y){var dt=null;if(Y!==void 0&&(dt=""+Y),U.key!==void 0&&(dt=""+U.key),"key"in U){Y={};for(var St in U)St!=="key"&&(Y[St]=U[St])}else Y=U;return U=Y.ref,{$$typeof:r,type:m,key:dt,ref:U!==void 0?U:null,props:Y}}return reactJsxRuntime_production.Fragment=R,reactJsxRuntime_production.jsx=z,reactJsxRuntime_production.jsxs=z,reactJsxRuntime_production}var hasRequiredJsxRuntime;function requireJsxRuntime(){return hasRequiredJsxRuntime||(hasRequiredJsxRuntime=1,jsxRuntime.exports=requireReactJsxRuntime_production()),jsxRuntime.exports}var jsxRuntimeExports=requireJsxRuntime(),react={exports:{}},react_production={};var hasRequiredReact_production;function requireReact_production(){if(hasRequiredReact_production)return react_production;hasRequiredReact_production=1;var r=Symbol.for("react.transitional.element"),R=Symbol.for("react.portal"),z=Symbol.for("react.fragment"),m=Symbol.for("react.strict_mode"),U=Symbol.for("react.profiler"),Y=Symbol.for("react.consumer"),dt=Symbol.for("react.context"),St=Symbol.for("react.forward_ref"),C=Symbol.for("react.suspense"),S=Symbol.for("react.memo"),W=Symbol.for("react.lazy"),k=Symbol.for("react.activity"),ot=Symbol.iterator;function Zt(f){return f===null||typeof f!="object"?null:(f=ot&&f[ot]||f["@@iterator"],typeof f=="function"?f:null)}var wt={isMounted:function(){return!1},enqueueForceUpdate:function(){},enqueueReplaceState:function(){},enqueueSetState:function(){}},Dt=Object.assign,_e={};function Kt(f,E,_){this.props=f,this.context=E,this.refs=_e,this.updater=_||wt}Kt.prototype.isReactComponent={},Kt.prototype.setState=function(f,E){if(typeof f!="object"&&typeof f!="function"&&f!=null)throw Error("takes an object of state variables to update or a function which returns an object of state variables.");this.updater.enqueueSetState(this,f,E,"setState")},Kt.prototype.forceUpdate=function(f){this.updater.enqueueForceUpdate(this,f,"forceUpdate")};function Ze(){}Ze.prototype=Kt.prototype;function Ct(f,E,_){this.props=f,this.context=E,this.refs=_e,this.updater=_||wt}var ne=Ct.prototype=new Ze;ne.constructor=Ct,Dt(ne,Kt.prototype),ne.isPureReactComponent=!0;var be=Array.isArray;function Ut(){}var K={H:null,A:null,T:null,S:null},Bt=Object.prototype.hasOwnProperty;function ye(f,E,_){var A=_.ref;return{$$typeof:r,type:f,key:E,ref:A!==void 0?A:null,props:_}}function Hl(f,E){return ye(f.type,E,f.props)}function je(f){return typeof f=="object"&&f!==null&&f.$$typeof===r}function Ht(f){var E={"=":"=0",":":"=2"};return"$"+f.replace(/[=:]/g,function(_){return E[_]})}var vl=/\/+/g;function ze(f,E){return typeof f=="object"&&f!==null&&f.key!=null?Ht(""+f.key):E.toString(36)}function he(f){switch(f.status){case"fulfilled":return f.value;case"rejected":throw f.reason;default:switch(typeof f.status=="string"?f.then(Ut,Ut):(f.status="pending",f.then(function(E){f.status==="pending"&&(f.status="fulfilled",f.value=E)},function(E){f.status==="pending"&&(f.status="rejected",f.reason=E)})),f.status){case"fulfilled":return f.value;case"rejected":throw f.reason}}throw f}function b(f,E,_,A,B){var G=typeof f;(G==="undefined"||G==="boolean")&&(f=null);var P=!1;if(f===null)P=!0;else switch(G){case"bigint":case"string":case"number":P=!0;break;case"object":switch(f.$$typeof){case r:case R:P=!0;break;case W:return P=f._init,b(P(f._payload),E,_,A,B)}}if(P)return B=B(f),P=A===""?"."+ze(f,0):A,be(B)?(_="",P!=null&&(_=P.replace(vl,"$&/")+"/"),b(B,E,_,"",function(Sa){return Sa})):B!=null&&(je(B)&&(B=Hl(B,_+(B.key==null||f&&f.key===B.key?"":(""+B.key).replace(vl,"$&/")+"/")+P)),E.push(B)),1;P=0;var Ot=A===""?".":A+":";if(be(f))for(var ht=0;ht<f.length;ht++)A=f[ht],G=Ot+ze(A,ht),P+=b(A,E,_,G,B);else if(ht=Zt(f),typeof ht=="function")for(f=ht.call(f),ht=0;!(A=f.next()).done;)A=A.value,G=Ot+ze(A,ht++),P+=b(A,E,_,G,B);else if(G==="object"){if(typeof f.then=="function")return b(he(f),E,_,A,B);throw E=String(f),Error("Objects are not valid as a React child (found: "+(E==="[object Object]"?"object with keys {"+Object.keys(f).join(", ")+"}":E)+"). If you meant to render a collection of children, use an array instead.")}return P}function N(f,E,_){if(f==null)return f;var A=[],B=0;return b(f,A,"","",function(G){return E.call(_,G,B++)}),A}function w(f){if(f._status===-1){var E=f._result;E=E(),E.then(function(_){(f._status===0||f._status===-1)&&(f._status=1,f._result=_)},function(_){(f._status===0||f._status===-1)&&(f._status=2,f._result=_)}),f._status===-1&&(f._status=0,f._result=E)}if(f._status===1)return f._result.default;throw f._result}var lt=typeof reportError=="function"?reportError:function(f){if(typeof window=="object"&&typeof window.ErrorEvent=="function"){var E=new window.ErrorEvent("error",{bubbles:!0,cancelable:!0,message:typeof f=="object"&&f!==null&&typeof f.message=="string"?String(f.message):String(f),error:f});if(!window.dispatchEvent(E))return}else if(typeof process=="object"&&typeof process.emit=="function"){process.emit("uncaughtException",f);return}console.error(f)},it={map:N,forEach:function(f,E,_){N(f,function(){E.apply(this,arguments)},_)},count:function(f){var E=0;return N(f,function(){E++}),E},toArray:function(f){return N(f,function(E){return E})||[]},only:function(f){if(!je(f))throw Error("React.Children.only expected to receive a single React element child.");return f}};return react_production.Activity=k,react_production.Children=it,react_production.Component=Kt,react_production.Fragment=z,react_production.Profiler=U,react_production.PureComponent=Ct,react_production.StrictMode=m,react_production.Suspense=C,react_production.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE=K,react_production.__COMPILER_RUNTIME={__proto__:null,c:function(f){return K.H.useMemoCache(f)}},react_production.cache=function(f){return function(){return f.apply(null,arguments)}},react_production.cacheSignal=function(){return null},react_production.cloneElement=function(f,E,_){if(f==null)throw Error("The argument must be a React element, but you passed "+f+".");var A=Dt({},f.props),B=f.key;if(E!=null)for(G in E.key!==void 0&&(B=""+E.key),E)!Bt.call(E,G)||G==="key"||G==="__self"||G==="__source"||G==="ref"&&E.ref===void 0||(A[G]=E[G]);var G=arguments.length-2;if(G===1)A.children=_;else if(1<G){for(var P=Array(G),Ot=0;Ot<G;Ot++)P[Ot]=arguments[Ot+2];A.children=P}return ye(f.type,B,A)},react_production.createContext=function(f){return f={$$typeof:dt,_currentValue:f,_currentValue2:f,_threadCount:0,Provider:null,Consumer:null},f.Provider=f,f.Consumer={$$typeof:Y,_context:f},f},react_production.createElement=function(f,E,_){var A,B={},G=null;if(E!=null)for(A in E.key!==void 0&&(G=""+E.key),E)Bt.call(E,A)&&A!=="key"&&A!=="__self"&&A!=="__source"&&(B[A]=E[A]);var P=arguments.length-2;if(P===1)B.children=_;else if(1<P){for(var Ot=Array(P),ht=0;ht<P;ht++)Ot[ht]=arguments[ht+2];B.children=Ot}if(f&&f.defaultProps)for(A in P=f.defaultProps,P)B[A]===void 0&&(B[A]=P[A]);return ye(f,G,B)},react_production.createRef=function(){return{current:null}},react_production.forwardRef=function(f){return{$$typeof:St,render:f}},react_production.isValidElement=je,react_production.lazy=function(f){return{$$typeof:W,_payload:{_status:-1,_result:f},_init:w}},react_production.memo=function(f,E){return{$$typeof:S,type:f,compare:E===void 0?null:E}},react_production.startTransition=function(f){var E=K.T,_={};K.T=_;try{var A=f(),B=K.S;B!==null&&B(_,A),typeof A=="object"&&A!==null&&typeof A.then=="function"&&A.then(Ut,lt)}catch(G){lt(G)}finally{E!==null&&_.types!==null&&(E.types=_.types),K.T=E}},react_production.unstable_useCacheRefresh=function(){return K.H.useCacheRefresh()},react_production.use=function(f){return K.H.use(f)},react_production.useActionState=function(f,E,_){return K.H.useActionState(f,E,_)},react_production.useCallback=function(f,E){return K.H.useCallback(f,E)},react_production.useContext=function(f){return K.H.useContext(f)},react_production.useDebugValue=function(){},react_production.useDeferredValue=function(f,E){return K.H.useDeferredValue(f,E)},react_production.useEffect=function(f,E){return K.H.useEffect(f,E)},react_production.useEffectEvent=function(f){return K.H.useEffectEvent(f)},react_production.useId=function(){return K.H.useId()},react_production.useImperativeHandle=function(f,E,_){return K.H.useImperativeHandle(f,E,_)},react_production.useInsertionEffect=function(f,E){return K.H.useInsertionEffect(f,E)},react_production.useLayoutEffect=function(f,E){return K.H.useLayoutEffect(f,E)},react_production.useMemo=function(f,E){return K.H.useMemo(f,E)},react_production.useOptimistic=function(f,E){return K.H.useOptimistic(f,E)},react_production.useReducer=function(f,E,_){return K.H.useReducer(f,E,_)},react_production.useRef=function(f){return K.H.useRef(f)},react_production.useState=function(f){return K.H.useState(f)},react_production.useSyncExternalStore=function(f,E,_){return K.H.useSyncExternalStore(f,E,_)},react_production.useTransition=function(){return K.H.useTransition()},react_production.version="19.2.3",react_production}var hasRequiredReact;function requireReact(){return hasRequiredReact||(hasRequiredReact=1,react.exports=requireReact_production()),react.exports}var reactExports=requireReact();const React=getDefaultExportFromCjs(reactExports);var client={exports:{}},reactDomClient_production={},scheduler={exports:{}},scheduler_production={};var hasRequiredScheduler_production;function requireScheduler_production(){return hasRequiredScheduler_production||(hasRequiredScheduler_production=1,(function(r){function R(b,N){var w=b.length;b.push(N);t:for(;0<w;){var lt=w-1>>>1,it=b[lt];if(0<U(it,N))b[lt]=N,b[w]=it,w=lt;else break t}}function z(b){return b.length===0?null:b[0]}function m(b){if(b.length===0)return null;var N=b[0],w=b.pop();if(w!==N){b[0]=w;t:for(var lt=0,it=b.length,f=it>>>1;lt<f;){var E=2*(lt+1)-1,_=b[E],A=E+1,B=b[A];if(0>U(_,w))A<it&&0>U(B,_)?(b[lt]=B,b[A]=w,lt=A):(b[lt]=_,b[E]=w,lt=E);else if(A<it&&0>U(B,w))b[lt]=B,b[A]=w,lt=A;else break t}}return N}function U(b,N){var w=b.sortIndex-N.sortIndex;return w!==0?w:b.id-N.id}if(r.unstable_now=void 0,typeof performance=="object"&&typeof performance.now=="function"){var Y=performance;r.unstable_now=function(){return Y.now()}}else{var dt=Date,St=dt.now();r.unstable_now=function(){return dt.now()-St}}var C=[],S=[],W=1,k=null,ot=3,Zt=!1,wt=!1,Dt=!1,_e=!1,Kt=typeof setTimeout=="function"?setTimeout:null,Ze=typeof clearTimeout=="function"?clearTimeout:null,Ct=typeof setImmediate<"u"?setImmediate:null;function ne(b){for(var N=z(S);N!==null;){if(N.callback===null)m(S);else if(N.startTime<=b)m(S),N.sortIndex=N.expirationTime,R(C,N);else break;N=z(S)}}function be(b){if(Dt=!1,ne(b),!wt)if(z(C)!==null)wt=!0,Ut||(Ut=!0,Ht());else{var N=z(S);N!==null&&he(be,N.startTime-b)}}var Ut=!1,K=-1,Bt=5,ye=-1;function Hl(){return _e?!0:!(r.unstable_now()-ye<Bt)}function je(){if(_e=!1,Ut){var b=r.unstable_now();ye=b;var N=!0;try{t:{wt=!1,Dt&&(Dt=!1,Ze(K),K=-1),Zt=!0;var w=ot;try{e:{for(ne(b),k=z(C);k!==null&&!(k.expirationTime>b&&Hl());){var lt=k.callback;if(typeof lt=="function"){k.callback=null,ot=k.priorityLevel;var it=lt(k.expirationTime<=b);if(b=r.unstable_now(),typeof it=="function"){k.callback=it,ne(b),N=!0;break e}k===z(C)&&m(C),ne(b)}else m(C);k=z(C)}if(k!==null)N=!0;else{var f=z(S);f!==null&&he(be,f.startTime-b),N=!1}}break t}finally{k=null,ot=w,Zt=!1}N=void 0}}finally{N?Ht():Ut=!1}}}var Ht;if(typeof Ct=="function")Ht=function(){Ct(je)};else if(typeof MessageChannel<"u"){var vl=new MessageChannel,ze=vl.port2;vl.port1.onmessage=je,Ht=function(){ze.postMessage(null)}}else Ht=function(){Kt(je,0)};function he(b,N){K=Kt(function(){b(r.unstable_now())},N)}r.unstable_IdlePriority=5,r.unstable_ImmediatePriority=1,r.unstable_LowPriority=4,r.unstable_NormalPriority=3,r.unstable_Profiling=null,r.unstable_UserBlockingPriority=2,r.unstable_cancelCallback=function(b){b.callback=null},r.unstable_forceFrameRate=function(b){0>b||125<b?console.error("forceFrameRate takes a positive int between 0 and 125, forcing frame rates higher than 125 fps is not supported"):Bt=0<b?Math.floor(1e3/b):5},r.unstable_getCurrentPriorityLevel=function(){return ot},r.unstable_next=function(b){switch(ot){case 1:case 2:case 3:var N=3;break;default:N=ot}var w=ot;ot=N;try{return b()}finally{ot=w}},r.unstable_requestPaint=function(){_e=!0},r.unstable_runWithPriority=function(b,N){switch(b){case 1:case 2:case 3:case 4:case 5:break;default:b=3}var w=ot;ot=b;try{return N()}finally{ot=w}},r.unstable_scheduleCallback=function(b,N,w){var lt=r.unstable_now();switch(typeof w=="object"&&w!==null?(w=w.delay,w=typeof w=="number"&&0<w?lt+w:lt):w=lt,b){case 1:var it=-1;break;case 2:it=250;break;case 5:it=1073741823;break;case 4:it=1e4;break;default:it=5e3}return it=w+it,b={id:W++,callback:N,priorityLevel:b,startTime:w,expirationTime:it,sortIndex:-1},w>lt?(b.sortIndex=w,R(S,b),z(C)===null&&b===z(S)&&(Dt?(Ze(K),K=-1):Dt=!0,he(be,w-lt))):(b.sortIndex=it,R(C,b),wt||Zt||(wt=!0,Ut||(Ut=!0,Ht()))),b},r.unstable_shouldYield=Hl,r.unstable_wrapCallback=function(b){var N=ot;return function(){var w=ot;ot=N;try{return b.apply(this,arguments)}finally{ot=w}}}})(scheduler_production)),scheduler_production}var hasRequiredScheduler;function requireScheduler(){return hasRequiredScheduler||(hasRequiredScheduler=1,scheduler.exports=requireScheduler_production()),scheduler.exports}var reactDom={exports:{}},reactDom_production={};var hasRequiredReactDom_production;function requireReactDom_production(){if(hasRequiredReactDom_production)return reactDom_production;hasRequiredReactDom_production=1;var r=requireReact();function R(C){var S="https://react.dev/errors/"+C;if(1<arguments.length){S+="?args[]="+encodeURIComponent(arguments[1]);for(var W=2;W<arguments.length;W++)S+="&args[]="+encodeURIComponent(arguments[W])}return"Minified React error #"+C+"; visit "+S+" for the full message or use the non-minified dev environment for full errors and additional helpful warnings."}function z(){}var m={d:{f:z,r:function(){throw Error(R(522))},D:z,C:z,L:z,m:z,X:z,S:z,M:z},p:0,findDOMNode:null},U=Symbol.for("react.portal");function Y(C,S,W){var k=3<arguments.length&&arguments[3]!==void 0?arguments[3]:null;return{$$typeof:U,key:k==null?null:""+k,children:C,containerInfo:S,implementation:W}}var dt=r.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE;function St(C,S){if(C==="font")return"";if(typeof S=="string")return S==="use-credentials"?S:""}return reactDom_production.__DOM_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE=m,reactDom_production.createPortal=function(C,S){var W=2<arguments.length&&arguments[2]!==void 0?arguments[2]:null;if(!S||S.nodeType!==1&&S.nodeType!==9&&S.nodeType!==11)throw Error(R(299));return Y(C,S,null,W)},reactDom_production.flushSync=function(C){var S=dt.T,W=m.p;try{if(dt.T=null,m.p=2,C)return C()}finally{dt.T=S,m.p=W,m.d.f()}},reactDom_production.preconnect=function(C,S){typeof C=="string"&&(S?(S=S.crossOrigin,S=typeof S=="string"?S==="use-credentials"?S:"":void 0):S=null,m.d.C(C,S))},reactDom_production.prefetchDNS=function(C){typeof C=="string"&&m.d.D(C)},reactDom_production.preinit=function(C,S){if(typeof C=="string"&&S&&typeof S.as=="string"){var W=S.as,k=St(W,S.crossOrigin),ot=typeof S.integrity=="string"?S.integrity:void 0,Zt=typeof S.fetchPriority=="string"?S.fetchPriority:void 0;W==="style"?m.d.S(C,typeof S.precedence=="string"?S.precedence:void 0,{crossOrigin:k,integrity:ot,fetchPriority:Zt}):W==="script"&&m.d.X(C,{crossOrigin:k,integrity:ot,fetchPriority:Zt,nonce:typeof S.nonce=="string"?S.nonce:void 0})}},reactDom_production.preinitModule=function(C,S){if(typeof C=="string")if(typeof S=="object"&&S!==null){if(S.as==null||S.as==="script"){var W=St(S.as,S.crossOrigin);m.d.M(C,{crossOrigin:W,integrity:typeof S.integrity=="string"?S.integrity:void 0,nonce:typeof S.nonce=="string"?S.nonce:void 0})}}else S==null&&m.d.M(C)},reactDom_production.preload=function(C,S){if(typeof C=="string"&&typeof S=="object"&&S!==null&&typeof S.as=="string"){var W=S.as,k=St(W,S.crossOrigin);m.d.L(C,W,{crossOrigin:k,integrity:typeof S.integrity=="string"?S.integrity:void 0,nonce:typeof S.nonce=="string"?S.nonce:void 0,type:typeof S.type=="string"?S.type:void 0,fetchPriority:typeof S.fetchPriority=="string"?S.fetchPriority:void 0,referrerPolicy:typeof S.referrerPolicy=="string"?S.referrerPolicy:void 0,imageSrcSet:typeof S.imageSrcSet=="string"?S.imageSrcSet:void 0,imageSizes:typeof S.imageSizes=="string"?S.imageSizes:void 0,media:typeof S.media=="string"?S.media:void 0})}},reactDom_production.preloadModule=function(C,S){if(typeof C=="string")if(S){var W=St(S.as,S.crossOrigin);m.d.m(C,{as:typeof S.as=="string"&&S.as!=="script"?S.as:void 0,crossOrigin:W,integrity:typeof S.integrity=="string"?S.integrity:void 0})}else m.d.m(C)},reactDom_production.requestFormReset=function(C){m.d.r(C)},reactDom_production.unstable_batchedUpdates=function(C,S){return C(S)},reactDom_production.useFormState=function(C,S,W){return dt.H.useFormState(C,S,W)},reactDom_production.useFormStatus=function(){return dt.H.useHostTransitionStatus()},reactDom_production.version="19.2.3",reactDom_production}var hasRequiredReactDom;function requireReactDom(){if(hasRequiredReactDom)return reactDom.exports;hasRequiredReactDom=1;function r(){if(!(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__>"u"||typeof __REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE!="function"))try{__REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE(r)}catch(R){console.error(R)}}return r(),reactDom.exports=requireReactDom_production(),reactDom.exports}var hasRequiredReactDomClient_production;function requireReactDomClient_production(){if(hasRequiredReactDomClient_production)return reactDomClient_production;hasRequiredReactDomClient_production=1;var r=requireScheduler(),R=requireReact(),z=requireReactDom();function m(t){var e="https://react.dev/errors/"+t;if(1<arguments.length){e+="?args[]="+encodeURIComponent(arguments[1]);for(var l=2;l<arguments.length;l++)e+="&args[]="+encodeURIComponent(arguments[l])}return"Minified React error #"+t+"; visit "+e+" for the full message or use the non-minified dev environment for full errors and additional helpful warnings."}function U(t){return!(!t||t.nodeType!==1&&t.nodeType!==9&&t.nodeType!==11)}function Y(t){var e=t,l=t;if(t.alternate)for(;e.return;)e=e.return;else{t=e;do e=t,(e.flags&4098)!==0&&(l=e.return),t=e.return;while(t)}return e.tag===3?l:null}function dt(t){if(t.tag===13){var e=t.memoizedState;if(e===null&&(t=t.alternate,t!==null&&(e=t.memoizedState)),e!==null)return e.dehydrated}return null}function St(t){if(t.tag===31){var e=t.memoizedState;if(e===null&&(t=t.alternate,t!==null&&(e=t.memoizedState)),e!==null)return e.dehydrated}return null}function C(t){if(Y(t)!==t)throw Error(m(188))}function S(t){var e=t.alternate;if(!e){if(e=Y(t),e===null)throw Error(m(188));return e!==t?null:t}for(var l=t,a=e;;){var n=l.return;if(n===null)break;var u=n.alternate;if(u===null){if(a=n.return,a!==null){l=a;continue}break}if(n.child===u.child){for(u=n.child;u;){if(u===l)return C(n),t;if(u===a)return C(n),e;u=u.sibling}throw Error(m(188))}if(l.return!==a.return)l=n,a=u;else{for(var i=!1,s=n.child;s;){if(s===l){i=!0,l=n,a=u;break}if(s===a){i=!0,a=n,l=u;break}s=s.sibling}if(!i){for(s=u.child;s;){if(s===l){i=!0,l=u,a=n;break}if(s===a){i=!0,a=u,l=n;break}s=s.sibling}if(!i)throw Error(m(189))}}if(l.alternate!==a)throw Error(m(190))}if(l.tag!==3)throw Error(m(188));return l.stateNode.current===l?t:e}function W(t){var e=t.tag;if(e===5||e===26||e===27||e===6)return t;for(t=t.child;t!==null;){if(e=W(t),e!==null)return e;t=t.sibling}return null}var k=Object.assign,ot=Symbol.for("react.element"),Zt=Symbol.for("react.transitional.element"),wt=Symbol.for("react.portal"),Dt=Symbol.for("react.fragment"),_e=Symbol.for("react.strict_mode"),Kt=Symbol.for("react.profiler"),Ze=Symbol.for("react.consumer"),Ct=Symbol.for("react.context"),ne=Symbol.for("react.forward_ref"),be=Symbol.for("react.suspense"),Ut=Symbol.for("react.suspense_list"),K=Symbol.for("react.memo"),Bt=Symbol.for("react.lazy"),ye=Symbol.for("react.activity"),Hl=Symbol.for("react.memo_cache_sentinel"),je=Symbol.iterator;function Ht(t){return t===null||typeof t!="object"?null:(t=je&&t[je]||t["@@iterator"],typeof t=="function"?t:null)}var vl=Symbol.for("react.client.reference");function ze(t){if(t==null)return null;if(typeof t=="function")return t.$$typeof===vl?null:t.displayName||t.name||null;if(typeof t=="string")return t;switch(t){case Dt:return"Fragment";case Kt:return"Profiler";case _e:return"StrictMode";case be:return"Suspense";case Ut:return"SuspenseList";case ye:return"Activity"}if(typeof t=="object")switch(t.$$typeof){case wt:return"Portal";case Ct:return t.displayName||"Context";case Ze:return(t._context.displayName||"Context")+".Consumer";case ne:var e=t.render;return t=t.displayName,t||(t=e.displayName||e.name||"",t=t!==""?"ForwardRef("+t+")":"ForwardRef"),t;case K:return e=t.displayName||null,e!==null?e:ze(t.type)||"Memo";case Bt:e=t._payload,t=t._init;try{return ze(t(e))}catch{}}return null}var he=Array.isArray,b=R.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE,N=z.__DOM_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE,w={pending:!1,data:null,method:null,action:null},lt=[],it=-1;function f(t){return{current:t}}function E(t){0>it||(t.current=lt[it],lt[it]=null,it--)}function _(t,e){it++,lt[it]=t.current,t.current=e}var A=f(null),B=f(null),G=f(null),P=f(null);function Ot(t,e){switch(_(G,e),_(B,t),_(A,null),e.nodeType){case 9:case 11:t=(t=e.documentElement)&&(t=t.namespaceURI)?Nf(t):0;break;default:if(t=e.tagName,e=e.namespaceURI)e=Nf(e),t=_f(e,t);else switch(t){case"svg":t=1;break;case"math":t=2;break;default:t=0}}E(A),_(A,t)}function ht(){E(A),E(B),E(G)}function Sa(t){t.memoizedState!==null&&_(P,t);var e=A.current,l=_f(e,t.type);e!==l&&(_(B,t),_(A,l))}function gn(t){B.current===t&&(E(A),E(B)),P.current===t&&(E(P),mn._currentValue=w)}var wu,Ps;function bl(t){if(wu===void 0)try{throw Error()}catch(l){var e=l.stack.trim().match(/\n( *(at )?)/);wu=e&&e[1]||"",Ps=-1<l.stack.indexOf(`
-    at`)?" (<anonymous>)":-1<l.stack.indexOf("@")?"@unknown:0:0":""}return`
-`+wu+t+Ps}var Uu=!1;function Bu(t,e){if(!t||Uu)return"";Uu=!0;var l=Error.prepareStackTrace;Error.prepareStackTrace=void 0;try{var a={DetermineComponentFrameRoot:function(){try{if(e){var j=function(){throw Error()};if(Object.defineProperty(j.prototype,"props",{set:function(){throw Error()}}),typeof Reflect=="object"&&Reflect.construct){try{Reflect.construct(j,[])}catch(g){var p=g}Reflect.construct(t,[],j)}else{try{j.call()}catch(g){p=g}t.call(j.prototype)}}else{try{throw Error()}catch(g){p=g}(j=t())&&typeof j.catch=="function"&&j.catch(function(){})}}catch(g){if(g&&p&&typeof g.stack=="string")return[g.stack,p.stack]}return[null,null]}};a.DetermineComponentFrameRoot.displayName="DetermineComponentFrameRoot";var n=Object.getOwnPropertyDescriptor(a.DetermineComponentFrameRoot,"name");n&&n.configurable&&Object.defineProperty(a.DetermineComponentFrameRoot,"name",{value:"DetermineComponentFrameRoot"});var u=a.DetermineComponentFrameRoot(),i=u[0],s=u[1];if(i&&s){var c=i.split(`
-`),h=s.split(`
-`);for(n=a=0;a<c.length&&!c[a].includes("DetermineComponentFrameRoot");)a++;for(;n<h.length&&!h[n].includes("DetermineComponentFrameRoot");)n++;if(a===c.length||n===h.length)for(a=c.length-1,n=h.length-1;1<=a&&0<=n&&c[a]!==h[n];)n--;for(;1<=a&&0<=n;a--,n--)if(c[a]!==h[n]){if(a!==1||n!==1)do if(a--,n--,0>n||c[a]!==h[n]){var v=`
-`+c[a].replace(" at new "," at ");return t.displayName&&v.includes("<anonymous>")&&(v=v.replace("<anonymous>",t.displayName)),v}while(1<=a&&0<=n);break}}}finally{Uu=!1,Error.prepareStackTrace=l}return(l=t?t.displayName||t.name:"")?bl(l):""}function ld(t,e){switch(t.tag){case 26:case 27:case 5:return bl(t.type);case 16:return bl("Lazy");case 13:return t.child!==e&&e!==null?bl("Suspense Fallback"):bl("Suspense");case 19:return bl("SuspenseList");case 0:case 15:return Bu(t.type,!1);case 11:return Bu(t.type.render,!1);case 1:return Bu(t.type,!0);case 31:return bl("Activity");default:return""}}function tc(t){try{var e="",l=null;do e+=ld(t,l),l=t,t=t.return;while(t);return e}catch(a){return`
-Error generating stack: `+a.message+`
-`+a.stack}}var Hu=Object.prototype.hasOwnProperty,qu=r.unstable_scheduleCallback,Yu=r.unstable_cancelCallback,ad=r.unstable_shouldYield,nd=r.unstable_requestPaint,Jt=r.unstable_now,ud=r.unstable_getCurrentPriorityLevel,ec=r.unstable_ImmediatePriority,lc=r.unstable_UserBlockingPriority,vn=r.unstable_NormalPriority,id=r.unstable_LowPriority,ac=r.unstable_IdlePriority,sd=r.log,cd=r.unstable_setDisableYieldValue,Ra=null,Wt=null;function Ke(t){if(typeof sd=="function"&&cd(t),Wt&&typeof Wt.setStrictMode=="function")try{Wt.setStrictMode(Ra,t)}catch{}}var $t=Math.clz32?Math.clz32:fd,rd=Math.log,od=Math.LN2;function fd(t){return t>>>=0,t===0?32:31-(rd(t)/od|0)|0}var bn=256,yn=262144,jn=4194304;function yl(t){var e=t&42;if(e!==0)return e;switch(t&-t){case 1:return 1;case 2:return 2;case 4:return 4;case 8:return 8;case 16:return 16;case 32:return 32;case 64:return 64;case 128:return 128;case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:return t&261888;case 262144:case 524288:case 1048576:case 2097152:return t&3932160;case 4194304:case 8388608:case 16777216:case 33554432:return t&62914560;case 67108864:return 67108864;case 134217728:return 134217728;case 268435456:return 268435456;case 536870912:return 536870912;case 1073741824:return 0;default:return t}}function En(t,e,l){var a=t.pendingLanes;if(a===0)return 0;var n=0,u=t.suspendedLanes,i=t.pingedLanes;t=t.warmLanes;var s=a&134217727;return s!==0?(a=s&~u,a!==0?n=yl(a):(i&=s,i!==0?n=yl(i):l||(l=s&~t,l!==0&&(n=yl(l))))):(s=a&~u,s!==0?n=yl(s):i!==0?n=yl(i):l||(l=a&~t,l!==0&&(n=yl(l)))),n===0?0:e!==0&&e!==n&&(e&u)===0&&(u=n&-n,l=e&-e,u>=l||u===32&&(l&4194048)!==0)?e:n}function Na(t,e){return(t.pendingLanes&~(t.suspendedLanes&~t.pingedLanes)&e)===0}function dd(t,e){switch(t){case 1:case 2:case 4:case 8:case 64:return e+250;case 16:case 32:case 128:case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:return e+5e3;case 4194304:case 8388608:case 16777216:case 33554432:return-1;case 67108864:case 134217728:case 268435456:case 536870912:case 1073741824:return-1;default:return-1}}function nc(){var t=jn;return jn<<=1,(jn&62914560)===0&&(jn=4194304),t}function Gu(t){for(var e=[],l=0;31>l;l++)e.push(t);return e}function _a(t,e){t.pendingLanes|=e,e!==268435456&&(t.suspendedLanes=0,t.pingedLanes=0,t.warmLanes=0)}function md(t,e,l,a,n,u){var i=t.pendingLanes;t.pendingLanes=l,t.suspendedLanes=0,t.pingedLanes=0,t.warmLanes=0,t.expiredLanes&=l,t.entangledLanes&=l,t.errorRecoveryDisabledLanes&=l,t.shellSuspendCounter=0;var s=t.entanglements,c=t.expirationTimes,h=t.hiddenUpdates;for(l=i&~l;0<l;){var v=31-$t(l),j=1<<v;s[v]=0,c[v]=-1;var p=h[v];if(p!==null)for(h[v]=null,v=0;v<p.length;v++){var g=p[v];g!==null&&(g.lane&=-536870913)}l&=~j}a!==0&&uc(t,a,0),u!==0&&n===0&&t.tag!==0&&(t.suspendedLanes|=u&~(i&~e))}function uc(t,e,l){t.pendingLanes|=e,t.suspendedLanes&=~e;var a=31-$t(e);t.entangledLanes|=e,t.entanglements[a]=t.entanglements[a]|1073741824|l&261930}function ic(t,e){var l=t.entangledLanes|=e;for(t=t.entanglements;l;){var a=31-$t(l),n=1<<a;n&e|t[a]&e&&(t[a]|=e),l&=~n}}function sc(t,e){var l=e&-e;return l=(l&42)!==0?1:Lu(l),(l&(t.suspendedLanes|e))!==0?0:l}function Lu(t){switch(t){case 2:t=1;break;case 8:t=4;break;case 32:t=16;break;case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:case 4194304:case 8388608:case 16777216:case 33554432:t=128;break;case 268435456:t=134217728;break;default:t=0}return t}function Xu(t){return t&=-t,2<t?8<t?(t&134217727)!==0?32:268435456:8:2}function cc(){var t=N.p;return t!==0?t:(t=window.event,t===void 0?32:Wf(t.type))}function rc(t,e){var l=N.p;try{return N.p=t,e()}finally{N.p=l}}var Je=Math.random().toString(36).slice(2),_t="__reactFiber$"+Je,qt="__reactProps$"+Je,ql="__reactContainer$"+Je,Qu="__reactEvents$"+Je,xd="__reactListeners$"+Je,hd="__reactHandles$"+Je,oc="__reactResources$"+Je,za="__reactMarker$"+Je;function Vu(t){delete t[_t],delete t[qt],delete t[Qu],delete t[xd],delete t[hd]}function Yl(t){var e=t[_t];if(e)return e;for(var l=t.parentNode;l;){if(e=l[ql]||l[_t]){if(l=e.alternate,e.child!==null||l!==null&&l.child!==null)for(t=Of(t);t!==null;){if(l=t[_t])return l;t=Of(t)}return e}t=l,l=t.parentNode}return null}function Gl(t){if(t=t[_t]||t[ql]){var e=t.tag;if(e===5||e===6||e===13||e===31||e===26||e===27||e===3)return t}return null}function Ta(t){var e=t.tag;if(e===5||e===26||e===27||e===6)return t.stateNode;throw Error(m(33))}function Ll(t){var e=t[oc];return e||(e=t[oc]={hoistableStyles:new Map,hoistableScripts:new Map}),e}function Rt(t){t[za]=!0}var fc=new Set,dc={};function jl(t,e){Xl(t,e),Xl(t+"Capture",e)}function Xl(t,e){for(dc[t]=e,t=0;t<e.length;t++)fc.add(e[t])}var pd=RegExp("^[:A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD][:A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD\\-.0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040]*$"),mc={},xc={};function gd(t){return Hu.call(xc,t)?!0:Hu.call(mc,t)?!1:pd.test(t)?xc[t]=!0:(mc[t]=!0,!1)}function Sn(t,e,l){if(gd(e))if(l===null)t.removeAttribute(e);else{switch(typeof l){case"undefined":case"function":case"symbol":t.removeAttribute(e);return;case"boolean":var a=e.toLowerCase().slice(0,5);if(a!=="data-"&&a!=="aria-"){t.removeAttribute(e);return}}t.setAttribute(e,""+l)}}function Rn(t,e,l){if(l===null)t.removeAttribute(e);else{switch(typeof l){case"undefined":case"function":case"symbol":case"boolean":t.removeAttribute(e);return}t.setAttribute(e,""+l)}}function Te(t,e,l,a){if(a===null)t.removeAttribute(l);else{switch(typeof a){case"undefined":case"function":case"symbol":case"boolean":t.removeAttribute(l);return}t.setAttributeNS(e,l,""+a)}}function ue(t){switch(typeof t){case"bigint":case"boolean":case"number":case"string":case"undefined":return t;case"object":return t;default:return""}}function hc(t){var e=t.type;return(t=t.nodeName)&&t.toLowerCase()==="input"&&(e==="checkbox"||e==="radio")}function vd(t,e,l){var a=Object.getOwnPropertyDescriptor(t.constructor.prototype,e);if(!t.hasOwnProperty(e)&&typeof a<"u"&&typeof a.get=="function"&&typeof a.set=="function"){var n=a.get,u=a.set;return Object.defineProperty(t,e,{configurable:!0,get:function(){return n.call(this)},set:function(i){l=""+i,u.call(this,i)}}),Object.defineProperty(t,e,{enumerable:a.enumerable}),{getValue:function(){return l},setValue:function(i){l=""+i},stopTracking:function(){t._valueTracker=null,delete t[e]}}}}function Zu(t){if(!t._valueTracker){var e=hc(t)?"checked":"value";t._valueTracker=vd(t,e,""+t[e])}}function pc(t){if(!t)return!1;var e=t._valueTracker;if(!e)return!0;var l=e.getValue(),a="";return t&&(a=hc(t)?t.checked?"true":"false":t.value),t=a,t!==l?(e.setValue(t),!0):!1}function Nn(t){if(t=t||(typeof document<"u"?document:void 0),typeof t>"u")return null;try{return t.activeElement||t.body}catch{return t.body}}var bd=/[\n"\\]/g;function ie(t){return t.replace(bd,function(e){return"\\"+e.charCodeAt(0).toString(16)+" "})}function Ku(t,e,l,a,n,u,i,s){t.name="",i!=null&&typeof i!="function"&&typeof i!="symbol"&&typeof i!="boolean"?t.type=i:t.removeAttribute("type"),e!=null?i==="number"?(e===0&&t.value===""||t.value!=e)&&(t.value=""+ue(e)):t.value!==""+ue(e)&&(t.value=""+ue(e)):i!=="submit"&&i!=="reset"||t.removeAttribute("value"),e!=null?Ju(t,i,ue(e)):l!=null?Ju(t,i,ue(l)):a!=null&&t.removeAttribute("value"),n==null&&u!=null&&(t.defaultChecked=!!u),n!=null&&(t.checked=n&&typeof n!="function"&&typeof n!="symbol"),s!=null&&typeof s!="function"&&typeof s!="symbol"&&typeof s!="boolean"?t.name=""+ue(s):t.removeAttribute("name")}function gc(t,e,l,a,n,u,i,s){if(u!=null&&typeof u!="function"&&typeof u!="symbol"&&typeof u!="boolean"&&(t.type=u),e!=null||l!=null){if(!(u!=="submit"&&u!=="reset"||e!=null)){Zu(t);return}l=l!=null?""+ue(l):"",e=e!=null?""+ue(e):l,s||e===t.value||(t.value=e),t.defaultValue=e}a=a??n,a=typeof a!="function"&&typeof a!="symbol"&&!!a,t.checked=s?t.checked:!!a,t.defaultChecked=!!a,i!=null&&typeof i!="function"&&typeof i!="symbol"&&typeof i!="boolean"&&(t.name=i),Zu(t)}function Ju(t,e,l){e==="number"&&Nn(t.ownerDocument)===t||t.defaultValue===""+l||(t.defaultValue=""+l)}function Ql(t,e,l,a){if(t=t.options,e){e={};for(var n=0;n<l.length;n++)e["$"+l[n]]=!0;for(l=0;l<t.length;l++)n=e.hasOwnProperty("$"+t[l].value),t[l].selected!==n&&(t[l].selected=n),n&&a&&(t[l].defaultSelected=!0)}else{for(l=""+ue(l),e=null,n=0;n<t.length;n++){if(t[n].value===l){t[n].selected=!0,a&&(t[n].defaultSelected=!0);return}e!==null||t[n].disabled||(e=t[n])}e!==null&&(e.selected=!0)}}function vc(t,e,l){if(e!=null&&(e=""+ue(e),e!==t.value&&(t.value=e),l==null)){t.defaultValue!==e&&(t.defaultValue=e);return}t.defaultValue=l!=null?""+ue(l):""}function bc(t,e,l,a){if(e==null){if(a!=null){if(l!=null)throw Error(m(92));if(he(a)){if(1<a.length)throw Error(m(93));a=a[0]}l=a}l==null&&(l=""),e=l}l=ue(e),t.defaultValue=l,a=t.textContent,a===l&&a!==""&&a!==null&&(t.value=a),Zu(t)}function Vl(t,e){if(e){var l=t.firstChild;if(l&&l===t.lastChild&&l.nodeType===3){l.nodeValue=e;return}}t.textContent=e}var yd=new Set("animationIterationCount aspectRatio borderImageOutset borderImageSlice borderImageWidth boxFlex boxFlexGroup boxOrdinalGroup columnCount columns flex flexGrow flexPositive flexShrink flexNegative flexOrder gridArea gridRow gridRowEnd gridRowSpan gridRowStart gridColumn gridColumnEnd gridColumnSpan gridColumnStart fontWeight lineClamp lineHeight opacity order orphans scale tabSize widows zIndex zoom fillOpacity floodOpacity stopOpacity strokeDasharray strokeDashoffset strokeMiterlimit strokeOpacity strokeWidth MozAnimationIterationCount MozBoxFlex MozBoxFlexGroup MozLineClamp msAnimationIterationCount msFlex msZoom msFlexGrow msFlexNegative msFlexOrder msFlexPositive msFlexShrink msGridColumn msGridColumnSpan msGridRow msGridRowSpan WebkitAnimationIterationCount WebkitBoxFlex WebKitBoxFlexGroup WebkitBoxOrdinalGroup WebkitColumnCount WebkitColumns WebkitFlex WebkitFlexGrow WebkitFlexPositive WebkitFlexShrink WebkitLineClamp".split(" "));function yc(t,e,l){var a=e.indexOf("--")===0;l==null||typeof l=="boolean"||l===""?a?t.setProperty(e,""):e==="float"?t.cssFloat="":t[e]="":a?t.setProperty(e,l):typeof l!="number"||l===0||yd.has(e)?e==="float"?t.cssFloat=l:t[e]=(""+l).trim():t[e]=l+"px"}function jc(t,e,l){if(e!=null&&typeof e!="object")throw Error(m(62));if(t=t.style,l!=null){for(var a in l)!l.hasOwnProperty(a)||e!=null&&e.hasOwnProperty(a)||(a.indexOf("--")===0?t.setProperty(a,""):a==="float"?t.cssFloat="":t[a]="");for(var n in e)a=e[n],e.hasOwnProperty(n)&&l[n]!==a&&yc(t,n,a)}else for(var u in e)e.hasOwnProperty(u)&&yc(t,u,e[u])}function Wu(t){if(t.indexOf("-")===-1)return!1;switch(t){case"annotation-xml":case"color-profile":case"font-face":case"font-face-src":case"font-face-uri":case"font-face-format":case"font-face-name":case"missing-glyph":return!1;default:return!0}}var jd=new Map([["acceptCharset","accept-charset"],["htmlFor","for"],["httpEquiv","http-equiv"],["crossOrigin","crossorigin"],["accentHeight","accent-height"],["alignmentBaseline","alignment-baseline"],["arabicForm","arabic-form"],["baselineShift","baseline-shift"],["capHeight","cap-height"],["clipPath","clip-path"],["clipRule","clip-rule"],["colorInterpolation","color-interpolation"],["colorInterpolationFilters","color-interpolation-filters"],["colorProfile","color-profile"],["colorRendering","color-rendering"],["dominantBaseline","dominant-baseline"],["enableBackground","enable-background"],["fillOpacity","fill-opacity"],["fillRule","fill-rule"],["floodColor","flood-color"],["floodOpacity","flood-opacity"],["fontFamily","font-family"],["fontSize","font-size"],["fontSizeAdjust","font-size-adjust"],["fontStretch","font-stretch"],["fontStyle","font-style"],["fontVariant","font-variant"],["fontWeight","font-weight"],["glyphName","glyph-name"],["glyphOrientationHorizontal","glyph-orientation-horizontal"],["glyphOrientationVertical","glyph-orientation-vertical"],["horizAdvX","horiz-adv-x"],["horizOriginX","horiz-origin-x"],["imageRendering","image-rendering"],["letterSpacing","letter-spacing"],["lightingColor","lighting-color"],["markerEnd","marker-end"],["markerMid","marker-mid"],["markerStart","marker-start"],["overlinePosition","overline-position"],["overlineThickness","overline-thickness"],["paintOrder","paint-order"],["panose-1","panose-1"],["pointerEvents","pointer-events"],["renderingIntent","rendering-intent"],["shapeRendering","shape-rendering"],["stopColor","stop-color"],["stopOpacity","stop-opacity"],["strikethroughPosition","strikethrough-position"],["strikethroughThickness","strikethrough-thickness"],["strokeDasharray","stroke-dasharray"],["strokeDashoffset","stroke-dashoffset"],["strokeLinecap","stroke-linecap"],["strokeLinejoin","stroke-linejoin"],["strokeMiterlimit","stroke-miterlimit"],["strokeOpacity","stroke-opacity"],["strokeWidth","stroke-width"],["textAnchor","text-anchor"],["textDecoration","text-decoration"],["textRendering","text-rendering"],["transformOrigin","transform-origin"],["underlinePosition","underline-position"],["underlineThickness","underline-thickness"],["unicodeBidi","unicode-bidi"],["unicodeRange","unicode-range"],["unitsPerEm","units-per-em"],["vAlphabetic","v-alphabetic"],["vHanging","v-hanging"],["vIdeographic","v-ideographic"],["vMathematical","v-mathematical"],["vectorEffect","vector-effect"],["vertAdvY","vert-adv-y"],["vertOriginX","vert-origin-x"],["vertOriginY","vert-origin-y"],["wordSpacing","word-spacing"],["writingMode","writing-mode"],["xmlnsXlink","xmlns:xlink"],["xHeight","x-height"]]),Ed=/^[\u0000-\u001F ]*j[\r\n\t]*a[\r\n\t]*v[\r\n\t]*a[\r\n\t]*s[\r\n\t]*c[\r\n\t]*r[\r\n\t]*i[\r\n\t]*p[\r\n\t]*t[\r\n\t]*:/i;function _n(t){return Ed.test(""+t)?"javascript:throw new Error('React has blocked a javascript: URL as a security precaution.')":t}function Ae(){}var $u=null;function Fu(t){return t=t.target||t.srcElement||window,t.correspondingUseElement&&(t=t.correspondingUseElement),t.nodeType===3?t.parentNode:t}var Zl=null,Kl=null;function Ec(t){var e=Gl(t);if(e&&(t=e.stateNode)){var l=t[qt]||null;t:switch(t=e.stateNode,e.type){case"input":if(Ku(t,l.value,l.defaultValue,l.defaultValue,l.checked,l.defaultChecked,l.type,l.name),e=l.name,l.type==="radio"&&e!=null){for(l=t;l.parentNode;)l=l.parentNode;for(l=l.querySelectorAll('input[name="'+ie(""+e)+'"][type="radio"]'),e=0;e<l.length;e++){var a=l[e];if(a!==t&&a.form===t.form){var n=a[qt]||null;if(!n)throw Error(m(90));Ku(a,n.value,n.defaultValue,n.defaultValue,n.checked,n.defaultChecked,n.type,n.name)}}for(e=0;e<l.length;e++)a=l[e],a.form===t.form&&pc(a)}break t;case"textarea":vc(t,l.value,l.defaultValue);break t;case"select":e=l.value,e!=null&&Ql(t,!!l.multiple,e,!1)}}}var Iu=!1;function Sc(t,e,l){if(Iu)return t(e,l);Iu=!0;try{var a=t(e);return a}finally{if(Iu=!1,(Zl!==null||Kl!==null)&&(mu(),Zl&&(e=Zl,t=Kl,Kl=Zl=null,Ec(e),t)))for(e=0;e<t.length;e++)Ec(t[e])}}function Aa(t,e){var l=t.stateNode;if(l===null)return null;var a=l[qt]||null;if(a===null)return null;l=a[e];t:switch(e){case"onClick":case"onClickCapture":case"onDoubleClick":case"onDoubleClickCapture":case"onMouseDown":case"onMouseDownCapture":case"onMouseMove":case"onMouseMoveCapture":case"onMouseUp":case"onMouseUpCapture":case"onMouseEnter":(a=!a.disabled)||(t=t.type,a=!(t==="button"||t==="input"||t==="select"||t==="textarea")),t=!a;break t;default:t=!1}if(t)return null;if(l&&typeof l!="function")throw Error(m(231,e,typeof l));return l}var Me=!(typeof window>"u"||typeof window.document>"u"||typeof window.document.createElement>"u"),Pu=!1;if(Me)try{var Ma={};Object.defineProperty(Ma,"passive",{get:function(){Pu=!0}}),window.addEventListener("test",Ma,Ma),window.removeEventListener("test",Ma,Ma)}catch{Pu=!1}var We=null,ti=null,zn=null;function Rc(){if(zn)return zn;var t,e=ti,l=e.length,a,n="value"in We?We.value:We.textContent,u=n.length;for(t=0;t<l&&e[t]===n[t];t++);var i=l-t;for(a=1;a<=i&&e[l-a]===n[u-a];a++);return zn=n.slice(t,1<a?1-a:void 0)}function Tn(t){var e=t.keyCode;return"charCode"in t?(t=t.charCode,t===0&&e===13&&(t=13)):t=e,t===10&&(t=13),32<=t||t===13?t:0}function An(){return!0}function Nc(){return!1}function Yt(t){function e(l,a,n,u,i){this._reactName=l,this._targetInst=n,this.type=a,this.nativeEvent=u,this.target=i,this.currentTarget=null;for(var s in t)t.hasOwnProperty(s)&&(l=t[s],this[s]=l?l(u):u[s]);return this.isDefaultPrevented=(u.defaultPrevented!=null?u.defaultPrevented:u.returnValue===!1)?An:Nc,this.isPropagationStopped=Nc,this}return k(e.prototype,{preventDefault:function(){this.defaultPrevented=!0;var l=this.nativeEvent;l&&(l.preventDefault?l.preventDefault():typeof l.returnValue!="unknown"&&(l.returnValue=!1),this.isDefaultPrevented=An)},stopPropagation:function(){var l=this.nativeEvent;l&&(l.stopPropagation?l.stopPropagation():typeof l.cancelBubble!="unknown"&&(l.cancelBubble=!0),this.isPropagationStopped=An)},persist:function(){},isPersistent:An}),e}var El={eventPhase:0,bubbles:0,cancelable:0,timeStamp:function(t){return t.timeStamp||Date.now()},defaultPrevented:0,isTrusted:0},Mn=Yt(El),Ca=k({},El,{view:0,detail:0}),Sd=Yt(Ca),ei,li,Da,Cn=k({},Ca,{screenX:0,screenY:0,clientX:0,clientY:0,pageX:0,pageY:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,getModifierState:ni,button:0,buttons:0,relatedTarget:function(t){return t.relatedTarget===void 0?t.fromElement===t.srcElement?t.toElement:t.fromElement:t.relatedTarget},movementX:function(t){return"movementX"in t?t.movementX:(t!==Da&&(Da&&t.type==="mousemove"?(ei=t.screenX-Da.screenX,li=t.screenY-Da.screenY):li=ei=0,Da=t),ei)},movementY:function(t){return"movementY"in t?t.movementY:li}}),_c=Yt(Cn),Rd=k({},Cn,{dataTransfer:0}),Nd=Yt(Rd),_d=k({},Ca,{relatedTarget:0}),ai=Yt(_d),zd=k({},El,{animationName:0,elapsedTime:0,pseudoElement:0}),Td=Yt(zd),Ad=k({},El,{clipboardData:function(t){return"clipboardData"in t?t.clipboardData:window.clipboardData}}),Md=Yt(Ad),Cd=k({},El,{data:0}),zc=Yt(Cd),Dd={Esc:"Escape",Spacebar:" ",Left:"ArrowLeft",Up:"ArrowUp",Right:"ArrowRight",Down:"ArrowDown",Del:"Delete",Win:"OS",Menu:"ContextMenu",Apps:"ContextMenu",Scroll:"ScrollLock",MozPrintableKey:"Unidentified"},Od={8:"Backspace",9:"Tab",12:"Clear",13:"Enter",16:"Shift",17:"Control",18:"Alt",19:"Pause",20:"CapsLock",27:"Escape",32:" ",33:"PageUp",34:"PageDown",35:"End",36:"Home",37:"ArrowLeft",38:"ArrowUp",39:"ArrowRight",40:"ArrowDown",45:"Insert",46:"Delete",112:"F1",113:"F2",114:"F3",115:"F4",116:"F5",117:"F6",118:"F7",119:"F8",120:"F9",121:"F10",122:"F11",123:"F12",144:"NumLock",145:"ScrollLock",224:"Meta"},kd={Alt:"altKey",Control:"ctrlKey",Meta:"metaKey",Shift:"shiftKey"};function wd(t){var e=this.nativeEvent;return e.getModifierState?e.getModifierState(t):(t=kd[t])?!!e[t]:!1}function ni(){return wd}var Ud=k({},Ca,{key:function(t){if(t.key){var e=Dd[t.key]||t.key;if(e!=="Unidentified")return e}return t.type==="keypress"?(t=Tn(t),t===13?"Enter":String.fromCharCode(t)):t.type==="keydown"||t.type==="keyup"?Od[t.keyCode]||"Unidentified":""},code:0,location:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,repeat:0,locale:0,getModifierState:ni,charCode:function(t){return t.type==="keypress"?Tn(t):0},keyCode:function(t){return t.type==="keydown"||t.type==="keyup"?t.keyCode:0},which:function(t){return t.type==="keypress"?Tn(t):t.type==="keydown"||t.type==="keyup"?t.keyCode:0}}),Bd=Yt(Ud),Hd=k({},Cn,{pointerId:0,width:0,height:0,pressure:0,tangentialPressure:0,tiltX:0,tiltY:0,twist:0,pointerType:0,isPrimary:0}),Tc=Yt(Hd),qd=k({},Ca,{touches:0,targetTouches:0,changedTouches:0,altKey:0,metaKey:0,ctrlKey:0,shiftKey:0,getModifierState:ni}),Yd=Yt(qd),Gd=k({},El,{propertyName:0,elapsedTime:0,pseudoElement:0}),Ld=Yt(Gd),Xd=k({},Cn,{deltaX:function(t){return"deltaX"in t?t.deltaX:"wheelDeltaX"in t?-t.wheelDeltaX:0},deltaY:function(t){return"deltaY"in t?t.deltaY:"wheelDeltaY"in t?-t.wheelDeltaY:"wheelDelta"in t?-t.wheelDelta:0},deltaZ:0,deltaMode:0}),Qd=Yt(Xd),Vd=k({},El,{newState:0,oldState:0}),Zd=Yt(Vd),Kd=[9,13,27,32],ui=Me&&"CompositionEvent"in window,Oa=null;Me&&"documentMode"in document&&(Oa=document.documentMode);var Jd=Me&&"TextEvent"in window&&!Oa,Ac=Me&&(!ui||Oa&&8<Oa&&11>=Oa),Mc=" ",Cc=!1;function Dc(t,e){switch(t){case"keyup":return Kd.indexOf(e.keyCode)!==-1;case"keydown":return e.keyCode!==229;case"keypress":case"mousedown":case"focusout":return!0;default:return!1}}function Oc(t){return t=t.detail,typeof t=="object"&&"data"in t?t.data:null}var Jl=!1;function Wd(t,e){switch(t){case"compositionend":return Oc(e);case"keypress":return e.which!==32?null:(Cc=!0,Mc);case"textInput":return t=e.data,t===Mc&&Cc?null:t;default:return null}}function $d(t,e){if(Jl)return t==="compositionend"||!ui&&Dc(t,e)?(t=Rc(),zn=ti=We=null,Jl=!1,t):null;switch(t){case"paste":return null;case"keypress":if(!(e.ctrlKey||e.altKey||e.metaKey)||e.ctrlKey&&e.altKey){if(e.char&&1<e.char.length)return e.char;if(e.which)return String.fromCharCode(e.which)}return null;case"compositionend":return Ac&&e.locale!=="ko"?null:e.data;default:return null}}var Fd={color:!0,date:!0,datetime:!0,"datetime-local":!0,email:!0,month:!0,number:!0,password:!0,range:!0,search:!0,tel:!0,text:!0,time:!0,url:!0,week:!0};function kc(t){var e=t&&t.nodeName&&t.nodeName.toLowerCase();return e==="input"?!!Fd[t.type]:e==="textarea"}function wc(t,e,l,a){Zl?Kl?Kl.push(a):Kl=[a]:Zl=a,e=yu(e,"onChange"),0<e.length&&(l=new Mn("onChange","change",null,l,a),t.push({event:l,listeners:e}))}var ka=null,wa=null;function Id(t){bf(t,0)}function Dn(t){var e=Ta(t);if(pc(e))return t}function Uc(t,e){if(t==="change")return e}var Bc=!1;if(Me){var ii;if(Me){var si="oninput"in document;if(!si){var Hc=document.createElement("div");Hc.setAttribute("oninput","return;"),si=typeof Hc.oninput=="function"}ii=si}else ii=!1;Bc=ii&&(!document.documentMode||9<document.documentMode)}function qc(){ka&&(ka.detachEvent("onpropertychange",Yc),wa=ka=null)}function Yc(t){if(t.propertyName==="value"&&Dn(wa)){var e=[];wc(e,wa,t,Fu(t)),Sc(Id,e)}}function Pd(t,e,l){t==="focusin"?(qc(),ka=e,wa=l,ka.attachEvent("onpropertychange",Yc)):t==="focusout"&&qc()}function t0(t){if(t==="selectionchange"||t==="keyup"||t==="keydown")return Dn(wa)}function e0(t,e){if(t==="click")return Dn(e)}function l0(t,e){if(t==="input"||t==="change")return Dn(e)}function a0(t,e){return t===e&&(t!==0||1/t===1/e)||t!==t&&e!==e}var Ft=typeof Object.is=="function"?Object.is:a0;function Ua(t,e){if(Ft(t,e))return!0;if(typeof t!="object"||t===null||typeof e!="object"||e===null)return!1;var l=Object.keys(t),a=Object.keys(e);if(l.length!==a.length)return!1;for(a=0;a<l.length;a++){var n=l[a];if(!Hu.call(e,n)||!Ft(t[n],e[n]))return!1}return!0}function Gc(t){for(;t&&t.firstChild;)t=t.firstChild;return t}function Lc(t,e){var l=Gc(t);t=0;for(var a;l;){if(l.nodeType===3){if(a=t+l.textContent.length,t<=e&&a>=e)return{node:l,offset:e-t};t=a}t:{for(;l;){if(l.nextSibling){l=l.nextSibling;break t}l=l.parentNode}l=void 0}l=Gc(l)}}function Xc(t,e){return t&&e?t===e?!0:t&&t.nodeType===3?!1:e&&e.nodeType===3?Xc(t,e.parentNode):"contains"in t?t.contains(e):t.compareDocumentPosition?!!(t.compareDocumentPosition(e)&16):!1:!1}function Qc(t){t=t!=null&&t.ownerDocument!=null&&t.ownerDocument.defaultView!=null?t.ownerDocument.defaultView:window;for(var e=Nn(t.document);e instanceof t.HTMLIFrameElement;){try{var l=typeof e.contentWindow.location.href=="string"}catch{l=!1}if(l)t=e.contentWindow;else break;e=Nn(t.document)}return e}function ci(t){var e=t&&t.nodeName&&t.nodeName.toLowerCase();return e&&(e==="input"&&(t.type==="text"||t.type==="search"||t.type==="tel"||t.type==="url"||t.type==="password")||e==="textarea"||t.contentEditable==="true")}var n0=Me&&"documentMode"in document&&11>=document.documentMode,Wl=null,ri=null,Ba=null,oi=!1;function Vc(t,e,l){var a=l.window===l?l.document:l.nodeType===9?l:l.ownerDocument;oi||Wl==null||Wl!==Nn(a)||(a=Wl,"selectionStart"in a&&ci(a)?a={start:a.selectionStart,end:a.selectionEnd}:(a=(a.ownerDocument&&a.ownerDocument.defaultView||window).getSelection(),a={anchorNode:a.anchorNode,anchorOffset:a.anchorOffset,focusNode:a.focusNode,focusOffset:a.focusOffset}),Ba&&Ua(Ba,a)||(Ba=a,a=yu(ri,"onSelect"),0<a.length&&(e=new Mn("onSelect","select",null,e,l),t.push({event:e,listeners:a}),e.target=Wl)))}function Sl(t,e){var l={};return l[t.toLowerCase()]=e.toLowerCase(),l["Webkit"+t]="webkit"+e,l["Moz"+t]="moz"+e,l}var $l={animationend:Sl("Animation","AnimationEnd"),animationiteration:Sl("Animation","AnimationIteration"),animationstart:Sl("Animation","AnimationStart"),transitionrun:Sl("Transition","TransitionRun"),transitionstart:Sl("Transition","TransitionStart"),transitioncancel:Sl("Transition","TransitionCancel"),transitionend:Sl("Transition","TransitionEnd")},fi={},Zc={};Me&&(Zc=document.createElement("div").style,"AnimationEvent"in window||(delete $l.animationend.animation,delete $l.animationiteration.animation,delete $l.animationstart.animation),"TransitionEvent"in window||delete $l.transitionend.transition);function Rl(t){if(fi[t])return fi[t];if(!$l[t])return t;var e=$l[t],l;for(l in e)if(e.hasOwnProperty(l)&&l in Zc)return fi[t]=e[l];return t}var Kc=Rl("animationend"),Jc=Rl("animationiteration"),Wc=Rl("animationstart"),u0=Rl("transitionrun"),i0=Rl("transitionstart"),s0=Rl("transitioncancel"),$c=Rl("transitionend"),Fc=new Map,di="abort auxClick beforeToggle cancel canPlay canPlayThrough click close contextMenu copy cut drag dragEnd dragEnter dragExit dragLeave dragOver dragStart drop durationChange emptied encrypted ended error gotPointerCapture input invalid keyDown keyPress keyUp load loadedData loadedMetadata loadStart lostPointerCapture mouseDown mouseMove mouseOut mouseOver mouseUp paste pause play playing pointerCancel pointerDown pointerMove pointerOut pointerOver pointerUp progress rateChange reset resize seeked seeking stalled submit suspend timeUpdate touchCancel touchEnd touchStart volumeChange scroll toggle touchMove waiting wheel".split(" ");di.push("scrollEnd");function pe(t,e){Fc.set(t,e),jl(e,[t])}var On=typeof reportError=="function"?reportError:function(t){if(typeof window=="object"&&typeof window.ErrorEvent=="function"){var e=new window.ErrorEvent("error",{bubbles:!0,cancelable:!0,message:typeof t=="object"&&t!==null&&typeof t.message=="string"?String(t.message):String(t),error:t});if(!window.dispatchEvent(e))return}else if(typeof process=="object"&&typeof process.emit=="function"){process.emit("uncaughtException",t);return}console.error(t)},se=[],Fl=0,mi=0;function kn(){for(var t=Fl,e=mi=Fl=0;e<t;){var l=se[e];se[e++]=null;var a=se[e];se[e++]=null;var n=se[e];se[e++]=null;var u=se[e];if(se[e++]=null,a!==null&&n!==null){var i=a.pending;i===null?n.next=n:(n.next=i.next,i.next=n),a.pending=n}u!==0&&Ic(l,n,u)}}function wn(t,e,l,a){se[Fl++]=t,se[Fl++]=e,se[Fl++]=l,se[Fl++]=a,mi|=a,t.lanes|=a,t=t.alternate,t!==null&&(t.lanes|=a)}function xi(t,e,l,a){return wn(t,e,l,a),Un(t)}function Nl(t,e){return wn(t,null,null,e),Un(t)}function Ic(t,e,l){t.lanes|=l;var a=t.alternate;a!==null&&(a.lanes|=l);for(var n=!1,u=t.return;u!==null;)u.childLanes|=l,a=u.alternate,a!==null&&(a.childLanes|=l),u.tag===22&&(t=u.stateNode,t===null||t._visibility&1||(n=!0)),t=u,u=u.return;return t.tag===3?(u=t.stateNode,n&&e!==null&&(n=31-$t(l),t=u.hiddenUpdates,a=t[n],a===null?t[n]=[e]:a.push(e),e.lane=l|536870912),u):null}function Un(t){if(50<un)throw un=0,Ss=null,Error(m(185));for(var e=t.return;e!==null;)t=e,e=t.return;return t.tag===3?t.stateNode:null}var Il={};function c0(t,e,l,a){this.tag=t,this.key=l,this.sibling=this.child=this.return=this.stateNode=this.type=this.elementType=null,this.index=0,this.refCleanup=this.ref=null,this.pendingProps=e,this.dependencies=this.memoizedState=this.updateQueue=this.memoizedProps=null,this.mode=a,this.subtreeFlags=this.flags=0,this.deletions=null,this.childLanes=this.lanes=0,this.alternate=null}function It(t,e,l,a){return new c0(t,e,l,a)}function hi(t){return t=t.prototype,!(!t||!t.isReactComponent)}function Ce(t,e){var l=t.alternate;return l===null?(l=It(t.tag,e,t.key,t.mode),l.elementType=t.elementType,l.type=t.type,l.stateNode=t.stateNode,l.alternate=t,t.alternate=l):(l.pendingProps=e,l.type=t.type,l.flags=0,l.subtreeFlags=0,l.deletions=null),l.flags=t.flags&65011712,l.childLanes=t.childLanes,l.lanes=t.lanes,l.child=t.child,l.memoizedProps=t.memoizedProps,l.memoizedState=t.memoizedState,l.updateQueue=t.updateQueue,e=t.dependencies,l.dependencies=e===null?null:{lanes:e.lanes,firstContext:e.firstContext},l.sibling=t.sibling,l.index=t.index,l.ref=t.ref,l.refCleanup=t.refCleanup,l}function Pc(t,e){t.flags&=65011714;var l=t.alternate;return l===null?(t.childLanes=0,t.lanes=e,t.child=null,t.subtreeFlags=0,t.memoizedProps=null,t.memoizedState=null,t.updateQueue=null,t.dependencies=null,t.stateNode=null):(t.childLanes=l.childLanes,t.lanes=l.lanes,t.child=l.child,t.subtreeFlags=0,t.deletions=null,t.memoizedProps=l.memoizedProps,t.memoizedState=l.memoizedState,t.updateQueue=l.updateQueue,t.type=l.type,e=l.dependencies,t.dependencies=e===null?null:{lanes:e.lanes,firstContext:e.firstContext}),t}function Bn(t,e,l,a,n,u){var i=0;if(a=t,typeof t=="function")hi(t)&&(i=1);else if(typeof t=="string")i=mm(t,l,A.current)?26:t==="html"||t==="head"||t==="body"?27:5;else t:switch(t){case ye:return t=It(31,l,e,n),t.elementType=ye,t.lanes=u,t;case Dt:return _l(l.children,n,u,e);case _e:i=8,n|=24;break;case Kt:return t=It(12,l,e,n|2),t.elementType=Kt,t.lanes=u,t;case be:return t=It(13,l,e,n),t.elementType=be,t.lanes=u,t;case Ut:return t=It(19,l,e,n),t.elementType=Ut,t.lanes=u,t;default:if(typeof t=="object"&&t!==null)switch(t.$$typeof){case Ct:i=10;break t;case Ze:i=9;break t;case ne:i=11;break t;case K:i=14;break t;case Bt:i=16,a=null;break t}i=29,l=Error(m(130,t===null?"null":typeof t,"")),a=null}return e=It(i,l,e,n),e.elementType=t,e.type=a,e.lanes=u,e}function _l(t,e,l,a){return t=It(7,t,a,e),t.lanes=l,t}function pi(t,e,l){return t=It(6,t,null,e),t.lanes=l,t}function tr(t){var e=It(18,null,null,0);return e.stateNode=t,e}function gi(t,e,l){return e=It(4,t.children!==null?t.children:[],t.key,e),e.lanes=l,e.stateNode={containerInfo:t.containerInfo,pendingChildren:null,implementation:t.implementation},e}var er=new WeakMap;function ce(t,e){if(typeof t=="object"&&t!==null){var l=er.get(t);return l!==void 0?l:(e={value:t,source:e,stack:tc(e)},er.set(t,e),e)}return{value:t,source:e,stack:tc(e)}}var Pl=[],ta=0,Hn=null,Ha=0,re=[],oe=0,$e=null,Ee=1,Se="";function De(t,e){Pl[ta++]=Ha,Pl[ta++]=Hn,Hn=t,Ha=e}function lr(t,e,l){re[oe++]=Ee,re[oe++]=Se,re[oe++]=$e,$e=t;var a=Ee;t=Se;var n=32-$t(a)-1;a&=~(1<<n),l+=1;var u=32-$t(e)+n;if(30<u){var i=n-n%5;u=(a&(1<<i)-1).toString(32),a>>=i,n-=i,Ee=1<<32-$t(e)+n|l<<n|a,Se=u+t}else Ee=1<<u|l<<n|a,Se=t}function vi(t){t.return!==null&&(De(t,1),lr(t,1,0))}function bi(t){for(;t===Hn;)Hn=Pl[--ta],Pl[ta]=null,Ha=Pl[--ta],Pl[ta]=null;for(;t===$e;)$e=re[--oe],re[oe]=null,Se=re[--oe],re[oe]=null,Ee=re[--oe],re[oe]=null}function ar(t,e){re[oe++]=Ee,re[oe++]=Se,re[oe++]=$e,Ee=e.id,Se=e.overflow,$e=t}var zt=null,ct=null,J=!1,Fe=null,fe=!1,yi=Error(m(519));function Ie(t){var e=Error(m(418,1<arguments.length&&arguments[1]!==void 0&&arguments[1]?"text":"HTML",""));throw qa(ce(e,t)),yi}function nr(t){var e=t.stateNode,l=t.type,a=t.memoizedProps;switch(e[_t]=t,e[qt]=a,l){case"dialog":Q("cancel",e),Q("close",e);break;case"iframe":case"object":case"embed":Q("load",e);break;case"video":case"audio":for(l=0;l<cn.length;l++)Q(cn[l],e);break;case"source":Q("error",e);break;case"img":case"image":case"link":Q("error",e),Q("load",e);break;case"details":Q("toggle",e);break;case"input":Q("invalid",e),gc(e,a.value,a.defaultValue,a.checked,a.defaultChecked,a.type,a.name,!0);break;case"select":Q("invalid",e);break;case"textarea":Q("invalid",e),bc(e,a.value,a.defaultValue,a.children)}l=a.children,typeof l!="string"&&typeof l!="number"&&typeof l!="bigint"||e.textContent===""+l||a.suppressHydrationWarning===!0||Sf(e.textContent,l)?(a.popover!=null&&(Q("beforetoggle",e),Q("toggle",e)),a.onScroll!=null&&Q("scroll",e),a.onScrollEnd!=null&&Q("scrollend",e),a.onClick!=null&&(e.onclick=Ae),e=!0):e=!1,e||Ie(t,!0)}function ur(t){for(zt=t.return;zt;)switch(zt.tag){case 5:case 31:case 13:fe=!1;return;case 27:case 3:fe=!0;return;default:zt=zt.return}}function ea(t){if(t!==zt)return!1;if(!J)return ur(t),J=!0,!1;var e=t.tag,l;if((l=e!==3&&e!==27)&&((l=e===5)&&(l=t.type,l=!(l!=="form"&&l!=="button")||Hs(t.type,t.memoizedProps)),l=!l),l&&ct&&Ie(t),ur(t),e===13){if(t=t.memoizedState,t=t!==null?t.dehydrated:null,!t)throw Error(m(317));ct=Df(t)}else if(e===31){if(t=t.memoizedState,t=t!==null?t.dehydrated:null,!t)throw Error(m(317));ct=Df(t)}else e===27?(e=ct,dl(t.type)?(t=Xs,Xs=null,ct=t):ct=e):ct=zt?me(t.stateNode.nextSibling):null;return!0}function zl(){ct=zt=null,J=!1}function ji(){var t=Fe;return t!==null&&(Qt===null?Qt=t:Qt.push.apply(Qt,t),Fe=null),t}function qa(t){Fe===null?Fe=[t]:Fe.push(t)}var Ei=f(null),Tl=null,Oe=null;function Pe(t,e,l){_(Ei,e._currentValue),e._currentValue=l}function ke(t){t._currentValue=Ei.current,E(Ei)}function Si(t,e,l){for(;t!==null;){var a=t.alternate;if((t.childLanes&e)!==e?(t.childLanes|=e,a!==null&&(a.childLanes|=e)):a!==null&&(a.childLanes&e)!==e&&(a.childLanes|=e),t===l)break;t=t.return}}function Ri(t,e,l,a){var n=t.child;for(n!==null&&(n.return=t);n!==null;){var u=n.dependencies;if(u!==null){var i=n.child;u=u.firstContext;t:for(;u!==null;){var s=u;u=n;for(var c=0;c<e.length;c++)if(s.context===e[c]){u.lanes|=l,s=u.alternate,s!==null&&(s.lanes|=l),Si(u.return,l,t),a||(i=null);break t}u=s.next}}else if(n.tag===18){if(i=n.return,i===null)throw Error(m(341));i.lanes|=l,u=i.alternate,u!==null&&(u.lanes|=l),Si(i,l,t),i=null}else i=n.child;if(i!==null)i.return=n;else for(i=n;i!==null;){if(i===t){i=null;break}if(n=i.sibling,n!==null){n.return=i.return,i=n;break}i=i.return}n=i}}function la(t,e,l,a){t=null;for(var n=e,u=!1;n!==null;){if(!u){if((n.flags&524288)!==0)u=!0;else if((n.flags&262144)!==0)break}if(n.tag===10){var i=n.alternate;if(i===null)throw Error(m(387));if(i=i.memoizedProps,i!==null){var s=n.type;Ft(n.pendingProps.value,i.value)||(t!==null?t.push(s):t=[s])}}else if(n===P.current){if(i=n.alternate,i===null)throw Error(m(387));i.memoizedState.memoizedState!==n.memoizedState.memoizedState&&(t!==null?t.push(mn):t=[mn])}n=n.return}t!==null&&Ri(e,t,l,a),e.flags|=262144}function qn(t){for(t=t.firstContext;t!==null;){if(!Ft(t.context._currentValue,t.memoizedValue))return!0;t=t.next}return!1}function Al(t){Tl=t,Oe=null,t=t.dependencies,t!==null&&(t.firstContext=null)}function Tt(t){return ir(Tl,t)}function Yn(t,e){return Tl===null&&Al(t),ir(t,e)}function ir(t,e){var l=e._currentValue;if(e={context:e,memoizedValue:l,next:null},Oe===null){if(t===null)throw Error(m(308));Oe=e,t.dependencies={lanes:0,firstContext:e},t.flags|=524288}else Oe=Oe.next=e;return l}var r0=typeof AbortController<"u"?AbortController:function(){var t=[],e=this.signal={aborted:!1,addEventListener:function(l,a){t.push(a)}};this.abort=function(){e.aborted=!0,t.forEach(function(l){return l()})}},o0=r.unstable_scheduleCallback,f0=r.unstable_NormalPriority,vt={$$typeof:Ct,Consumer:null,Provider:null,_currentValue:null,_currentValue2:null,_threadCount:0};function Ni(){return{controller:new r0,data:new Map,refCount:0}}function Ya(t){t.refCount--,t.refCount===0&&o0(f0,function(){t.controller.abort()})}var Ga=null,_i=0,aa=0,na=null;function d0(t,e){if(Ga===null){var l=Ga=[];_i=0,aa=As(),na={status:"pending",value:void 0,then:function(a){l.push(a)}}}return _i++,e.then(sr,sr),e}function sr(){if(--_i===0&&Ga!==null){na!==null&&(na.status="fulfilled");var t=Ga;Ga=null,aa=0,na=null;for(var e=0;e<t.length;e++)(0,t[e])()}}function m0(t,e){var l=[],a={status:"pending",value:null,reason:null,then:function(n){l.push(n)}};return t.then(function(){a.status="fulfilled",a.value=e;for(var n=0;n<l.length;n++)(0,l[n])(e)},function(n){for(a.status="rejected",a.reason=n,n=0;n<l.length;n++)(0,l[n])(void 0)}),a}var cr=b.S;b.S=function(t,e){Zo=Jt(),typeof e=="object"&&e!==null&&typeof e.then=="function"&&d0(t,e),cr!==null&&cr(t,e)};var Ml=f(null);function zi(){var t=Ml.current;return t!==null?t:st.pooledCache}function Gn(t,e){e===null?_(Ml,Ml.current):_(Ml,e.pool)}function rr(){var t=zi();return t===null?null:{parent:vt._currentValue,pool:t}}var ua=Error(m(460)),Ti=Error(m(474)),Ln=Error(m(542)),Xn={then:function(){}};function or(t){return t=t.status,t==="fulfilled"||t==="rejected"}function fr(t,e,l){switch(l=t[l],l===void 0?t.push(e):l!==e&&(e.then(Ae,Ae),e=l),e.status){case"fulfilled":return e.value;case"rejected":throw t=e.reason,mr(t),t;default:if(typeof e.status=="string")e.then(Ae,Ae);else{if(t=st,t!==null&&100<t.shellSuspendCounter)throw Error(m(482));t=e,t.status="pending",t.then(function(a){if(e.status==="pending"){var n=e;n.status="fulfilled",n.value=a}},function(a){if(e.status==="pending"){var n=e;n.status="rejected",n.reason=a}})}switch(e.status){case"fulfilled":return e.value;case"rejected":throw t=e.reason,mr(t),t}throw Dl=e,ua}}function Cl(t){try{var e=t._init;return e(t._payload)}catch(l){throw l!==null&&typeof l=="object"&&typeof l.then=="function"?(Dl=l,ua):l}}var Dl=null;function dr(){if(Dl===null)throw Error(m(459));var t=Dl;return Dl=null,t}function mr(t){if(t===ua||t===Ln)throw Error(m(483))}var ia=null,La=0;function Qn(t){var e=La;return La+=1,ia===null&&(ia=[]),fr(ia,t,e)}function Xa(t,e){e=e.props.ref,t.ref=e!==void 0?e:null}function Vn(t,e){throw e.$$typeof===ot?Error(m(525)):(t=Object.prototype.toString.call(e),Error(m(31,t==="[object Object]"?"object with keys {"+Object.keys(e).join(", ")+"}":t)))}function xr(t){function e(d,o){if(t){var x=d.deletions;x===null?(d.deletions=[o],d.flags|=16):x.push(o)}}function l(d,o){if(!t)return null;for(;o!==null;)e(d,o),o=o.sibling;return null}function a(d){for(var o=new Map;d!==null;)d.key!==null?o.set(d.key,d):o.set(d.index,d),d=d.sibling;return o}function n(d,o){return d=Ce(d,o),d.index=0,d.sibling=null,d}function u(d,o,x){return d.index=x,t?(x=d.alternate,x!==null?(x=x.index,x<o?(d.flags|=67108866,o):x):(d.flags|=67108866,o)):(d.flags|=1048576,o)}function i(d){return t&&d.alternate===null&&(d.flags|=67108866),d}function s(d,o,x,y){return o===null||o.tag!==6?(o=pi(x,d.mode,y),o.return=d,o):(o=n(o,x),o.return=d,o)}function c(d,o,x,y){var D=x.type;return D===Dt?v(d,o,x.props.children,y,x.key):o!==null&&(o.elementType===D||typeof D=="object"&&D!==null&&D.$$typeof===Bt&&Cl(D)===o.type)?(o=n(o,x.props),Xa(o,x),o.return=d,o):(o=Bn(x.type,x.key,x.props,null,d.mode,y),Xa(o,x),o.return=d,o)}function h(d,o,x,y){return o===null||o.tag!==4||o.stateNode.containerInfo!==x.containerInfo||o.stateNode.implementation!==x.implementation?(o=gi(x,d.mode,y),o.return=d,o):(o=n(o,x.children||[]),o.return=d,o)}function v(d,o,x,y,D){return o===null||o.tag!==7?(o=_l(x,d.mode,y,D),o.return=d,o):(o=n(o,x),o.return=d,o)}function j(d,o,x){if(typeof o=="string"&&o!==""||typeof o=="number"||typeof o=="bigint")return o=pi(""+o,d.mode,x),o.return=d,o;if(typeof o=="object"&&o!==null){switch(o.$$typeof){case Zt:return x=Bn(o.type,o.key,o.props,null,d.mode,x),Xa(x,o),x.return=d,x;case wt:return o=gi(o,d.mode,x),o.return=d,o;case Bt:return o=Cl(o),j(d,o,x)}if(he(o)||Ht(o))return o=_l(o,d.mode,x,null),o.return=d,o;if(typeof o.then=="function")return j(d,Qn(o),x);if(o.$$typeof===Ct)return j(d,Yn(d,o),x);Vn(d,o)}return null}function p(d,o,x,y){var D=o!==null?o.key:null;if(typeof x=="string"&&x!==""||typeof x=="number"||typeof x=="bigint")return D!==null?null:s(d,o,""+x,y);if(typeof x=="object"&&x!==null){switch(x.$$typeof){case Zt:return x.key===D?c(d,o,x,y):null;case wt:return x.key===D?h(d,o,x,y):null;case Bt:return x=Cl(x),p(d,o,x,y)}if(he(x)||Ht(x))return D!==null?null:v(d,o,x,y,null);if(typeof x.then=="function")return p(d,o,Qn(x),y);if(x.$$typeof===Ct)return p(d,o,Yn(d,x),y);Vn(d,x)}return null}function g(d,o,x,y,D){if(typeof y=="string"&&y!==""||typeof y=="number"||typeof y=="bigint")return d=d.get(x)||null,s(o,d,""+y,D);if(typeof y=="object"&&y!==null){switch(y.$$typeof){case Zt:return d=d.get(y.key===null?x:y.key)||null,c(o,d,y,D);case wt:return d=d.get(y.key===null?x:y.key)||null,h(o,d,y,D);case Bt:return y=Cl(y),g(d,o,x,y,D)}if(he(y)||Ht(y))return d=d.get(x)||null,v(o,d,y,D,null);if(typeof y.then=="function")return g(d,o,x,Qn(y),D);if(y.$$typeof===Ct)return g(d,o,x,Yn(o,y),D);Vn(o,y)}return null}function T(d,o,x,y){for(var D=null,$=null,M=o,q=o=0,Z=null;M!==null&&q<x.length;q++){M.index>q?(Z=M,M=null):Z=M.sibling;var F=p(d,M,x[q],y);if(F===null){M===null&&(M=Z);break}t&&M&&F.alternate===null&&e(d,M),o=u(F,o,q),$===null?D=F:$.sibling=F,$=F,M=Z}if(q===x.length)return l(d,M),J&&De(d,q),D;if(M===null){for(;q<x.length;q++)M=j(d,x[q],y),M!==null&&(o=u(M,o,q),$===null?D=M:$.sibling=M,$=M);return J&&De(d,q),D}for(M=a(M);q<x.length;q++)Z=g(M,d,q,x[q],y),Z!==null&&(t&&Z.alternate!==null&&M.delete(Z.key===null?q:Z.key),o=u(Z,o,q),$===null?D=Z:$.sibling=Z,$=Z);return t&&M.forEach(function(gl){return e(d,gl)}),J&&De(d,q),D}function O(d,o,x,y){if(x==null)throw Error(m(151));for(var D=null,$=null,M=o,q=o=0,Z=null,F=x.next();M!==null&&!F.done;q++,F=x.next()){M.index>q?(Z=M,M=null):Z=M.sibling;var gl=p(d,M,F.value,y);if(gl===null){M===null&&(M=Z);break}t&&M&&gl.alternate===null&&e(d,M),o=u(gl,o,q),$===null?D=gl:$.sibling=gl,$=gl,M=Z}if(F.done)return l(d,M),J&&De(d,q),D;if(M===null){for(;!F.done;q++,F=x.next())F=j(d,F.value,y),F!==null&&(o=u(F,o,q),$===null?D=F:$.sibling=F,$=F);return J&&De(d,q),D}for(M=a(M);!F.done;q++,F=x.next())F=g(M,d,q,F.value,y),F!==null&&(t&&F.alternate!==null&&M.delete(F.key===null?q:F.key),o=u(F,o,q),$===null?D=F:$.sibling=F,$=F);return t&&M.forEach(function(Rm){return e(d,Rm)}),J&&De(d,q),D}function ut(d,o,x,y){if(typeof x=="object"&&x!==null&&x.type===Dt&&x.key===null&&(x=x.props.children),typeof x=="object"&&x!==null){switch(x.$$typeof){case Zt:t:{for(var D=x.key;o!==null;){if(o.key===D){if(D=x.type,D===Dt){if(o.tag===7){l(d,o.sibling),y=n(o,x.props.children),y.return=d,d=y;break t}}else if(o.elementType===D||typeof D=="object"&&D!==null&&D.$$typeof===Bt&&Cl(D)===o.type){l(d,o.sibling),y=n(o,x.props),Xa(y,x),y.return=d,d=y;break t}l(d,o);break}else e(d,o);o=o.sibling}x.type===Dt?(y=_l(x.props.children,d.mode,y,x.key),y.return=d,d=y):(y=Bn(x.type,x.key,x.props,null,d.mode,y),Xa(y,x),y.return=d,d=y)}return i(d);case wt:t:{for(D=x.key;o!==null;){if(o.key===D)if(o.tag===4&&o.stateNode.containerInfo===x.containerInfo&&o.stateNode.implementation===x.implementation){l(d,o.sibling),y=n(o,x.children||[]),y.return=d,d=y;break t}else{l(d,o);break}else e(d,o);o=o.sibling}y=gi(x,d.mode,y),y.return=d,d=y}return i(d);case Bt:return x=Cl(x),ut(d,o,x,y)}if(he(x))return T(d,o,x,y);if(Ht(x)){if(D=Ht(x),typeof D!="function")throw Error(m(150));return x=D.call(x),O(d,o,x,y)}if(typeof x.then=="function")return ut(d,o,Qn(x),y);if(x.$$typeof===Ct)return ut(d,o,Yn(d,x),y);Vn(d,x)}return typeof x=="string"&&x!==""||typeof x=="number"||typeof x=="bigint"?(x=""+x,o!==null&&o.tag===6?(l(d,o.sibling),y=n(o,x),y.return=d,d=y):(l(d,o),y=pi(x,d.mode,y),y.return=d,d=y),i(d)):l(d,o)}return function(d,o,x,y){try{La=0;var D=ut(d,o,x,y);return ia=null,D}catch(M){if(M===ua||M===Ln)throw M;var $=It(29,M,null,d.mode);return $.lanes=y,$.return=d,$}}}var Ol=xr(!0),hr=xr(!1),tl=!1;function Ai(t){t.updateQueue={baseState:t.memoizedState,firstBaseUpdate:null,lastBaseUpdate:null,shared:{pending:null,lanes:0,hiddenCallbacks:null},callbacks:null}}function Mi(t,e){t=t.updateQueue,e.updateQueue===t&&(e.updateQueue={baseState:t.baseState,firstBaseUpdate:t.firstBaseUpdate,lastBaseUpdate:t.lastBaseUpdate,shared:t.shared,callbacks:null})}function el(t){return{lane:t,tag:0,payload:null,callback:null,next:null}}function ll(t,e,l){var a=t.updateQueue;if(a===null)return null;if(a=a.shared,(I&2)!==0){var n=a.pending;return n===null?e.next=e:(e.next=n.next,n.next=e),a.pending=e,e=Un(t),Ic(t,null,l),e}return wn(t,a,e,l),Un(t)}function Qa(t,e,l){if(e=e.updateQueue,e!==null&&(e=e.shared,(l&4194048)!==0)){var a=e.lanes;a&=t.pendingLanes,l|=a,e.lanes=l,ic(t,l)}}function Ci(t,e){var l=t.updateQueue,a=t.alternate;if(a!==null&&(a=a.updateQueue,l===a)){var n=null,u=null;if(l=l.firstBaseUpdate,l!==null){do{var i={lane:l.lane,tag:l.tag,payload:l.payload,callback:null,next:null};u===null?n=u=i:u=u.next=i,l=l.next}while(l!==null);u===null?n=u=e:u=u.next=e}else n=u=e;l={baseState:a.baseState,firstBaseUpdate:n,lastBaseUpdate:u,shared:a.shared,callbacks:a.callbacks},t.updateQueue=l;return}t=l.lastBaseUpdate,t===null?l.firstBaseUpdate=e:t.next=e,l.lastBaseUpdate=e}var Di=!1;function Va(){if(Di){var t=na;if(t!==null)throw t}}function Za(t,e,l,a){Di=!1;var n=t.updateQueue;tl=!1;var u=n.firstBaseUpdate,i=n.lastBaseUpdate,s=n.shared.pending;if(s!==null){n.shared.pending=null;var c=s,h=c.next;c.next=null,i===null?u=h:i.next=h,i=c;var v=t.alternate;v!==null&&(v=v.updateQueue,s=v.lastBaseUpdate,s!==i&&(s===null?v.firstBaseUpdate=h:s.next=h,v.lastBaseUpdate=c))}if(u!==null){var j=n.baseState;i=0,v=h=c=null,s=u;do{var p=s.lane&-536870913,g=p!==s.lane;if(g?(V&p)===p:(a&p)===p){p!==0&&p===aa&&(Di=!0),v!==null&&(v=v.next={lane:0,tag:s.tag,payload:s.payload,callback:null,next:null});t:{var T=t,O=s;p=e;var ut=l;switch(O.tag){case 1:if(T=O.payload,typeof T=="function"){j=T.call(ut,j,p);break t}j=T;break t;case 3:T.flags=T.flags&-65537|128;case 0:if(T=O.payload,p=typeof T=="function"?T.call(ut,j,p):T,p==null)break t;j=k({},j,p);break t;case 2:tl=!0}}p=s.callback,p!==null&&(t.flags|=64,g&&(t.flags|=8192),g=n.callbacks,g===null?n.callbacks=[p]:g.push(p))}else g={lane:p,tag:s.tag,payload:s.payload,callback:s.callback,next:null},v===null?(h=v=g,c=j):v=v.next=g,i|=p;if(s=s.next,s===null){if(s=n.shared.pending,s===null)break;g=s,s=g.next,g.next=null,n.lastBaseUpdate=g,n.shared.pending=null}}while(!0);v===null&&(c=j),n.baseState=c,n.firstBaseUpdate=h,n.lastBaseUpdate=v,u===null&&(n.shared.lanes=0),sl|=i,t.lanes=i,t.memoizedState=j}}function pr(t,e){if(typeof t!="function")throw Error(m(191,t));t.call(e)}function gr(t,e){var l=t.callbacks;if(l!==null)for(t.callbacks=null,t=0;t<l.length;t++)pr(l[t],e)}var sa=f(null),Zn=f(0);function vr(t,e){t=Xe,_(Zn,t),_(sa,e),Xe=t|e.baseLanes}function Oi(){_(Zn,Xe),_(sa,sa.current)}function ki(){Xe=Zn.current,E(sa),E(Zn)}var Pt=f(null),de=null;function al(t){var e=t.alternate;_(pt,pt.current&1),_(Pt,t),de===null&&(e===null||sa.current!==null||e.memoizedState!==null)&&(de=t)}function wi(t){_(pt,pt.current),_(Pt,t),de===null&&(de=t)}function br(t){t.tag===22?(_(pt,pt.current),_(Pt,t),de===null&&(de=t)):nl()}function nl(){_(pt,pt.current),_(Pt,Pt.current)}function te(t){E(Pt),de===t&&(de=null),E(pt)}var pt=f(0);function Kn(t){for(var e=t;e!==null;){if(e.tag===13){var l=e.memoizedState;if(l!==null&&(l=l.dehydrated,l===null||Gs(l)||Ls(l)))return e}else if(e.tag===19&&(e.memoizedProps.revealOrder==="forwards"||e.memoizedProps.revealOrder==="backwards"||e.memoizedProps.revealOrder==="unstable_legacy-backwards"||e.memoizedProps.revealOrder==="together")){if((e.flags&128)!==0)return e}else if(e.child!==null){e.child.return=e,e=e.child;continue}if(e===t)break;for(;e.sibling===null;){if(e.return===null||e.return===t)return null;e=e.return}e.sibling.return=e.return,e=e.sibling}return null}var we=0,H=null,at=null,bt=null,Jn=!1,ca=!1,kl=!1,Wn=0,Ka=0,ra=null,x0=0;function mt(){throw Error(m(321))}function Ui(t,e){if(e===null)return!1;for(var l=0;l<e.length&&l<t.length;l++)if(!Ft(t[l],e[l]))return!1;return!0}function Bi(t,e,l,a,n,u){return we=u,H=e,e.memoizedState=null,e.updateQueue=null,e.lanes=0,b.H=t===null||t.memoizedState===null?lo:Ii,kl=!1,u=l(a,n),kl=!1,ca&&(u=jr(e,l,a,n)),yr(t),u}function yr(t){b.H=$a;var e=at!==null&&at.next!==null;if(we=0,bt=at=H=null,Jn=!1,Ka=0,ra=null,e)throw Error(m(300));t===null||yt||(t=t.dependencies,t!==null&&qn(t)&&(yt=!0))}function jr(t,e,l,a){H=t;var n=0;do{if(ca&&(ra=null),Ka=0,ca=!1,25<=n)throw Error(m(301));if(n+=1,bt=at=null,t.updateQueue!=null){var u=t.updateQueue;u.lastEffect=null,u.events=null,u.stores=null,u.memoCache!=null&&(u.memoCache.index=0)}b.H=ao,u=e(l,a)}while(ca);return u}function h0(){var t=b.H,e=t.useState()[0];return e=typeof e.then=="function"?Ja(e):e,t=t.useState()[0],(at!==null?at.memoizedState:null)!==t&&(H.flags|=1024),e}function Hi(){var t=Wn!==0;return Wn=0,t}function qi(t,e,l){e.updateQueue=t.updateQueue,e.flags&=-2053,t.lanes&=~l}function Yi(t){if(Jn){for(t=t.memoizedState;t!==null;){var e=t.queue;e!==null&&(e.pending=null),t=t.next}Jn=!1}we=0,bt=at=H=null,ca=!1,Ka=Wn=0,ra=null}function kt(){var t={memoizedState:null,baseState:null,baseQueue:null,queue:null,next:null};return bt===null?H.memoizedState=bt=t:bt=bt.next=t,bt}function gt(){if(at===null){var t=H.alternate;t=t!==null?t.memoizedState:null}else t=at.next;var e=bt===null?H.memoizedState:bt.next;if(e!==null)bt=e,at=t;else{if(t===null)throw H.alternate===null?Error(m(467)):Error(m(310));at=t,t={memoizedState:at.memoizedState,baseState:at.baseState,baseQueue:at.baseQueue,queue:at.queue,next:null},bt===null?H.memoizedState=bt=t:bt=bt.next=t}return bt}function $n(){return{lastEffect:null,events:null,stores:null,memoCache:null}}function Ja(t){var e=Ka;return Ka+=1,ra===null&&(ra=[]),t=fr(ra,t,e),e=H,(bt===null?e.memoizedState:bt.next)===null&&(e=e.alternate,b.H=e===null||e.memoizedState===null?lo:Ii),t}function Fn(t){if(t!==null&&typeof t=="object"){if(typeof t.then=="function")return Ja(t);if(t.$$typeof===Ct)return Tt(t)}throw Error(m(438,String(t)))}function Gi(t){var e=null,l=H.updateQueue;if(l!==null&&(e=l.memoCache),e==null){var a=H.alternate;a!==null&&(a=a.updateQueue,a!==null&&(a=a.memoCache,a!=null&&(e={data:a.data.map(function(n){return n.slice()}),index:0})))}if(e==null&&(e={data:[],index:0}),l===null&&(l=$n(),H.updateQueue=l),l.memoCache=e,l=e.data[e.index],l===void 0)for(l=e.data[e.index]=Array(t),a=0;a<t;a++)l[a]=Hl;return e.index++,l}function Ue(t,e){return typeof e=="function"?e(t):e}function In(t){var e=gt();return Li(e,at,t)}function Li(t,e,l){var a=t.queue;if(a===null)throw Error(m(311));a.lastRenderedReducer=l;var n=t.baseQueue,u=a.pending;if(u!==null){if(n!==null){var i=n.next;n.next=u.next,u.next=i}e.baseQueue=n=u,a.pending=null}if(u=t.baseState,n===null)t.memoizedState=u;else{e=n.next;var s=i=null,c=null,h=e,v=!1;do{var j=h.lane&-536870913;if(j!==h.lane?(V&j)===j:(we&j)===j){var p=h.revertLane;if(p===0)c!==null&&(c=c.next={lane:0,revertLane:0,gesture:null,action:h.action,hasEagerState:h.hasEagerState,eagerState:h.eagerState,next:null}),j===aa&&(v=!0);else if((we&p)===p){h=h.next,p===aa&&(v=!0);continue}else j={lane:0,revertLane:h.revertLane,gesture:null,action:h.action,hasEagerState:h.hasEagerState,eagerState:h.eagerState,next:null},c===null?(s=c=j,i=u):c=c.next=j,H.lanes|=p,sl|=p;j=h.action,kl&&l(u,j),u=h.hasEagerState?h.eagerState:l(u,j)}else p={lane:j,revertLane:h.revertLane,gesture:h.gesture,action:h.action,hasEagerState:h.hasEagerState,eagerState:h.eagerState,next:null},c===null?(s=c=p,i=u):c=c.next=p,H.lanes|=j,sl|=j;h=h.next}while(h!==null&&h!==e);if(c===null?i=u:c.next=s,!Ft(u,t.memoizedState)&&(yt=!0,v&&(l=na,l!==null)))throw l;t.memoizedState=u,t.baseState=i,t.baseQueue=c,a.lastRenderedState=u}return n===null&&(a.lanes=0),[t.memoizedState,a.dispatch]}function Xi(t){var e=gt(),l=e.queue;if(l===null)throw Error(m(311));l.lastRenderedReducer=t;var a=l.dispatch,n=l.pending,u=e.memoizedState;if(n!==null){l.pending=null;var i=n=n.next;do u=t(u,i.action),i=i.next;while(i!==n);Ft(u,e.memoizedState)||(yt=!0),e.memoizedState=u,e.baseQueue===null&&(e.baseState=u),l.lastRenderedState=u}return[u,a]}function Er(t,e,l){var a=H,n=gt(),u=J;if(u){if(l===void 0)throw Error(m(407));l=l()}else l=e();var i=!Ft((at||n).memoizedState,l);if(i&&(n.memoizedState=l,yt=!0),n=n.queue,Zi(Nr.bind(null,a,n,t),[t]),n.getSnapshot!==e||i||bt!==null&&bt.memoizedState.tag&1){if(a.flags|=2048,oa(9,{destroy:void 0},Rr.bind(null,a,n,l,e),null),st===null)throw Error(m(349));u||(we&127)!==0||Sr(a,e,l)}return l}function Sr(t,e,l){t.flags|=16384,t={getSnapshot:e,value:l},e=H.updateQueue,e===null?(e=$n(),H.updateQueue=e,e.stores=[t]):(l=e.stores,l===null?e.stores=[t]:l.push(t))}function Rr(t,e,l,a){e.value=l,e.getSnapshot=a,_r(e)&&zr(t)}function Nr(t,e,l){return l(function(){_r(e)&&zr(t)})}function _r(t){var e=t.getSnapshot;t=t.value;try{var l=e();return!Ft(t,l)}catch{return!0}}function zr(t){var e=Nl(t,2);e!==null&&Vt(e,t,2)}function Qi(t){var e=kt();if(typeof t=="function"){var l=t;if(t=l(),kl){Ke(!0);try{l()}finally{Ke(!1)}}}return e.memoizedState=e.baseState=t,e.queue={pending:null,lanes:0,dispatch:null,lastRenderedReducer:Ue,lastRenderedState:t},e}function Tr(t,e,l,a){return t.baseState=l,Li(t,at,typeof a=="function"?a:Ue)}function p0(t,e,l,a,n){if(eu(t))throw Error(m(485));if(t=e.action,t!==null){var u={payload:n,action:t,next:null,isTransition:!0,status:"pending",value:null,reason:null,listeners:[],then:function(i){u.listeners.push(i)}};b.T!==null?l(!0):u.isTransition=!1,a(u),l=e.pending,l===null?(u.next=e.pending=u,Ar(e,u)):(u.next=l.next,e.pending=l.next=u)}}function Ar(t,e){var l=e.action,a=e.payload,n=t.state;if(e.isTransition){var u=b.T,i={};b.T=i;try{var s=l(n,a),c=b.S;c!==null&&c(i,s),Mr(t,e,s)}catch(h){Vi(t,e,h)}finally{u!==null&&i.types!==null&&(u.types=i.types),b.T=u}}else try{u=l(n,a),Mr(t,e,u)}catch(h){Vi(t,e,h)}}function Mr(t,e,l){l!==null&&typeof l=="object"&&typeof l.then=="function"?l.then(function(a){Cr(t,e,a)},function(a){return Vi(t,e,a)}):Cr(t,e,l)}function Cr(t,e,l){e.status="fulfilled",e.value=l,Dr(e),t.state=l,e=t.pending,e!==null&&(l=e.next,l===e?t.pending=null:(l=l.next,e.next=l,Ar(t,l)))}function Vi(t,e,l){var a=t.pending;if(t.pending=null,a!==null){a=a.next;do e.status="rejected",e.reason=l,Dr(e),e=e.next;while(e!==a)}t.action=null}function Dr(t){t=t.listeners;for(var e=0;e<t.length;e++)(0,t[e])()}function Or(t,e){return e}function kr(t,e){if(J){var l=st.formState;if(l!==null){t:{var a=H;if(J){if(ct){e:{for(var n=ct,u=fe;n.nodeType!==8;){if(!u){n=null;break e}if(n=me(n.nextSibling),n===null){n=null;break e}}u=n.data,n=u==="F!"||u==="F"?n:null}if(n){ct=me(n.nextSibling),a=n.data==="F!";break t}}Ie(a)}a=!1}a&&(e=l[0])}}return l=kt(),l.memoizedState=l.baseState=e,a={pending:null,lanes:0,dispatch:null,lastRenderedReducer:Or,lastRenderedState:e},l.queue=a,l=Pr.bind(null,H,a),a.dispatch=l,a=Qi(!1),u=Fi.bind(null,H,!1,a.queue),a=kt(),n={state:e,dispatch:null,action:t,pending:null},a.queue=n,l=p0.bind(null,H,n,u,l),n.dispatch=l,a.memoizedState=t,[e,l,!1]}function wr(t){var e=gt();return Ur(e,at,t)}function Ur(t,e,l){if(e=Li(t,e,Or)[0],t=In(Ue)[0],typeof e=="object"&&e!==null&&typeof e.then=="function")try{var a=Ja(e)}catch(i){throw i===ua?Ln:i}else a=e;e=gt();var n=e.queue,u=n.dispatch;return l!==e.memoizedState&&(H.flags|=2048,oa(9,{destroy:void 0},g0.bind(null,n,l),null)),[a,u,t]}function g0(t,e){t.action=e}function Br(t){var e=gt(),l=at;if(l!==null)return Ur(e,l,t);gt(),e=e.memoizedState,l=gt();var a=l.queue.dispatch;return l.memoizedState=t,[e,a,!1]}function oa(t,e,l,a){return t={tag:t,create:l,deps:a,inst:e,next:null},e=H.updateQueue,e===null&&(e=$n(),H.updateQueue=e),l=e.lastEffect,l===null?e.lastEffect=t.next=t:(a=l.next,l.next=t,t.next=a,e.lastEffect=t),t}function Hr(){return gt().memoizedState}function Pn(t,e,l,a){var n=kt();H.flags|=t,n.memoizedState=oa(1|e,{destroy:void 0},l,a===void 0?null:a)}function tu(t,e,l,a){var n=gt();a=a===void 0?null:a;var u=n.memoizedState.inst;at!==null&&a!==null&&Ui(a,at.memoizedState.deps)?n.memoizedState=oa(e,u,l,a):(H.flags|=t,n.memoizedState=oa(1|e,u,l,a))}function qr(t,e){Pn(8390656,8,t,e)}function Zi(t,e){tu(2048,8,t,e)}function v0(t){H.flags|=4;var e=H.updateQueue;if(e===null)e=$n(),H.updateQueue=e,e.events=[t];else{var l=e.events;l===null?e.events=[t]:l.push(t)}}function Yr(t){var e=gt().memoizedState;return v0({ref:e,nextImpl:t}),function(){if((I&2)!==0)throw Error(m(440));return e.impl.apply(void 0,arguments)}}function Gr(t,e){return tu(4,2,t,e)}function Lr(t,e){return tu(4,4,t,e)}function Xr(t,e){if(typeof e=="function"){t=t();var l=e(t);return function(){typeof l=="function"?l():e(null)}}if(e!=null)return t=t(),e.current=t,function(){e.current=null}}function Qr(t,e,l){l=l!=null?l.concat([t]):null,tu(4,4,Xr.bind(null,e,t),l)}function Ki(){}function Vr(t,e){var l=gt();e=e===void 0?null:e;var a=l.memoizedState;return e!==null&&Ui(e,a[1])?a[0]:(l.memoizedState=[t,e],t)}function Zr(t,e){var l=gt();e=e===void 0?null:e;var a=l.memoizedState;if(e!==null&&Ui(e,a[1]))return a[0];if(a=t(),kl){Ke(!0);try{t()}finally{Ke(!1)}}return l.memoizedState=[a,e],a}function Ji(t,e,l){return l===void 0||(we&1073741824)!==0&&(V&261930)===0?t.memoizedState=e:(t.memoizedState=l,t=Jo(),H.lanes|=t,sl|=t,l)}function Kr(t,e,l,a){return Ft(l,e)?l:sa.current!==null?(t=Ji(t,l,a),Ft(t,e)||(yt=!0),t):(we&42)===0||(we&1073741824)!==0&&(V&261930)===0?(yt=!0,t.memoizedState=l):(t=Jo(),H.lanes|=t,sl|=t,e)}function Jr(t,e,l,a,n){var u=N.p;N.p=u!==0&&8>u?u:8;var i=b.T,s={};b.T=s,Fi(t,!1,e,l);try{var c=n(),h=b.S;if(h!==null&&h(s,c),c!==null&&typeof c=="object"&&typeof c.then=="function"){var v=m0(c,a);Wa(t,e,v,ae(t))}else Wa(t,e,a,ae(t))}catch(j){Wa(t,e,{then:function(){},status:"rejected",reason:j},ae())}finally{N.p=u,i!==null&&s.types!==null&&(i.types=s.types),b.T=i}}function b0(){}function Wi(t,e,l,a){if(t.tag!==5)throw Error(m(476));var n=Wr(t).queue;Jr(t,n,e,w,l===null?b0:function(){return $r(t),l(a)})}function Wr(t){var e=t.memoizedState;if(e!==null)return e;e={memoizedState:w,baseState:w,baseQueue:null,queue:{pending:null,lanes:0,dispatch:null,lastRenderedReducer:Ue,lastRenderedState:w},next:null};var l={};return e.next={memoizedState:l,baseState:l,baseQueue:null,queue:{pending:null,lanes:0,dispatch:null,lastRenderedReducer:Ue,lastRenderedState:l},next:null},t.memoizedState=e,t=t.alternate,t!==null&&(t.memoizedState=e),e}function $r(t){var e=Wr(t);e.next===null&&(e=t.alternate.memoizedState),Wa(t,e.next.queue,{},ae())}function $i(){return Tt(mn)}function Fr(){return gt().memoizedState}function Ir(){return gt().memoizedState}function y0(t){for(var e=t.return;e!==null;){switch(e.tag){case 24:case 3:var l=ae();t=el(l);var a=ll(e,t,l);a!==null&&(Vt(a,e,l),Qa(a,e,l)),e={cache:Ni()},t.payload=e;return}e=e.return}}function j0(t,e,l){var a=ae();l={lane:a,revertLane:0,gesture:null,action:l,hasEagerState:!1,eagerState:null,next:null},eu(t)?to(e,l):(l=xi(t,e,l,a),l!==null&&(Vt(l,t,a),eo(l,e,a)))}function Pr(t,e,l){var a=ae();Wa(t,e,l,a)}function Wa(t,e,l,a){var n={lane:a,revertLane:0,gesture:null,action:l,hasEagerState:!1,eagerState:null,next:null};if(eu(t))to(e,n);else{var u=t.alternate;if(t.lanes===0&&(u===null||u.lanes===0)&&(u=e.lastRenderedReducer,u!==null))try{var i=e.lastRenderedState,s=u(i,l);if(n.hasEagerState=!0,n.eagerState=s,Ft(s,i))return wn(t,e,n,0),st===null&&kn(),!1}catch{}if(l=xi(t,e,n,a),l!==null)return Vt(l,t,a),eo(l,e,a),!0}return!1}function Fi(t,e,l,a){if(a={lane:2,revertLane:As(),gesture:null,action:a,hasEagerState:!1,eagerState:null,next:null},eu(t)){if(e)throw Error(m(479))}else e=xi(t,l,a,2),e!==null&&Vt(e,t,2)}function eu(t){var e=t.alternate;return t===H||e!==null&&e===H}function to(t,e){ca=Jn=!0;var l=t.pending;l===null?e.next=e:(e.next=l.next,l.next=e),t.pending=e}function eo(t,e,l){if((l&4194048)!==0){var a=e.lanes;a&=t.pendingLanes,l|=a,e.lanes=l,ic(t,l)}}var $a={readContext:Tt,use:Fn,useCallback:mt,useContext:mt,useEffect:mt,useImperativeHandle:mt,useLayoutEffect:mt,useInsertionEffect:mt,useMemo:mt,useReducer:mt,useRef:mt,useState:mt,useDebugValue:mt,useDeferredValue:mt,useTransition:mt,useSyncExternalStore:mt,useId:mt,useHostTransitionStatus:mt,useFormState:mt,useActionState:mt,useOptimistic:mt,useMemoCache:mt,useCacheRefresh:mt};$a.useEffectEvent=mt;var lo={readContext:Tt,use:Fn,useCallback:function(t,e){return kt().memoizedState=[t,e===void 0?null:e],t},useContext:Tt,useEffect:qr,useImperativeHandle:function(t,e,l){l=l!=null?l.concat([t]):null,Pn(4194308,4,Xr.bind(null,e,t),l)},useLayoutEffect:function(t,e){return Pn(4194308,4,t,e)},useInsertionEffect:function(t,e){Pn(4,2,t,e)},useMemo:function(t,e){var l=kt();e=e===void 0?null:e;var a=t();if(kl){Ke(!0);try{t()}finally{Ke(!1)}}return l.memoizedState=[a,e],a},useReducer:function(t,e,l){var a=kt();if(l!==void 0){var n=l(e);if(kl){Ke(!0);try{l(e)}finally{Ke(!1)}}}else n=e;return a.memoizedState=a.baseState=n,t={pending:null,lanes:0,dispatch:null,lastRenderedReducer:t,lastRenderedState:n},a.queue=t,t=t.dispatch=j0.bind(null,H,t),[a.memoizedState,t]},useRef:function(t){var e=kt();return t={current:t},e.memoizedState=t},useState:function(t){t=Qi(t);var e=t.queue,l=Pr.bind(null,H,e);return e.dispatch=l,[t.memoizedState,l]},useDebugValue:Ki,useDeferredValue:function(t,e){var l=kt();return Ji(l,t,e)},useTransition:function(){var t=Qi(!1);return t=Jr.bind(null,H,t.queue,!0,!1),kt().memoizedState=t,[!1,t]},useSyncExternalStore:function(t,e,l){var a=H,n=kt();if(J){if(l===void 0)throw Error(m(407));l=l()}else{if(l=e(),st===null)throw Error(m(349));(V&127)!==0||Sr(a,e,l)}n.memoizedState=l;var u={value:l,getSnapshot:e};return n.queue=u,qr(Nr.bind(null,a,u,t),[t]),a.flags|=2048,oa(9,{destroy:void 0},Rr.bind(null,a,u,l,e),null),l},useId:function(){var t=kt(),e=st.identifierPrefix;if(J){var l=Se,a=Ee;l=(a&~(1<<32-$t(a)-1)).toString(32)+l,e="_"+e+"R_"+l,l=Wn++,0<l&&(e+="H"+l.toString(32)),e+="_"}else l=x0++,e="_"+e+"r_"+l.toString(32)+"_";return t.memoizedState=e},useHostTransitionStatus:$i,useFormState:kr,useActionState:kr,useOptimistic:function(t){var e=kt();e.memoizedState=e.baseState=t;var l={pending:null,lanes:0,dispatch:null,lastRenderedReducer:null,lastRenderedState:null};return e.queue=l,e=Fi.bind(null,H,!0,l),l.dispatch=e,[t,e]},useMemoCache:Gi,useCacheRefresh:function(){return kt().memoizedState=y0.bind(null,H)},useEffectEvent:function(t){var e=kt(),l={impl:t};return e.memoizedState=l,function(){if((I&2)!==0)throw Error(m(440));return l.impl.apply(void 0,arguments)}}},Ii={readContext:Tt,use:Fn,useCallback:Vr,useContext:Tt,useEffect:Zi,useImperativeHandle:Qr,useInsertionEffect:Gr,useLayoutEffect:Lr,useMemo:Zr,useReducer:In,useRef:Hr,useState:function(){return In(Ue)},useDebugValue:Ki,useDeferredValue:function(t,e){var l=gt();return Kr(l,at.memoizedState,t,e)},useTransition:function(){var t=In(Ue)[0],e=gt().memoizedState;return[typeof t=="boolean"?t:Ja(t),e]},useSyncExternalStore:Er,useId:Fr,useHostTransitionStatus:$i,useFormState:wr,useActionState:wr,useOptimistic:function(t,e){var l=gt();return Tr(l,at,t,e)},useMemoCache:Gi,useCacheRefresh:Ir};Ii.useEffectEvent=Yr;var ao={readContext:Tt,use:Fn,useCallback:Vr,useContext:Tt,useEffect:Zi,useImperativeHandle:Qr,useInsertionEffect:Gr,useLayoutEffect:Lr,useMemo:Zr,useReducer:Xi,useRef:Hr,useState:function(){return Xi(Ue)},useDebugValue:Ki,useDeferredValue:function(t,e){var l=gt();return at===null?Ji(l,t,e):Kr(l,at.memoizedState,t,e)},useTransition:function(){var t=Xi(Ue)[0],e=gt().memoizedState;return[typeof t=="boolean"?t:Ja(t),e]},useSyncExternalStore:Er,useId:Fr,useHostTransitionStatus:$i,useFormState:Br,useActionState:Br,useOptimistic:function(t,e){var l=gt();return at!==null?Tr(l,at,t,e):(l.baseState=t,[t,l.queue.dispatch])},useMemoCache:Gi,useCacheRefresh:Ir};ao.useEffectEvent=Yr;function Pi(t,e,l,a){e=t.memoizedState,l=l(a,e),l=l==null?e:k({},e,l),t.memoizedState=l,t.lanes===0&&(t.updateQueue.baseState=l)}var ts={enqueueSetState:function(t,e,l){t=t._reactInternals;var a=ae(),n=el(a);n.payload=e,l!=null&&(n.callback=l),e=ll(t,n,a),e!==null&&(Vt(e,t,a),Qa(e,t,a))},enqueueReplaceState:function(t,e,l){t=t._reactInternals;var a=ae(),n=el(a);n.tag=1,n.payload=e,l!=null&&(n.callback=l),e=ll(t,n,a),e!==null&&(Vt(e,t,a),Qa(e,t,a))},enqueueForceUpdate:function(t,e){t=t._reactInternals;var l=ae(),a=el(l);a.tag=2,e!=null&&(a.callback=e),e=ll(t,a,l),e!==null&&(Vt(e,t,l),Qa(e,t,l))}};function no(t,e,l,a,n,u,i){return t=t.stateNode,typeof t.shouldComponentUpdate=="function"?t.shouldComponentUpdate(a,u,i):e.prototype&&e.prototype.isPureReactComponent?!Ua(l,a)||!Ua(n,u):!0}function uo(t,e,l,a){t=e.state,typeof e.componentWillReceiveProps=="function"&&e.componentWillReceiveProps(l,a),typeof e.UNSAFE_componentWillReceiveProps=="function"&&e.UNSAFE_componentWillReceiveProps(l,a),e.state!==t&&ts.enqueueReplaceState(e,e.state,null)}function wl(t,e){var l=e;if("ref"in e){l={};for(var a in e)a!=="ref"&&(l[a]=e[a])}if(t=t.defaultProps){l===e&&(l=k({},l));for(var n in t)l[n]===void 0&&(l[n]=t[n])}return l}function io(t){On(t)}function so(t){console.error(t)}function co(t){On(t)}function lu(t,e){try{var l=t.onUncaughtError;l(e.value,{componentStack:e.stack})}catch(a){setTimeout(function(){throw a})}}function ro(t,e,l){try{var a=t.onCaughtError;a(l.value,{componentStack:l.stack,errorBoundary:e.tag===1?e.stateNode:null})}catch(n){setTimeout(function(){throw n})}}function es(t,e,l){return l=el(l),l.tag=3,l.payload={element:null},l.callback=function(){lu(t,e)},l}function oo(t){return t=el(t),t.tag=3,t}function fo(t,e,l,a){var n=l.type.getDerivedStateFromError;if(typeof n=="function"){var u=a.value;t.payload=function(){return n(u)},t.callback=function(){ro(e,l,a)}}var i=l.stateNode;i!==null&&typeof i.componentDidCatch=="function"&&(t.callback=function(){ro(e,l,a),typeof n!="function"&&(cl===null?cl=new Set([this]):cl.add(this));var s=a.stack;this.componentDidCatch(a.value,{componentStack:s!==null?s:""})})}function E0(t,e,l,a,n){if(l.flags|=32768,a!==null&&typeof a=="object"&&typeof a.then=="function"){if(e=l.alternate,e!==null&&la(e,l,n,!0),l=Pt.current,l!==null){switch(l.tag){case 31:case 13:return de===null?xu():l.alternate===null&&xt===0&&(xt=3),l.flags&=-257,l.flags|=65536,l.lanes=n,a===Xn?l.flags|=16384:(e=l.updateQueue,e===null?l.updateQueue=new Set([a]):e.add(a),_s(t,a,n)),!1;case 22:return l.flags|=65536,a===Xn?l.flags|=16384:(e=l.updateQueue,e===null?(e={transitions:null,markerInstances:null,retryQueue:new Set([a])},l.updateQueue=e):(l=e.retryQueue,l===null?e.retryQueue=new Set([a]):l.add(a)),_s(t,a,n)),!1}throw Error(m(435,l.tag))}return _s(t,a,n),xu(),!1}if(J)return e=Pt.current,e!==null?((e.flags&65536)===0&&(e.flags|=256),e.flags|=65536,e.lanes=n,a!==yi&&(t=Error(m(422),{cause:a}),qa(ce(t,l)))):(a!==yi&&(e=Error(m(423),{cause:a}),qa(ce(e,l))),t=t.current.alternate,t.flags|=65536,n&=-n,t.lanes|=n,a=ce(a,l),n=es(t.stateNode,a,n),Ci(t,n),xt!==4&&(xt=2)),!1;var u=Error(m(520),{cause:a});if(u=ce(u,l),nn===null?nn=[u]:nn.push(u),xt!==4&&(xt=2),e===null)return!0;a=ce(a,l),l=e;do{switch(l.tag){case 3:return l.flags|=65536,t=n&-n,l.lanes|=t,t=es(l.stateNode,a,t),Ci(l,t),!1;case 1:if(e=l.type,u=l.stateNode,(l.flags&128)===0&&(typeof e.getDerivedStateFromError=="function"||u!==null&&typeof u.componentDidCatch=="function"&&(cl===null||!cl.has(u))))return l.flags|=65536,n&=-n,l.lanes|=n,n=oo(n),fo(n,t,l,a),Ci(l,n),!1}l=l.return}while(l!==null);return!1}var ls=Error(m(461)),yt=!1;function At(t,e,l,a){e.child=t===null?hr(e,null,l,a):Ol(e,t.child,l,a)}function mo(t,e,l,a,n){l=l.render;var u=e.ref;if("ref"in a){var i={};for(var s in a)s!=="ref"&&(i[s]=a[s])}else i=a;return Al(e),a=Bi(t,e,l,i,u,n),s=Hi(),t!==null&&!yt?(qi(t,e,n),Be(t,e,n)):(J&&s&&vi(e),e.flags|=1,At(t,e,a,n),e.child)}function xo(t,e,l,a,n){if(t===null){var u=l.type;return typeof u=="function"&&!hi(u)&&u.defaultProps===void 0&&l.compare===null?(e.tag=15,e.type=u,ho(t,e,u,a,n)):(t=Bn(l.type,null,a,e,e.mode,n),t.ref=e.ref,t.return=e,e.child=t)}if(u=t.child,!os(t,n)){var i=u.memoizedProps;if(l=l.compare,l=l!==null?l:Ua,l(i,a)&&t.ref===e.ref)return Be(t,e,n)}return e.flags|=1,t=Ce(u,a),t.ref=e.ref,t.return=e,e.child=t}function ho(t,e,l,a,n){if(t!==null){var u=t.memoizedProps;if(Ua(u,a)&&t.ref===e.ref)if(yt=!1,e.pendingProps=a=u,os(t,n))(t.flags&131072)!==0&&(yt=!0);else return e.lanes=t.lanes,Be(t,e,n)}return as(t,e,l,a,n)}function po(t,e,l,a){var n=a.children,u=t!==null?t.memoizedState:null;if(t===null&&e.stateNode===null&&(e.stateNode={_visibility:1,_pendingMarkers:null,_retryCache:null,_transitions:null}),a.mode==="hidden"){if((e.flags&128)!==0){if(u=u!==null?u.baseLanes|l:l,t!==null){for(a=e.child=t.child,n=0;a!==null;)n=n|a.lanes|a.childLanes,a=a.sibling;a=n&~u}else a=0,e.child=null;return go(t,e,u,l,a)}if((l&536870912)!==0)e.memoizedState={baseLanes:0,cachePool:null},t!==null&&Gn(e,u!==null?u.cachePool:null),u!==null?vr(e,u):Oi(),br(e);else return a=e.lanes=536870912,go(t,e,u!==null?u.baseLanes|l:l,l,a)}else u!==null?(Gn(e,u.cachePool),vr(e,u),nl(),e.memoizedState=null):(t!==null&&Gn(e,null),Oi(),nl());return At(t,e,n,l),e.child}function Fa(t,e){return t!==null&&t.tag===22||e.stateNode!==null||(e.stateNode={_visibility:1,_pendingMarkers:null,_retryCache:null,_transitions:null}),e.sibling}function go(t,e,l,a,n){var u=zi();return u=u===null?null:{parent:vt._currentValue,pool:u},e.memoizedState={baseLanes:l,cachePool:u},t!==null&&Gn(e,null),Oi(),br(e),t!==null&&la(t,e,a,!0),e.childLanes=n,null}function au(t,e){return e=uu({mode:e.mode,children:e.children},t.mode),e.ref=t.ref,t.child=e,e.return=t,e}function vo(t,e,l){return Ol(e,t.child,null,l),t=au(e,e.pendingProps),t.flags|=2,te(e),e.memoizedState=null,t}function S0(t,e,l){var a=e.pendingProps,n=(e.flags&128)!==0;if(e.flags&=-129,t===null){if(J){if(a.mode==="hidden")return t=au(e,a),e.lanes=536870912,Fa(null,t);if(wi(e),(t=ct)?(t=Cf(t,fe),t=t!==null&&t.data==="&"?t:null,t!==null&&(e.memoizedState={dehydrated:t,treeContext:$e!==null?{id:Ee,overflow:Se}:null,retryLane:536870912,hydrationErrors:null},l=tr(t),l.return=e,e.child=l,zt=e,ct=null)):t=null,t===null)throw Ie(e);return e.lanes=536870912,null}return au(e,a)}var u=t.memoizedState;if(u!==null){var i=u.dehydrated;if(wi(e),n)if(e.flags&256)e.flags&=-257,e=vo(t,e,l);else if(e.memoizedState!==null)e.child=t.child,e.flags|=128,e=null;else throw Error(m(558));else if(yt||la(t,e,l,!1),n=(l&t.childLanes)!==0,yt||n){if(a=st,a!==null&&(i=sc(a,l),i!==0&&i!==u.retryLane))throw u.retryLane=i,Nl(t,i),Vt(a,t,i),ls;xu(),e=vo(t,e,l)}else t=u.treeContext,ct=me(i.nextSibling),zt=e,J=!0,Fe=null,fe=!1,t!==null&&ar(e,t),e=au(e,a),e.flags|=4096;return e}return t=Ce(t.child,{mode:a.mode,children:a.children}),t.ref=e.ref,e.child=t,t.return=e,t}function nu(t,e){var l=e.ref;if(l===null)t!==null&&t.ref!==null&&(e.flags|=4194816);else{if(typeof l!="function"&&typeof l!="object")throw Error(m(284));(t===null||t.ref!==l)&&(e.flags|=4194816)}}function as(t,e,l,a,n){return Al(e),l=Bi(t,e,l,a,void 0,n),a=Hi(),t!==null&&!yt?(qi(t,e,n),Be(t,e,n)):(J&&a&&vi(e),e.flags|=1,At(t,e,l,n),e.child)}function bo(t,e,l,a,n,u){return Al(e),e.updateQueue=null,l=jr(e,a,l,n),yr(t),a=Hi(),t!==null&&!yt?(qi(t,e,u),Be(t,e,u)):(J&&a&&vi(e),e.flags|=1,At(t,e,l,u),e.child)}function yo(t,e,l,a,n){if(Al(e),e.stateNode===null){var u=Il,i=l.contextType;typeof i=="object"&&i!==null&&(u=Tt(i)),u=new l(a,u),e.memoizedState=u.state!==null&&u.state!==void 0?u.state:null,u.updater=ts,e.stateNode=u,u._reactInternals=e,u=e.stateNode,u.props=a,u.state=e.memoizedState,u.refs={},Ai(e),i=l.contextType,u.context=typeof i=="object"&&i!==null?Tt(i):Il,u.state=e.memoizedState,i=l.getDerivedStateFromProps,typeof i=="function"&&(Pi(e,l,i,a),u.state=e.memoizedState),typeof l.getDerivedStateFromProps=="function"||typeof u.getSnapshotBeforeUpdate=="function"||typeof u.UNSAFE_componentWillMount!="function"&&typeof u.componentWillMount!="function"||(i=u.state,typeof u.componentWillMount=="function"&&u.componentWillMount(),typeof u.UNSAFE_componentWillMount=="function"&&u.UNSAFE_componentWillMount(),i!==u.state&&ts.enqueueReplaceState(u,u.state,null),Za(e,a,u,n),Va(),u.state=e.memoizedState),typeof u.componentDidMount=="function"&&(e.flags|=4194308),a=!0}else if(t===null){u=e.stateNode;var s=e.memoizedProps,c=wl(l,s);u.props=c;var h=u.context,v=l.contextType;i=Il,typeof v=="object"&&v!==null&&(i=Tt(v));var j=l.getDerivedStateFromProps;v=typeof j=="function"||typeof u.getSnapshotBeforeUpdate=="function",s=e.pendingProps!==s,v||typeof u.UNSAFE_componentWillReceiveProps!="function"&&typeof u.componentWillReceiveProps!="function"||(s||h!==i)&&uo(e,u,a,i),tl=!1;var p=e.memoizedState;u.state=p,Za(e,a,u,n),Va(),h=e.memoizedState,s||p!==h||tl?(typeof j=="function"&&(Pi(e,l,j,a),h=e.memoizedState),(c=tl||no(e,l,c,a,p,h,i))?(v||typeof u.UNSAFE_componentWillMount!="function"&&typeof u.componentWillMount!="function"||(typeof u.componentWillMount=="function"&&u.componentWillMount(),typeof u.UNSAFE_componentWillMount=="function"&&u.UNSAFE_componentWillMount()),typeof u.componentDidMount=="function"&&(e.flags|=4194308)):(typeof u.componentDidMount=="function"&&(e.flags|=4194308),e.memoizedProps=a,e.memoizedState=h),u.props=a,u.state=h,u.context=i,a=c):(typeof u.componentDidMount=="function"&&(e.flags|=4194308),a=!1)}else{u=e.stateNode,Mi(t,e),i=e.memoizedProps,v=wl(l,i),u.props=v,j=e.pendingProps,p=u.context,h=l.contextType,c=Il,typeof h=="object"&&h!==null&&(c=Tt(h)),s=l.getDerivedStateFromProps,(h=typeof s=="function"||typeof u.getSnapshotBeforeUpdate=="function")||typeof u.UNSAFE_componentWillReceiveProps!="function"&&typeof u.componentWillReceiveProps!="function"||(i!==j||p!==c)&&uo(e,u,a,c),tl=!1,p=e.memoizedState,u.state=p,Za(e,a,u,n),Va();var g=e.memoizedState;i!==j||p!==g||tl||t!==null&&t.dependencies!==null&&qn(t.dependencies)?(typeof s=="function"&&(Pi(e,l,s,a),g=e.memoizedState),(v=tl||no(e,l,v,a,p,g,c)||t!==null&&t.dependencies!==null&&qn(t.dependencies))?(h||typeof u.UNSAFE_componentWillUpdate!="function"&&typeof u.componentWillUpdate!="function"||(typeof u.componentWillUpdate=="function"&&u.componentWillUpdate(a,g,c),typeof u.UNSAFE_componentWillUpdate=="function"&&u.UNSAFE_componentWillUpdate(a,g,c)),typeof u.componentDidUpdate=="function"&&(e.flags|=4),typeof u.getSnapshotBeforeUpdate=="function"&&(e.flags|=1024)):(typeof u.componentDidUpdate!="function"||i===t.memoizedProps&&p===t.memoizedState||(e.flags|=4),typeof u.getSnapshotBeforeUpdate!="function"||i===t.memoizedProps&&p===t.memoizedState||(e.flags|=1024),e.memoizedProps=a,e.memoizedState=g),u.props=a,u.state=g,u.context=c,a=v):(typeof u.componentDidUpdate!="function"||i===t.memoizedProps&&p===t.memoizedState||(e.flags|=4),typeof u.getSnapshotBeforeUpdate!="function"||i===t.memoizedProps&&p===t.memoizedState||(e.flags|=1024),a=!1)}return u=a,nu(t,e),a=(e.flags&128)!==0,u||a?(u=e.stateNode,l=a&&typeof l.getDerivedStateFromError!="function"?null:u.render(),e.flags|=1,t!==null&&a?(e.child=Ol(e,t.child,null,n),e.child=Ol(e,null,l,n)):At(t,e,l,n),e.memoizedState=u.state,t=e.child):t=Be(t,e,n),t}function jo(t,e,l,a){return zl(),e.flags|=256,At(t,e,l,a),e.child}var ns={dehydrated:null,treeContext:null,retryLane:0,hydrationErrors:null};function us(t){return{baseLanes:t,cachePool:rr()}}function is(t,e,l){return t=t!==null?t.childLanes&~l:0,e&&(t|=le),t}function Eo(t,e,l){var a=e.pendingProps,n=!1,u=(e.flags&128)!==0,i;if((i=u)||(i=t!==null&&t.memoizedState===null?!1:(pt.current&2)!==0),i&&(n=!0,e.flags&=-129),i=(e.flags&32)!==0,e.flags&=-33,t===null){if(J){if(n?al(e):nl(),(t=ct)?(t=Cf(t,fe),t=t!==null&&t.data!=="&"?t:null,t!==null&&(e.memoizedState={dehydrated:t,treeContext:$e!==null?{id:Ee,overflow:Se}:null,retryLane:536870912,hydrationErrors:null},l=tr(t),l.return=e,e.child=l,zt=e,ct=null)):t=null,t===null)throw Ie(e);return Ls(t)?e.lanes=32:e.lanes=536870912,null}var s=a.children;return a=a.fallback,n?(nl(),n=e.mode,s=uu({mode:"hidden",children:s},n),a=_l(a,n,l,null),s.return=e,a.return=e,s.sibling=a,e.child=s,a=e.child,a.memoizedState=us(l),a.childLanes=is(t,i,l),e.memoizedState=ns,Fa(null,a)):(al(e),ss(e,s))}var c=t.memoizedState;if(c!==null&&(s=c.dehydrated,s!==null)){if(u)e.flags&256?(al(e),e.flags&=-257,e=cs(t,e,l)):e.memoizedState!==null?(nl(),e.child=t.child,e.flags|=128,e=null):(nl(),s=a.fallback,n=e.mode,a=uu({mode:"visible",children:a.children},n),s=_l(s,n,l,null),s.flags|=2,a.return=e,s.return=e,a.sibling=s,e.child=a,Ol(e,t.child,null,l),a=e.child,a.memoizedState=us(l),a.childLanes=is(t,i,l),e.memoizedState=ns,e=Fa(null,a));else if(al(e),Ls(s)){if(i=s.nextSibling&&s.nextSibling.dataset,i)var h=i.dgst;i=h,a=Error(m(419)),a.stack="",a.digest=i,qa({value:a,source:null,stack:null}),e=cs(t,e,l)}else if(yt||la(t,e,l,!1),i=(l&t.childLanes)!==0,yt||i){if(i=st,i!==null&&(a=sc(i,l),a!==0&&a!==c.retryLane))throw c.retryLane=a,Nl(t,a),Vt(i,t,a),ls;Gs(s)||xu(),e=cs(t,e,l)}else Gs(s)?(e.flags|=192,e.child=t.child,e=null):(t=c.treeContext,ct=me(s.nextSibling),zt=e,J=!0,Fe=null,fe=!1,t!==null&&ar(e,t),e=ss(e,a.children),e.flags|=4096);return e}return n?(nl(),s=a.fallback,n=e.mode,c=t.child,h=c.sibling,a=Ce(c,{mode:"hidden",children:a.children}),a.subtreeFlags=c.subtreeFlags&65011712,h!==null?s=Ce(h,s):(s=_l(s,n,l,null),s.flags|=2),s.return=e,a.return=e,a.sibling=s,e.child=a,Fa(null,a),a=e.child,s=t.child.memoizedState,s===null?s=us(l):(n=s.cachePool,n!==null?(c=vt._currentValue,n=n.parent!==c?{parent:c,pool:c}:n):n=rr(),s={baseLanes:s.baseLanes|l,cachePool:n}),a.memoizedState=s,a.childLanes=is(t,i,l),e.memoizedState=ns,Fa(t.child,a)):(al(e),l=t.child,t=l.sibling,l=Ce(l,{mode:"visible",children:a.children}),l.return=e,l.sibling=null,t!==null&&(i=e.deletions,i===null?(e.deletions=[t],e.flags|=16):i.push(t)),e.child=l,e.memoizedState=null,l)}function ss(t,e){return e=uu({mode:"visible",children:e},t.mode),e.return=t,t.child=e}function uu(t,e){return t=It(22,t,null,e),t.lanes=0,t}function cs(t,e,l){return Ol(e,t.child,null,l),t=ss(e,e.pendingProps.children),t.flags|=2,e.memoizedState=null,t}function So(t,e,l){t.lanes|=e;var a=t.alternate;a!==null&&(a.lanes|=e),Si(t.return,e,l)}function rs(t,e,l,a,n,u){var i=t.memoizedState;i===null?t.memoizedState={isBackwards:e,rendering:null,renderingStartTime:0,last:a,tail:l,tailMode:n,treeForkCount:u}:(i.isBackwards=e,i.rendering=null,i.renderingStartTime=0,i.last=a,i.tail=l,i.tailMode=n,i.treeForkCount=u)}function Ro(t,e,l){var a=e.pendingProps,n=a.revealOrder,u=a.tail;a=a.children;var i=pt.current,s=(i&2)!==0;if(s?(i=i&1|2,e.flags|=128):i&=1,_(pt,i),At(t,e,a,l),a=J?Ha:0,!s&&t!==null&&(t.flags&128)!==0)t:for(t=e.child;t!==null;){if(t.tag===13)t.memoizedState!==null&&So(t,l,e);else if(t.tag===19)So(t,l,e);else if(t.child!==null){t.child.return=t,t=t.child;continue}if(t===e)break t;for(;t.sibling===null;){if(t.return===null||t.return===e)break t;t=t.return}t.sibling.return=t.return,t=t.sibling}switch(n){case"forwards":for(l=e.child,n=null;l!==null;)t=l.alternate,t!==null&&Kn(t)===null&&(n=l),l=l.sibling;l=n,l===null?(n=e.child,e.child=null):(n=l.sibling,l.sibling=null),rs(e,!1,n,l,u,a);break;case"backwards":case"unstable_legacy-backwards":for(l=null,n=e.child,e.child=null;n!==null;){if(t=n.alternate,t!==null&&Kn(t)===null){e.child=n;break}t=n.sibling,n.sibling=l,l=n,n=t}rs(e,!0,l,null,u,a);break;case"together":rs(e,!1,null,null,void 0,a);break;default:e.memoizedState=null}return e.child}function Be(t,e,l){if(t!==null&&(e.dependencies=t.dependencies),sl|=e.lanes,(l&e.childLanes)===0)if(t!==null){if(la(t,e,l,!1),(l&e.childLanes)===0)return null}else return null;if(t!==null&&e.child!==t.child)throw Error(m(153));if(e.child!==null){for(t=e.child,l=Ce(t,t.pendingProps),e.child=l,l.return=e;t.sibling!==null;)t=t.sibling,l=l.sibling=Ce(t,t.pendingProps),l.return=e;l.sibling=null}return e.child}function os(t,e){return(t.lanes&e)!==0?!0:(t=t.dependencies,!!(t!==null&&qn(t)))}function R0(t,e,l){switch(e.tag){case 3:Ot(e,e.stateNode.containerInfo),Pe(e,vt,t.memoizedState.cache),zl();break;case 27:case 5:Sa(e);break;case 4:Ot(e,e.stateNode.containerInfo);break;case 10:Pe(e,e.type,e.memoizedProps.value);break;case 31:if(e.memoizedState!==null)return e.flags|=128,wi(e),null;break;case 13:var a=e.memoizedState;if(a!==null)return a.dehydrated!==null?(al(e),e.flags|=128,null):(l&e.child.childLanes)!==0?Eo(t,e,l):(al(e),t=Be(t,e,l),t!==null?t.sibling:null);al(e);break;case 19:var n=(t.flags&128)!==0;if(a=(l&e.childLanes)!==0,a||(la(t,e,l,!1),a=(l&e.childLanes)!==0),n){if(a)return Ro(t,e,l);e.flags|=128}if(n=e.memoizedState,n!==null&&(n.rendering=null,n.tail=null,n.lastEffect=null),_(pt,pt.current),a)break;return null;case 22:return e.lanes=0,po(t,e,l,e.pendingProps);case 24:Pe(e,vt,t.memoizedState.cache)}return Be(t,e,l)}function No(t,e,l){if(t!==null)if(t.memoizedProps!==e.pendingProps)yt=!0;else{if(!os(t,l)&&(e.flags&128)===0)return yt=!1,R0(t,e,l);yt=(t.flags&131072)!==0}else yt=!1,J&&(e.flags&1048576)!==0&&lr(e,Ha,e.index);switch(e.lanes=0,e.tag){case 16:t:{var a=e.pendingProps;if(t=Cl(e.elementType),e.type=t,typeof t=="function")hi(t)?(a=wl(t,a),e.tag=1,e=yo(null,e,t,a,l)):(e.tag=0,e=as(null,e,t,a,l));else{if(t!=null){var n=t.$$typeof;if(n===ne){e.tag=11,e=mo(null,e,t,a,l);break t}else if(n===K){e.tag=14,e=xo(null,e,t,a,l);break t}}throw e=ze(t)||t,Error(m(306,e,""))}}return e;case 0:return as(t,e,e.type,e.pendingProps,l);case 1:return a=e.type,n=wl(a,e.pendingProps),yo(t,e,a,n,l);case 3:t:{if(Ot(e,e.stateNode.containerInfo),t===null)throw Error(m(387));a=e.pendingProps;var u=e.memoizedState;n=u.element,Mi(t,e),Za(e,a,null,l);var i=e.memoizedState;if(a=i.cache,Pe(e,vt,a),a!==u.cache&&Ri(e,[vt],l,!0),Va(),a=i.element,u.isDehydrated)if(u={element:a,isDehydrated:!1,cache:i.cache},e.updateQueue.baseState=u,e.memoizedState=u,e.flags&256){e=jo(t,e,a,l);break t}else if(a!==n){n=ce(Error(m(424)),e),qa(n),e=jo(t,e,a,l);break t}else for(t=e.stateNode.containerInfo,t.nodeType===9?t=t.body:t=t.nodeName==="HTML"?t.ownerDocument.body:t,ct=me(t.firstChild),zt=e,J=!0,Fe=null,fe=!0,l=hr(e,null,a,l),e.child=l;l;)l.flags=l.flags&-3|4096,l=l.sibling;else{if(zl(),a===n){e=Be(t,e,l);break t}At(t,e,a,l)}e=e.child}return e;case 26:return nu(t,e),t===null?(l=Bf(e.type,null,e.pendingProps,null))?e.memoizedState=l:J||(l=e.type,t=e.pendingProps,a=ju(G.current).createElement(l),a[_t]=e,a[qt]=t,Mt(a,l,t),Rt(a),e.stateNode=a):e.memoizedState=Bf(e.type,t.memoizedProps,e.pendingProps,t.memoizedState),null;case 27:return Sa(e),t===null&&J&&(a=e.stateNode=kf(e.type,e.pendingProps,G.current),zt=e,fe=!0,n=ct,dl(e.type)?(Xs=n,ct=me(a.firstChild)):ct=n),At(t,e,e.pendingProps.children,l),nu(t,e),t===null&&(e.flags|=4194304),e.child;case 5:return t===null&&J&&((n=a=ct)&&(a=tm(a,e.type,e.pendingProps,fe),a!==null?(e.stateNode=a,zt=e,ct=me(a.firstChild),fe=!1,n=!0):n=!1),n||Ie(e)),Sa(e),n=e.type,u=e.pendingProps,i=t!==null?t.memoizedProps:null,a=u.children,Hs(n,u)?a=null:i!==null&&Hs(n,i)&&(e.flags|=32),e.memoizedState!==null&&(n=Bi(t,e,h0,null,null,l),mn._currentValue=n),nu(t,e),At(t,e,a,l),e.child;case 6:return t===null&&J&&((t=l=ct)&&(l=em(l,e.pendingProps,fe),l!==null?(e.stateNode=l,zt=e,ct=null,t=!0):t=!1),t||Ie(e)),null;case 13:return Eo(t,e,l);case 4:return Ot(e,e.stateNode.containerInfo),a=e.pendingProps,t===null?e.child=Ol(e,null,a,l):At(t,e,a,l),e.child;case 11:return mo(t,e,e.type,e.pendingProps,l);case 7:return At(t,e,e.pendingProps,l),e.child;case 8:return At(t,e,e.pendingProps.children,l),e.child;case 12:return At(t,e,e.pendingProps.children,l),e.child;case 10:return a=e.pendingProps,Pe(e,e.type,a.value),At(t,e,a.children,l),e.child;case 9:return n=e.type._context,a=e.pendingProps.children,Al(e),n=Tt(n),a=a(n),e.flags|=1,At(t,e,a,l),e.child;case 14:return xo(t,e,e.type,e.pendingProps,l);case 15:return ho(t,e,e.type,e.pendingProps,l);case 19:return Ro(t,e,l);case 31:return S0(t,e,l);case 22:return po(t,e,l,e.pendingProps);case 24:return Al(e),a=Tt(vt),t===null?(n=zi(),n===null&&(n=st,u=Ni(),n.pooledCache=u,u.refCount++,u!==null&&(n.pooledCacheLanes|=l),n=u),e.memoizedState={parent:a,cache:n},Ai(e),Pe(e,vt,n)):((t.lanes&l)!==0&&(Mi(t,e),Za(e,null,null,l),Va()),n=t.memoizedState,u=e.memoizedState,n.parent!==a?(n={parent:a,cache:a},e.memoizedState=n,e.lanes===0&&(e.memoizedState=e.updateQueue.baseState=n),Pe(e,vt,a)):(a=u.cache,Pe(e,vt,a),a!==n.cache&&Ri(e,[vt],l,!0))),At(t,e,e.pendingProps.children,l),e.child;case 29:throw e.pendingProps}throw Error(m(156,e.tag))}function He(t){t.flags|=4}function fs(t,e,l,a,n){if((e=(t.mode&32)!==0)&&(e=!1),e){if(t.flags|=16777216,(n&335544128)===n)if(t.stateNode.complete)t.flags|=8192;else if(Io())t.flags|=8192;else throw Dl=Xn,Ti}else t.flags&=-16777217}function _o(t,e){if(e.type!=="stylesheet"||(e.state.loading&4)!==0)t.flags&=-16777217;else if(t.flags|=16777216,!Lf(e))if(Io())t.flags|=8192;else throw Dl=Xn,Ti}function iu(t,e){e!==null&&(t.flags|=4),t.flags&16384&&(e=t.tag!==22?nc():536870912,t.lanes|=e,xa|=e)}function Ia(t,e){if(!J)switch(t.tailMode){case"hidden":e=t.tail;for(var l=null;e!==null;)e.alternate!==null&&(l=e),e=e.sibling;l===null?t.tail=null:l.sibling=null;break;case"collapsed":l=t.tail;for(var a=null;l!==null;)l.alternate!==null&&(a=l),l=l.sibling;a===null?e||t.tail===null?t.tail=null:t.tail.sibling=null:a.sibling=null}}function rt(t){var e=t.alternate!==null&&t.alternate.child===t.child,l=0,a=0;if(e)for(var n=t.child;n!==null;)l|=n.lanes|n.childLanes,a|=n.subtreeFlags&65011712,a|=n.flags&65011712,n.return=t,n=n.sibling;else for(n=t.child;n!==null;)l|=n.lanes|n.childLanes,a|=n.subtreeFlags,a|=n.flags,n.return=t,n=n.sibling;return t.subtreeFlags|=a,t.childLanes=l,e}function N0(t,e,l){var a=e.pendingProps;switch(bi(e),e.tag){case 16:case 15:case 0:case 11:case 7:case 8:case 12:case 9:case 14:return rt(e),null;case 1:return rt(e),null;case 3:return l=e.stateNode,a=null,t!==null&&(a=t.memoizedState.cache),e.memoizedState.cache!==a&&(e.flags|=2048),ke(vt),ht(),l.pendingContext&&(l.context=l.pendingContext,l.pendingContext=null),(t===null||t.child===null)&&(ea(e)?He(e):t===null||t.memoizedState.isDehydrated&&(e.flags&256)===0||(e.flags|=1024,ji())),rt(e),null;case 26:var n=e.type,u=e.memoizedState;return t===null?(He(e),u!==null?(rt(e),_o(e,u)):(rt(e),fs(e,n,null,a,l))):u?u!==t.memoizedState?(He(e),rt(e),_o(e,u)):(rt(e),e.flags&=-16777217):(t=t.memoizedProps,t!==a&&He(e),rt(e),fs(e,n,t,a,l)),null;case 27:if(gn(e),l=G.current,n=e.type,t!==null&&e.stateNode!=null)t.memoizedProps!==a&&He(e);else{if(!a){if(e.stateNode===null)throw Error(m(166));return rt(e),null}t=A.current,ea(e)?nr(e):(t=kf(n,a,l),e.stateNode=t,He(e))}return rt(e),null;case 5:if(gn(e),n=e.type,t!==null&&e.stateNode!=null)t.memoizedProps!==a&&He(e);else{if(!a){if(e.stateNode===null)throw Error(m(166));return rt(e),null}if(u=A.current,ea(e))nr(e);else{var i=ju(G.current);switch(u){case 1:u=i.createElementNS("http://www.w3.org/2000/svg",n);break;case 2:u=i.createElementNS("http://www.w3.org/1998/Math/MathML",n);break;default:switch(n){case"svg":u=i.createElementNS("http://www.w3.org/2000/svg",n);break;case"math":u=i.createElementNS("http://www.w3.org/1998/Math/MathML",n);break;case"script":u=i.createElement("div"),u.innerHTML="<script><\/script>",u=u.removeChild(u.firstChild);break;case"select":u=typeof a.is=="string"?i.createElement("select",{is:a.is}):i.createElement("select"),a.multiple?u.multiple=!0:a.size&&(u.size=a.size);break;default:u=typeof a.is=="string"?i.createElement(n,{is:a.is}):i.createElement(n)}}u[_t]=e,u[qt]=a;t:for(i=e.child;i!==null;){if(i.tag===5||i.tag===6)u.appendChild(i.stateNode);else if(i.tag!==4&&i.tag!==27&&i.child!==null){i.child.return=i,i=i.child;continue}if(i===e)break t;for(;i.sibling===null;){if(i.return===null||i.return===e)break t;i=i.return}i.sibling.return=i.return,i=i.sibling}e.stateNode=u;t:switch(Mt(u,n,a),n){case"button":case"input":case"select":case"textarea":a=!!a.autoFocus;break t;case"img":a=!0;break t;default:a=!1}a&&He(e)}}return rt(e),fs(e,e.type,t===null?null:t.memoizedProps,e.pendingProps,l),null;case 6:if(t&&e.stateNode!=null)t.memoizedProps!==a&&He(e);else{if(typeof a!="string"&&e.stateNode===null)throw Error(m(166));if(t=G.current,ea(e)){if(t=e.stateNode,l=e.memoizedProps,a=null,n=zt,n!==null)switch(n.tag){case 27:case 5:a=n.memoizedProps}t[_t]=e,t=!!(t.nodeValue===l||a!==null&&a.suppressHydrationWarning===!0||Sf(t.nodeValue,l)),t||Ie(e,!0)}else t=ju(t).createTextNode(a),t[_t]=e,e.stateNode=t}return rt(e),null;case 31:if(l=e.memoizedState,t===null||t.memoizedState!==null){if(a=ea(e),l!==null){if(t===null){if(!a)throw Error(m(318));if(t=e.memoizedState,t=t!==null?t.dehydrated:null,!t)throw Error(m(557));t[_t]=e}else zl(),(e.flags&128)===0&&(e.memoizedState=null),e.flags|=4;rt(e),t=!1}else l=ji(),t!==null&&t.memoizedState!==null&&(t.memoizedState.hydrationErrors=l),t=!0;if(!t)return e.flags&256?(te(e),e):(te(e),null);if((e.flags&128)!==0)throw Error(m(558))}return rt(e),null;case 13:if(a=e.memoizedState,t===null||t.memoizedState!==null&&t.memoizedState.dehydrated!==null){if(n=ea(e),a!==null&&a.dehydrated!==null){if(t===null){if(!n)throw Error(m(318));if(n=e.memoizedState,n=n!==null?n.dehydrated:null,!n)throw Error(m(317));n[_t]=e}else zl(),(e.flags&128)===0&&(e.memoizedState=null),e.flags|=4;rt(e),n=!1}else n=ji(),t!==null&&t.memoizedState!==null&&(t.memoizedState.hydrationErrors=n),n=!0;if(!n)return e.flags&256?(te(e),e):(te(e),null)}return te(e),(e.flags&128)!==0?(e.lanes=l,e):(l=a!==null,t=t!==null&&t.memoizedState!==null,l&&(a=e.child,n=null,a.alternate!==null&&a.alternate.memoizedState!==null&&a.alternate.memoizedState.cachePool!==null&&(n=a.alternate.memoizedState.cachePool.pool),u=null,a.memoizedState!==null&&a.memoizedState.cachePool!==null&&(u=a.memoizedState.cachePool.pool),u!==n&&(a.flags|=2048)),l!==t&&l&&(e.child.flags|=8192),iu(e,e.updateQueue),rt(e),null);case 4:return ht(),t===null&&Os(e.stateNode.containerInfo),rt(e),null;case 10:return ke(e.type),rt(e),null;case 19:if(E(pt),a=e.memoizedState,a===null)return rt(e),null;if(n=(e.flags&128)!==0,u=a.rendering,u===null)if(n)Ia(a,!1);else{if(xt!==0||t!==null&&(t.flags&128)!==0)for(t=e.child;t!==null;){if(u=Kn(t),u!==null){for(e.flags|=128,Ia(a,!1),t=u.updateQueue,e.updateQueue=t,iu(e,t),e.subtreeFlags=0,t=l,l=e.child;l!==null;)Pc(l,t),l=l.sibling;return _(pt,pt.current&1|2),J&&De(e,a.treeForkCount),e.child}t=t.sibling}a.tail!==null&&Jt()>fu&&(e.flags|=128,n=!0,Ia(a,!1),e.lanes=4194304)}else{if(!n)if(t=Kn(u),t!==null){if(e.flags|=128,n=!0,t=t.updateQueue,e.updateQueue=t,iu(e,t),Ia(a,!0),a.tail===null&&a.tailMode==="hidden"&&!u.alternate&&!J)return rt(e),null}else 2*Jt()-a.renderingStartTime>fu&&l!==536870912&&(e.flags|=128,n=!0,Ia(a,!1),e.lanes=4194304);a.isBackwards?(u.sibling=e.child,e.child=u):(t=a.last,t!==null?t.sibling=u:e.child=u,a.last=u)}return a.tail!==null?(t=a.tail,a.rendering=t,a.tail=t.sibling,a.renderingStartTime=Jt(),t.sibling=null,l=pt.current,_(pt,n?l&1|2:l&1),J&&De(e,a.treeForkCount),t):(rt(e),null);case 22:case 23:return te(e),ki(),a=e.memoizedState!==null,t!==null?t.memoizedState!==null!==a&&(e.flags|=8192):a&&(e.flags|=8192),a?(l&536870912)!==0&&(e.flags&128)===0&&(rt(e),e.subtreeFlags&6&&(e.flags|=8192)):rt(e),l=e.updateQueue,l!==null&&iu(e,l.retryQueue),l=null,t!==null&&t.memoizedState!==null&&t.memoizedState.cachePool!==null&&(l=t.memoizedState.cachePool.pool),a=null,e.memoizedState!==null&&e.memoizedState.cachePool!==null&&(a=e.memoizedState.cachePool.pool),a!==l&&(e.flags|=2048),t!==null&&E(Ml),null;case 24:return l=null,t!==null&&(l=t.memoizedState.cache),e.memoizedState.cache!==l&&(e.flags|=2048),ke(vt),rt(e),null;case 25:return null;case 30:return null}throw Error(m(156,e.tag))}function _0(t,e){switch(bi(e),e.tag){case 1:return t=e.flags,t&65536?(e.flags=t&-65537|128,e):null;case 3:return ke(vt),ht(),t=e.flags,(t&65536)!==0&&(t&128)===0?(e.flags=t&-65537|128,e):null;case 26:case 27:case 5:return gn(e),null;case 31:if(e.memoizedState!==null){if(te(e),e.alternate===null)throw Error(m(340));zl()}return t=e.flags,t&65536?(e.flags=t&-65537|128,e):null;case 13:if(te(e),t=e.memoizedState,t!==null&&t.dehydrated!==null){if(e.alternate===null)throw Error(m(340));zl()}return t=e.flags,t&65536?(e.flags=t&-65537|128,e):null;case 19:return E(pt),null;case 4:return ht(),null;case 10:return ke(e.type),null;case 22:case 23:return te(e),ki(),t!==null&&E(Ml),t=e.flags,t&65536?(e.flags=t&-65537|128,e):null;case 24:return ke(vt),null;case 25:return null;default:return null}}function zo(t,e){switch(bi(e),e.tag){case 3:ke(vt),ht();break;case 26:case 27:case 5:gn(e);break;case 4:ht();break;case 31:e.memoizedState!==null&&te(e);break;case 13:te(e);break;case 19:E(pt);break;case 10:ke(e.type);break;case 22:case 23:te(e),ki(),t!==null&&E(Ml);break;case 24:ke(vt)}}function Pa(t,e){try{var l=e.updateQueue,a=l!==null?l.lastEffect:null;if(a!==null){var n=a.next;l=n;do{if((l.tag&t)===t){a=void 0;var u=l.create,i=l.inst;a=u(),i.destroy=a}l=l.next}while(l!==n)}}catch(s){et(e,e.return,s)}}function ul(t,e,l){try{var a=e.updateQueue,n=a!==null?a.lastEffect:null;if(n!==null){var u=n.next;a=u;do{if((a.tag&t)===t){var i=a.inst,s=i.destroy;if(s!==void 0){i.destroy=void 0,n=e;var c=l,h=s;try{h()}catch(v){et(n,c,v)}}}a=a.next}while(a!==u)}}catch(v){et(e,e.return,v)}}function To(t){var e=t.updateQueue;if(e!==null){var l=t.stateNode;try{gr(e,l)}catch(a){et(t,t.return,a)}}}function Ao(t,e,l){l.props=wl(t.type,t.memoizedProps),l.state=t.memoizedState;try{l.componentWillUnmount()}catch(a){et(t,e,a)}}function tn(t,e){try{var l=t.ref;if(l!==null){switch(t.tag){case 26:case 27:case 5:var a=t.stateNode;break;case 30:a=t.stateNode;break;default:a=t.stateNode}typeof l=="function"?t.refCleanup=l(a):l.current=a}}catch(n){et(t,e,n)}}function Re(t,e){var l=t.ref,a=t.refCleanup;if(l!==null)if(typeof a=="function")try{a()}catch(n){et(t,e,n)}finally{t.refCleanup=null,t=t.alternate,t!=null&&(t.refCleanup=null)}else if(typeof l=="function")try{l(null)}catch(n){et(t,e,n)}else l.current=null}function Mo(t){var e=t.type,l=t.memoizedProps,a=t.stateNode;try{t:switch(e){case"button":case"input":case"select":case"textarea":l.autoFocus&&a.focus();break t;case"img":l.src?a.src=l.src:l.srcSet&&(a.srcset=l.srcSet)}}catch(n){et(t,t.return,n)}}function ds(t,e,l){try{var a=t.stateNode;J0(a,t.type,l,e),a[qt]=e}catch(n){et(t,t.return,n)}}function Co(t){return t.tag===5||t.tag===3||t.tag===26||t.tag===27&&dl(t.type)||t.tag===4}function ms(t){t:for(;;){for(;t.sibling===null;){if(t.return===null||Co(t.return))return null;t=t.return}for(t.sibling.return=t.return,t=t.sibling;t.tag!==5&&t.tag!==6&&t.tag!==18;){if(t.tag===27&&dl(t.type)||t.flags&2||t.child===null||t.tag===4)continue t;t.child.return=t,t=t.child}if(!(t.flags&2))return t.stateNode}}function xs(t,e,l){var a=t.tag;if(a===5||a===6)t=t.stateNode,e?(l.nodeType===9?l.body:l.nodeName==="HTML"?l.ownerDocument.body:l).insertBefore(t,e):(e=l.nodeType===9?l.body:l.nodeName==="HTML"?l.ownerDocument.body:l,e.appendChild(t),l=l._reactRootContainer,l!=null||e.onclick!==null||(e.onclick=Ae));else if(a!==4&&(a===27&&dl(t.type)&&(l=t.stateNode,e=null),t=t.child,t!==null))for(xs(t,e,l),t=t.sibling;t!==null;)xs(t,e,l),t=t.sibling}function su(t,e,l){var a=t.tag;if(a===5||a===6)t=t.stateNode,e?l.insertBefore(t,e):l.appendChild(t);else if(a!==4&&(a===27&&dl(t.type)&&(l=t.stateNode),t=t.child,t!==null))for(su(t,e,l),t=t.sibling;t!==null;)su(t,e,l),t=t.sibling}function Do(t){var e=t.stateNode,l=t.memoizedProps;try{for(var a=t.type,n=e.attributes;n.length;)e.removeAttributeNode(n[0]);Mt(e,a,l),e[_t]=t,e[qt]=l}catch(u){et(t,t.return,u)}}var qe=!1,jt=!1,hs=!1,Oo=typeof WeakSet=="function"?WeakSet:Set,Nt=null;function z0(t,e){if(t=t.containerInfo,Us=Tu,t=Qc(t),ci(t)){if("selectionStart"in t)var l={start:t.selectionStart,end:t.selectionEnd};else t:{l=(l=t.ownerDocument)&&l.defaultView||window;var a=l.getSelection&&l.getSelection();if(a&&a.rangeCount!==0){l=a.anchorNode;var n=a.anchorOffset,u=a.focusNode;a=a.focusOffset;try{l.nodeType,u.nodeType}catch{l=null;break t}var i=0,s=-1,c=-1,h=0,v=0,j=t,p=null;e:for(;;){for(var g;j!==l||n!==0&&j.nodeType!==3||(s=i+n),j!==u||a!==0&&j.nodeType!==3||(c=i+a),j.nodeType===3&&(i+=j.nodeValue.length),(g=j.firstChild)!==null;)p=j,j=g;for(;;){if(j===t)break e;if(p===l&&++h===n&&(s=i),p===u&&++v===a&&(c=i),(g=j.nextSibling)!==null)break;j=p,p=j.parentNode}j=g}l=s===-1||c===-1?null:{start:s,end:c}}else l=null}l=l||{start:0,end:0}}else l=null;for(Bs={focusedElem:t,selectionRange:l},Tu=!1,Nt=e;Nt!==null;)if(e=Nt,t=e.child,(e.subtreeFlags&1028)!==0&&t!==null)t.return=e,Nt=t;else for(;Nt!==null;){switch(e=Nt,u=e.alternate,t=e.flags,e.tag){case 0:if((t&4)!==0&&(t=e.updateQueue,t=t!==null?t.events:null,t!==null))for(l=0;l<t.length;l++)n=t[l],n.ref.impl=n.nextImpl;break;case 11:case 15:break;case 1:if((t&1024)!==0&&u!==null){t=void 0,l=e,n=u.memoizedProps,u=u.memoizedState,a=l.stateNode;try{var T=wl(l.type,n);t=a.getSnapshotBeforeUpdate(T,u),a.__reactInternalSnapshotBeforeUpdate=t}catch(O){et(l,l.return,O)}}break;case 3:if((t&1024)!==0){if(t=e.stateNode.containerInfo,l=t.nodeType,l===9)Ys(t);else if(l===1)switch(t.nodeName){case"HEAD":case"HTML":case"BODY":Ys(t);break;default:t.textContent=""}}break;case 5:case 26:case 27:case 6:case 4:case 17:break;default:if((t&1024)!==0)throw Error(m(163))}if(t=e.sibling,t!==null){t.return=e.return,Nt=t;break}Nt=e.return}}function ko(t,e,l){var a=l.flags;switch(l.tag){case 0:case 11:case 15:Ge(t,l),a&4&&Pa(5,l);break;case 1:if(Ge(t,l),a&4)if(t=l.stateNode,e===null)try{t.componentDidMount()}catch(i){et(l,l.return,i)}else{var n=wl(l.type,e.memoizedProps);e=e.memoizedState;try{t.componentDidUpdate(n,e,t.__reactInternalSnapshotBeforeUpdate)}catch(i){et(l,l.return,i)}}a&64&&To(l),a&512&&tn(l,l.return);break;case 3:if(Ge(t,l),a&64&&(t=l.updateQueue,t!==null)){if(e=null,l.child!==null)switch(l.child.tag){case 27:case 5:e=l.child.stateNode;break;case 1:e=l.child.stateNode}try{gr(t,e)}catch(i){et(l,l.return,i)}}break;case 27:e===null&&a&4&&Do(l);case 26:case 5:Ge(t,l),e===null&&a&4&&Mo(l),a&512&&tn(l,l.return);break;case 12:Ge(t,l);break;case 31:Ge(t,l),a&4&&Bo(t,l);break;case 13:Ge(t,l),a&4&&Ho(t,l),a&64&&(t=l.memoizedState,t!==null&&(t=t.dehydrated,t!==null&&(l=U0.bind(null,l),lm(t,l))));break;case 22:if(a=l.memoizedState!==null||qe,!a){e=e!==null&&e.memoizedState!==null||jt,n=qe;var u=jt;qe=a,(jt=e)&&!u?Le(t,l,(l.subtreeFlags&8772)!==0):Ge(t,l),qe=n,jt=u}break;case 30:break;default:Ge(t,l)}}function wo(t){var e=t.alternate;e!==null&&(t.alternate=null,wo(e)),t.child=null,t.deletions=null,t.sibling=null,t.tag===5&&(e=t.stateNode,e!==null&&Vu(e)),t.stateNode=null,t.return=null,t.dependencies=null,t.memoizedProps=null,t.memoizedState=null,t.pendingProps=null,t.stateNode=null,t.updateQueue=null}var ft=null,Gt=!1;function Ye(t,e,l){for(l=l.child;l!==null;)Uo(t,e,l),l=l.sibling}function Uo(t,e,l){if(Wt&&typeof Wt.onCommitFiberUnmount=="function")try{Wt.onCommitFiberUnmount(Ra,l)}catch{}switch(l.tag){case 26:jt||Re(l,e),Ye(t,e,l),l.memoizedState?l.memoizedState.count--:l.stateNode&&(l=l.stateNode,l.parentNode.removeChild(l));break;case 27:jt||Re(l,e);var a=ft,n=Gt;dl(l.type)&&(ft=l.stateNode,Gt=!1),Ye(t,e,l),on(l.stateNode),ft=a,Gt=n;break;case 5:jt||Re(l,e);case 6:if(a=ft,n=Gt,ft=null,Ye(t,e,l),ft=a,Gt=n,ft!==null)if(Gt)try{(ft.nodeType===9?ft.body:ft.nodeName==="HTML"?ft.ownerDocument.body:ft).removeChild(l.stateNode)}catch(u){et(l,e,u)}else try{ft.removeChild(l.stateNode)}catch(u){et(l,e,u)}break;case 18:ft!==null&&(Gt?(t=ft,Af(t.nodeType===9?t.body:t.nodeName==="HTML"?t.ownerDocument.body:t,l.stateNode),Ea(t)):Af(ft,l.stateNode));break;case 4:a=ft,n=Gt,ft=l.stateNode.containerInfo,Gt=!0,Ye(t,e,l),ft=a,Gt=n;break;case 0:case 11:case 14:case 15:ul(2,l,e),jt||ul(4,l,e),Ye(t,e,l);break;case 1:jt||(Re(l,e),a=l.stateNode,typeof a.componentWillUnmount=="function"&&Ao(l,e,a)),Ye(t,e,l);break;case 21:Ye(t,e,l);break;case 22:jt=(a=jt)||l.memoizedState!==null,Ye(t,e,l),jt=a;break;default:Ye(t,e,l)}}function Bo(t,e){if(e.memoizedState===null&&(t=e.alternate,t!==null&&(t=t.memoizedState,t!==null))){t=t.dehydrated;try{Ea(t)}catch(l){et(e,e.return,l)}}}function Ho(t,e){if(e.memoizedState===null&&(t=e.alternate,t!==null&&(t=t.memoizedState,t!==null&&(t=t.dehydrated,t!==null))))try{Ea(t)}catch(l){et(e,e.return,l)}}function T0(t){switch(t.tag){case 31:case 13:case 19:var e=t.stateNode;return e===null&&(e=t.stateNode=new Oo),e;case 22:return t=t.stateNode,e=t._retryCache,e===null&&(e=t._retryCache=new Oo),e;default:throw Error(m(435,t.tag))}}function cu(t,e){var l=T0(t);e.forEach(function(a){if(!l.has(a)){l.add(a);var n=B0.bind(null,t,a);a.then(n,n)}})}function Lt(t,e){var l=e.deletions;if(l!==null)for(var a=0;a<l.length;a++){var n=l[a],u=t,i=e,s=i;t:for(;s!==null;){switch(s.tag){case 27:if(dl(s.type)){ft=s.stateNode,Gt=!1;break t}break;case 5:ft=s.stateNode,Gt=!1;break t;case 3:case 4:ft=s.stateNode.containerInfo,Gt=!0;break t}s=s.return}if(ft===null)throw Error(m(160));Uo(u,i,n),ft=null,Gt=!1,u=n.alternate,u!==null&&(u.return=null),n.return=null}if(e.subtreeFlags&13886)for(e=e.child;e!==null;)qo(e,t),e=e.sibling}var ge=null;function qo(t,e){var l=t.alternate,a=t.flags;switch(t.tag){case 0:case 11:case 14:case 15:Lt(e,t),Xt(t),a&4&&(ul(3,t,t.return),Pa(3,t),ul(5,t,t.return));break;case 1:Lt(e,t),Xt(t),a&512&&(jt||l===null||Re(l,l.return)),a&64&&qe&&(t=t.updateQueue,t!==null&&(a=t.callbacks,a!==null&&(l=t.shared.hiddenCallbacks,t.shared.hiddenCallbacks=l===null?a:l.concat(a))));break;case 26:var n=ge;if(Lt(e,t),Xt(t),a&512&&(jt||l===null||Re(l,l.return)),a&4){var u=l!==null?l.memoizedState:null;if(a=t.memoizedState,l===null)if(a===null)if(t.stateNode===null){t:{a=t.type,l=t.memoizedProps,n=n.ownerDocument||n;e:switch(a){case"title":u=n.getElementsByTagName("title")[0],(!u||u[za]||u[_t]||u.namespaceURI==="http://www.w3.org/2000/svg"||u.hasAttribute("itemprop"))&&(u=n.createElement(a),n.head.insertBefore(u,n.querySelector("head > title"))),Mt(u,a,l),u[_t]=t,Rt(u),a=u;break t;case"link":var i=Yf("link","href",n).get(a+(l.href||""));if(i){for(var s=0;s<i.length;s++)if(u=i[s],u.getAttribute("href")===(l.href==null||l.href===""?null:l.href)&&u.getAttribute("rel")===(l.rel==null?null:l.rel)&&u.getAttribute("title")===(l.title==null?null:l.title)&&u.getAttribute("crossorigin")===(l.crossOrigin==null?null:l.crossOrigin)){i.splice(s,1);break e}}u=n.createElement(a),Mt(u,a,l),n.head.appendChild(u);break;case"meta":if(i=Yf("meta","content",n).get(a+(l.content||""))){for(s=0;s<i.length;s++)if(u=i[s],u.getAttribute("content")===(l.content==null?null:""+l.content)&&u.getAttribute("name")===(l.name==null?null:l.name)&&u.getAttribute("property")===(l.property==null?null:l.property)&&u.getAttribute("http-equiv")===(l.httpEquiv==null?null:l.httpEquiv)&&u.getAttribute("charset")===(l.charSet==null?null:l.charSet)){i.splice(s,1);break e}}u=n.createElement(a),Mt(u,a,l),n.head.appendChild(u);break;default:throw Error(m(468,a))}u[_t]=t,Rt(u),a=u}t.stateNode=a}else Gf(n,t.type,t.stateNode);else t.stateNode=qf(n,a,t.memoizedProps);else u!==a?(u===null?l.stateNode!==null&&(l=l.stateNode,l.parentNode.removeChild(l)):u.count--,a===null?Gf(n,t.type,t.stateNode):qf(n,a,t.memoizedProps)):a===null&&t.stateNode!==null&&ds(t,t.memoizedProps,l.memoizedProps)}break;case 27:Lt(e,t),Xt(t),a&512&&(jt||l===null||Re(l,l.return)),l!==null&&a&4&&ds(t,t.memoizedProps,l.memoizedProps);break;case 5:if(Lt(e,t),Xt(t),a&512&&(jt||l===null||Re(l,l.return)),t.flags&32){n=t.stateNode;try{Vl(n,"")}catch(T){et(t,t.return,T)}}a&4&&t.stateNode!=null&&(n=t.memoizedProps,ds(t,n,l!==null?l.memoizedProps:n)),a&1024&&(hs=!0);break;case 6:if(Lt(e,t),Xt(t),a&4){if(t.stateNode===null)throw Error(m(162));a=t.memoizedProps,l=t.stateNode;try{l.nodeValue=a}catch(T){et(t,t.return,T)}}break;case 3:if(Ru=null,n=ge,ge=Eu(e.containerInfo),Lt(e,t),ge=n,Xt(t),a&4&&l!==null&&l.memoizedState.isDehydrated)try{Ea(e.containerInfo)}catch(T){et(t,t.return,T)}hs&&(hs=!1,Yo(t));break;case 4:a=ge,ge=Eu(t.stateNode.containerInfo),Lt(e,t),Xt(t),ge=a;break;case 12:Lt(e,t),Xt(t);break;case 31:Lt(e,t),Xt(t),a&4&&(a=t.updateQueue,a!==null&&(t.updateQueue=null,cu(t,a)));break;case 13:Lt(e,t),Xt(t),t.child.flags&8192&&t.memoizedState!==null!=(l!==null&&l.memoizedState!==null)&&(ou=Jt()),a&4&&(a=t.updateQueue,a!==null&&(t.updateQueue=null,cu(t,a)));break;case 22:n=t.memoizedState!==null;var c=l!==null&&l.memoizedState!==null,h=qe,v=jt;if(qe=h||n,jt=v||c,Lt(e,t),jt=v,qe=h,Xt(t),a&8192)t:for(e=t.stateNode,e._visibility=n?e._visibility&-2:e._visibility|1,n&&(l===null||c||qe||jt||Ul(t)),l=null,e=t;;){if(e.tag===5||e.tag===26){if(l===null){c=l=e;try{if(u=c.stateNode,n)i=u.style,typeof i.setProperty=="function"?i.setProperty("display","none","important"):i.display="none";else{s=c.stateNode;var j=c.memoizedProps.style,p=j!=null&&j.hasOwnProperty("display")?j.display:null;s.style.display=p==null||typeof p=="boolean"?"":(""+p).trim()}}catch(T){et(c,c.return,T)}}}else if(e.tag===6){if(l===null){c=e;try{c.stateNode.nodeValue=n?"":c.memoizedProps}catch(T){et(c,c.return,T)}}}else if(e.tag===18){if(l===null){c=e;try{var g=c.stateNode;n?Mf(g,!0):Mf(c.stateNode,!1)}catch(T){et(c,c.return,T)}}}else if((e.tag!==22&&e.tag!==23||e.memoizedState===null||e===t)&&e.child!==null){e.child.return=e,e=e.child;continue}if(e===t)break t;for(;e.sibling===null;){if(e.return===null||e.return===t)break t;l===e&&(l=null),e=e.return}l===e&&(l=null),e.sibling.return=e.return,e=e.sibling}a&4&&(a=t.updateQueue,a!==null&&(l=a.retryQueue,l!==null&&(a.retryQueue=null,cu(t,l))));break;case 19:Lt(e,t),Xt(t),a&4&&(a=t.updateQueue,a!==null&&(t.updateQueue=null,cu(t,a)));break;case 30:break;case 21:break;default:Lt(e,t),Xt(t)}}function Xt(t){var e=t.flags;if(e&2){try{for(var l,a=t.return;a!==null;){if(Co(a)){l=a;break}a=a.return}if(l==null)throw Error(m(160));switch(l.tag){case 27:var n=l.stateNode,u=ms(t);su(t,u,n);break;case 5:var i=l.stateNode;l.flags&32&&(Vl(i,""),l.flags&=-33);var s=ms(t);su(t,s,i);break;case 3:case 4:var c=l.stateNode.containerInfo,h=ms(t);xs(t,h,c);break;default:throw Error(m(161))}}catch(v){et(t,t.return,v)}t.flags&=-3}e&4096&&(t.flags&=-4097)}function Yo(t){if(t.subtreeFlags&1024)for(t=t.child;t!==null;){var e=t;Yo(e),e.tag===5&&e.flags&1024&&e.stateNode.reset(),t=t.sibling}}function Ge(t,e){if(e.subtreeFlags&8772)for(e=e.child;e!==null;)ko(t,e.alternate,e),e=e.sibling}function Ul(t){for(t=t.child;t!==null;){var e=t;switch(e.tag){case 0:case 11:case 14:case 15:ul(4,e,e.return),Ul(e);break;case 1:Re(e,e.return);var l=e.stateNode;typeof l.componentWillUnmount=="function"&&Ao(e,e.return,l),Ul(e);break;case 27:on(e.stateNode);case 26:case 5:Re(e,e.return),Ul(e);break;case 22:e.memoizedState===null&&Ul(e);break;case 30:Ul(e);break;default:Ul(e)}t=t.sibling}}function Le(t,e,l){for(l=l&&(e.subtreeFlags&8772)!==0,e=e.child;e!==null;){var a=e.alternate,n=t,u=e,i=u.flags;switch(u.tag){case 0:case 11:case 15:Le(n,u,l),Pa(4,u);break;case 1:if(Le(n,u,l),a=u,n=a.stateNode,typeof n.componentDidMount=="function")try{n.componentDidMount()}catch(h){et(a,a.return,h)}if(a=u,n=a.updateQueue,n!==null){var s=a.stateNode;try{var c=n.shared.hiddenCallbacks;if(c!==null)for(n.shared.hiddenCallbacks=null,n=0;n<c.length;n++)pr(c[n],s)}catch(h){et(a,a.return,h)}}l&&i&64&&To(u),tn(u,u.return);break;case 27:Do(u);case 26:case 5:Le(n,u,l),l&&a===null&&i&4&&Mo(u),tn(u,u.return);break;case 12:Le(n,u,l);break;case 31:Le(n,u,l),l&&i&4&&Bo(n,u);break;case 13:Le(n,u,l),l&&i&4&&Ho(n,u);break;case 22:u.memoizedState===null&&Le(n,u,l),tn(u,u.return);break;case 30:break;default:Le(n,u,l)}e=e.sibling}}function ps(t,e){var l=null;t!==null&&t.memoizedState!==null&&t.memoizedState.cachePool!==null&&(l=t.memoizedState.cachePool.pool),t=null,e.memoizedState!==null&&e.memoizedState.cachePool!==null&&(t=e.memoizedState.cachePool.pool),t!==l&&(t!=null&&t.refCount++,l!=null&&Ya(l))}function gs(t,e){t=null,e.alternate!==null&&(t=e.alternate.memoizedState.cache),e=e.memoizedState.cache,e!==t&&(e.refCount++,t!=null&&Ya(t))}function ve(t,e,l,a){if(e.subtreeFlags&10256)for(e=e.child;e!==null;)Go(t,e,l,a),e=e.sibling}function Go(t,e,l,a){var n=e.flags;switch(e.tag){case 0:case 11:case 15:ve(t,e,l,a),n&2048&&Pa(9,e);break;case 1:ve(t,e,l,a);break;case 3:ve(t,e,l,a),n&2048&&(t=null,e.alternate!==null&&(t=e.alternate.memoizedState.cache),e=e.memoizedState.cache,e!==t&&(e.refCount++,t!=null&&Ya(t)));break;case 12:if(n&2048){ve(t,e,l,a),t=e.stateNode;try{var u=e.memoizedProps,i=u.id,s=u.onPostCommit;typeof s=="function"&&s(i,e.alternate===null?"mount":"update",t.passiveEffectDuration,-0)}catch(c){et(e,e.return,c)}}else ve(t,e,l,a);break;case 31:ve(t,e,l,a);break;case 13:ve(t,e,l,a);break;case 23:break;case 22:u=e.stateNode,i=e.alternate,e.memoizedState!==null?u._visibility&2?ve(t,e,l,a):en(t,e):u._visibility&2?ve(t,e,l,a):(u._visibility|=2,fa(t,e,l,a,(e.subtreeFlags&10256)!==0||!1)),n&2048&&ps(i,e);break;case 24:ve(t,e,l,a),n&2048&&gs(e.alternate,e);break;default:ve(t,e,l,a)}}function fa(t,e,l,a,n){for(n=n&&((e.subtreeFlags&10256)!==0||!1),e=e.child;e!==null;){var u=t,i=e,s=l,c=a,h=i.flags;switch(i.tag){case 0:case 11:case 15:fa(u,i,s,c,n),Pa(8,i);break;case 23:break;case 22:var v=i.stateNode;i.memoizedState!==null?v._visibility&2?fa(u,i,s,c,n):en(u,i):(v._visibility|=2,fa(u,i,s,c,n)),n&&h&2048&&ps(i.alternate,i);break;case 24:fa(u,i,s,c,n),n&&h&2048&&gs(i.alternate,i);break;default:fa(u,i,s,c,n)}e=e.sibling}}function en(t,e){if(e.subtreeFlags&10256)for(e=e.child;e!==null;){var l=t,a=e,n=a.flags;switch(a.tag){case 22:en(l,a),n&2048&&ps(a.alternate,a);break;case 24:en(l,a),n&2048&&gs(a.alternate,a);break;default:en(l,a)}e=e.sibling}}var ln=8192;function da(t,e,l){if(t.subtreeFlags&ln)for(t=t.child;t!==null;)Lo(t,e,l),t=t.sibling}function Lo(t,e,l){switch(t.tag){case 26:da(t,e,l),t.flags&ln&&t.memoizedState!==null&&xm(l,ge,t.memoizedState,t.memoizedProps);break;case 5:da(t,e,l);break;case 3:case 4:var a=ge;ge=Eu(t.stateNode.containerInfo),da(t,e,l),ge=a;break;case 22:t.memoizedState===null&&(a=t.alternate,a!==null&&a.memoizedState!==null?(a=ln,ln=16777216,da(t,e,l),ln=a):da(t,e,l));break;default:da(t,e,l)}}function Xo(t){var e=t.alternate;if(e!==null&&(t=e.child,t!==null)){e.child=null;do e=t.sibling,t.sibling=null,t=e;while(t!==null)}}function an(t){var e=t.deletions;if((t.flags&16)!==0){if(e!==null)for(var l=0;l<e.length;l++){var a=e[l];Nt=a,Vo(a,t)}Xo(t)}if(t.subtreeFlags&10256)for(t=t.child;t!==null;)Qo(t),t=t.sibling}function Qo(t){switch(t.tag){case 0:case 11:case 15:an(t),t.flags&2048&&ul(9,t,t.return);break;case 3:an(t);break;case 12:an(t);break;case 22:var e=t.stateNode;t.memoizedState!==null&&e._visibility&2&&(t.return===null||t.return.tag!==13)?(e._visibility&=-3,ru(t)):an(t);break;default:an(t)}}function ru(t){var e=t.deletions;if((t.flags&16)!==0){if(e!==null)for(var l=0;l<e.length;l++){var a=e[l];Nt=a,Vo(a,t)}Xo(t)}for(t=t.child;t!==null;){switch(e=t,e.tag){case 0:case 11:case 15:ul(8,e,e.return),ru(e);break;case 22:l=e.stateNode,l._visibility&2&&(l._visibility&=-3,ru(e));break;default:ru(e)}t=t.sibling}}function Vo(t,e){for(;Nt!==null;){var l=Nt;switch(l.tag){case 0:case 11:case 15:ul(8,l,e);break;case 23:case 22:if(l.memoizedState!==null&&l.memoizedState.cachePool!==null){var a=l.memoizedState.cachePool.pool;a!=null&&a.refCount++}break;case 24:Ya(l.memoizedState.cache)}if(a=l.child,a!==null)a.return=l,Nt=a;else t:for(l=t;Nt!==null;){a=Nt;var n=a.sibling,u=a.return;if(wo(a),a===l){Nt=null;break t}if(n!==null){n.return=u,Nt=n;break t}Nt=u}}}var A0={getCacheForType:function(t){var e=Tt(vt),l=e.data.get(t);return l===void 0&&(l=t(),e.data.set(t,l)),l},cacheSignal:function(){return Tt(vt).controller.signal}},M0=typeof WeakMap=="function"?WeakMap:Map,I=0,st=null,L=null,V=0,tt=0,ee=null,il=!1,ma=!1,vs=!1,Xe=0,xt=0,sl=0,Bl=0,bs=0,le=0,xa=0,nn=null,Qt=null,ys=!1,ou=0,Zo=0,fu=1/0,du=null,cl=null,Et=0,rl=null,ha=null,Qe=0,js=0,Es=null,Ko=null,un=0,Ss=null;function ae(){return(I&2)!==0&&V!==0?V&-V:b.T!==null?As():cc()}function Jo(){if(le===0)if((V&536870912)===0||J){var t=yn;yn<<=1,(yn&3932160)===0&&(yn=262144),le=t}else le=536870912;return t=Pt.current,t!==null&&(t.flags|=32),le}function Vt(t,e,l){(t===st&&(tt===2||tt===9)||t.cancelPendingCommit!==null)&&(pa(t,0),ol(t,V,le,!1)),_a(t,l),((I&2)===0||t!==st)&&(t===st&&((I&2)===0&&(Bl|=l),xt===4&&ol(t,V,le,!1)),Ne(t))}function Wo(t,e,l){if((I&6)!==0)throw Error(m(327));var a=!l&&(e&127)===0&&(e&t.expiredLanes)===0||Na(t,e),n=a?O0(t,e):Ns(t,e,!0),u=a;do{if(n===0){ma&&!a&&ol(t,e,0,!1);break}else{if(l=t.current.alternate,u&&!C0(l)){n=Ns(t,e,!1),u=!1;continue}if(n===2){if(u=e,t.errorRecoveryDisabledLanes&u)var i=0;else i=t.pendingLanes&-536870913,i=i!==0?i:i&536870912?536870912:0;if(i!==0){e=i;t:{var s=t;n=nn;var c=s.current.memoizedState.isDehydrated;if(c&&(pa(s,i).flags|=256),i=Ns(s,i,!1),i!==2){if(vs&&!c){s.errorRecoveryDisabledLanes|=u,Bl|=u,n=4;break t}u=Qt,Qt=n,u!==null&&(Qt===null?Qt=u:Qt.push.apply(Qt,u))}n=i}if(u=!1,n!==2)continue}}if(n===1){pa(t,0),ol(t,e,0,!0);break}t:{switch(a=t,u=n,u){case 0:case 1:throw Error(m(345));case 4:if((e&4194048)!==e)break;case 6:ol(a,e,le,!il);break t;case 2:Qt=null;break;case 3:case 5:break;default:throw Error(m(329))}if((e&62914560)===e&&(n=ou+300-Jt(),10<n)){if(ol(a,e,le,!il),En(a,0,!0)!==0)break t;Qe=e,a.timeoutHandle=zf($o.bind(null,a,l,Qt,du,ys,e,le,Bl,xa,il,u,"Throttled",-0,0),n);break t}$o(a,l,Qt,du,ys,e,le,Bl,xa,il,u,null,-0,0)}}break}while(!0);Ne(t)}function $o(t,e,l,a,n,u,i,s,c,h,v,j,p,g){if(t.timeoutHandle=-1,j=e.subtreeFlags,j&8192||(j&16785408)===16785408){j={stylesheets:null,count:0,imgCount:0,imgBytes:0,suspenseyImages:[],waitingForImages:!0,waitingForViewTransition:!1,unsuspend:Ae},Lo(e,u,j);var T=(u&62914560)===u?ou-Jt():(u&4194048)===u?Zo-Jt():0;if(T=hm(j,T),T!==null){Qe=u,t.cancelPendingCommit=T(nf.bind(null,t,e,u,l,a,n,i,s,c,v,j,null,p,g)),ol(t,u,i,!h);return}}nf(t,e,u,l,a,n,i,s,c)}function C0(t){for(var e=t;;){var l=e.tag;if((l===0||l===11||l===15)&&e.flags&16384&&(l=e.updateQueue,l!==null&&(l=l.stores,l!==null)))for(var a=0;a<l.length;a++){var n=l[a],u=n.getSnapshot;n=n.value;try{if(!Ft(u(),n))return!1}catch{return!1}}if(l=e.child,e.subtreeFlags&16384&&l!==null)l.return=e,e=l;else{if(e===t)break;for(;e.sibling===null;){if(e.return===null||e.return===t)return!0;e=e.return}e.sibling.return=e.return,e=e.sibling}}return!0}function ol(t,e,l,a){e&=~bs,e&=~Bl,t.suspendedLanes|=e,t.pingedLanes&=~e,a&&(t.warmLanes|=e),a=t.expirationTimes;for(var n=e;0<n;){var u=31-$t(n),i=1<<u;a[u]=-1,n&=~i}l!==0&&uc(t,l,e)}function mu(){return(I&6)===0?(sn(0),!1):!0}function Rs(){if(L!==null){if(tt===0)var t=L.return;else t=L,Oe=Tl=null,Yi(t),ia=null,La=0,t=L;for(;t!==null;)zo(t.alternate,t),t=t.return;L=null}}function pa(t,e){var l=t.timeoutHandle;l!==-1&&(t.timeoutHandle=-1,F0(l)),l=t.cancelPendingCommit,l!==null&&(t.cancelPendingCommit=null,l()),Qe=0,Rs(),st=t,L=l=Ce(t.current,null),V=e,tt=0,ee=null,il=!1,ma=Na(t,e),vs=!1,xa=le=bs=Bl=sl=xt=0,Qt=nn=null,ys=!1,(e&8)!==0&&(e|=e&32);var a=t.entangledLanes;if(a!==0)for(t=t.entanglements,a&=e;0<a;){var n=31-$t(a),u=1<<n;e|=t[n],a&=~u}return Xe=e,kn(),l}function Fo(t,e){H=null,b.H=$a,e===ua||e===Ln?(e=dr(),tt=3):e===Ti?(e=dr(),tt=4):tt=e===ls?8:e!==null&&typeof e=="object"&&typeof e.then=="function"?6:1,ee=e,L===null&&(xt=1,lu(t,ce(e,t.current)))}function Io(){var t=Pt.current;return t===null?!0:(V&4194048)===V?de===null:(V&62914560)===V||(V&536870912)!==0?t===de:!1}function Po(){var t=b.H;return b.H=$a,t===null?$a:t}function tf(){var t=b.A;return b.A=A0,t}function xu(){xt=4,il||(V&4194048)!==V&&Pt.current!==null||(ma=!0),(sl&134217727)===0&&(Bl&134217727)===0||st===null||ol(st,V,le,!1)}function Ns(t,e,l){var a=I;I|=2;var n=Po(),u=tf();(st!==t||V!==e)&&(du=null,pa(t,e)),e=!1;var i=xt;t:do try{if(tt!==0&&L!==null){var s=L,c=ee;switch(tt){case 8:Rs(),i=6;break t;case 3:case 2:case 9:case 6:Pt.current===null&&(e=!0);var h=tt;if(tt=0,ee=null,ga(t,s,c,h),l&&ma){i=0;break t}break;default:h=tt,tt=0,ee=null,ga(t,s,c,h)}}D0(),i=xt;break}catch(v){Fo(t,v)}while(!0);return e&&t.shellSuspendCounter++,Oe=Tl=null,I=a,b.H=n,b.A=u,L===null&&(st=null,V=0,kn()),i}function D0(){for(;L!==null;)ef(L)}function O0(t,e){var l=I;I|=2;var a=Po(),n=tf();st!==t||V!==e?(du=null,fu=Jt()+500,pa(t,e)):ma=Na(t,e);t:do try{if(tt!==0&&L!==null){e=L;var u=ee;e:switch(tt){case 1:tt=0,ee=null,ga(t,e,u,1);break;case 2:case 9:if(or(u)){tt=0,ee=null,lf(e);break}e=function(){tt!==2&&tt!==9||st!==t||(tt=7),Ne(t)},u.then(e,e);break t;case 3:tt=7;break t;case 4:tt=5;break t;case 7:or(u)?(tt=0,ee=null,lf(e)):(tt=0,ee=null,ga(t,e,u,7));break;case 5:var i=null;switch(L.tag){case 26:i=L.memoizedState;case 5:case 27:var s=L;if(i?Lf(i):s.stateNode.complete){tt=0,ee=null;var c=s.sibling;if(c!==null)L=c;else{var h=s.return;h!==null?(L=h,hu(h)):L=null}break e}}tt=0,ee=null,ga(t,e,u,5);break;case 6:tt=0,ee=null,ga(t,e,u,6);break;case 8:Rs(),xt=6;break t;default:throw Error(m(462))}}k0();break}catch(v){Fo(t,v)}while(!0);return Oe=Tl=null,b.H=a,b.A=n,I=l,L!==null?0:(st=null,V=0,kn(),xt)}function k0(){for(;L!==null&&!ad();)ef(L)}function ef(t){var e=No(t.alternate,t,Xe);t.memoizedProps=t.pendingProps,e===null?hu(t):L=e}function lf(t){var e=t,l=e.alternate;switch(e.tag){case 15:case 0:e=bo(l,e,e.pendingProps,e.type,void 0,V);break;case 11:e=bo(l,e,e.pendingProps,e.type.render,e.ref,V);break;case 5:Yi(e);default:zo(l,e),e=L=Pc(e,Xe),e=No(l,e,Xe)}t.memoizedProps=t.pendingProps,e===null?hu(t):L=e}function ga(t,e,l,a){Oe=Tl=null,Yi(e),ia=null,La=0;var n=e.return;try{if(E0(t,n,e,l,V)){xt=1,lu(t,ce(l,t.current)),L=null;return}}catch(u){if(n!==null)throw L=n,u;xt=1,lu(t,ce(l,t.current)),L=null;return}e.flags&32768?(J||a===1?t=!0:ma||(V&536870912)!==0?t=!1:(il=t=!0,(a===2||a===9||a===3||a===6)&&(a=Pt.current,a!==null&&a.tag===13&&(a.flags|=16384))),af(e,t)):hu(e)}function hu(t){var e=t;do{if((e.flags&32768)!==0){af(e,il);return}t=e.return;var l=N0(e.alternate,e,Xe);if(l!==null){L=l;return}if(e=e.sibling,e!==null){L=e;return}L=e=t}while(e!==null);xt===0&&(xt=5)}function af(t,e){do{var l=_0(t.alternate,t);if(l!==null){l.flags&=32767,L=l;return}if(l=t.return,l!==null&&(l.flags|=32768,l.subtreeFlags=0,l.deletions=null),!e&&(t=t.sibling,t!==null)){L=t;return}L=t=l}while(t!==null);xt=6,L=null}function nf(t,e,l,a,n,u,i,s,c){t.cancelPendingCommit=null;do pu();while(Et!==0);if((I&6)!==0)throw Error(m(327));if(e!==null){if(e===t.current)throw Error(m(177));if(u=e.lanes|e.childLanes,u|=mi,md(t,l,u,i,s,c),t===st&&(L=st=null,V=0),ha=e,rl=t,Qe=l,js=u,Es=n,Ko=a,(e.subtreeFlags&10256)!==0||(e.flags&10256)!==0?(t.callbackNode=null,t.callbackPriority=0,H0(vn,function(){return of(),null})):(t.callbackNode=null,t.callbackPriority=0),a=(e.flags&13878)!==0,(e.subtreeFlags&13878)!==0||a){a=b.T,b.T=null,n=N.p,N.p=2,i=I,I|=4;try{z0(t,e,l)}finally{I=i,N.p=n,b.T=a}}Et=1,uf(),sf(),cf()}}function uf(){if(Et===1){Et=0;var t=rl,e=ha,l=(e.flags&13878)!==0;if((e.subtreeFlags&13878)!==0||l){l=b.T,b.T=null;var a=N.p;N.p=2;var n=I;I|=4;try{qo(e,t);var u=Bs,i=Qc(t.containerInfo),s=u.focusedElem,c=u.selectionRange;if(i!==s&&s&&s.ownerDocument&&Xc(s.ownerDocument.documentElement,s)){if(c!==null&&ci(s)){var h=c.start,v=c.end;if(v===void 0&&(v=h),"selectionStart"in s)s.selectionStart=h,s.selectionEnd=Math.min(v,s.value.length);else{var j=s.ownerDocument||document,p=j&&j.defaultView||window;if(p.getSelection){var g=p.getSelection(),T=s.textContent.length,O=Math.min(c.start,T),ut=c.end===void 0?O:Math.min(c.end,T);!g.extend&&O>ut&&(i=ut,ut=O,O=i);var d=Lc(s,O),o=Lc(s,ut);if(d&&o&&(g.rangeCount!==1||g.anchorNode!==d.node||g.anchorOffset!==d.offset||g.focusNode!==o.node||g.focusOffset!==o.offset)){var x=j.createRange();x.setStart(d.node,d.offset),g.removeAllRanges(),O>ut?(g.addRange(x),g.extend(o.node,o.offset)):(x.setEnd(o.node,o.offset),g.addRange(x))}}}}for(j=[],g=s;g=g.parentNode;)g.nodeType===1&&j.push({element:g,left:g.scrollLeft,top:g.scrollTop});for(typeof s.focus=="function"&&s.focus(),s=0;s<j.length;s++){var y=j[s];y.element.scrollLeft=y.left,y.element.scrollTop=y.top}}Tu=!!Us,Bs=Us=null}finally{I=n,N.p=a,b.T=l}}t.current=e,Et=2}}function sf(){if(Et===2){Et=0;var t=rl,e=ha,l=(e.flags&8772)!==0;if((e.subtreeFlags&8772)!==0||l){l=b.T,b.T=null;var a=N.p;N.p=2;var n=I;I|=4;try{ko(t,e.alternate,e)}finally{I=n,N.p=a,b.T=l}}Et=3}}function cf(){if(Et===4||Et===3){Et=0,nd();var t=rl,e=ha,l=Qe,a=Ko;(e.subtreeFlags&10256)!==0||(e.flags&10256)!==0?Et=5:(Et=0,ha=rl=null,rf(t,t.pendingLanes));var n=t.pendingLanes;if(n===0&&(cl=null),Xu(l),e=e.stateNode,Wt&&typeof Wt.onCommitFiberRoot=="function")try{Wt.onCommitFiberRoot(Ra,e,void 0,(e.current.flags&128)===128)}catch{}if(a!==null){e=b.T,n=N.p,N.p=2,b.T=null;try{for(var u=t.onRecoverableError,i=0;i<a.length;i++){var s=a[i];u(s.value,{componentStack:s.stack})}}finally{b.T=e,N.p=n}}(Qe&3)!==0&&pu(),Ne(t),n=t.pendingLanes,(l&261930)!==0&&(n&42)!==0?t===Ss?un++:(un=0,Ss=t):un=0,sn(0)}}function rf(t,e){(t.pooledCacheLanes&=e)===0&&(e=t.pooledCache,e!=null&&(t.pooledCache=null,Ya(e)))}function pu(){return uf(),sf(),cf(),of()}function of(){if(Et!==5)return!1;var t=rl,e=js;js=0;var l=Xu(Qe),a=b.T,n=N.p;try{N.p=32>l?32:l,b.T=null,l=Es,Es=null;var u=rl,i=Qe;if(Et=0,ha=rl=null,Qe=0,(I&6)!==0)throw Error(m(331));var s=I;if(I|=4,Qo(u.current),Go(u,u.current,i,l),I=s,sn(0,!1),Wt&&typeof Wt.onPostCommitFiberRoot=="function")try{Wt.onPostCommitFiberRoot(Ra,u)}catch{}return!0}finally{N.p=n,b.T=a,rf(t,e)}}function ff(t,e,l){e=ce(l,e),e=es(t.stateNode,e,2),t=ll(t,e,2),t!==null&&(_a(t,2),Ne(t))}function et(t,e,l){if(t.tag===3)ff(t,t,l);else for(;e!==null;){if(e.tag===3){ff(e,t,l);break}else if(e.tag===1){var a=e.stateNode;if(typeof e.type.getDerivedStateFromError=="function"||typeof a.componentDidCatch=="function"&&(cl===null||!cl.has(a))){t=ce(l,t),l=oo(2),a=ll(e,l,2),a!==null&&(fo(l,a,e,t),_a(a,2),Ne(a));break}}e=e.return}}function _s(t,e,l){var a=t.pingCache;if(a===null){a=t.pingCache=new M0;var n=new Set;a.set(e,n)}else n=a.get(e),n===void 0&&(n=new Set,a.set(e,n));n.has(l)||(vs=!0,n.add(l),t=w0.bind(null,t,e,l),e.then(t,t))}function w0(t,e,l){var a=t.pingCache;a!==null&&a.delete(e),t.pingedLanes|=t.suspendedLanes&l,t.warmLanes&=~l,st===t&&(V&l)===l&&(xt===4||xt===3&&(V&62914560)===V&&300>Jt()-ou?(I&2)===0&&pa(t,0):bs|=l,xa===V&&(xa=0)),Ne(t)}function df(t,e){e===0&&(e=nc()),t=Nl(t,e),t!==null&&(_a(t,e),Ne(t))}function U0(t){var e=t.memoizedState,l=0;e!==null&&(l=e.retryLane),df(t,l)}function B0(t,e){var l=0;switch(t.tag){case 31:case 13:var a=t.stateNode,n=t.memoizedState;n!==null&&(l=n.retryLane);break;case 19:a=t.stateNode;break;case 22:a=t.stateNode._retryCache;break;default:throw Error(m(314))}a!==null&&a.delete(e),df(t,l)}function H0(t,e){return qu(t,e)}var gu=null,va=null,zs=!1,vu=!1,Ts=!1,fl=0;function Ne(t){t!==va&&t.next===null&&(va===null?gu=va=t:va=va.next=t),vu=!0,zs||(zs=!0,Y0())}function sn(t,e){if(!Ts&&vu){Ts=!0;do for(var l=!1,a=gu;a!==null;){if(t!==0){var n=a.pendingLanes;if(n===0)var u=0;else{var i=a.suspendedLanes,s=a.pingedLanes;u=(1<<31-$t(42|t)+1)-1,u&=n&~(i&~s),u=u&201326741?u&201326741|1:u?u|2:0}u!==0&&(l=!0,pf(a,u))}else u=V,u=En(a,a===st?u:0,a.cancelPendingCommit!==null||a.timeoutHandle!==-1),(u&3)===0||Na(a,u)||(l=!0,pf(a,u));a=a.next}while(l);Ts=!1}}function q0(){mf()}function mf(){vu=zs=!1;var t=0;fl!==0&&$0()&&(t=fl);for(var e=Jt(),l=null,a=gu;a!==null;){var n=a.next,u=xf(a,e);u===0?(a.next=null,l===null?gu=n:l.next=n,n===null&&(va=l)):(l=a,(t!==0||(u&3)!==0)&&(vu=!0)),a=n}Et!==0&&Et!==5||sn(t),fl!==0&&(fl=0)}function xf(t,e){for(var l=t.suspendedLanes,a=t.pingedLanes,n=t.expirationTimes,u=t.pendingLanes&-62914561;0<u;){var i=31-$t(u),s=1<<i,c=n[i];c===-1?((s&l)===0||(s&a)!==0)&&(n[i]=dd(s,e)):c<=e&&(t.expiredLanes|=s),u&=~s}if(e=st,l=V,l=En(t,t===e?l:0,t.cancelPendingCommit!==null||t.timeoutHandle!==-1),a=t.callbackNode,l===0||t===e&&(tt===2||tt===9)||t.cancelPendingCommit!==null)return a!==null&&a!==null&&Yu(a),t.callbackNode=null,t.callbackPriority=0;if((l&3)===0||Na(t,l)){if(e=l&-l,e===t.callbackPriority)return e;switch(a!==null&&Yu(a),Xu(l)){case 2:case 8:l=lc;break;case 32:l=vn;break;case 268435456:l=ac;break;default:l=vn}return a=hf.bind(null,t),l=qu(l,a),t.callbackPriority=e,t.callbackNode=l,e}return a!==null&&a!==null&&Yu(a),t.callbackPriority=2,t.callbackNode=null,2}function hf(t,e){if(Et!==0&&Et!==5)return t.callbackNode=null,t.callbackPriority=0,null;var l=t.callbackNode;if(pu()&&t.callbackNode!==l)return null;var a=V;return a=En(t,t===st?a:0,t.cancelPendingCommit!==null||t.timeoutHandle!==-1),a===0?null:(Wo(t,a,e),xf(t,Jt()),t.callbackNode!=null&&t.callbackNode===l?hf.bind(null,t):null)}function pf(t,e){if(pu())return null;Wo(t,e,!0)}function Y0(){I0(function(){(I&6)!==0?qu(ec,q0):mf()})}function As(){if(fl===0){var t=aa;t===0&&(t=bn,bn<<=1,(bn&261888)===0&&(bn=256)),fl=t}return fl}function gf(t){return t==null||typeof t=="symbol"||typeof t=="boolean"?null:typeof t=="function"?t:_n(""+t)}function vf(t,e){var l=e.ownerDocument.createElement("input");return l.name=e.name,l.value=e.value,t.id&&l.setAttribute("form",t.id),e.parentNode.insertBefore(l,e),t=new FormData(t),l.parentNode.removeChild(l),t}function G0(t,e,l,a,n){if(e==="submit"&&l&&l.stateNode===n){var u=gf((n[qt]||null).action),i=a.submitter;i&&(e=(e=i[qt]||null)?gf(e.formAction):i.getAttribute("formAction"),e!==null&&(u=e,i=null));var s=new Mn("action","action",null,a,n);t.push({event:s,listeners:[{instance:null,listener:function(){if(a.defaultPrevented){if(fl!==0){var c=i?vf(n,i):new FormData(n);Wi(l,{pending:!0,data:c,method:n.method,action:u},null,c)}}else typeof u=="function"&&(s.preventDefault(),c=i?vf(n,i):new FormData(n),Wi(l,{pending:!0,data:c,method:n.method,action:u},u,c))},currentTarget:n}]})}}for(var Ms=0;Ms<di.length;Ms++){var Cs=di[Ms],L0=Cs.toLowerCase(),X0=Cs[0].toUpperCase()+Cs.slice(1);pe(L0,"on"+X0)}pe(Kc,"onAnimationEnd"),pe(Jc,"onAnimationIteration"),pe(Wc,"onAnimationStart"),pe("dblclick","onDoubleClick"),pe("focusin","onFocus"),pe("focusout","onBlur"),pe(u0,"onTransitionRun"),pe(i0,"onTransitionStart"),pe(s0,"onTransitionCancel"),pe($c,"onTransitionEnd"),Xl("onMouseEnter",["mouseout","mouseover"]),Xl("onMouseLeave",["mouseout","mouseover"]),Xl("onPointerEnter",["pointerout","pointerover"]),Xl("onPointerLeave",["pointerout","pointerover"]),jl("onChange","change click focusin focusout input keydown keyup selectionchange".split(" ")),jl("onSelect","focusout contextmenu dragend focusin keydown keyup mousedown mouseup selectionchange".split(" ")),jl("onBeforeInput",["compositionend","keypress","textInput","paste"]),jl("onCompositionEnd","compositionend focusout keydown keypress keyup mousedown".split(" ")),jl("onCompositionStart","compositionstart focusout keydown keypress keyup mousedown".split(" ")),jl("onCompositionUpdate","compositionupdate focusout keydown keypress keyup mousedown".split(" "));var cn="abort canplay canplaythrough durationchange emptied encrypted ended error loadeddata loadedmetadata loadstart pause play playing progress ratechange resize seeked seeking stalled suspend timeupdate volumechange waiting".split(" "),Q0=new Set("beforetoggle cancel close invalid load scroll scrollend toggle".split(" ").concat(cn));function bf(t,e){e=(e&4)!==0;for(var l=0;l<t.length;l++){var a=t[l],n=a.event;a=a.listeners;t:{var u=void 0;if(e)for(var i=a.length-1;0<=i;i--){var s=a[i],c=s.instance,h=s.currentTarget;if(s=s.listener,c!==u&&n.isPropagationStopped())break t;u=s,n.currentTarget=h;try{u(n)}catch(v){On(v)}n.currentTarget=null,u=c}else for(i=0;i<a.length;i++){if(s=a[i],c=s.instance,h=s.currentTarget,s=s.listener,c!==u&&n.isPropagationStopped())break t;u=s,n.currentTarget=h;try{u(n)}catch(v){On(v)}n.currentTarget=null,u=c}}}}function Q(t,e){var l=e[Qu];l===void 0&&(l=e[Qu]=new Set);var a=t+"__bubble";l.has(a)||(yf(e,t,2,!1),l.add(a))}function Ds(t,e,l){var a=0;e&&(a|=4),yf(l,t,a,e)}var bu="_reactListening"+Math.random().toString(36).slice(2);function Os(t){if(!t[bu]){t[bu]=!0,fc.forEach(function(l){l!=="selectionchange"&&(Q0.has(l)||Ds(l,!1,t),Ds(l,!0,t))});var e=t.nodeType===9?t:t.ownerDocument;e===null||e[bu]||(e[bu]=!0,Ds("selectionchange",!1,e))}}function yf(t,e,l,a){switch(Wf(e)){case 2:var n=vm;break;case 8:n=bm;break;default:n=Js}l=n.bind(null,e,l,t),n=void 0,!Pu||e!=="touchstart"&&e!=="touchmove"&&e!=="wheel"||(n=!0),a?n!==void 0?t.addEventListener(e,l,{capture:!0,passive:n}):t.addEventListener(e,l,!0):n!==void 0?t.addEventListener(e,l,{passive:n}):t.addEventListener(e,l,!1)}function ks(t,e,l,a,n){var u=a;if((e&1)===0&&(e&2)===0&&a!==null)t:for(;;){if(a===null)return;var i=a.tag;if(i===3||i===4){var s=a.stateNode.containerInfo;if(s===n)break;if(i===4)for(i=a.return;i!==null;){var c=i.tag;if((c===3||c===4)&&i.stateNode.containerInfo===n)return;i=i.return}for(;s!==null;){if(i=Yl(s),i===null)return;if(c=i.tag,c===5||c===6||c===26||c===27){a=u=i;continue t}s=s.parentNode}}a=a.return}Sc(function(){var h=u,v=Fu(l),j=[];t:{var p=Fc.get(t);if(p!==void 0){var g=Mn,T=t;switch(t){case"keypress":if(Tn(l)===0)break t;case"keydown":case"keyup":g=Bd;break;case"focusin":T="focus",g=ai;break;case"focusout":T="blur",g=ai;break;case"beforeblur":case"afterblur":g=ai;break;case"click":if(l.button===2)break t;case"auxclick":case"dblclick":case"mousedown":case"mousemove":case"mouseup":case"mouseout":case"mouseover":case"contextmenu":g=_c;break;case"drag":case"dragend":case"dragenter":case"dragexit":case"dragleave":case"dragover":case"dragstart":case"drop":g=Nd;break;case"touchcancel":case"touchend":case"touchmove":case"touchstart":g=Yd;break;case Kc:case Jc:case Wc:g=Td;break;case $c:g=Ld;break;case"scroll":case"scrollend":g=Sd;break;case"wheel":g=Qd;break;case"copy":case"cut":case"paste":g=Md;break;case"gotpointercapture":case"lostpointercapture":case"pointercancel":case"pointerdown":case"pointermove":case"pointerout":case"pointerover":case"pointerup":g=Tc;break;case"toggle":case"beforetoggle":g=Zd}var O=(e&4)!==0,ut=!O&&(t==="scroll"||t==="scrollend"),d=O?p!==null?p+"Capture":null:p;O=[];for(var o=h,x;o!==null;){var y=o;if(x=y.stateNode,y=y.tag,y!==5&&y!==26&&y!==27||x===null||d===null||(y=Aa(o,d),y!=null&&O.push(rn(o,y,x))),ut)break;o=o.return}0<O.length&&(p=new g(p,T,null,l,v),j.push({event:p,listeners:O}))}}if((e&7)===0){t:{if(p=t==="mouseover"||t==="pointerover",g=t==="mouseout"||t==="pointerout",p&&l!==$u&&(T=l.relatedTarget||l.fromElement)&&(Yl(T)||T[ql]))break t;if((g||p)&&(p=v.window===v?v:(p=v.ownerDocument)?p.defaultView||p.parentWindow:window,g?(T=l.relatedTarget||l.toElement,g=h,T=T?Yl(T):null,T!==null&&(ut=Y(T),O=T.tag,T!==ut||O!==5&&O!==27&&O!==6)&&(T=null)):(g=null,T=h),g!==T)){if(O=_c,y="onMouseLeave",d="onMouseEnter",o="mouse",(t==="pointerout"||t==="pointerover")&&(O=Tc,y="onPointerLeave",d="onPointerEnter",o="pointer"),ut=g==null?p:Ta(g),x=T==null?p:Ta(T),p=new O(y,o+"leave",g,l,v),p.target=ut,p.relatedTarget=x,y=null,Yl(v)===h&&(O=new O(d,o+"enter",T,l,v),O.target=x,O.relatedTarget=ut,y=O),ut=y,g&&T)e:{for(O=V0,d=g,o=T,x=0,y=d;y;y=O(y))x++;y=0;for(var D=o;D;D=O(D))y++;for(;0<x-y;)d=O(d),x--;for(;0<y-x;)o=O(o),y--;for(;x--;){if(d===o||o!==null&&d===o.alternate){O=d;break e}d=O(d),o=O(o)}O=null}else O=null;g!==null&&jf(j,p,g,O,!1),T!==null&&ut!==null&&jf(j,ut,T,O,!0)}}t:{if(p=h?Ta(h):window,g=p.nodeName&&p.nodeName.toLowerCase(),g==="select"||g==="input"&&p.type==="file")var $=Uc;else if(kc(p))if(Bc)$=l0;else{$=t0;var M=Pd}else g=p.nodeName,!g||g.toLowerCase()!=="input"||p.type!=="checkbox"&&p.type!=="radio"?h&&Wu(h.elementType)&&($=Uc):$=e0;if($&&($=$(t,h))){wc(j,$,l,v);break t}M&&M(t,p,h),t==="focusout"&&h&&p.type==="number"&&h.memoizedProps.value!=null&&Ju(p,"number",p.value)}switch(M=h?Ta(h):window,t){case"focusin":(kc(M)||M.contentEditable==="true")&&(Wl=M,ri=h,Ba=null);break;case"focusout":Ba=ri=Wl=null;break;case"mousedown":oi=!0;break;case"contextmenu":case"mouseup":case"dragend":oi=!1,Vc(j,l,v);break;case"selectionchange":if(n0)break;case"keydown":case"keyup":Vc(j,l,v)}var q;if(ui)t:{switch(t){case"compositionstart":var Z="onCompositionStart";break t;case"compositionend":Z="onCompositionEnd";break t;case"compositionupdate":Z="onCompositionUpdate";break t}Z=void 0}else Jl?Dc(t,l)&&(Z="onCompositionEnd"):t==="keydown"&&l.keyCode===229&&(Z="onCompositionStart");Z&&(Ac&&l.locale!=="ko"&&(Jl||Z!=="onCompositionStart"?Z==="onCompositionEnd"&&Jl&&(q=Rc()):(We=v,ti="value"in We?We.value:We.textContent,Jl=!0)),M=yu(h,Z),0<M.length&&(Z=new zc(Z,t,null,l,v),j.push({event:Z,listeners:M}),q?Z.data=q:(q=Oc(l),q!==null&&(Z.data=q)))),(q=Jd?Wd(t,l):$d(t,l))&&(Z=yu(h,"onBeforeInput"),0<Z.length&&(M=new zc("onBeforeInput","beforeinput",null,l,v),j.push({event:M,listeners:Z}),M.data=q)),G0(j,t,h,l,v)}bf(j,e)})}function rn(t,e,l){return{instance:t,listener:e,currentTarget:l}}function yu(t,e){for(var l=e+"Capture",a=[];t!==null;){var n=t,u=n.stateNode;if(n=n.tag,n!==5&&n!==26&&n!==27||u===null||(n=Aa(t,l),n!=null&&a.unshift(rn(t,n,u)),n=Aa(t,e),n!=null&&a.push(rn(t,n,u))),t.tag===3)return a;t=t.return}return[]}function V0(t){if(t===null)return null;do t=t.return;while(t&&t.tag!==5&&t.tag!==27);return t||null}function jf(t,e,l,a,n){for(var u=e._reactName,i=[];l!==null&&l!==a;){var s=l,c=s.alternate,h=s.stateNode;if(s=s.tag,c!==null&&c===a)break;s!==5&&s!==26&&s!==27||h===null||(c=h,n?(h=Aa(l,u),h!=null&&i.unshift(rn(l,h,c))):n||(h=Aa(l,u),h!=null&&i.push(rn(l,h,c)))),l=l.return}i.length!==0&&t.push({event:e,listeners:i})}var Z0=/\r\n?/g,K0=/\u0000|\uFFFD/g;function Ef(t){return(typeof t=="string"?t:""+t).replace(Z0,`
-`).replace(K0,"")}function Sf(t,e){return e=Ef(e),Ef(t)===e}function nt(t,e,l,a,n,u){switch(l){case"children":typeof a=="string"?e==="body"||e==="textarea"&&a===""||Vl(t,a):(typeof a=="number"||typeof a=="bigint")&&e!=="body"&&Vl(t,""+a);break;case"className":Rn(t,"class",a);break;case"tabIndex":Rn(t,"tabindex",a);break;case"dir":case"role":case"viewBox":case"width":case"height":Rn(t,l,a);break;case"style":jc(t,a,u);break;case"data":if(e!=="object"){Rn(t,"data",a);break}case"src":case"href":if(a===""&&(e!=="a"||l!=="href")){t.removeAttribute(l);break}if(a==null||typeof a=="function"||typeof a=="symbol"||typeof a=="boolean"){t.removeAttribute(l);break}a=_n(""+a),t.setAttribute(l,a);break;case"action":case"formAction":if(typeof a=="function"){t.setAttribute(l,"javascript:throw new Error('A React form was unexpectedly submitted. If you called form.submit() manually, consider using form.requestSubmit() instead. If you\\'re trying to use event.stopPropagation() in a submit event handler, consider also calling event.preventDefault().')");break}else typeof u=="function"&&(l==="formAction"?(e!=="input"&&nt(t,e,"name",n.name,n,null),nt(t,e,"formEncType",n.formEncType,n,null),nt(t,e,"formMethod",n.formMethod,n,null),nt(t,e,"formTarget",n.formTarget,n,null)):(nt(t,e,"encType",n.encType,n,null),nt(t,e,"method",n.method,n,null),nt(t,e,"target",n.target,n,null)));if(a==null||typeof a=="symbol"||typeof a=="boolean"){t.removeAttribute(l);break}a=_n(""+a),t.setAttribute(l,a);break;case"onClick":a!=null&&(t.onclick=Ae);break;case"onScroll":a!=null&&Q("scroll",t);break;case"onScrollEnd":a!=null&&Q("scrollend",t);break;case"dangerouslySetInnerHTML":if(a!=null){if(typeof a!="object"||!("__html"in a))throw Error(m(61));if(l=a.__html,l!=null){if(n.children!=null)throw Error(m(60));t.innerHTML=l}}break;case"multiple":t.multiple=a&&typeof a!="function"&&typeof a!="symbol";break;case"muted":t.muted=a&&typeof a!="function"&&typeof a!="symbol";break;case"suppressContentEditableWarning":case"suppressHydrationWarning":case"defaultValue":case"defaultChecked":case"innerHTML":case"ref":break;case"autoFocus":break;case"xlinkHref":if(a==null||typeof a=="function"||typeof a=="boolean"||typeof a=="symbol"){t.removeAttribute("xlink:href");break}l=_n(""+a),t.setAttributeNS("http://www.w3.org/1999/xlink","xlink:href",l);break;case"contentEditable":case"spellCheck":case"draggable":case"value":case"autoReverse":case"externalResourcesRequired":case"focusable":case"preserveAlpha":a!=null&&typeof a!="function"&&typeof a!="symbol"?t.setAttribute(l,""+a):t.removeAttribute(l);break;case"inert":case"allowFullScreen":case"async":case"autoPlay":case"controls":case"default":case"defer":case"disabled":case"disablePictureInPicture":case"disableRemotePlayback":case"formNoValidate":case"hidden":case"loop":case"noModule":case"noValidate":case"open":case"playsInline":case"readOnly":case"required":case"reversed":case"scoped":case"seamless":case"itemScope":a&&typeof a!="function"&&typeof a!="symbol"?t.setAttribute(l,""):t.removeAttribute(l);break;case"capture":case"download":a===!0?t.setAttribute(l,""):a!==!1&&a!=null&&typeof a!="function"&&typeof a!="symbol"?t.setAttribute(l,a):t.removeAttribute(l);break;case"cols":case"rows":case"size":case"span":a!=null&&typeof a!="function"&&typeof a!="symbol"&&!isNaN(a)&&1<=a?t.setAttribute(l,a):t.removeAttribute(l);break;case"rowSpan":case"start":a==null||typeof a=="function"||typeof a=="symbol"||isNaN(a)?t.removeAttribute(l):t.setAttribute(l,a);break;case"popover":Q("beforetoggle",t),Q("toggle",t),Sn(t,"popover",a);break;case"xlinkActuate":Te(t,"http://www.w3.org/1999/xlink","xlink:actuate",a);break;case"xlinkArcrole":Te(t,"http://www.w3.org/1999/xlink","xlink:arcrole",a);break;case"xlinkRole":Te(t,"http://www.w3.org/1999/xlink","xlink:role",a);break;case"xlinkShow":Te(t,"http://www.w3.org/1999/xlink","xlink:show",a);break;case"xlinkTitle":Te(t,"http://www.w3.org/1999/xlink","xlink:title",a);break;case"xlinkType":Te(t,"http://www.w3.org/1999/xlink","xlink:type",a);break;case"xmlBase":Te(t,"http://www.w3.org/XML/1998/namespace","xml:base",a);break;case"xmlLang":Te(t,"http://www.w3.org/XML/1998/namespace","xml:lang",a);break;case"xmlSpace":Te(t,"http://www.w3.org/XML/1998/namespace","xml:space",a);break;case"is":Sn(t,"is",a);break;case"innerText":case"textContent":break;default:(!(2<l.length)||l[0]!=="o"&&l[0]!=="O"||l[1]!=="n"&&l[1]!=="N")&&(l=jd.get(l)||l,Sn(t,l,a))}}function ws(t,e,l,a,n,u){switch(l){case"style":jc(t,a,u);break;case"dangerouslySetInnerHTML":if(a!=null){if(typeof a!="object"||!("__html"in a))throw Error(m(61));if(l=a.__html,l!=null){if(n.children!=null)throw Error(m(60));t.innerHTML=l}}break;case"children":typeof a=="string"?Vl(t,a):(typeof a=="number"||typeof a=="bigint")&&Vl(t,""+a);break;case"onScroll":a!=null&&Q("scroll",t);break;case"onScrollEnd":a!=null&&Q("scrollend",t);break;case"onClick":a!=null&&(t.onclick=Ae);break;case"suppressContentEditableWarning":case"suppressHydrationWarning":case"innerHTML":case"ref":break;case"innerText":case"textContent":break;default:if(!dc.hasOwnProperty(l))t:{if(l[0]==="o"&&l[1]==="n"&&(n=l.endsWith("Capture"),e=l.slice(2,n?l.length-7:void 0),u=t[qt]||null,u=u!=null?u[l]:null,typeof u=="function"&&t.removeEventListener(e,u,n),typeof a=="function")){typeof u!="function"&&u!==null&&(l in t?t[l]=null:t.hasAttribute(l)&&t.removeAttribute(l)),t.addEventListener(e,a,n);break t}l in t?t[l]=a:a===!0?t.setAttribute(l,""):Sn(t,l,a)}}}function Mt(t,e,l){switch(e){case"div":case"span":case"svg":case"path":case"a":case"g":case"p":case"li":break;case"img":Q("error",t),Q("load",t);var a=!1,n=!1,u;for(u in l)if(l.hasOwnProperty(u)){var i=l[u];if(i!=null)switch(u){case"src":a=!0;break;case"srcSet":n=!0;break;case"children":case"dangerouslySetInnerHTML":throw Error(m(137,e));default:nt(t,e,u,i,l,null)}}n&&nt(t,e,"srcSet",l.srcSet,l,null),a&&nt(t,e,"src",l.src,l,null);return;case"input":Q("invalid",t);var s=u=i=n=null,c=null,h=null;for(a in l)if(l.hasOwnProperty(a)){var v=l[a];if(v!=null)switch(a){case"name":n=v;break;case"type":i=v;break;case"checked":c=v;break;case"defaultChecked":h=v;break;case"value":u=v;break;case"defaultValue":s=v;break;case"children":case"dangerouslySetInnerHTML":if(v!=null)throw Error(m(137,e));break;default:nt(t,e,a,v,l,null)}}gc(t,u,s,c,h,i,n,!1);return;case"select":Q("invalid",t),a=i=u=null;for(n in l)if(l.hasOwnProperty(n)&&(s=l[n],s!=null))switch(n){case"value":u=s;break;case"defaultValue":i=s;break;case"multiple":a=s;default:nt(t,e,n,s,l,null)}e=u,l=i,t.multiple=!!a,e!=null?Ql(t,!!a,e,!1):l!=null&&Ql(t,!!a,l,!0);return;case"textarea":Q("invalid",t),u=n=a=null;for(i in l)if(l.hasOwnProperty(i)&&(s=l[i],s!=null))switch(i){case"value":a=s;break;case"defaultValue":n=s;break;case"children":u=s;break;case"dangerouslySetInnerHTML":if(s!=null)throw Error(m(91));break;default:nt(t,e,i,s,l,null)}bc(t,a,n,u);return;case"option":for(c in l)l.hasOwnProperty(c)&&(a=l[c],a!=null)&&(c==="selected"?t.selected=a&&typeof a!="function"&&typeof a!="symbol":nt(t,e,c,a,l,null));return;case"dialog":Q("beforetoggle",t),Q("toggle",t),Q("cancel",t),Q("close",t);break;case"iframe":case"object":Q("load",t);break;case"video":case"audio":for(a=0;a<cn.length;a++)Q(cn[a],t);break;case"image":Q("error",t),Q("load",t);break;case"details":Q("toggle",t);break;case"embed":case"source":case"link":Q("error",t),Q("load",t);case"area":case"base":case"br":case"col":case"hr":case"keygen":case"meta":case"param":case"track":case"wbr":case"menuitem":for(h in l)if(l.hasOwnProperty(h)&&(a=l[h],a!=null))switch(h){case"children":case"dangerouslySetInnerHTML":throw Error(m(137,e));default:nt(t,e,h,a,l,null)}return;default:if(Wu(e)){for(v in l)l.hasOwnProperty(v)&&(a=l[v],a!==void 0&&ws(t,e,v,a,l,void 0));return}}for(s in l)l.hasOwnProperty(s)&&(a=l[s],a!=null&&nt(t,e,s,a,l,null))}function J0(t,e,l,a){switch(e){case"div":case"span":case"svg":case"path":case"a":case"g":case"p":case"li":break;case"input":var n=null,u=null,i=null,s=null,c=null,h=null,v=null;for(g in l){var j=l[g];if(l.hasOwnProperty(g)&&j!=null)switch(g){case"checked":break;case"value":break;case"defaultValue":c=j;default:a.hasOwnProperty(g)||nt(t,e,g,null,a,j)}}for(var p in a){var g=a[p];if(j=l[p],a.hasOwnProperty(p)&&(g!=null||j!=null))switch(p){case"type":u=g;break;case"name":n=g;break;case"checked":h=g;break;case"defaultChecked":v=g;break;case"value":i=g;break;case"defaultValue":s=g;break;case"children":case"dangerouslySetInnerHTML":if(g!=null)throw Error(m(137,e));break;default:g!==j&&nt(t,e,p,g,a,j)}}Ku(t,i,s,c,h,v,u,n);return;case"select":g=i=s=p=null;for(u in l)if(c=l[u],l.hasOwnProperty(u)&&c!=null)switch(u){case"value":break;case"multiple":g=c;default:a.hasOwnProperty(u)||nt(t,e,u,null,a,c)}for(n in a)if(u=a[n],c=l[n],a.hasOwnProperty(n)&&(u!=null||c!=null))switch(n){case"value":p=u;break;case"defaultValue":s=u;break;case"multiple":i=u;default:u!==c&&nt(t,e,n,u,a,c)}e=s,l=i,a=g,p!=null?Ql(t,!!l,p,!1):!!a!=!!l&&(e!=null?Ql(t,!!l,e,!0):Ql(t,!!l,l?[]:"",!1));return;case"textarea":g=p=null;for(s in l)if(n=l[s],l.hasOwnProperty(s)&&n!=null&&!a.hasOwnProperty(s))switch(s){case"value":break;case"children":break;default:nt(t,e,s,null,a,n)}for(i in a)if(n=a[i],u=l[i],a.hasOwnProperty(i)&&(n!=null||u!=null))switch(i){case"value":p=n;break;case"defaultValue":g=n;break;case"children":break;case"dangerouslySetInnerHTML":if(n!=null)throw Error(m(91));break;default:n!==u&&nt(t,e,i,n,a,u)}vc(t,p,g);return;case"option":for(var T in l)p=l[T],l.hasOwnProperty(T)&&p!=null&&!a.hasOwnProperty(T)&&(T==="selected"?t.selected=!1:nt(t,e,T,null,a,p));for(c in a)p=a[c],g=l[c],a.hasOwnProperty(c)&&p!==g&&(p!=null||g!=null)&&(c==="selected"?t.selected=p&&typeof p!="function"&&typeof p!="symbol":nt(t,e,c,p,a,g));return;case"img":case"link":case"area":case"base":case"br":case"col":case"embed":case"hr":case"keygen":case"meta":case"param":case"source":case"track":case"wbr":case"menuitem":for(var O in l)p=l[O],l.hasOwnProperty(O)&&p!=null&&!a.hasOwnProperty(O)&&nt(t,e,O,null,a,p);for(h in a)if(p=a[h],g=l[h],a.hasOwnProperty(h)&&p!==g&&(p!=null||g!=null))switch(h){case"children":case"dangerouslySetInnerHTML":if(p!=null)throw Error(m(137,e));break;default:nt(t,e,h,p,a,g)}return;default:if(Wu(e)){for(var ut in l)p=l[ut],l.hasOwnProperty(ut)&&p!==void 0&&!a.hasOwnProperty(ut)&&ws(t,e,ut,void 0,a,p);for(v in a)p=a[v],g=l[v],!a.hasOwnProperty(v)||p===g||p===void 0&&g===void 0||ws(t,e,v,p,a,g);return}}for(var d in l)p=l[d],l.hasOwnProperty(d)&&p!=null&&!a.hasOwnProperty(d)&&nt(t,e,d,null,a,p);for(j in a)p=a[j],g=l[j],!a.hasOwnProperty(j)||p===g||p==null&&g==null||nt(t,e,j,p,a,g)}function Rf(t){switch(t){case"css":case"script":case"font":case"img":case"image":case"input":case"link":return!0;default:return!1}}function W0(){if(typeof performance.getEntriesByType=="function"){for(var t=0,e=0,l=performance.getEntriesByType("resource"),a=0;a<l.length;a++){var n=l[a],u=n.transferSize,i=n.initiatorType,s=n.duration;if(u&&s&&Rf(i)){for(i=0,s=n.responseEnd,a+=1;a<l.length;a++){var c=l[a],h=c.startTime;if(h>s)break;var v=c.transferSize,j=c.initiatorType;v&&Rf(j)&&(c=c.responseEnd,i+=v*(c<s?1:(s-h)/(c-h)))}if(--a,e+=8*(u+i)/(n.duration/1e3),t++,10<t)break}}if(0<t)return e/t/1e6}return navigator.connection&&(t=navigator.connection.downlink,typeof t=="number")?t:5}var Us=null,Bs=null;function ju(t){return t.nodeType===9?t:t.ownerDocument}function Nf(t){switch(t){case"http://www.w3.org/2000/svg":return 1;case"http://www.w3.org/1998/Math/MathML":return 2;default:return 0}}function _f(t,e){if(t===0)switch(e){case"svg":return 1;case"math":return 2;default:return 0}return t===1&&e==="foreignObject"?0:t}function Hs(t,e){return t==="textarea"||t==="noscript"||typeof e.children=="string"||typeof e.children=="number"||typeof e.children=="bigint"||typeof e.dangerouslySetInnerHTML=="object"&&e.dangerouslySetInnerHTML!==null&&e.dangerouslySetInnerHTML.__html!=null}var qs=null;function $0(){var t=window.event;return t&&t.type==="popstate"?t===qs?!1:(qs=t,!0):(qs=null,!1)}var zf=typeof setTimeout=="function"?setTimeout:void 0,F0=typeof clearTimeout=="function"?clearTimeout:void 0,Tf=typeof Promise=="function"?Promise:void 0,I0=typeof queueMicrotask=="function"?queueMicrotask:typeof Tf<"u"?function(t){return Tf.resolve(null).then(t).catch(P0)}:zf;function P0(t){setTimeout(function(){throw t})}function dl(t){return t==="head"}function Af(t,e){var l=e,a=0;do{var n=l.nextSibling;if(t.removeChild(l),n&&n.nodeType===8)if(l=n.data,l==="/$"||l==="/&"){if(a===0){t.removeChild(n),Ea(e);return}a--}else if(l==="$"||l==="$?"||l==="$~"||l==="$!"||l==="&")a++;else if(l==="html")on(t.ownerDocument.documentElement);else if(l==="head"){l=t.ownerDocument.head,on(l);for(var u=l.firstChild;u;){var i=u.nextSibling,s=u.nodeName;u[za]||s==="SCRIPT"||s==="STYLE"||s==="LINK"&&u.rel.toLowerCase()==="stylesheet"||l.removeChild(u),u=i}}else l==="body"&&on(t.ownerDocument.body);l=n}while(l);Ea(e)}function Mf(t,e){var l=t;t=0;do{var a=l.nextSibling;if(l.nodeType===1?e?(l._stashedDisplay=l.style.display,l.style.display="none"):(l.style.display=l._stashedDisplay||"",l.getAttribute("style")===""&&l.removeAttribute("style")):l.nodeType===3&&(e?(l._stashedText=l.nodeValue,l.nodeValue=""):l.nodeValue=l._stashedText||""),a&&a.nodeType===8)if(l=a.data,l==="/$"){if(t===0)break;t--}else l!=="$"&&l!=="$?"&&l!=="$~"&&l!=="$!"||t++;l=a}while(l)}function Ys(t){var e=t.firstChild;for(e&&e.nodeType===10&&(e=e.nextSibling);e;){var l=e;switch(e=e.nextSibling,l.nodeName){case"HTML":case"HEAD":case"BODY":Ys(l),Vu(l);continue;case"SCRIPT":case"STYLE":continue;case"LINK":if(l.rel.toLowerCase()==="stylesheet")continue}t.removeChild(l)}}function tm(t,e,l,a){for(;t.nodeType===1;){var n=l;if(t.nodeName.toLowerCase()!==e.toLowerCase()){if(!a&&(t.nodeName!=="INPUT"||t.type!=="hidden"))break}else if(a){if(!t[za])switch(e){case"meta":if(!t.hasAttribute("itemprop"))break;return t;case"link":if(u=t.getAttribute("rel"),u==="stylesheet"&&t.hasAttribute("data-precedence"))break;if(u!==n.rel||t.getAttribute("href")!==(n.href==null||n.href===""?null:n.href)||t.getAttribute("crossorigin")!==(n.crossOrigin==null?null:n.crossOrigin)||t.getAttribute("title")!==(n.title==null?null:n.title))break;return t;case"style":if(t.hasAttribute("data-precedence"))break;return t;case"script":if(u=t.getAttribute("src"),(u!==(n.src==null?null:n.src)||t.getAttribute("type")!==(n.type==null?null:n.type)||t.getAttribute("crossorigin")!==(n.crossOrigin==null?null:n.crossOrigin))&&u&&t.hasAttribute("async")&&!t.hasAttribute("itemprop"))break;return t;default:return t}}else if(e==="input"&&t.type==="hidden"){var u=n.name==null?null:""+n.name;if(n.type==="hidden"&&t.getAttribute("name")===u)return t}else return t;if(t=me(t.nextSibling),t===null)break}return null}function em(t,e,l){if(e==="")return null;for(;t.nodeType!==3;)if((t.nodeType!==1||t.nodeName!=="INPUT"||t.type!=="hidden")&&!l||(t=me(t.nextSibling),t===null))return null;return t}function Cf(t,e){for(;t.nodeType!==8;)if((t.nodeType!==1||t.nodeName!=="INPUT"||t.type!=="hidden")&&!e||(t=me(t.nextSibling),t===null))return null;return t}function Gs(t){return t.data==="$?"||t.data==="$~"}function Ls(t){return t.data==="$!"||t.data==="$?"&&t.ownerDocument.readyState!=="loading"}function lm(t,e){var l=t.ownerDocument;if(t.data==="$~")t._reactRetry=e;else if(t.data!=="$?"||l.readyState!=="loading")e();else{var a=function(){e(),l.removeEventListener("DOMContentLoaded",a)};l.addEventListener("DOMContentLoaded",a),t._reactRetry=a}}function me(t){for(;t!=null;t=t.nextSibling){var e=t.nodeType;if(e===1||e===3)break;if(e===8){if(e=t.data,e==="$"||e==="$!"||e==="$?"||e==="$~"||e==="&"||e==="F!"||e==="F")break;if(e==="/$"||e==="/&")return null}}return t}var Xs=null;function Df(t){t=t.nextSibling;for(var e=0;t;){if(t.nodeType===8){var l=t.data;if(l==="/$"||l==="/&"){if(e===0)return me(t.nextSibling);e--}else l!=="$"&&l!=="$!"&&l!=="$?"&&l!=="$~"&&l!=="&"||e++}t=t.nextSibling}return null}function Of(t){t=t.previousSibling;for(var e=0;t;){if(t.nodeType===8){var l=t.data;if(l==="$"||l==="$!"||l==="$?"||l==="$~"||l==="&"){if(e===0)return t;e--}else l!=="/$"&&l!=="/&"||e++}t=t.previousSibling}return null}function kf(t,e,l){switch(e=ju(l),t){case"html":if(t=e.documentElement,!t)throw Error(m(452));return t;case"head":if(t=e.head,!t)throw Error(m(453));return t;case"body":if(t=e.body,!t)throw Error(m(454));return t;default:throw Error(m(451))}}function on(t){for(var e=t.attributes;e.length;)t.removeAttributeNode(e[0]);Vu(t)}var xe=new Map,wf=new Set;function Eu(t){return typeof t.getRootNode=="function"?t.getRootNode():t.nodeType===9?t:t.ownerDocument}var Ve=N.d;N.d={f:am,r:nm,D:um,C:im,L:sm,m:cm,X:om,S:rm,M:fm};function am(){var t=Ve.f(),e=mu();return t||e}function nm(t){var e=Gl(t);e!==null&&e.tag===5&&e.type==="form"?$r(e):Ve.r(t)}var ba=typeof document>"u"?null:document;function Uf(t,e,l){var a=ba;if(a&&typeof e=="string"&&e){var n=ie(e);n='link[rel="'+t+'"][href="'+n+'"]',typeof l=="string"&&(n+='[crossorigin="'+l+'"]'),wf.has(n)||(wf.add(n),t={rel:t,crossOrigin:l,href:e},a.querySelector(n)===null&&(e=a.createElement("link"),Mt(e,"link",t),Rt(e),a.head.appendChild(e)))}}function um(t){Ve.D(t),Uf("dns-prefetch",t,null)}function im(t,e){Ve.C(t,e),Uf("preconnect",t,e)}function sm(t,e,l){Ve.L(t,e,l);var a=ba;if(a&&t&&e){var n='link[rel="preload"][as="'+ie(e)+'"]';e==="image"&&l&&l.imageSrcSet?(n+='[imagesrcset="'+ie(l.imageSrcSet)+'"]',typeof l.imageSizes=="string"&&(n+='[imagesizes="'+ie(l.imageSizes)+'"]')):n+='[href="'+ie(t)+'"]';var u=n;switch(e){case"style":u=ya(t);break;case"script":u=ja(t)}xe.has(u)||(t=k({rel:"preload",href:e==="image"&&l&&l.imageSrcSet?void 0:t,as:e},l),xe.set(u,t),a.querySelector(n)!==null||e==="style"&&a.querySelector(fn(u))||e==="script"&&a.querySelector(dn(u))||(e=a.createElement("link"),Mt(e,"link",t),Rt(e),a.head.appendChild(e)))}}function cm(t,e){Ve.m(t,e);var l=ba;if(l&&t){var a=e&&typeof e.as=="string"?e.as:"script",n='link[rel="modulepreload"][as="'+ie(a)+'"][href="'+ie(t)+'"]',u=n;switch(a){case"audioworklet":case"paintworklet":case"serviceworker":case"sharedworker":case"worker":case"script":u=ja(t)}if(!xe.has(u)&&(t=k({rel:"modulepreload",href:t},e),xe.set(u,t),l.querySelector(n)===null)){switch(a){case"audioworklet":case"paintworklet":case"serviceworker":case"sharedworker":case"worker":case"script":if(l.querySelector(dn(u)))return}a=l.createElement("link"),Mt(a,"link",t),Rt(a),l.head.appendChild(a)}}}function rm(t,e,l){Ve.S(t,e,l);var a=ba;if(a&&t){var n=Ll(a).hoistableStyles,u=ya(t);e=e||"default";var i=n.get(u);if(!i){var s={loading:0,preload:null};if(i=a.querySelector(fn(u)))s.loading=5;else{t=k({rel:"stylesheet",href:t,"data-precedence":e},l),(l=xe.get(u))&&Qs(t,l);var c=i=a.createElement("link");Rt(c),Mt(c,"link",t),c._p=new Promise(function(h,v){c.onload=h,c.onerror=v}),c.addEventListener("load",function(){s.loading|=1}),c.addEventListener("error",function(){s.loading|=2}),s.loading|=4,Su(i,e,a)}i={type:"stylesheet",instance:i,count:1,state:s},n.set(u,i)}}}function om(t,e){Ve.X(t,e);var l=ba;if(l&&t){var a=Ll(l).hoistableScripts,n=ja(t),u=a.get(n);u||(u=l.querySelector(dn(n)),u||(t=k({src:t,async:!0},e),(e=xe.get(n))&&Vs(t,e),u=l.createElement("script"),Rt(u),Mt(u,"link",t),l.head.appendChild(u)),u={type:"script",instance:u,count:1,state:null},a.set(n,u))}}function fm(t,e){Ve.M(t,e);var l=ba;if(l&&t){var a=Ll(l).hoistableScripts,n=ja(t),u=a.get(n);u||(u=l.querySelector(dn(n)),u||(t=k({src:t,async:!0,type:"module"},e),(e=xe.get(n))&&Vs(t,e),u=l.createElement("script"),Rt(u),Mt(u,"link",t),l.head.appendChild(u)),u={type:"script",instance:u,count:1,state:null},a.set(n,u))}}function Bf(t,e,l,a){var n=(n=G.current)?Eu(n):null;if(!n)throw Error(m(446));switch(t){case"meta":case"title":return null;case"style":return typeof l.precedence=="string"&&typeof l.href=="string"?(e=ya(l.href),l=Ll(n).hoistableStyles,a=l.get(e),a||(a={type:"style",instance:null,count:0,state:null},l.set(e,a)),a):{type:"void",instance:null,count:0,state:null};case"link":if(l.rel==="stylesheet"&&typeof l.href=="string"&&typeof l.precedence=="string"){t=ya(l.href);var u=Ll(n).hoistableStyles,i=u.get(t);if(i||(n=n.ownerDocument||n,i={type:"stylesheet",instance:null,count:0,state:{loading:0,preload:null}},u.set(t,i),(u=n.querySelector(fn(t)))&&!u._p&&(i.instance=u,i.state.loading=5),xe.has(t)||(l={rel:"preload",as:"style",href:l.href,crossOrigin:l.crossOrigin,integrity:l.integrity,media:l.media,hrefLang:l.hrefLang,referrerPolicy:l.referrerPolicy},xe.set(t,l),u||dm(n,t,l,i.state))),e&&a===null)throw Error(m(528,""));return i}if(e&&a!==null)throw Error(m(529,""));return null;case"script":return e=l.async,l=l.src,typeof l=="string"&&e&&typeof e!="function"&&typeof e!="symbol"?(e=ja(l),l=Ll(n).hoistableScripts,a=l.get(e),a||(a={type:"script",instance:null,count:0,state:null},l.set(e,a)),a):{type:"void",instance:null,count:0,state:null};default:throw Error(m(444,t))}}function ya(t){return'href="'+ie(t)+'"'}function fn(t){return'link[rel="stylesheet"]['+t+"]"}function Hf(t){return k({},t,{"data-precedence":t.precedence,precedence:null})}function dm(t,e,l,a){t.querySelector('link[rel="preload"][as="style"]['+e+"]")?a.loading=1:(e=t.createElement("link"),a.preload=e,e.addEventListener("load",function(){return a.loading|=1}),e.addEventListener("error",function(){return a.loading|=2}),Mt(e,"link",l),Rt(e),t.head.appendChild(e))}function ja(t){return'[src="'+ie(t)+'"]'}function dn(t){return"script[async]"+t}function qf(t,e,l){if(e.count++,e.instance===null)switch(e.type){case"style":var a=t.querySelector('style[data-href~="'+ie(l.href)+'"]');if(a)return e.instance=a,Rt(a),a;var n=k({},l,{"data-href":l.href,"data-precedence":l.precedence,href:null,precedence:null});return a=(t.ownerDocument||t).createElement("style"),Rt(a),Mt(a,"style",n),Su(a,l.precedence,t),e.instance=a;case"stylesheet":n=ya(l.href);var u=t.querySelector(fn(n));if(u)return e.state.loading|=4,e.instance=u,Rt(u),u;a=Hf(l),(n=xe.get(n))&&Qs(a,n),u=(t.ownerDocument||t).createElement("link"),Rt(u);var i=u;return i._p=new Promise(function(s,c){i.onload=s,i.onerror=c}),Mt(u,"link",a),e.state.loading|=4,Su(u,l.precedence,t),e.instance=u;case"script":return u=ja(l.src),(n=t.querySelector(dn(u)))?(e.instance=n,Rt(n),n):(a=l,(n=xe.get(u))&&(a=k({},l),Vs(a,n)),t=t.ownerDocument||t,n=t.createElement("script"),Rt(n),Mt(n,"link",a),t.head.appendChild(n),e.instance=n);case"void":return null;default:throw Error(m(443,e.type))}else e.type==="stylesheet"&&(e.state.loading&4)===0&&(a=e.instance,e.state.loading|=4,Su(a,l.precedence,t));return e.instance}function Su(t,e,l){for(var a=l.querySelectorAll('link[rel="stylesheet"][data-precedence],style[data-precedence]'),n=a.length?a[a.length-1]:null,u=n,i=0;i<a.length;i++){var s=a[i];if(s.dataset.precedence===e)u=s;else if(u!==n)break}u?u.parentNode.insertBefore(t,u.nextSibling):(e=l.nodeType===9?l.head:l,e.insertBefore(t,e.firstChild))}function Qs(t,e){t.crossOrigin==null&&(t.crossOrigin=e.crossOrigin),t.referrerPolicy==null&&(t.referrerPolicy=e.referrerPolicy),t.title==null&&(t.title=e.title)}function Vs(t,e){t.crossOrigin==null&&(t.crossOrigin=e.crossOrigin),t.referrerPolicy==null&&(t.referrerPolicy=e.referrerPolicy),t.integrity==null&&(t.integrity=e.integrity)}var Ru=null;function Yf(t,e,l){if(Ru===null){var a=new Map,n=Ru=new Map;n.set(l,a)}else n=Ru,a=n.get(l),a||(a=new Map,n.set(l,a));if(a.has(t))return a;for(a.set(t,null),l=l.getElementsByTagName(t),n=0;n<l.length;n++){var u=l[n];if(!(u[za]||u[_t]||t==="link"&&u.getAttribute("rel")==="stylesheet")&&u.namespaceURI!=="http://www.w3.org/2000/svg"){var i=u.getAttribute(e)||"";i=t+i;var s=a.get(i);s?s.push(u):a.set(i,[u])}}return a}function Gf(t,e,l){t=t.ownerDocument||t,t.head.insertBefore(l,e==="title"?t.querySelector("head > title"):null)}function mm(t,e,l){if(l===1||e.itemProp!=null)return!1;switch(t){case"meta":case"title":return!0;case"style":if(typeof e.precedence!="string"||typeof e.href!="string"||e.href==="")break;return!0;case"link":if(typeof e.rel!="string"||typeof e.href!="string"||e.href===""||e.onLoad||e.onError)break;return e.rel==="stylesheet"?(t=e.disabled,typeof e.precedence=="string"&&t==null):!0;case"script":if(e.async&&typeof e.async!="function"&&typeof e.async!="symbol"&&!e.onLoad&&!e.onError&&e.src&&typeof e.src=="string")return!0}return!1}function Lf(t){return!(t.type==="stylesheet"&&(t.state.loading&3)===0)}function xm(t,e,l,a){if(l.type==="stylesheet"&&(typeof a.media!="string"||matchMedia(a.media).matches!==!1)&&(l.state.loading&4)===0){if(l.instance===null){var n=ya(a.href),u=e.querySelector(fn(n));if(u){e=u._p,e!==null&&typeof e=="object"&&typeof e.then=="function"&&(t.count++,t=Nu.bind(t),e.then(t,t)),l.state.loading|=4,l.instance=u,Rt(u);return}u=e.ownerDocument||e,a=Hf(a),(n=xe.get(n))&&Qs(a,n),u=u.createElement("link"),Rt(u);var i=u;i._p=new Promise(function(s,c){i.onload=s,i.onerror=c}),Mt(u,"link",a),l.instance=u}t.stylesheets===null&&(t.stylesheets=new Map),t.stylesheets.set(l,e),(e=l.state.preload)&&(l.state.loading&3)===0&&(t.count++,l=Nu.bind(t),e.addEventListener("load",l),e.addEventListener("error",l))}}var Zs=0;function hm(t,e){return t.stylesheets&&t.count===0&&zu(t,t.stylesheets),0<t.count||0<t.imgCount?function(l){var a=setTimeout(function(){if(t.stylesheets&&zu(t,t.stylesheets),t.unsuspend){var u=t.unsuspend;t.unsuspend=null,u()}},6e4+e);0<t.imgBytes&&Zs===0&&(Zs=62500*W0());var n=setTimeout(function(){if(t.waitingForImages=!1,t.count===0&&(t.stylesheets&&zu(t,t.stylesheets),t.unsuspend)){var u=t.unsuspend;t.unsuspend=null,u()}},(t.imgBytes>Zs?50:800)+e);return t.unsuspend=l,function(){t.unsuspend=null,clearTimeout(a),clearTimeout(n)}}:null}function Nu(){if(this.count--,this.count===0&&(this.imgCount===0||!this.waitingForImages)){if(this.stylesheets)zu(this,this.stylesheets);else if(this.unsuspend){var t=this.unsuspend;this.unsuspend=null,t()}}}var _u=null;function zu(t,e){t.stylesheets=null,t.unsuspend!==null&&(t.count++,_u=new Map,e.forEach(pm,t),_u=null,Nu.call(t))}function pm(t,e){if(!(e.state.loading&4)){var l=_u.get(t);if(l)var a=l.get(null);else{l=new Map,_u.set(t,l);for(var n=t.querySelectorAll("link[data-precedence],style[data-precedence]"),u=0;u<n.length;u++){var i=n[u];(i.nodeName==="LINK"||i.getAttribute("media")!=="not all")&&(l.set(i.dataset.precedence,i),a=i)}a&&l.set(null,a)}n=e.instance,i=n.getAttribute("data-precedence"),u=l.get(i)||a,u===a&&l.set(null,n),l.set(i,n),this.count++,a=Nu.bind(this),n.addEventListener("load",a),n.addEventListener("error",a),u?u.parentNode.insertBefore(n,u.nextSibling):(t=t.nodeType===9?t.head:t,t.insertBefore(n,t.firstChild)),e.state.loading|=4}}var mn={$$typeof:Ct,Provider:null,Consumer:null,_currentValue:w,_currentValue2:w,_threadCount:0};function gm(t,e,l,a,n,u,i,s,c){this.tag=1,this.containerInfo=t,this.pingCache=this.current=this.pendingChildren=null,this.timeoutHandle=-1,this.callbackNode=this.next=this.pendingContext=this.context=this.cancelPendingCommit=null,this.callbackPriority=0,this.expirationTimes=Gu(-1),this.entangledLanes=this.shellSuspendCounter=this.errorRecoveryDisabledLanes=this.expiredLanes=this.warmLanes=this.pingedLanes=this.suspendedLanes=this.pendingLanes=0,this.entanglements=Gu(0),this.hiddenUpdates=Gu(null),this.identifierPrefix=a,this.onUncaughtError=n,this.onCaughtError=u,this.onRecoverableError=i,this.pooledCache=null,this.pooledCacheLanes=0,this.formState=c,this.incompleteTransitions=new Map}function Xf(t,e,l,a,n,u,i,s,c,h,v,j){return t=new gm(t,e,l,i,c,h,v,j,s),e=1,u===!0&&(e|=24),u=It(3,null,null,e),t.current=u,u.stateNode=t,e=Ni(),e.refCount++,t.pooledCache=e,e.refCount++,u.memoizedState={element:a,isDehydrated:l,cache:e},Ai(u),t}function Qf(t){return t?(t=Il,t):Il}function Vf(t,e,l,a,n,u){n=Qf(n),a.context===null?a.context=n:a.pendingContext=n,a=el(e),a.payload={element:l},u=u===void 0?null:u,u!==null&&(a.callback=u),l=ll(t,a,e),l!==null&&(Vt(l,t,e),Qa(l,t,e))}function Zf(t,e){if(t=t.memoizedState,t!==null&&t.dehydrated!==null){var l=t.retryLane;t.retryLane=l!==0&&l<e?l:e}}function Ks(t,e){Zf(t,e),(t=t.alternate)&&Zf(t,e)}function Kf(t){if(t.tag===13||t.tag===31){var e=Nl(t,67108864);e!==null&&Vt(e,t,67108864),Ks(t,67108864)}}function Jf(t){if(t.tag===13||t.tag===31){var e=ae();e=Lu(e);var l=Nl(t,e);l!==null&&Vt(l,t,e),Ks(t,e)}}var Tu=!0;function vm(t,e,l,a){var n=b.T;b.T=null;var u=N.p;try{N.p=2,Js(t,e,l,a)}finally{N.p=u,b.T=n}}function bm(t,e,l,a){var n=b.T;b.T=null;var u=N.p;try{N.p=8,Js(t,e,l,a)}finally{N.p=u,b.T=n}}function Js(t,e,l,a){if(Tu){var n=Ws(a);if(n===null)ks(t,e,a,Au,l),$f(t,a);else if(jm(n,t,e,l,a))a.stopPropagation();else if($f(t,a),e&4&&-1<ym.indexOf(t)){for(;n!==null;){var u=Gl(n);if(u!==null)switch(u.tag){case 3:if(u=u.stateNode,u.current.memoizedState.isDehydrated){var i=yl(u.pendingLanes);if(i!==0){var s=u;for(s.pendingLanes|=2,s.entangledLanes|=2;i;){var c=1<<31-$t(i);s.entanglements[1]|=c,i&=~c}Ne(u),(I&6)===0&&(fu=Jt()+500,sn(0))}}break;case 31:case 13:s=Nl(u,2),s!==null&&Vt(s,u,2),mu(),Ks(u,2)}if(u=Ws(a),u===null&&ks(t,e,a,Au,l),u===n)break;n=u}n!==null&&a.stopPropagation()}else ks(t,e,a,null,l)}}function Ws(t){return t=Fu(t),$s(t)}var Au=null;function $s(t){if(Au=null,t=Yl(t),t!==null){var e=Y(t);if(e===null)t=null;else{var l=e.tag;if(l===13){if(t=dt(e),t!==null)return t;t=null}else if(l===31){if(t=St(e),t!==null)return t;t=null}else if(l===3){if(e.stateNode.current.memoizedState.isDehydrated)return e.tag===3?e.stateNode.containerInfo:null;t=null}else e!==t&&(t=null)}}return Au=t,null}function Wf(t){switch(t){case"beforetoggle":case"cancel":case"click":case"close":case"contextmenu":case"copy":case"cut":case"auxclick":case"dblclick":case"dragend":case"dragstart":case"drop":case"focusin":case"focusout":case"input":case"invalid":case"keydown":case"keypress":case"keyup":case"mousedown":case"mouseup":case"paste":case"pause":case"play":case"pointercancel":case"pointerdown":case"pointerup":case"ratechange":case"reset":case"resize":case"seeked":case"submit":case"toggle":case"touchcancel":case"touchend":case"touchstart":case"volumechange":case"change":case"selectionchange":case"textInput":case"compositionstart":case"compositionend":case"compositionupdate":case"beforeblur":case"afterblur":case"beforeinput":case"blur":case"fullscreenchange":case"focus":case"hashchange":case"popstate":case"select":case"selectstart":return 2;case"drag":case"dragenter":case"dragexit":case"dragleave":case"dragover":case"mousemove":case"mouseout":case"mouseover":case"pointermove":case"pointerout":case"pointerover":case"scroll":case"touchmove":case"wheel":case"mouseenter":case"mouseleave":case"pointerenter":case"pointerleave":return 8;case"message":switch(ud()){case ec:return 2;case lc:return 8;case vn:case id:return 32;case ac:return 268435456;default:return 32}default:return 32}}var Fs=!1,ml=null,xl=null,hl=null,xn=new Map,hn=new Map,pl=[],ym="mousedown mouseup touchcancel touchend touchstart auxclick dblclick pointercancel pointerdown pointerup dragend dragstart drop compositionend compositionstart keydown keypress keyup input textInput copy cut paste click change contextmenu reset".split(" ");function $f(t,e){switch(t){case"focusin":case"focusout":ml=null;break;case"dragenter":case"dragleave":xl=null;break;case"mouseover":case"mouseout":hl=null;break;case"pointerover":case"pointerout":xn.delete(e.pointerId);break;case"gotpointercapture":case"lostpointercapture":hn.delete(e.pointerId)}}function pn(t,e,l,a,n,u){return t===null||t.nativeEvent!==u?(t={blockedOn:e,domEventName:l,eventSystemFlags:a,nativeEvent:u,targetContainers:[n]},e!==null&&(e=Gl(e),e!==null&&Kf(e)),t):(t.eventSystemFlags|=a,e=t.targetContainers,n!==null&&e.indexOf(n)===-1&&e.push(n),t)}function jm(t,e,l,a,n){switch(e){case"focusin":return ml=pn(ml,t,e,l,a,n),!0;case"dragenter":return xl=pn(xl,t,e,l,a,n),!0;case"mouseover":return hl=pn(hl,t,e,l,a,n),!0;case"pointerover":var u=n.pointerId;return xn.set(u,pn(xn.get(u)||null,t,e,l,a,n)),!0;case"gotpointercapture":return u=n.pointerId,hn.set(u,pn(hn.get(u)||null,t,e,l,a,n)),!0}return!1}function Ff(t){var e=Yl(t.target);if(e!==null){var l=Y(e);if(l!==null){if(e=l.tag,e===13){if(e=dt(l),e!==null){t.blockedOn=e,rc(t.priority,function(){Jf(l)});return}}else if(e===31){if(e=St(l),e!==null){t.blockedOn=e,rc(t.priority,function(){Jf(l)});return}}else if(e===3&&l.stateNode.current.memoizedState.isDehydrated){t.blockedOn=l.tag===3?l.stateNode.containerInfo:null;return}}}t.blockedOn=null}function Mu(t){if(t.blockedOn!==null)return!1;for(var e=t.targetContainers;0<e.length;){var l=Ws(t.nativeEvent);if(l===null){l=t.nativeEvent;var a=new l.constructor(l.type,l);$u=a,l.target.dispatchEvent(a),$u=null}else return e=Gl(l),e!==null&&Kf(e),t.blockedOn=l,!1;e.shift()}return!0}function If(t,e,l){Mu(t)&&l.delete(e)}function Em(){Fs=!1,ml!==null&&Mu(ml)&&(ml=null),xl!==null&&Mu(xl)&&(xl=null),hl!==null&&Mu(hl)&&(hl=null),xn.forEach(If),hn.forEach(If)}function Cu(t,e){t.blockedOn===e&&(t.blockedOn=null,Fs||(Fs=!0,r.unstable_scheduleCallback(r.unstable_NormalPriority,Em)))}var Du=null;function Pf(t){Du!==t&&(Du=t,r.unstable_scheduleCallback(r.unstable_NormalPriority,function(){Du===t&&(Du=null);for(var e=0;e<t.length;e+=3){var l=t[e],a=t[e+1],n=t[e+2];if(typeof a!="function"){if($s(a||l)===null)continue;break}var u=Gl(l);u!==null&&(t.splice(e,3),e-=3,Wi(u,{pending:!0,data:n,method:l.method,action:a},a,n))}}))}function Ea(t){function e(c){return Cu(c,t)}ml!==null&&Cu(ml,t),xl!==null&&Cu(xl,t),hl!==null&&Cu(hl,t),xn.forEach(e),hn.forEach(e);for(var l=0;l<pl.length;l++){var a=pl[l];a.blockedOn===t&&(a.blockedOn=null)}for(;0<pl.length&&(l=pl[0],l.blockedOn===null);)Ff(l),l.blockedOn===null&&pl.shift();if(l=(t.ownerDocument||t).$$reactFormReplay,l!=null)for(a=0;a<l.length;a+=3){var n=l[a],u=l[a+1],i=n[qt]||null;if(typeof u=="function")i||Pf(l);else if(i){var s=null;if(u&&u.hasAttribute("formAction")){if(n=u,i=u[qt]||null)s=i.formAction;else if($s(n)!==null)continue}else s=i.action;typeof s=="function"?l[a+1]=s:(l.splice(a,3),a-=3),Pf(l)}}}function td(){function t(u){u.canIntercept&&u.info==="react-transition"&&u.intercept({handler:function(){return new Promise(function(i){return n=i})},focusReset:"manual",scroll:"manual"})}function e(){n!==null&&(n(),n=null),a||setTimeout(l,20)}function l(){if(!a&&!navigation.transition){var u=navigation.currentEntry;u&&u.url!=null&&navigation.navigate(u.url,{state:u.getState(),info:"react-transition",history:"replace"})}}if(typeof navigation=="object"){var a=!1,n=null;return navigation.addEventListener("navigate",t),navigation.addEventListener("navigatesuccess",e),navigation.addEventListener("navigateerror",e),setTimeout(l,100),function(){a=!0,navigation.removeEventListener("navigate",t),navigation.removeEventListener("navigatesuccess",e),navigation.removeEventListener("navigateerror",e),n!==null&&(n(),n=null)}}}function Is(t){this._internalRoot=t}Ou.prototype.render=Is.prototype.render=function(t){var e=this._internalRoot;if(e===null)throw Error(m(409));var l=e.current,a=ae();Vf(l,a,t,e,null,null)},Ou.prototype.unmount=Is.prototype.unmount=function(){var t=this._internalRoot;if(t!==null){this._internalRoot=null;var e=t.containerInfo;Vf(t.current,2,null,t,null,null),mu(),e[ql]=null}};function Ou(t){this._internalRoot=t}Ou.prototype.unstable_scheduleHydration=function(t){if(t){var e=cc();t={blockedOn:null,target:t,priority:e};for(var l=0;l<pl.length&&e!==0&&e<pl[l].priority;l++);pl.splice(l,0,t),l===0&&Ff(t)}};var ed=R.version;if(ed!=="19.2.3")throw Error(m(527,ed,"19.2.3"));N.findDOMNode=function(t){var e=t._reactInternals;if(e===void 0)throw typeof t.render=="function"?Error(m(188)):(t=Object.keys(t).join(","),Error(m(268,t)));return t=S(e),t=t!==null?W(t):null,t=t===null?null:t.stateNode,t};var Sm={bundleType:0,version:"19.2.3",rendererPackageName:"react-dom",currentDispatcherRef:b,reconcilerVersion:"19.2.3"};if(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__<"u"){var ku=__REACT_DEVTOOLS_GLOBAL_HOOK__;if(!ku.isDisabled&&ku.supportsFiber)try{Ra=ku.inject(Sm),Wt=ku}catch{}}return reactDomClient_production.createRoot=function(t,e){if(!U(t))throw Error(m(299));var l=!1,a="",n=io,u=so,i=co;return e!=null&&(e.unstable_strictMode===!0&&(l=!0),e.identifierPrefix!==void 0&&(a=e.identifierPrefix),e.onUncaughtError!==void 0&&(n=e.onUncaughtError),e.onCaughtError!==void 0&&(u=e.onCaughtError),e.onRecoverableError!==void 0&&(i=e.onRecoverableError)),e=Xf(t,1,!1,null,null,l,a,null,n,u,i,td),t[ql]=e.current,Os(t),new Is(e)},reactDomClient_production.hydrateRoot=function(t,e,l){if(!U(t))throw Error(m(299));var a=!1,n="",u=io,i=so,s=co,c=null;return l!=null&&(l.unstable_strictMode===!0&&(a=!0),l.identifierPrefix!==void 0&&(n=l.identifierPrefix),l.onUncaughtError!==void 0&&(u=l.onUncaughtError),l.onCaughtError!==void 0&&(i=l.onCaughtError),l.onRecoverableError!==void 0&&(s=l.onRecoverableError),l.formState!==void 0&&(c=l.formState)),e=Xf(t,1,!0,e,l??null,a,n,c,u,i,s,td),e.context=Qf(null),l=e.current,a=ae(),a=Lu(a),n=el(a),n.callback=null,ll(l,n,a),l=a,e.current.lanes=l,_a(e,l),Ne(e),t[ql]=e.current,Os(t),new Ou(e)},reactDomClient_production.version="19.2.3",reactDomClient_production}var hasRequiredClient;function requireClient(){if(hasRequiredClient)return client.exports;hasRequiredClient=1;function r(){if(!(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__>"u"||typeof __REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE!="function"))try{__REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE(r)}catch(R){console.error(R)}}return r(),client.exports=requireReactDomClient_production(),client.exports}var clientExports=requireClient();const ReactDOM=getDefaultExportFromCjs(clientExports);const toKebabCase=r=>r.replace(/([a-z0-9])([A-Z])/g,"$1-$2").toLowerCase(),toCamelCase=r=>r.replace(/^([A-Z])|[\s-_]+(\w)/g,(R,z,m)=>m?m.toUpperCase():z.toLowerCase()),toPascalCase=r=>{const R=toCamelCase(r);return R.charAt(0).toUpperCase()+R.slice(1)},mergeClasses=(...r)=>r.filter((R,z,m)=>!!R&&R.trim()!==""&&m.indexOf(R)===z).join(" ").trim(),hasA11yProp=r=>{for(const R in r)if(R.startsWith("aria-")||R==="role"||R==="title")return!0};var defaultAttributes={xmlns:"http://www.w3.org/2000/svg",width:24,height:24,viewBox:"0 0 24 24",fill:"none",stroke:"currentColor",strokeWidth:2,strokeLinecap:"round",strokeLinejoin:"round"};const Icon=reactExports.forwardRef(({color:r="currentColor",size:R=24,strokeWidth:z=2,absoluteStrokeWidth:m,className:U="",children:Y,iconNode:dt,...St},C)=>reactExports.createElement("svg",{ref:C,...defaultAttributes,width:R,height:R,stroke:r,strokeWidth:m?Number(z)*24/Number(R):z,className:mergeClasses("lucide",U),...!Y&&!hasA11yProp(St)&&{"aria-hidden":"true"},...St},[...dt.map(([S,W])=>reactExports.createElement(S,W)),...Array.isArray(Y)?Y:[Y]]));const createLucideIcon=(r,R)=>{const z=reactExports.forwardRef(({className:m,...U},Y)=>reactExports.createElement(Icon,{ref:Y,iconNode:R,className:mergeClasses(`lucide-${toKebabCase(toPascalCase(r))}`,`lucide-${r}`,m),...U}));return z.displayName=toPascalCase(r),z};const __iconNode$m=[["path",{d:"M22 12h-2.48a2 2 0 0 0-1.93 1.46l-2.35 8.36a.25.25 0 0 1-.48 0L9.24 2.18a.25.25 0 0 0-.48 0l-2.35 8.36A2 2 0 0 1 4.49 12H2",key:"169zse"}]],Activity=createLucideIcon("activity",__iconNode$m);const __iconNode$l=[["rect",{width:"16",height:"20",x:"4",y:"2",rx:"2",key:"1nb95v"}],["line",{x1:"8",x2:"16",y1:"6",y2:"6",key:"x4nwl0"}],["line",{x1:"16",x2:"16",y1:"14",y2:"18",key:"wjye3r"}],["path",{d:"M16 10h.01",key:"1m94wz"}],["path",{d:"M12 10h.01",key:"1nrarc"}],["path",{d:"M8 10h.01",key:"19clt8"}],["path",{d:"M12 14h.01",key:"1etili"}],["path",{d:"M8 14h.01",key:"6423bh"}],["path",{d:"M12 18h.01",key:"mhygvu"}],["path",{d:"M8 18h.01",key:"lrp35t"}]],Calculator=createLucideIcon("calculator",__iconNode$l);const __iconNode$k=[["path",{d:"M20 6 9 17l-5-5",key:"1gmf2c"}]],Check=createLucideIcon("check",__iconNode$k);const __iconNode$j=[["path",{d:"m6 9 6 6 6-6",key:"qrunsl"}]],ChevronDown=createLucideIcon("chevron-down",__iconNode$j);const __iconNode$i=[["path",{d:"m18 16 4-4-4-4",key:"1inbqp"}],["path",{d:"m6 8-4 4 4 4",key:"15zrgr"}],["path",{d:"m14.5 4-5 16",key:"e7oirm"}]],CodeXml=createLucideIcon("code-xml",__iconNode$i);const __iconNode$h=[["rect",{width:"14",height:"14",x:"8",y:"8",rx:"2",ry:"2",key:"17jyea"}],["path",{d:"M4 16c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2h10c1.1 0 2 .9 2 2",key:"zix9uf"}]],Copy=createLucideIcon("copy",__iconNode$h);const __iconNode$g=[["line",{x1:"12",x2:"12",y1:"2",y2:"22",key:"7eqyqh"}],["path",{d:"M17 5H9.5a3.5 3.5 0 0 0 0 7h5a3.5 3.5 0 0 1 0 7H6",key:"1b0p4s"}]],DollarSign=createLucideIcon("dollar-sign",__iconNode$g);const __iconNode$f=[["circle",{cx:"12",cy:"12",r:"10",key:"1mglay"}],["path",{d:"M12 16v-4",key:"1dtifu"}],["path",{d:"M12 8h.01",key:"e9boi3"}]],Info=createLucideIcon("info",__iconNode$f);const __iconNode$e=[["path",{d:"M10 8h.01",key:"1r9ogq"}],["path",{d:"M12 12h.01",key:"1mp3jc"}],["path",{d:"M14 8h.01",key:"1primd"}],["path",{d:"M16 12h.01",key:"1l6xoz"}],["path",{d:"M18 8h.01",key:"emo2bl"}],["path",{d:"M6 8h.01",key:"x9i8wu"}],["path",{d:"M7 16h10",key:"wp8him"}],["path",{d:"M8 12h.01",key:"czm47f"}],["rect",{width:"20",height:"16",x:"2",y:"4",rx:"2",key:"18n3k1"}]],Keyboard=createLucideIcon("keyboard",__iconNode$e);const __iconNode$d=[["rect",{width:"18",height:"11",x:"3",y:"11",rx:"2",ry:"2",key:"1w4ew1"}],["path",{d:"M7 11V7a5 5 0 0 1 10 0v4",key:"fwvmzm"}]],Lock=createLucideIcon("lock",__iconNode$d);const __iconNode$c=[["path",{d:"M20.985 12.486a9 9 0 1 1-9.473-9.472c.405-.022.617.46.402.803a6 6 0 0 0 8.268 8.268c.344-.215.825-.004.803.401",key:"kfwtm"}]],Moon=createLucideIcon("moon",__iconNode$c);const __iconNode$b=[["path",{d:"M12 22a1 1 0 0 1 0-20 10 9 0 0 1 10 9 5 5 0 0 1-5 5h-2.25a1.75 1.75 0 0 0-1.4 2.8l.3.4a1.75 1.75 0 0 1-1.4 2.8z",key:"e79jfc"}],["circle",{cx:"13.5",cy:"6.5",r:".5",fill:"currentColor",key:"1okk4w"}],["circle",{cx:"17.5",cy:"10.5",r:".5",fill:"currentColor",key:"f64h9f"}],["circle",{cx:"6.5",cy:"12.5",r:".5",fill:"currentColor",key:"qy21gx"}],["circle",{cx:"8.5",cy:"7.5",r:".5",fill:"currentColor",key:"fotxhn"}]],Palette=createLucideIcon("palette",__iconNode$b);const __iconNode$a=[["rect",{width:"18",height:"18",x:"3",y:"3",rx:"2",key:"afitv7"}],["path",{d:"M3 9h18",key:"1pudct"}],["path",{d:"M9 21V9",key:"1oto5p"}]],PanelsTopLeft=createLucideIcon("panels-top-left",__iconNode$a);const __iconNode$9=[["path",{d:"M3 12a9 9 0 0 1 9-9 9.75 9.75 0 0 1 6.74 2.74L21 8",key:"v9h5vc"}],["path",{d:"M21 3v5h-5",key:"1q7to0"}],["path",{d:"M21 12a9 9 0 0 1-9 9 9.75 9.75 0 0 1-6.74-2.74L3 16",key:"3uifl3"}],["path",{d:"M8 16H3v5",key:"1cv678"}]],RefreshCw=createLucideIcon("refresh-cw",__iconNode$9);const __iconNode$8=[["path",{d:"M15.2 3a2 2 0 0 1 1.4.6l3.8 3.8a2 2 0 0 1 .6 1.4V19a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2z",key:"1c8476"}],["path",{d:"M17 21v-7a1 1 0 0 0-1-1H8a1 1 0 0 0-1 1v7",key:"1ydtos"}],["path",{d:"M7 3v4a1 1 0 0 0 1 1h7",key:"t51u73"}]],Save=createLucideIcon("save",__iconNode$8);const __iconNode$7=[["path",{d:"M9.671 4.136a2.34 2.34 0 0 1 4.659 0 2.34 2.34 0 0 0 3.319 1.915 2.34 2.34 0 0 1 2.33 4.033 2.34 2.34 0 0 0 0 3.831 2.34 2.34 0 0 1-2.33 4.033 2.34 2.34 0 0 0-3.319 1.915 2.34 2.34 0 0 1-4.659 0 2.34 2.34 0 0 0-3.32-1.915 2.34 2.34 0 0 1-2.33-4.033 2.34 2.34 0 0 0 0-3.831A2.34 2.34 0 0 1 6.35 6.051a2.34 2.34 0 0 0 3.319-1.915",key:"1i5ecw"}],["circle",{cx:"12",cy:"12",r:"3",key:"1v7zrd"}]],Settings=createLucideIcon("settings",__iconNode$7);const __iconNode$6=[["path",{d:"M20 13c0 5-3.5 7.5-7.66 8.95a1 1 0 0 1-.67-.01C7.5 20.5 4 18 4 13V6a1 1 0 0 1 1-1c2 0 4.5-1.2 6.24-2.72a1.17 1.17 0 0 1 1.52 0C14.51 3.81 17 5 19 5a1 1 0 0 1 1 1z",key:"oel41y"}],["path",{d:"m9 12 2 2 4-4",key:"dzmm74"}]],ShieldCheck=createLucideIcon("shield-check",__iconNode$6);const __iconNode$5=[["path",{d:"M12 10.189V14",key:"1p8cqu"}],["path",{d:"M12 2v3",key:"qbqxhf"}],["path",{d:"M19 13V7a2 2 0 0 0-2-2H7a2 2 0 0 0-2 2v6",key:"qpkstq"}],["path",{d:"M19.38 20A11.6 11.6 0 0 0 21 14l-8.188-3.639a2 2 0 0 0-1.624 0L3 14a11.6 11.6 0 0 0 2.81 7.76",key:"7tigtc"}],["path",{d:"M2 21c.6.5 1.2 1 2.5 1 2.5 0 2.5-2 5-2 1.3 0 1.9.5 2.5 1s1.2 1 2.5 1c2.5 0 2.5-2 5-2 1.3 0 1.9.5 2.5 1",key:"1924j5"}]],Ship=createLucideIcon("ship",__iconNode$5);const __iconNode$4=[["circle",{cx:"12",cy:"12",r:"4",key:"4exip2"}],["path",{d:"M12 2v2",key:"tus03m"}],["path",{d:"M12 20v2",key:"1lh1kg"}],["path",{d:"m4.93 4.93 1.41 1.41",key:"149t6j"}],["path",{d:"m17.66 17.66 1.41 1.41",key:"ptbguv"}],["path",{d:"M2 12h2",key:"1t8f8n"}],["path",{d:"M20 12h2",key:"1q8mjw"}],["path",{d:"m6.34 17.66-1.41 1.41",key:"1m8zz5"}],["path",{d:"m19.07 4.93-1.41 1.41",key:"1shlcs"}]],Sun=createLucideIcon("sun",__iconNode$4);const __iconNode$3=[["path",{d:"M10 11v6",key:"nco0om"}],["path",{d:"M14 11v6",key:"outv1u"}],["path",{d:"M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6",key:"miytrc"}],["path",{d:"M3 6h18",key:"d0wm0j"}],["path",{d:"M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2",key:"e791ji"}]],Trash2=createLucideIcon("trash-2",__iconNode$3);const __iconNode$2=[["path",{d:"m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3",key:"wmoenq"}],["path",{d:"M12 9v4",key:"juzpu7"}],["path",{d:"M12 17h.01",key:"p32p05"}]],TriangleAlert=createLucideIcon("triangle-alert",__iconNode$2);const __iconNode$1=[["path",{d:"M19 21v-2a4 4 0 0 0-4-4H9a4 4 0 0 0-4 4v2",key:"975kel"}],["circle",{cx:"12",cy:"7",r:"4",key:"17ys0d"}]],User=createLucideIcon("user",__iconNode$1);const __iconNode=[["path",{d:"M18 6 6 18",key:"1bl5f8"}],["path",{d:"m6 6 12 12",key:"d8bk6v"}]],X=createLucideIcon("x",__iconNode),DEFAULT_SETTINGS={logo:"logo.png",minBilling:65,sellRatePercent:.4,buyRateMultiplier:.99,pgaMultiplier:3,standardBuyFormula:"((invoice_value + duties) * 0.99) / 1000",standardSellFormula:"((invoice_value + duties) * 0.40) / 100",pgaBuyFormula:"(((invoice_value_with_pga * 3) + invoice_value_without_pga) * 0.99) / 1000",pgaSellFormula:"(((invoice_value_with_pga * 3) + invoice_value_without_pga) * 0.40) / 100"},PALETTES={classic:{name:"Classic (TEU)",primary:"#004B8D",accent:"#FF6600"},emerald:{name:"Emerald",primary:"#065f46",accent:"#10b981"},indigo:{name:"Indigo",primary:"#3730a3",accent:"#6366f1"},slate:{name:"Midnight",primary:"#1e293b",accent:"#38bdf8"},clean:{name:"Modern Sky",primary:"#0ea5e9",accent:"#64748b"}},evaluateFormula=(r,R)=>{try{let z=r;for(const[U,Y]of Object.entries(R))z=z.replace(new RegExp(U.replace("_","_?"),"g"),Y.toString());if(!/^[\d\s+\-*/().]+$/.test(z.replace(/\s/g,"")))throw new Error("Invalid characters in formula");const m=new Function("return "+z)();return typeof m=="number"&&isFinite(m)?m:0}catch(z){return console.error("Formula evaluation error:",z),0}},validateFormula=(r,R)=>{try{for(const U of R)if(!r.includes(U))return!1;const z={};R.forEach(U=>z[U]=100);const m=evaluateFormula(r,z);return!isNaN(m)&&isFinite(m)}catch{return!1}},App=()=>{const[activeTab,setActiveTab]=reactExports.useState("without"),[copiedId,setCopiedId]=reactExports.useState(null),[isDarkMode,setIsDarkMode]=reactExports.useState(!1),[palette,setPalette]=reactExports.useState("classic"),[isMenuOpen,setIsMenuOpen]=reactExports.useState(!1),[isLoading,setIsLoading]=reactExports.useState(!1),menuRef=reactExports.useRef(null),[showPasswordPrompt,setShowPasswordPrompt]=reactExports.useState(!1),[adminPassword,setAdminPassword]=reactExports.useState(""),[showAdminPanel,setShowAdminPanel]=reactExports.useState(!1),[adminTab,setAdminTab]=reactExports.useState("logic"),[adminSettings,setAdminSettings]=reactExports.useState(()=>{const r=localStorage.getItem("teu_admin_settings");return r?JSON.parse(r):DEFAULT_SETTINGS}),[tempSettings,setTempSettings]=reactExports.useState(adminSettings),[calcDisplay,setCalcDisplay]=reactExports.useState("0"),[calcExpression,setCalcExpression]=reactExports.useState(""),[calcMemory,setCalcMemory]=reactExports.useState(null),[calcHistory,setCalcHistory]=reactExports.useState([]),COLORS=PALETTES[palette],[invoiceWithoutPga,setInvoiceWithoutPga]=reactExports.useState(""),[dutiesWithoutPga,setDutiesWithoutPga]=reactExports.useState(""),[buyInvoiceWithoutPga,setBuyInvoiceWithoutPga]=reactExports.useState(""),[buyInvoiceWithPga,setBuyInvoiceWithPga]=reactExports.useState(""),[sellInvoiceWithoutPga,setSellInvoiceWithoutPga]=reactExports.useState(""),[sellInvoiceWithPga,setSellInvoiceWithPga]=reactExports.useState(""),withoutPgaAmount=reactExports.useMemo(()=>{const r=parseFloat(invoiceWithoutPga)||0,R=parseFloat(dutiesWithoutPga)||0;return(r+R).toString()},[invoiceWithoutPga,dutiesWithoutPga]),withPgaBuyBondValue=reactExports.useMemo(()=>{const r=parseFloat(buyInvoiceWithPga)||0,R=parseFloat(buyInvoiceWithoutPga)||0;return(r*adminSettings.pgaMultiplier+R).toString()},[buyInvoiceWithPga,buyInvoiceWithoutPga,adminSettings.pgaMultiplier]),withPgaSellBondValue=reactExports.useMemo(()=>{const r=parseFloat(sellInvoiceWithPga)||0,R=parseFloat(sellInvoiceWithoutPga)||0;return(r*adminSettings.pgaMultiplier+R).toString()},[sellInvoiceWithPga,sellInvoiceWithoutPga,adminSettings.pgaMultiplier]);reactExports.useEffect(()=>{isDarkMode?document.documentElement.classList.add("dark"):document.documentElement.classList.remove("dark")},[isDarkMode]),reactExports.useEffect(()=>{const r=R=>{menuRef.current&&!menuRef.current.contains(R.target)&&setIsMenuOpen(!1)};return document.addEventListener("mousedown",r),()=>document.removeEventListener("mousedown",r)},[]);const triggerLoading=()=>{setIsLoading(!0),setTimeout(()=>setIsLoading(!1),700)},handleInputChange=(r,R)=>{r(R),triggerLoading()},handleClear=()=>{setInvoiceWithoutPga(""),setDutiesWithoutPga(""),setBuyInvoiceWithoutPga(""),setBuyInvoiceWithPga(""),setSellInvoiceWithoutPga(""),setSellInvoiceWithPga(""),triggerLoading()},handleCopy=(r,R)=>{navigator.clipboard.writeText(`$${r}`),setCopiedId(R),setTimeout(()=>setCopiedId(null),2e3)},withoutPgaResults=reactExports.useMemo(()=>{const r=parseFloat(withoutPgaAmount)||0,R=r*adminSettings.sellRatePercent/100,z=r>0&&R<adminSettings.minBilling;return{buy:(r*adminSettings.buyRateMultiplier/1e3).toFixed(6),sell:R.toFixed(6),isBelowMin:z,sellWarning:z?`Note: A minimum billing of $${adminSettings.minBilling.toFixed(2)} usually applies.`:null}},[withoutPgaAmount,adminSettings]),withPgaBuyResults=reactExports.useMemo(()=>({buy:((parseFloat(withPgaBuyBondValue)||0)*adminSettings.buyRateMultiplier/1e3).toFixed(6)}),[withPgaBuyBondValue,adminSettings]),withPgaSellResults=reactExports.useMemo(()=>{const r=parseFloat(withPgaSellBondValue)||0,R=r*adminSettings.sellRatePercent/100,z=r>0&&R<adminSettings.minBilling;return{sell:R.toFixed(6),isBelowMin:z,sellWarning:z?`Note: A minimum billing of $${adminSettings.minBilling.toFixed(2)} usually applies.`:null}},[withPgaSellBondValue,adminSettings]),testResults=reactExports.useMemo(()=>{const R=(1e4*tempSettings.buyRateMultiplier/1e3).toFixed(6),z=1e4*tempSettings.sellRatePercent/100,m=Math.max(tempSettings.minBilling,z).toFixed(6);return{buy:R,sell:m}},[tempSettings]),handleCalcBtn=val=>{if(val==="C")setCalcDisplay("0"),setCalcExpression("");else if(val==="Backspace")setCalcDisplay(r=>r.length>1?r.slice(0,-1):"0"),setCalcExpression(r=>r.slice(0,-1));else if(val==="MC")setCalcMemory(null);else if(val==="MR")calcMemory!==null&&(setCalcDisplay(String(calcMemory)),setCalcExpression(String(calcMemory)));else if(val==="MS"){const r=parseFloat(calcDisplay);isNaN(r)||setCalcMemory(r)}else if(val==="M+"){const r=parseFloat(calcDisplay);isNaN(r)||setCalcMemory(R=>R!==null?R+r:r)}else if(val===".")(calcExpression.split(/[+\-×÷*/]/).pop()||"").includes(".")||(setCalcDisplay(R=>R==="0"||R==="Error"?"0.":R+"."),setCalcExpression(R=>R===""?"0.":R+"."));else if(val==="=")try{const cleanExpr=calcExpression.replace(/×/g,"*").replace(/÷/g,"/");if(/[^0-9+\-*/.]/.test(cleanExpr))throw new Error;const result=eval(cleanExpr),roundedResult=Number.isInteger(result)?result:parseFloat(result.toFixed(8));setCalcDisplay(String(roundedResult)),setCalcExpression(String(roundedResult))}catch{setCalcDisplay("Error"),setCalcExpression("")}else{const r=["+","-","×","÷"].includes(val);calcDisplay==="0"&&!r?(setCalcDisplay(val),setCalcExpression(val)):(setCalcDisplay(R=>R==="Error"?val:R+val),setCalcExpression(R=>R+val))}},checkPassword=()=>{adminPassword==="332"?(setAdminPassword(""),setShowPasswordPrompt(!1),setShowAdminPanel(!0),setTempSettings(adminSettings)):(alert("Unauthorized access attempt logged."),setAdminPassword(""))},saveSettings=()=>{const r=[{formula:tempSettings.standardBuyFormula,vars:["invoice_value","duties"],name:"Standard Buy Formula"},{formula:tempSettings.standardSellFormula,vars:["invoice_value","duties"],name:"Standard Sell Formula"},{formula:tempSettings.pgaBuyFormula,vars:["invoice_value_with_pga","invoice_value_without_pga"],name:"PGA Buy Formula"},{formula:tempSettings.pgaSellFormula,vars:["invoice_value_with_pga","invoice_value_without_pga"],name:"PGA Sell Formula"}];for(const{formula:R,vars:z,name:m}of r)if(!validateFormula(R,z)){alert(`Invalid ${m}. Please check the formula syntax and ensure all required variables are included.`);return}setAdminSettings(tempSettings),localStorage.setItem("teu_admin_settings",JSON.stringify(tempSettings)),setShowAdminPanel(!1),triggerLoading()},resetToDefault=()=>{confirm("Reset all formulas, parameters, and branding to factory defaults?")&&setTempSettings(DEFAULT_SETTINGS)};reactExports.useEffect(()=>{const r=R=>{if(R.target instanceof HTMLInputElement)return;const z=R.key;/[0-9]/.test(z)?handleCalcBtn(z):z==="+"?handleCalcBtn("+"):z==="-"?handleCalcBtn("-"):z==="*"?handleCalcBtn("×"):z==="/"?handleCalcBtn("÷"):z==="Enter"||z==="="?(R.preventDefault(),handleCalcBtn("=")):z.toLowerCase()==="c"||z==="Escape"?handleCalcBtn("C"):z==="Backspace"&&handleCalcBtn("Backspace")};return window.addEventListener("keydown",r),()=>window.removeEventListener("keydown",r)},[calcExpression,calcDisplay]);const getInputClassName=r=>`
-    w-full rounded-2xl shadow-2xl border-b border-r border-purple-600 dark:border-orange-400 py-3 px-4 text-xl outline- transition-all duration-300 font-bold
-    bg-white dark:bg-slate-800 dark:text-white border-b border-r border-blue-500 dark:border-orange-700
-    hover:border-orange-400 dark:hover:border-blue-600 hover:shadow-lg
-    ${r?"focus:border-[var(--brand-primary)] focus:shadow-lg focus:shadow-[var(--brand-primary)]/20":"focus:border-[var(--brand-accent)] focus:shadow-lg focus:shadow-[var(--brand-accent)]/20"}
-  `;return jsxRuntimeExports.jsxs("div",{className:"min-h-screen pb-12 bg-light-bg dark:bg-dark-bg transition-colors duration-300",style:{"--brand-primary":COLORS.primary,"--brand-accent":COLORS.accent},children:[jsxRuntimeExports.jsx("header",{className:"bg-white dark:bg-slate-800 shadow-md py-4 px-6 border-b-4 border-[var(--brand-primary)] sticky top-0 z-50",children:jsxRuntimeExports.jsxs("div",{className:"max-w-7xl mx-auto flex flex-col md:flex-row items-center justify-between gap-6",children:[jsxRuntimeExports.jsxs("div",{className:"flex flex-col md:flex-row items-center gap-6",children:[jsxRuntimeExports.jsx("div",{className:"bg-white p-2 rounded-xl shadow-inner border-b border-r border-blue-600 flex items-center justify-center min-w-[120px] max-w-[200px] overflow-hidden",children:jsxRuntimeExports.jsx("img",{src:adminSettings.logo,alt:"Brand Logo",className:"h-10 md:h-14 w-auto object-contain transition-transform hover:scale-105",onError:r=>{r.target.src="https://placehold.co/200x80/004B8D/FFFFFF?text=Brand+Logo"}})}),jsxRuntimeExports.jsxs("div",{className:"flex flex-col items-center md:items-start",children:[jsxRuntimeExports.jsxs("div",{className:"flex flex-col sm:flex-row items-center gap-2",children:[jsxRuntimeExports.jsx("h1",{className:"text-xl md:text-3xl font-black",style:{color:COLORS.accent},children:"TRADE EXPEDITORS USA, INC."}),jsxRuntimeExports.jsx("h1",{className:"text-xl md:text-3xl font-black",style:{color:COLORS.primary},children:"DBA TEU GLOBAL"})]}),jsxRuntimeExports.jsx("h2",{className:"text-[10px] md:text-xs font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.3em] mt-1",children:"Professional Bond Calculation Engine"})]})]}),jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-3 relative",ref:menuRef,children:[jsxRuntimeExports.jsx("button",{onClick:()=>setShowPasswordPrompt(!0),className:"p-3 rounded-full bg-slate-50 dark:bg-slate-700 text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:scale-110 transition-all border border-slate-200 dark:border-slate-600 shadow-sm",title:"Admin Settings",children:jsxRuntimeExports.jsx(Lock,{size:20})}),jsxRuntimeExports.jsx("button",{onClick:()=>setIsDarkMode(!isDarkMode),className:"p-3 rounded-full bg-slate-50 dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-b border-r border-slate-200 dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-600 hover:scale-110 transition-all shadow-sm",children:isDarkMode?jsxRuntimeExports.jsx(Sun,{size:22}):jsxRuntimeExports.jsx(Moon,{size:22})}),jsxRuntimeExports.jsxs("div",{className:"relative",children:[jsxRuntimeExports.jsxs("button",{onClick:()=>setIsMenuOpen(!isMenuOpen),className:"flex items-center gap-2 bg-slate-50 dark:bg-slate-700 p-3 px-6 rounded-full font-black text-slate-600 dark:text-slate-300 border-b border-r border-slate-200 dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-600 hover:scale-105 transition-all shadow-sm",children:[jsxRuntimeExports.jsx(Palette,{size:20}),jsxRuntimeExports.jsx("span",{className:"hidden sm:inline",children:"Palette"}),jsxRuntimeExports.jsx(ChevronDown,{size:18,className:`transition-transform duration-300 ${isMenuOpen?"rotate-180":""}`})]}),isMenuOpen&&jsxRuntimeExports.jsxs("div",{className:"absolute right-0 mt-3 w-64 bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border-b border-r border-blue-400 dark:border-orange-600 z-[100] overflow-hidden",children:[jsxRuntimeExports.jsx("div",{className:"p-4 bg-slate-50 dark:bg-slate-900 border-b border-blue-400 dark:border-orange-500 text-[10px] font-black uppercase text-slate-400",children:"Branding Schemes"}),jsxRuntimeExports.jsx("div",{className:"p-2 space-y-1",children:Object.keys(PALETTES).map(r=>jsxRuntimeExports.jsxs("button",{onClick:()=>{setPalette(r),setIsMenuOpen(!1),triggerLoading()},className:`w-full px-4 py-3 flex items-center gap-4 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-xl transition-all ${palette===r?"bg-slate-100 dark:bg-slate-700":""}`,children:[jsxRuntimeExports.jsxs("div",{className:"flex -space-x-1",children:[jsxRuntimeExports.jsx("div",{className:"w-5 h-5 rounded-full border-b border-r border-orange-400 dark:border-blue-500 shadow-sm",style:{backgroundColor:PALETTES[r].primary}}),jsxRuntimeExports.jsx("div",{className:"w-5 h-5 rounded-full border-b border-r border-orange-400 dark:border-blue-500 shadow-sm",style:{backgroundColor:PALETTES[r].accent}})]}),jsxRuntimeExports.jsx("span",{className:"text-sm font-bold",children:PALETTES[r].name}),palette===r&&jsxRuntimeExports.jsx(Check,{size:16,className:"ml-auto text-[var(--brand-primary)]"})]},r))})]})]})]})]})}),showAdminPanel&&jsxRuntimeExports.jsx("div",{className:"fixed inset-0 z-[110] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl animate-in fade-in duration-300",children:jsxRuntimeExports.jsxs("div",{className:"bg-white dark:bg-slate-800 w-full max-w-6xl rounded-[2rem] shadow-[0_0_150px_-30px_rgba(0,0,0,0.8)] border border-slate-200/50 dark:border-slate-700/50 overflow-hidden animate-in slide-in-from-bottom-8 zoom-in-98 duration-500 flex flex-col h-[90vh] relative",children:[jsxRuntimeExports.jsx("div",{className:"absolute inset-0 bg-gradient-to-br from-blue-50/30 via-transparent to-purple-50/30 dark:from-blue-900/10 dark:to-purple-900/10 pointer-events-none"}),jsxRuntimeExports.jsxs("div",{className:"relative flex items-center justify-between p-8 bg-gradient-to-r from-slate-50 via-white to-slate-50 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900 border-b border-slate-200/60 dark:border-slate-700/60 backdrop-blur-sm",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-6",children:[jsxRuntimeExports.jsxs("div",{className:"relative",children:[jsxRuntimeExports.jsx("div",{className:"p-5 bg-gradient-to-br from-blue-600 to-blue-700 rounded-3xl text-white shadow-2xl shadow-blue-500/30 animate-in zoom-in-50 duration-700",children:jsxRuntimeExports.jsx(Settings,{size:36})}),jsxRuntimeExports.jsx("div",{className:"absolute -top-1 -right-1 w-4 h-4 bg-green-500 rounded-full border-2 border-white dark:border-slate-800 animate-pulse"})]}),jsxRuntimeExports.jsxs("div",{className:"animate-in slide-in-from-left-4 duration-500",children:[jsxRuntimeExports.jsx("h3",{className:"text-4xl font-black tracking-tight uppercase bg-gradient-to-r from-slate-900 to-slate-700 dark:from-white dark:to-slate-300 bg-clip-text text-transparent",children:"Control Center"}),jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-3 mt-2",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-2",children:[jsxRuntimeExports.jsx(Activity,{size:14,className:"text-blue-600 animate-pulse"}),jsxRuntimeExports.jsx("span",{className:"text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest",children:"System Architecture"})]}),jsxRuntimeExports.jsx("div",{className:"w-1.5 h-1.5 bg-slate-300 dark:bg-slate-600 rounded-full"}),jsxRuntimeExports.jsx("span",{className:"text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest",children:"Brand DNA"})]})]})]}),jsxRuntimeExports.jsx("button",{onClick:()=>setShowAdminPanel(!1),className:"p-4 rounded-2xl hover:bg-slate-100 dark:hover:bg-slate-700 transition-all duration-200 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 hover:scale-110 group",children:jsxRuntimeExports.jsx(X,{size:28,className:"group-hover:rotate-90 transition-transform duration-200"})})]}),jsxRuntimeExports.jsxs("div",{className:"flex-1 flex overflow-hidden",children:[jsxRuntimeExports.jsxs("div",{className:"w-72 border-r border-slate-200/60 dark:border-slate-700/60 bg-gradient-to-b from-slate-50/80 to-white/80 dark:from-slate-900/80 dark:to-slate-800/80 backdrop-blur-sm p-8 space-y-3 relative",children:[jsxRuntimeExports.jsx("div",{className:`absolute left-0 top-0 w-1 h-20 bg-gradient-to-b from-blue-600 to-blue-700 rounded-r-full transition-all duration-300 ${adminTab==="identity"?"translate-y-8":"translate-y-28"}`}),jsxRuntimeExports.jsxs("button",{onClick:()=>setAdminTab("identity"),className:`w-full flex items-center gap-4 px-6 py-5 rounded-3xl font-black text-sm tracking-wide transition-all duration-300 group relative overflow-hidden ${adminTab==="identity"?"bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-xl shadow-blue-500/30 scale-105":"text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-white/60 dark:hover:bg-slate-800/60 hover:shadow-md"}`,children:[jsxRuntimeExports.jsx("div",{className:`p-2 rounded-xl transition-all duration-300 ${adminTab==="identity"?"bg-white/20":"bg-slate-100 dark:bg-slate-700 group-hover:bg-slate-200 dark:group-hover:bg-slate-600"}`,children:jsxRuntimeExports.jsx(PanelsTopLeft,{size:20})}),jsxRuntimeExports.jsxs("div",{className:"text-left",children:[jsxRuntimeExports.jsx("div",{className:"font-black",children:"BRAND IDENTITY"}),jsxRuntimeExports.jsx("div",{className:`text-xs font-bold uppercase tracking-wider transition-all ${adminTab==="identity"?"text-blue-100":"text-slate-400 dark:text-slate-500"}`,children:"Visual Assets"})]}),adminTab==="identity"&&jsxRuntimeExports.jsx("div",{className:"ml-auto",children:jsxRuntimeExports.jsx(Check,{size:18,className:"text-white animate-in zoom-in duration-200"})})]}),jsxRuntimeExports.jsxs("button",{onClick:()=>setAdminTab("logic"),className:`w-full flex items-center gap-4 px-6 py-5 rounded-3xl font-black text-sm tracking-wide transition-all duration-300 group relative overflow-hidden ${adminTab==="logic"?"bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-xl shadow-blue-500/30 scale-105":"text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-white/60 dark:hover:bg-slate-800/60 hover:shadow-md"}`,children:[jsxRuntimeExports.jsx("div",{className:`p-2 rounded-xl transition-all duration-300 ${adminTab==="logic"?"bg-white/20":"bg-slate-100 dark:bg-slate-700 group-hover:bg-slate-200 dark:group-hover:bg-slate-600"}`,children:jsxRuntimeExports.jsx(CodeXml,{size:20})}),jsxRuntimeExports.jsxs("div",{className:"text-left",children:[jsxRuntimeExports.jsx("div",{className:"font-black",children:"ENGINE LOGIC"}),jsxRuntimeExports.jsx("div",{className:`text-xs font-bold uppercase tracking-wider transition-all ${adminTab==="logic"?"text-blue-100":"text-slate-400 dark:text-slate-500"}`,children:"Calculation Rules"})]}),adminTab==="logic"&&jsxRuntimeExports.jsx("div",{className:"ml-auto",children:jsxRuntimeExports.jsx(Check,{size:18,className:"text-white animate-in zoom-in duration-200"})})]})]}),jsxRuntimeExports.jsx("div",{className:"flex-1 overflow-y-auto p-10 space-y-12 custom-scrollbar",children:adminTab==="identity"?jsxRuntimeExports.jsx("div",{className:"space-y-10",children:jsxRuntimeExports.jsxs("section",{className:"animate-in slide-in-from-left-4 duration-500",children:[jsxRuntimeExports.jsxs("h4",{className:"text-sm font-black uppercase text-blue-600 tracking-widest mb-8 flex items-center gap-3",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl",children:jsxRuntimeExports.jsx(User,{size:16,className:"text-blue-600"})}),jsxRuntimeExports.jsx("span",{children:"Core Branding Assets"})]}),jsxRuntimeExports.jsxs("div",{className:"p-12 bg-gradient-to-br from-slate-50 to-white dark:from-slate-900 dark:to-slate-800 rounded-3xl border border-slate-200/60 dark:border-slate-700/60 flex flex-col lg:flex-row items-center gap-12 shadow-2xl relative overflow-hidden",children:[jsxRuntimeExports.jsx("div",{className:"absolute inset-0 bg-gradient-to-br from-blue-50/30 to-transparent dark:from-blue-900/10 dark:to-transparent"}),jsxRuntimeExports.jsxs("div",{className:"relative w-56 h-56 rounded-3xl bg-gradient-to-br from-white to-slate-100 dark:from-slate-800 dark:to-slate-700 border-4 border-white dark:border-slate-600 shadow-2xl flex items-center justify-center overflow-hidden shrink-0 group",children:[jsxRuntimeExports.jsx("img",{src:tempSettings.logo,className:"max-w-full max-h-full object-contain p-6 transition-all duration-300 group-hover:scale-110",alt:"Branding",onError:r=>{r.target.src="https://placehold.co/200x200/004B8D/FFFFFF?text=Brand+Logo"}}),jsxRuntimeExports.jsxs("div",{className:"absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-all duration-300 flex flex-col items-center justify-center text-white p-6 text-center",children:[jsxRuntimeExports.jsx("div",{className:"p-3 bg-white/20 backdrop-blur-sm rounded-2xl mb-3",children:jsxRuntimeExports.jsx(User,{size:24,className:"text-white"})}),jsxRuntimeExports.jsx("span",{className:"text-sm font-black uppercase tracking-widest",children:"Master Asset"}),jsxRuntimeExports.jsx("span",{className:"text-xs opacity-80 mt-1",children:"TEU Global Brand"})]})]}),jsxRuntimeExports.jsxs("div",{className:"flex-1 space-y-8 text-center lg:text-left",children:[jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("h5",{className:"text-2xl font-black text-slate-900 dark:text-white mb-3",children:"Primary Application Logo"}),jsxRuntimeExports.jsxs("p",{className:"text-slate-600 dark:text-slate-400 font-medium leading-relaxed text-lg",children:["The logo is fixed to ",jsxRuntimeExports.jsx("code",{className:"bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded font-mono text-sm",children:"logo.png"})," and cannot be changed through this interface."]})]}),jsxRuntimeExports.jsx("div",{className:"flex items-center justify-center lg:justify-start gap-4",children:jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400",children:[jsxRuntimeExports.jsx("div",{className:"w-2 h-2 bg-green-500 rounded-full animate-pulse"}),jsxRuntimeExports.jsx("span",{className:"font-medium",children:"Asset Status: Active"})]})})]})]})]})}):jsxRuntimeExports.jsx("div",{className:"space-y-12",children:jsxRuntimeExports.jsxs("section",{children:[jsxRuntimeExports.jsxs("h4",{className:"text-xs font-black uppercase text-blue-600 tracking-widest mb-8 flex items-center gap-2",children:[jsxRuntimeExports.jsx(Activity,{size:14})," Formula Studio"]}),jsxRuntimeExports.jsxs("div",{className:"grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12",children:[jsxRuntimeExports.jsxs("div",{className:"relative overflow-hidden",children:[jsxRuntimeExports.jsx("div",{className:"absolute inset-0 bg-gradient-to-br from-blue-600/10 to-blue-800/10 rounded-3xl"}),jsxRuntimeExports.jsxs("div",{className:"relative p-8 bg-gradient-to-br from-slate-900 to-slate-800 rounded-3xl border border-blue-500/20 shadow-2xl",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-3 mb-6",children:[jsxRuntimeExports.jsx("div",{className:"p-3 bg-blue-600 rounded-2xl",children:jsxRuntimeExports.jsx(Calculator,{size:20,className:"text-white"})}),jsxRuntimeExports.jsx("span",{className:"text-sm font-black text-blue-400 uppercase tracking-widest",children:"Standard Entry Buy Formula"})]}),jsxRuntimeExports.jsx("div",{className:"font-mono text-base text-white/90 leading-relaxed bg-gradient-to-r from-black/60 to-black/40 p-6 rounded-2xl border border-white/10 shadow-inner",children:jsxRuntimeExports.jsx("div",{className:"text-blue-300 font-bold mb-2",children:tempSettings.standardBuyFormula})}),jsxRuntimeExports.jsxs("div",{className:"mt-4 flex items-center gap-2 text-xs text-blue-300",children:[jsxRuntimeExports.jsx(Activity,{size:12,className:"animate-pulse"}),jsxRuntimeExports.jsx("span",{children:"Real-time calculation engine"})]})]})]}),jsxRuntimeExports.jsxs("div",{className:"relative overflow-hidden",children:[jsxRuntimeExports.jsx("div",{className:"absolute inset-0 bg-gradient-to-br from-orange-600/10 to-orange-800/10 rounded-3xl"}),jsxRuntimeExports.jsxs("div",{className:"relative p-8 bg-gradient-to-br from-slate-900 to-slate-800 rounded-3xl border border-orange-500/20 shadow-2xl",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-3 mb-6",children:[jsxRuntimeExports.jsx("div",{className:"p-3 bg-orange-600 rounded-2xl",children:jsxRuntimeExports.jsx(DollarSign,{size:20,className:"text-white"})}),jsxRuntimeExports.jsx("span",{className:"text-sm font-black text-orange-400 uppercase tracking-widest",children:"Standard Entry Sell Formula"})]}),jsxRuntimeExports.jsx("div",{className:"font-mono text-base text-white/90 leading-relaxed bg-gradient-to-r from-black/60 to-black/40 p-6 rounded-2xl border border-white/10 shadow-inner",children:jsxRuntimeExports.jsx("div",{className:"text-orange-300 font-bold mb-2",children:tempSettings.standardSellFormula})}),jsxRuntimeExports.jsxs("div",{className:"mt-4 flex items-center gap-2 text-xs text-orange-300",children:[jsxRuntimeExports.jsx(Activity,{size:12,className:"animate-pulse"}),jsxRuntimeExports.jsx("span",{children:"Advanced fee calculation"})]})]})]})]}),jsxRuntimeExports.jsxs("div",{className:"grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12",children:[jsxRuntimeExports.jsxs("div",{className:"relative overflow-hidden",children:[jsxRuntimeExports.jsx("div",{className:"absolute inset-0 bg-gradient-to-br from-green-600/10 to-green-800/10 rounded-3xl"}),jsxRuntimeExports.jsxs("div",{className:"relative p-8 bg-gradient-to-br from-slate-900 to-slate-800 rounded-3xl border border-green-500/20 shadow-2xl",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-3 mb-6",children:[jsxRuntimeExports.jsx("div",{className:"p-3 bg-green-600 rounded-2xl",children:jsxRuntimeExports.jsx(Calculator,{size:20,className:"text-white"})}),jsxRuntimeExports.jsx("span",{className:"text-sm font-black text-green-400 uppercase tracking-widest",children:"PGA Buy Formula"})]}),jsxRuntimeExports.jsx("div",{className:"font-mono text-base text-white/90 leading-relaxed bg-gradient-to-r from-black/60 to-black/40 p-6 rounded-2xl border border-white/10 shadow-inner",children:jsxRuntimeExports.jsx("div",{className:"text-green-300 font-bold mb-2",children:tempSettings.pgaBuyFormula})}),jsxRuntimeExports.jsxs("div",{className:"mt-4 flex items-center gap-2 text-xs text-green-300",children:[jsxRuntimeExports.jsx(Activity,{size:12,className:"animate-pulse"}),jsxRuntimeExports.jsx("span",{children:"PGA calculation engine"})]})]})]}),jsxRuntimeExports.jsxs("div",{className:"relative overflow-hidden",children:[jsxRuntimeExports.jsx("div",{className:"absolute inset-0 bg-gradient-to-br from-purple-600/10 to-purple-800/10 rounded-3xl"}),jsxRuntimeExports.jsxs("div",{className:"relative p-8 bg-gradient-to-br from-slate-900 to-slate-800 rounded-3xl border border-purple-500/20 shadow-2xl",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-3 mb-6",children:[jsxRuntimeExports.jsx("div",{className:"p-3 bg-purple-600 rounded-2xl",children:jsxRuntimeExports.jsx(DollarSign,{size:20,className:"text-white"})}),jsxRuntimeExports.jsx("span",{className:"text-sm font-black text-purple-400 uppercase tracking-widest",children:"PGA Sell Formula"})]}),jsxRuntimeExports.jsx("div",{className:"font-mono text-base text-white/90 leading-relaxed bg-gradient-to-r from-black/60 to-black/40 p-6 rounded-2xl border border-white/10 shadow-inner",children:jsxRuntimeExports.jsx("div",{className:"text-purple-300 font-bold mb-2",children:tempSettings.pgaSellFormula})}),jsxRuntimeExports.jsxs("div",{className:"mt-4 flex items-center gap-2 text-xs text-purple-300",children:[jsxRuntimeExports.jsx(Activity,{size:12,className:"animate-pulse"}),jsxRuntimeExports.jsx("span",{children:"PGA fee calculation"})]})]})]})]}),jsxRuntimeExports.jsxs("div",{className:"grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12",children:[jsxRuntimeExports.jsxs("div",{className:"space-y-6",children:[jsxRuntimeExports.jsxs("label",{className:"text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl",children:jsxRuntimeExports.jsx(Calculator,{size:16,className:"text-blue-600"})}),jsxRuntimeExports.jsx("span",{children:"Standard Entry Buy Formula"})]}),jsxRuntimeExports.jsx("div",{className:"relative group",children:jsxRuntimeExports.jsx("textarea",{value:tempSettings.standardBuyFormula,onChange:r=>setTempSettings({...tempSettings,standardBuyFormula:r.target.value}),className:"w-full bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-3xl py-6 px-8 font-mono text-lg outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 transition-all duration-300 shadow-lg hover:shadow-xl text-slate-900 dark:text-white resize-none",rows:2,placeholder:"Enter formula using invoice_value and duties"})})]}),jsxRuntimeExports.jsxs("div",{className:"space-y-6",children:[jsxRuntimeExports.jsxs("label",{className:"text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-orange-100 dark:bg-orange-900/30 rounded-xl",children:jsxRuntimeExports.jsx(DollarSign,{size:16,className:"text-orange-600"})}),jsxRuntimeExports.jsx("span",{children:"Standard Entry Sell Formula"})]}),jsxRuntimeExports.jsx("div",{className:"relative group",children:jsxRuntimeExports.jsx("textarea",{value:tempSettings.standardSellFormula,onChange:r=>setTempSettings({...tempSettings,standardSellFormula:r.target.value}),className:"w-full bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-3xl py-6 px-8 font-mono text-lg outline-none focus:border-orange-500 focus:ring-4 focus:ring-orange-500/10 transition-all duration-300 shadow-lg hover:shadow-xl text-slate-900 dark:text-white resize-none",rows:2,placeholder:"Enter formula using invoice_value and duties"})})]}),jsxRuntimeExports.jsxs("div",{className:"space-y-6",children:[jsxRuntimeExports.jsxs("label",{className:"text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-green-100 dark:bg-green-900/30 rounded-xl",children:jsxRuntimeExports.jsx(Calculator,{size:16,className:"text-green-600"})}),jsxRuntimeExports.jsx("span",{children:"PGA Buy Formula"})]}),jsxRuntimeExports.jsx("div",{className:"relative group",children:jsxRuntimeExports.jsx("textarea",{value:tempSettings.pgaBuyFormula,onChange:r=>setTempSettings({...tempSettings,pgaBuyFormula:r.target.value}),className:"w-full bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-3xl py-6 px-8 font-mono text-lg outline-none focus:border-green-500 focus:ring-4 focus:ring-green-500/10 transition-all duration-300 shadow-lg hover:shadow-xl text-slate-900 dark:text-white resize-none",rows:2,placeholder:"Enter formula using invoice_value_with_pga and invoice_value_without_pga"})})]}),jsxRuntimeExports.jsxs("div",{className:"space-y-6",children:[jsxRuntimeExports.jsxs("label",{className:"text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-purple-100 dark:bg-purple-900/30 rounded-xl",children:jsxRuntimeExports.jsx(DollarSign,{size:16,className:"text-purple-600"})}),jsxRuntimeExports.jsx("span",{children:"PGA Sell Formula"})]}),jsxRuntimeExports.jsx("div",{className:"relative group",children:jsxRuntimeExports.jsx("textarea",{value:tempSettings.pgaSellFormula,onChange:r=>setTempSettings({...tempSettings,pgaSellFormula:r.target.value}),className:"w-full bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-3xl py-6 px-8 font-mono text-lg outline-none focus:border-purple-500 focus:ring-4 focus:ring-purple-500/10 transition-all duration-300 shadow-lg hover:shadow-xl text-slate-900 dark:text-white resize-none",rows:2,placeholder:"Enter formula using invoice_value_with_pga and invoice_value_without_pga"})})]})]}),jsxRuntimeExports.jsxs("div",{className:"grid grid-cols-1 md:grid-cols-2 gap-8",children:[jsxRuntimeExports.jsxs("div",{className:"space-y-6",children:[jsxRuntimeExports.jsxs("label",{className:"text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl",children:jsxRuntimeExports.jsx(DollarSign,{size:16,className:"text-blue-600"})}),jsxRuntimeExports.jsx("span",{children:"Minimum Entry Bill"})]}),jsxRuntimeExports.jsxs("div",{className:"relative group",children:[jsxRuntimeExports.jsx("input",{type:"number",step:"1",value:tempSettings.minBilling,onChange:r=>setTempSettings({...tempSettings,minBilling:parseFloat(r.target.value)||0}),className:"w-full bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-3xl py-6 px-8 font-black text-3xl outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 transition-all duration-300 shadow-lg hover:shadow-xl text-slate-900 dark:text-white"}),jsxRuntimeExports.jsx("div",{className:"absolute right-6 top-1/2 -translate-y-1/2 text-slate-400 dark:text-slate-500 font-black text-lg",children:"$ USD"})]})]}),jsxRuntimeExports.jsxs("div",{className:"space-y-6",children:[jsxRuntimeExports.jsxs("label",{className:"text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-green-100 dark:bg-green-900/30 rounded-xl",children:jsxRuntimeExports.jsx(Activity,{size:16,className:"text-green-600"})}),jsxRuntimeExports.jsx("span",{children:"Sell Percentage"})]}),jsxRuntimeExports.jsxs("div",{className:"relative group",children:[jsxRuntimeExports.jsx("input",{type:"number",step:"0.01",value:tempSettings.sellRatePercent,onChange:r=>setTempSettings({...tempSettings,sellRatePercent:parseFloat(r.target.value)||0}),className:"w-full bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-3xl py-6 px-8 font-black text-3xl outline-none focus:border-green-500 focus:ring-4 focus:ring-green-500/10 transition-all duration-300 shadow-lg hover:shadow-xl text-slate-900 dark:text-white"}),jsxRuntimeExports.jsx("div",{className:"absolute right-6 top-1/2 -translate-y-1/2 text-slate-400 dark:text-slate-500 font-black text-lg",children:"%"})]})]}),jsxRuntimeExports.jsxs("div",{className:"space-y-6",children:[jsxRuntimeExports.jsxs("label",{className:"text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-purple-100 dark:bg-purple-900/30 rounded-xl",children:jsxRuntimeExports.jsx(CodeXml,{size:16,className:"text-purple-600"})}),jsxRuntimeExports.jsx("span",{children:"Buy Index Multiplier"})]}),jsxRuntimeExports.jsx("input",{type:"number",step:"0.001",value:tempSettings.buyRateMultiplier,onChange:r=>setTempSettings({...tempSettings,buyRateMultiplier:parseFloat(r.target.value)||0}),className:"w-full bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-3xl py-6 px-8 font-black text-3xl outline-none focus:border-purple-500 focus:ring-4 focus:ring-purple-500/10 transition-all duration-300 shadow-lg hover:shadow-xl text-slate-900 dark:text-white"})]}),jsxRuntimeExports.jsxs("div",{className:"space-y-6",children:[jsxRuntimeExports.jsxs("label",{className:"text-xs font-black uppercase text-slate-600 dark:text-slate-400 tracking-widest flex items-center gap-3",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-orange-100 dark:bg-orange-900/30 rounded-xl",children:jsxRuntimeExports.jsx(Ship,{size:16,className:"text-orange-600"})}),jsxRuntimeExports.jsx("span",{children:"PGA Liability Factor"})]}),jsxRuntimeExports.jsxs("div",{className:"relative group",children:[jsxRuntimeExports.jsx("input",{type:"number",step:"1",value:tempSettings.pgaMultiplier,onChange:r=>setTempSettings({...tempSettings,pgaMultiplier:parseFloat(r.target.value)||0}),className:"w-full bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 border-2 border-slate-200 dark:border-slate-700 rounded-3xl py-6 px-8 font-black text-3xl outline-none focus:border-orange-500 focus:ring-4 focus:ring-orange-500/10 transition-all duration-300 shadow-lg hover:shadow-xl text-slate-900 dark:text-white"}),jsxRuntimeExports.jsx("div",{className:"absolute right-6 top-1/2 -translate-y-1/2 text-slate-400 dark:text-slate-500 font-black text-lg",children:"×"})]})]})]}),jsxRuntimeExports.jsxs("div",{className:"mt-12 relative overflow-hidden",children:[jsxRuntimeExports.jsx("div",{className:"absolute inset-0 bg-gradient-to-r from-blue-600 via-blue-700 to-blue-800 rounded-3xl"}),jsxRuntimeExports.jsx("div",{className:"absolute inset-0 bg-gradient-to-t from-black/20 to-transparent rounded-3xl"}),jsxRuntimeExports.jsxs("div",{className:"relative p-10 text-white",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center justify-between mb-10",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-4",children:[jsxRuntimeExports.jsx("div",{className:"p-3 bg-white/20 rounded-2xl backdrop-blur-sm",children:jsxRuntimeExports.jsx(Check,{size:24,className:"text-white"})}),jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("h5",{className:"font-black uppercase tracking-wider text-xl",children:"Live Sandbox Validation"}),jsxRuntimeExports.jsx("p",{className:"text-blue-100 text-sm font-medium",children:"Real-time calculation testing"})]})]}),jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-3",children:[jsxRuntimeExports.jsx("div",{className:"px-4 py-2 bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20",children:jsxRuntimeExports.jsx("span",{className:"text-sm font-black uppercase tracking-wider",children:"Test Entry: $10,000"})}),jsxRuntimeExports.jsx("div",{className:"w-3 h-3 bg-green-400 rounded-full animate-pulse shadow-lg shadow-green-400/50"})]})]}),jsxRuntimeExports.jsxs("div",{className:"grid grid-cols-2 gap-8",children:[jsxRuntimeExports.jsxs("div",{className:"bg-white/10 backdrop-blur-sm rounded-3xl p-8 border border-white/20 shadow-xl",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-3 mb-4",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-blue-500 rounded-xl",children:jsxRuntimeExports.jsx(Calculator,{size:16,className:"text-white"})}),jsxRuntimeExports.jsx("p",{className:"text-sm font-black uppercase opacity-80 tracking-wider",children:"Buy Output"})]}),jsxRuntimeExports.jsxs("p",{className:"text-5xl font-black text-white",children:["$",testResults.buy]}),jsxRuntimeExports.jsx("p",{className:"text-xs text-blue-100 mt-2 font-medium",children:"Bond purchase calculation"})]}),jsxRuntimeExports.jsxs("div",{className:"bg-white/10 backdrop-blur-sm rounded-3xl p-8 border border-white/20 shadow-xl",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-3 mb-4",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-green-500 rounded-xl",children:jsxRuntimeExports.jsx(DollarSign,{size:16,className:"text-white"})}),jsxRuntimeExports.jsx("p",{className:"text-sm font-black uppercase opacity-80 tracking-wider",children:"Sell Output"})]}),jsxRuntimeExports.jsxs("p",{className:"text-5xl font-black text-white",children:["$",testResults.sell]}),jsxRuntimeExports.jsx("p",{className:"text-xs text-green-100 mt-2 font-medium",children:"Final fee calculation"})]})]}),jsxRuntimeExports.jsxs("div",{className:"mt-8 flex items-center justify-center gap-2 text-sm text-blue-100",children:[jsxRuntimeExports.jsx(Activity,{size:14,className:"animate-pulse"}),jsxRuntimeExports.jsx("span",{className:"font-medium",children:"Parameters update automatically"})]})]})]})]})})})]}),jsxRuntimeExports.jsxs("div",{className:"p-8 bg-gradient-to-r from-slate-50 via-white to-slate-50 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900 border-t border-slate-200/60 dark:border-slate-700/60 flex flex-col lg:flex-row gap-6 items-center mt-auto backdrop-blur-sm",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-3 text-amber-600 dark:text-amber-400 font-bold text-sm uppercase tracking-widest order-2 lg:order-1",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-amber-100 dark:bg-amber-900/30 rounded-xl",children:jsxRuntimeExports.jsx(TriangleAlert,{size:16,className:"text-amber-600 dark:text-amber-400"})}),jsxRuntimeExports.jsx("span",{children:"Data persistence is local to this browser"})]}),jsxRuntimeExports.jsxs("div",{className:"flex flex-col sm:flex-row gap-4 w-full lg:w-auto lg:ml-auto order-1 lg:order-2",children:[jsxRuntimeExports.jsxs("button",{onClick:resetToDefault,className:"px-8 py-4 bg-gradient-to-r from-slate-200 to-slate-300 dark:from-slate-700 dark:to-slate-600 text-slate-700 dark:text-slate-300 rounded-2xl font-black uppercase tracking-widest hover:from-slate-300 hover:to-slate-400 dark:hover:from-slate-600 dark:hover:to-slate-500 transition-all active:scale-95 shadow-lg hover:shadow-xl flex items-center justify-center gap-3 text-sm border border-slate-300 dark:border-slate-600",children:[jsxRuntimeExports.jsx(RefreshCw,{size:18}),jsxRuntimeExports.jsx("span",{children:"REVERT SYSTEM"})]}),jsxRuntimeExports.jsxs("button",{onClick:saveSettings,className:"px-8 py-4 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-2xl font-black uppercase tracking-widest shadow-2xl shadow-blue-500/40 hover:shadow-blue-500/60 hover:from-blue-700 hover:to-blue-800 transition-all active:scale-95 flex items-center justify-center gap-3 text-sm",children:[jsxRuntimeExports.jsx(Save,{size:18}),jsxRuntimeExports.jsx("span",{children:"COMMIT ALL PARAMETERS"})]})]})]})]})}),showPasswordPrompt&&jsxRuntimeExports.jsx("div",{className:"fixed inset-0 z-[120] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl",children:jsxRuntimeExports.jsxs("div",{className:"bg-white dark:bg-slate-800 w-full max-w-md rounded-[3.5rem] shadow-2xl p-12 text-center animate-in fade-in slide-in-from-bottom-12 duration-500 border border-slate-100 dark:border-slate-700",children:[jsxRuntimeExports.jsx("div",{className:"w-24 h-24 bg-blue-600 rounded-[2rem] flex items-center justify-center text-white mx-auto mb-10 shadow-[0_20px_40px_-10px_rgba(37,99,235,0.4)]",children:jsxRuntimeExports.jsx(Lock,{size:48})}),jsxRuntimeExports.jsx("h3",{className:"text-3xl font-black mb-3 tracking-tighter",children:"Identity Verification"}),jsxRuntimeExports.jsx("p",{className:"text-slate-500 dark:text-slate-400 text-sm font-medium mb-12",children:"Administrative access requires high-clearance credentials."}),jsxRuntimeExports.jsx("div",{className:"relative mb-10",children:jsxRuntimeExports.jsx("input",{type:"password",autoFocus:!0,placeholder:"••••",value:adminPassword,onChange:r=>setAdminPassword(r.target.value),onKeyDown:r=>r.key==="Enter"&&checkPassword(),className:"w-full bg-slate-50 dark:bg-slate-900 border-b border-r border-transparent focus:border-blue-600 rounded-3xl py-6 px-8 text-center text-5xl font-mono tracking-[0.8em] outline-none transition-all shadow-inner placeholder:opacity-20"})}),jsxRuntimeExports.jsxs("div",{className:"flex gap-4",children:[jsxRuntimeExports.jsx("button",{onClick:()=>setShowPasswordPrompt(!1),className:"flex-1 py-5 bg-slate-100 dark:bg-slate-700 rounded-2xl font-black text-slate-500 dark:text-slate-300 transition-all active:scale-95 uppercase tracking-widest text-xs",children:"CANCEL"}),jsxRuntimeExports.jsx("button",{onClick:checkPassword,className:"flex-1 py-5 bg-blue-600 text-white rounded-2xl font-black shadow-xl shadow-blue-600/30 transition-all active:scale-95 uppercase tracking-widest text-xs",children:"VERIFY"})]})]})}),jsxRuntimeExports.jsx("main",{className:"max-w-8xl mx-auto px-4 sm:px-6 lg:px-8 mt-8 animate-in fade-in slide-in-from-bottom-4 duration-700",children:jsxRuntimeExports.jsxs("div",{className:"grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12",children:[jsxRuntimeExports.jsxs("div",{className:"space-y-6",children:[jsxRuntimeExports.jsx("div",{className:"bg-white dark:bg-slate-800 rounded-3xl p-6 shadow-lg border-b border-r border-blue-500 dark:border-orange-700",children:jsxRuntimeExports.jsxs("div",{className:"flex flex-col lg:flex-row items-center justify-between gap-6",children:[jsxRuntimeExports.jsxs("div",{className:"flex flex-col sm:flex-row items-center gap-6",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-2 p-2 bg-slate-100 dark:bg-slate-700 rounded-2xl",children:[jsxRuntimeExports.jsx("button",{onClick:()=>setActiveTab("without"),className:`px-6 py-3 rounded-xl font-bold transition-all duration-300 text-sm uppercase relative overflow-hidden
-                         ${activeTab==="without"?"bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-lg shadow-blue-500/30":"text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-200 dark:hover:bg-slate-600"}`,children:"Standard Entry"}),jsxRuntimeExports.jsx("button",{onClick:()=>setActiveTab("with"),className:`px-6 py-3 rounded-xl font-bold transition-all duration-300 text-sm uppercase relative overflow-hidden
-                         ${activeTab==="with"?"bg-gradient-to-r from-orange-600 to-orange-700 text-white shadow-lg shadow-orange-500/30":"text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-200 dark:hover:bg-slate-600"}`,children:"WITH PGA Regulation"})]}),jsxRuntimeExports.jsx("div",{className:"text-center lg:text-left",children:jsxRuntimeExports.jsxs("p",{className:"text-sm text-slate-600 dark:text-slate-400",children:["Active Mode: ",jsxRuntimeExports.jsx("span",{className:"font-bold text-slate-900 dark:text-white",children:activeTab==="without"?"Standard Entry Protocol":"PGA Regulation Logic"})]})})]}),jsxRuntimeExports.jsxs("button",{onClick:handleClear,className:"bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 px-6 py-3 rounded-xl font-bold border-b border-r border-red-500 dark:border-red-700 hover:bg-red-100 dark:hover:bg-red-900/40 hover:scale-105 transition-all shadow-sm flex items-center gap-2",children:[jsxRuntimeExports.jsx(Trash2,{size:16}),jsxRuntimeExports.jsx("span",{className:"text-sm",children:"Clear All"})]})]})}),jsxRuntimeExports.jsxs("div",{className:"grid grid-cols-1 lg:grid-cols-2 gap-6",children:[jsxRuntimeExports.jsxs("div",{className:"bg-white dark:bg-slate-800 rounded-3xl shadow-xl border-b border-r border-blue-500 dark:border-orange-700 overflow-hidden flex flex-col hover:shadow-2xl transition-all duration-300 group relative",children:[jsxRuntimeExports.jsx("div",{className:"absolute inset-0 bg-gradient-to-br from-blue-50/50 to-transparent dark:from-blue-900/10 dark:to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-3xl"}),jsxRuntimeExports.jsxs("div",{className:"py-6 px-8 flex items-center justify-between text-white relative z-10",style:{backgroundColor:COLORS.primary},children:[jsxRuntimeExports.jsx("h3",{className:"text-xl font-black uppercase tracking-wide",children:"Buy Rate Calculator"}),jsxRuntimeExports.jsx(Calculator,{className:"opacity-60",size:24})]}),jsxRuntimeExports.jsxs("div",{className:"p-6 space-y-6 flex-1 flex flex-col relative z-10",children:[activeTab==="without"?jsxRuntimeExports.jsxs(jsxRuntimeExports.Fragment,{children:[jsxRuntimeExports.jsxs("div",{className:"space-y-4",children:[jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Invoice Value ($)"}),jsxRuntimeExports.jsx("input",{type:"number",value:invoiceWithoutPga,onChange:r=>handleInputChange(setInvoiceWithoutPga,r.target.value),className:getInputClassName(!0),placeholder:"0.00"})]}),jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Duties ($)"}),jsxRuntimeExports.jsx("input",{type:"number",value:dutiesWithoutPga,onChange:r=>handleInputChange(setDutiesWithoutPga,r.target.value),className:getInputClassName(!0),placeholder:"0.00"})]})]}),jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Total Bond Value"}),jsxRuntimeExports.jsxs("div",{className:"relative",children:[jsxRuntimeExports.jsx("input",{readOnly:!0,value:withoutPgaAmount,className:`${getInputClassName(!0)} bg-slate-50 dark:bg-slate-700 opacity-75 cursor-not-allowed`}),jsxRuntimeExports.jsx("span",{className:"absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold",children:"$"})]})]})]}):jsxRuntimeExports.jsxs(jsxRuntimeExports.Fragment,{children:[jsxRuntimeExports.jsxs("div",{className:"space-y-4",children:[jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Invoice Value (Without PGA)"}),jsxRuntimeExports.jsx("input",{type:"number",value:buyInvoiceWithoutPga,onChange:r=>handleInputChange(setBuyInvoiceWithoutPga,r.target.value),className:getInputClassName(!0),placeholder:"0.00"})]}),jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Invoice Value (With PGA)"}),jsxRuntimeExports.jsx("input",{type:"number",value:buyInvoiceWithPga,onChange:r=>handleInputChange(setBuyInvoiceWithPga,r.target.value),className:getInputClassName(!1),placeholder:"0.00"})]})]}),jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Scaled Bond Value"}),jsxRuntimeExports.jsxs("div",{className:"relative",children:[jsxRuntimeExports.jsx("input",{readOnly:!0,value:withPgaBuyBondValue,className:`${getInputClassName(!0)} bg-slate-50 dark:bg-slate-700 opacity-75 cursor-not-allowed`}),jsxRuntimeExports.jsx("span",{className:"absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold",children:"$"})]})]})]}),jsxRuntimeExports.jsx("div",{className:"mt-auto pt-6 border-t border-slate-200 dark:border-slate-700",children:jsxRuntimeExports.jsxs("div",{className:"bg-gradient-to-r from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-700 rounded-2xl p-6 text-center relative overflow-hidden",children:[isLoading&&jsxRuntimeExports.jsx("div",{className:"absolute inset-0 bg-gradient-to-r from-blue-500/10 to-blue-600/10 animate-pulse rounded-2xl"}),jsxRuntimeExports.jsxs("div",{className:"relative",children:[jsxRuntimeExports.jsxs("span",{className:"text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide block mb-3 flex items-center justify-center gap-2",children:["Buy Rate Total",isLoading&&jsxRuntimeExports.jsx("div",{className:"w-2 h-2 bg-blue-500 rounded-full animate-bounce"})]}),jsxRuntimeExports.jsxs("div",{className:"flex items-center justify-center gap-3",children:[jsxRuntimeExports.jsxs("span",{className:`text-3xl font-black transition-all duration-300 ${isLoading?"blur-sm":""}`,style:{color:COLORS.primary},children:["$",activeTab==="without"?withoutPgaResults.buy:withPgaBuyResults.buy]}),jsxRuntimeExports.jsx("button",{onClick:()=>handleCopy(activeTab==="without"?withoutPgaResults.buy:withPgaBuyResults.buy,"buy"),className:"p-2 text-slate-400 hover:text-[var(--brand-primary)] hover:scale-110 transition-all rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 hover:shadow-md",disabled:isLoading,title:"Copy to clipboard",children:copiedId==="buy"?jsxRuntimeExports.jsx(Check,{size:18,className:"text-green-500 animate-in zoom-in"}):jsxRuntimeExports.jsx(Copy,{size:18})})]})]})]})})]})]}),jsxRuntimeExports.jsxs("div",{className:"bg-white dark:bg-slate-800 rounded-3xl shadow-xl border-b border-r border-blue-500 dark:border-orange-700 overflow-hidden flex flex-col hover:shadow-2xl transition-all duration-300 group relative",children:[jsxRuntimeExports.jsx("div",{className:"absolute inset-0 bg-gradient-to-br from-orange-50/50 to-transparent dark:from-orange-900/10 dark:to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-3xl"}),jsxRuntimeExports.jsxs("div",{className:"py-6 px-8 flex items-center justify-between text-white relative z-10",style:{backgroundColor:COLORS.accent},children:[jsxRuntimeExports.jsx("h3",{className:"text-xl font-black uppercase tracking-wide",children:"Sell Rate Calculator"}),jsxRuntimeExports.jsx(DollarSign,{className:"opacity-60",size:24})]}),jsxRuntimeExports.jsxs("div",{className:"p-6 space-y-6 flex-1 flex flex-col relative z-10",children:[activeTab==="without"?jsxRuntimeExports.jsxs(jsxRuntimeExports.Fragment,{children:[jsxRuntimeExports.jsxs("div",{className:"space-y-4",children:[jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Invoice Value ($)"}),jsxRuntimeExports.jsx("input",{type:"number",value:invoiceWithoutPga,onChange:r=>handleInputChange(setInvoiceWithoutPga,r.target.value),className:getInputClassName(!0),placeholder:"0.00"})]}),jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Duties ($)"}),jsxRuntimeExports.jsx("input",{type:"number",value:dutiesWithoutPga,onChange:r=>handleInputChange(setDutiesWithoutPga,r.target.value),className:getInputClassName(!0),placeholder:"0.00"})]})]}),jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Total Bond Value"}),jsxRuntimeExports.jsxs("div",{className:"relative",children:[jsxRuntimeExports.jsx("input",{readOnly:!0,value:withoutPgaAmount,className:`${getInputClassName(!0)} bg-slate-50 dark:bg-slate-700 opacity-75 cursor-not-allowed`}),jsxRuntimeExports.jsx("span",{className:"absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold",children:"$"})]})]})]}):jsxRuntimeExports.jsxs(jsxRuntimeExports.Fragment,{children:[jsxRuntimeExports.jsxs("div",{className:"space-y-4",children:[jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Invoice Value (Without PGA)"}),jsxRuntimeExports.jsx("input",{type:"number",value:sellInvoiceWithoutPga,onChange:r=>handleInputChange(setSellInvoiceWithoutPga,r.target.value),className:getInputClassName(!0),placeholder:"0.00"})]}),jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Invoice Value (With PGA)"}),jsxRuntimeExports.jsx("input",{type:"number",value:sellInvoiceWithPga,onChange:r=>handleInputChange(setSellInvoiceWithPga,r.target.value),className:getInputClassName(!1),placeholder:"0.00"})]})]}),jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("label",{className:"text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide block mb-2",children:"Scaled Bond Value"}),jsxRuntimeExports.jsxs("div",{className:"relative",children:[jsxRuntimeExports.jsx("input",{readOnly:!0,value:withPgaSellBondValue,className:`${getInputClassName(!0)} bg-slate-50 dark:bg-slate-700 opacity-75 cursor-not-allowed`}),jsxRuntimeExports.jsx("span",{className:"absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold",children:"$"})]})]})]}),jsxRuntimeExports.jsx("div",{className:"mt-auto pt-6 border-t border-slate-200 dark:border-slate-700",children:jsxRuntimeExports.jsxs("div",{className:"bg-gradient-to-r from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-700 rounded-2xl p-6 text-center relative",children:[jsxRuntimeExports.jsx("span",{className:"text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wide block mb-3",children:"Sell Rate Total"}),jsxRuntimeExports.jsxs("div",{className:"flex items-center justify-center gap-3",children:[jsxRuntimeExports.jsxs("span",{className:"text-3xl font-black",style:{color:COLORS.accent},children:["$",activeTab==="without"?withoutPgaResults.sell:withPgaSellResults.sell]}),jsxRuntimeExports.jsx("button",{onClick:()=>handleCopy(activeTab==="without"?withoutPgaResults.sell:withPgaSellResults.sell,"sell"),className:"p-2 text-slate-400 hover:text-[var(--brand-accent)] hover:scale-110 transition-all rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 hover:shadow-md",title:"Copy to clipboard",children:copiedId==="sell"?jsxRuntimeExports.jsx(Check,{size:18,className:"text-green-500 animate-in zoom-in"}):jsxRuntimeExports.jsx(Copy,{size:18})})]}),(activeTab==="without"?withoutPgaResults.sellWarning:withPgaSellResults.sellWarning)&&jsxRuntimeExports.jsxs("div",{className:"mt-3 text-xs font-bold text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 p-3 rounded-lg border-b border-r border-amber-500 dark:border-orange-700",children:["⚠️ ",activeTab==="without"?withoutPgaResults.sellWarning:withPgaSellResults.sellWarning]})]})})]})]})]})]}),jsxRuntimeExports.jsxs("div",{className:"space-y-6",children:[jsxRuntimeExports.jsxs("div",{className:"bg-white dark:bg-slate-800 border-b border-r border-blue-500 dark:border-orange-700 rounded-3xl p-6 sm:p-8 lg:p-10 shadow-xl relative overflow-hidden group hover:shadow-2xl transition-all duration-300",children:[jsxRuntimeExports.jsx("div",{className:"absolute top-0 right-0 p-6 opacity-5 group-hover:opacity-10 transition-opacity",children:jsxRuntimeExports.jsx(Info,{size:60,className:"animate-pulse"})}),jsxRuntimeExports.jsxs("div",{className:"grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-12 relative z-10",children:[jsxRuntimeExports.jsxs("div",{className:"space-y-6",children:[jsxRuntimeExports.jsxs("div",{className:"flex gap-4 items-start",children:[jsxRuntimeExports.jsx("div",{className:"w-12 h-12 rounded-2xl flex items-center justify-center bg-gradient-to-br from-blue-600 to-blue-700 text-white font-black shrink-0 shadow-lg shadow-blue-500/30 text-lg",children:"1"}),jsxRuntimeExports.jsxs("div",{className:"flex-1",children:[jsxRuntimeExports.jsx("h4",{className:"font-black text-slate-900 dark:text-white uppercase tracking-wide mb-2 text-lg sm:text-xl",children:"Standard Entry Protocol"}),jsxRuntimeExports.jsxs("p",{className:"text-base sm:text-lg text-slate-700 dark:text-slate-300 leading-relaxed",children:["ISF Bonds are fixed at ",jsxRuntimeExports.jsx("span",{className:"text-blue-600 font-black",children:"$60"}),". Single-entry bonds bill the greater of ",jsxRuntimeExports.jsxs("span",{className:"text-blue-600 font-black",children:["$",adminSettings.minBilling.toFixed(2)]})," or ",jsxRuntimeExports.jsxs("span",{className:"text-blue-600 font-black",children:[adminSettings.sellRatePercent.toFixed(2),"%"]})," of total invoice value + duties."]})]})]}),jsxRuntimeExports.jsxs("div",{className:"flex gap-4 items-start",children:[jsxRuntimeExports.jsx("div",{className:"w-12 h-12 rounded-2xl flex items-center justify-center bg-gradient-to-br from-blue-600 to-blue-700 text-white font-black shrink-0 shadow-lg shadow-blue-500/30 text-lg",children:"2"}),jsxRuntimeExports.jsxs("div",{className:"flex-1",children:[jsxRuntimeExports.jsx("h4",{className:"font-black text-slate-900 dark:text-white uppercase tracking-wide mb-2 text-lg sm:text-xl",children:"PGA Regulation Logic"}),jsxRuntimeExports.jsxs("p",{className:"text-base sm:text-lg text-slate-700 dark:text-slate-300 leading-relaxed",children:["For PGA commodities, calculation base is scaled by ",jsxRuntimeExports.jsxs("span",{className:"text-blue-600 font-black",children:[adminSettings.pgaMultiplier,"x"]}),". Final fee is the greater of ",jsxRuntimeExports.jsxs("span",{className:"text-blue-600 font-black",children:["$",adminSettings.minBilling.toFixed(2)]})," or ",jsxRuntimeExports.jsxs("span",{className:"text-blue-600 font-black",children:[adminSettings.sellRatePercent.toFixed(2),"%"]})," of the scaled base."]})]})]})]}),jsxRuntimeExports.jsx("div",{className:"flex flex-col justify-center",children:jsxRuntimeExports.jsxs("div",{className:"bg-slate-50 dark:bg-slate-900/50 rounded-2xl p-6 border border-slate-200 dark:border-slate-700 shadow-lg",children:[jsxRuntimeExports.jsx("div",{className:"text-center mb-6",children:jsxRuntimeExports.jsxs("div",{className:"inline-flex items-center justify-center gap-2 mb-4 p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-lg",children:[jsxRuntimeExports.jsx(ShieldCheck,{size:24,className:"text-red-600"}),jsxRuntimeExports.jsx("span",{className:"font-black uppercase tracking-wide text-sm text-red-600 dark:text-red-400",children:"Active Compliance"})]})}),jsxRuntimeExports.jsxs("div",{className:"space-y-4",children:[jsxRuntimeExports.jsx("div",{className:"p-4 bg-white dark:bg-slate-800 rounded-xl border border-blue-200 dark:border-blue-800/50 shadow-sm",children:jsxRuntimeExports.jsxs("div",{className:"flex items-start gap-3",children:[jsxRuntimeExports.jsx("span",{className:"shrink-0 w-6 h-6 rounded-lg bg-blue-100 dark:bg-blue-900/50 flex items-center justify-center text-blue-600 font-black text-xs",children:"01"}),jsxRuntimeExports.jsx("p",{className:"text-sm text-slate-700 dark:text-slate-300 leading-relaxed",children:"SEB charges only apply in the absence of a Continuous Bond."})]})}),jsxRuntimeExports.jsx("div",{className:"p-4 bg-white dark:bg-slate-800 rounded-xl border border-orange-200 dark:border-orange-800/50 shadow-sm",children:jsxRuntimeExports.jsxs("div",{className:"flex items-start gap-3",children:[jsxRuntimeExports.jsx("span",{className:"shrink-0 w-6 h-6 rounded-lg bg-orange-100 dark:bg-orange-900/50 flex items-center justify-center text-orange-600 font-black text-xs",children:"02"}),jsxRuntimeExports.jsxs("p",{className:"text-sm text-slate-700 dark:text-slate-300 leading-relaxed",children:["Opting for a continuous bond incurs a ",jsxRuntimeExports.jsx("span",{className:"font-bold text-slate-900 dark:text-white",children:"$550 annual fee"})," for a ",jsxRuntimeExports.jsx("span",{className:"font-bold text-slate-900 dark:text-white",children:"$50,000"})," limit of liability, valid for 1 year."]})]})})]})]})})]})]}),jsxRuntimeExports.jsxs("div",{className:"bg-white dark:bg-slate-800 rounded-3xl shadow-xl border-b border-r border-purple-600 dark:border-red-700 overflow-hidden transition-all hover:shadow-2xl max-w-xl ml-auto cursor-pointer group",children:[jsxRuntimeExports.jsx("div",{className:"py-6 px-8 bg-gradient-to-r from-slate-50 to-slate-100 dark:from-slate-700 dark:to-slate-800 border-b border-orange-600 dark:border-orange-700",children:jsxRuntimeExports.jsxs("div",{className:"flex items-center justify-between",children:[jsxRuntimeExports.jsxs("div",{className:"flex items-center gap-3",children:[jsxRuntimeExports.jsx("div",{className:"p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg",children:jsxRuntimeExports.jsx(Calculator,{size:18,className:"text-blue-600"})}),jsxRuntimeExports.jsxs("div",{children:[jsxRuntimeExports.jsx("h3",{className:"font-bold uppercase text-sm tracking-wide text-slate-900 dark:text-white",children:"Calculator"}),jsxRuntimeExports.jsx("p",{className:"text-xs text-slate-500 dark:text-slate-400",children:"Advanced Math Tool"})]})]}),jsxRuntimeExports.jsx("button",{onClick:()=>handleCalcBtn("C"),className:"p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all hover:scale-110",title:"Clear All",children:jsxRuntimeExports.jsx(Trash2,{size:16})})]})}),jsxRuntimeExports.jsxs("div",{className:"bg-gradient-to-b from-white to-slate-50 dark:from-slate-800 dark:to-slate-900 p-6 text-right min-h-[140px] flex flex-col justify-end border-b border-slate-200 dark:border-slate-700",children:[jsxRuntimeExports.jsx("div",{className:"text-slate-500 dark:text-slate-400 text-xs font-mono mb-3 truncate opacity-75 uppercase tracking-wide",children:calcExpression||"Ready for input"}),jsxRuntimeExports.jsx("div",{className:"text-3xl font-black font-mono truncate text-slate-900 dark:text-white mb-2",children:calcDisplay}),calcMemory!==null&&jsxRuntimeExports.jsxs("div",{className:"text-xs font-mono text-blue-600 dark:text-blue-400 opacity-75 flex items-center justify-end gap-1",children:[jsxRuntimeExports.jsx("span",{className:"text-slate-400",children:"M:"})," ",calcMemory]}),jsxRuntimeExports.jsxs("div",{className:"flex items-center justify-center gap-1 mt-3 text-[10px] font-bold uppercase text-slate-400 dark:text-slate-500 tracking-widest",children:[jsxRuntimeExports.jsx(Keyboard,{size:10}),jsxRuntimeExports.jsx("span",{children:"0-9, ±×÷, Enter, Esc"})]})]}),calcHistory.length>0&&jsxRuntimeExports.jsxs("div",{className:"px-6 py-4 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-100 dark:border-slate-700",children:[jsxRuntimeExports.jsx("div",{className:"text-[10px] font-black uppercase text-slate-500 dark:text-slate-400 mb-2 tracking-widest",children:"Recent Calculations"}),jsxRuntimeExports.jsx("div",{className:"space-y-1 max-h-20 overflow-y-auto",children:calcHistory.slice(-3).reverse().map((r,R)=>jsxRuntimeExports.jsx("div",{className:"text-xs font-mono text-slate-600 dark:text-slate-300 truncate",children:r},R))})]}),jsxRuntimeExports.jsxs("div",{className:"p-6 bg-white dark:bg-slate-800 space-y-4",children:[jsxRuntimeExports.jsxs("div",{className:"space-y-2",children:[jsxRuntimeExports.jsx("div",{className:"text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400 tracking-widest",children:"Memory"}),jsxRuntimeExports.jsx("div",{className:"grid grid-cols-5 gap-2",children:[{value:"MC",label:"MC",title:"Memory Clear"},{value:"MR",label:"MR",title:"Memory Recall"},{value:"MS",label:"MS",title:"Memory Store"},{value:"M+",label:"M+",title:"Memory Add"},{value:"C",label:"C",color:"text-red-500 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/40",title:"Clear"}].map(r=>jsxRuntimeExports.jsx("button",{onClick:()=>handleCalcBtn(r.value),title:r.title,className:`w-full h-10 rounded-lg text-sm font-bold transition-all active:scale-95 hover:scale-105 hover:shadow-md ${r.color||"bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600"}`,children:r.label},r.value))})]}),jsxRuntimeExports.jsxs("div",{className:"space-y-2",children:[jsxRuntimeExports.jsx("div",{className:"grid grid-cols-4 gap-2",children:[{value:"(",label:"("},{value:")",label:")"},{value:"Backspace",label:"⌫",title:"Backspace"},{value:"÷",label:"÷",color:"bg-blue-50 dark:bg-blue-900/20 text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/40"}].map(r=>jsxRuntimeExports.jsx("button",{onClick:()=>handleCalcBtn(r.value),title:r.title,className:`w-full h-12 rounded-lg text-base font-bold transition-all active:scale-95 hover:scale-105 hover:shadow-md ${r.color||"bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600"}`,children:r.label},r.value))}),jsxRuntimeExports.jsx("div",{className:"grid grid-cols-4 gap-2",children:[{value:"7",label:"7"},{value:"8",label:"8"},{value:"9",label:"9"},{value:"×",label:"×",color:"bg-blue-50 dark:bg-blue-900/20 text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/40"}].map(r=>jsxRuntimeExports.jsx("button",{onClick:()=>handleCalcBtn(r.value),className:`w-full h-12 rounded-lg text-base font-bold transition-all active:scale-95 hover:scale-105 hover:shadow-md ${r.color||"bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600"}`,children:r.label},r.value))}),jsxRuntimeExports.jsx("div",{className:"grid grid-cols-4 gap-2",children:[{value:"4",label:"4"},{value:"5",label:"5"},{value:"6",label:"6"},{value:"-",label:"-",color:"bg-blue-50 dark:bg-blue-900/20 text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/40"}].map(r=>jsxRuntimeExports.jsx("button",{onClick:()=>handleCalcBtn(r.value),className:`w-full h-12 rounded-lg text-base font-bold transition-all active:scale-95 hover:scale-105 hover:shadow-md ${r.color||"bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600"}`,children:r.label},r.value))}),jsxRuntimeExports.jsx("div",{className:"grid grid-cols-4 gap-2",children:[{value:"1",label:"1"},{value:"2",label:"2"},{value:"3",label:"3"},{value:"+",label:"+",color:"bg-blue-50 dark:bg-blue-900/20 text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/40"}].map(r=>jsxRuntimeExports.jsx("button",{onClick:()=>handleCalcBtn(r.value),className:`w-full h-12 rounded-lg text-base font-bold transition-all active:scale-95 hover:scale-105 hover:shadow-md ${r.color||"bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600"}`,children:r.label},r.value))}),jsxRuntimeExports.jsxs("div",{className:"grid grid-cols-3 gap-2",children:[jsxRuntimeExports.jsx("button",{onClick:()=>handleCalcBtn("0"),className:"h-12 rounded-lg text-base font-bold transition-all active:scale-95 hover:scale-105 hover:shadow-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600",children:"0"}),jsxRuntimeExports.jsx("button",{onClick:()=>handleCalcBtn("."),className:"h-12 rounded-lg text-base font-bold transition-all active:scale-95 hover:scale-105 hover:shadow-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600",children:"."}),jsxRuntimeExports.jsx("button",{onClick:()=>handleCalcBtn("="),className:"col-span-2 h-12 rounded-lg text-base font-bold transition-all active:scale-95 hover:scale-105 hover:shadow-lg bg-gradient-to-r from-blue-600 to-blue-700 text-white hover:from-blue-700 hover:to-blue-800 shadow-md",children:"="})]})]}),jsxRuntimeExports.jsxs("div",{className:"pt-4 border-t border-slate-200 dark:border-slate-700",children:[jsxRuntimeExports.jsx("div",{className:"text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400 mb-3 tracking-widest",children:"Quick Functions"}),jsxRuntimeExports.jsx("div",{className:"grid grid-cols-3 gap-2",children:[{label:"% of",action:()=>handleCalcBtn("/100*"),title:"Percentage of"},{label:"√",action:()=>handleCalcBtn("Math.sqrt("),title:"Square Root"},{label:"x²",action:()=>handleCalcBtn("**2"),title:"Square"}].map((r,R)=>jsxRuntimeExports.jsx("button",{onClick:r.action,title:r.title,className:"w-full h-10 rounded-lg text-sm font-bold transition-all active:scale-95 hover:scale-105 hover:shadow-md bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 text-blue-700 dark:text-blue-300 hover:from-blue-100 hover:to-indigo-100 dark:hover:from-blue-900/40 dark:hover:to-indigo-900/40",children:r.label},R))})]})]})]})]})]})}),jsxRuntimeExports.jsx("footer",{className:"max-w-7xl mx-auto mt-20 text-center border-t border-blue-600 dark:border-orange-700 pt-10 pb-10",children:jsxRuntimeExports.jsxs("div",{className:"flex flex-col items-center gap-4",children:[jsxRuntimeExports.jsx("p",{className:"text-[10px] font-black uppercase tracking-[0.5em] text-slate-400",children:"Trade Expeditors USA, Inc. / TEU Global"}),jsxRuntimeExports.jsx("div",{className:"bg-white p-2 rounded-xl shadow-sm border-b border-r border-slate-50 opacity-40 hover:opacity-100 hover:scale-105 transition-all duration-300",children:jsxRuntimeExports.jsx("img",{src:adminSettings.logo,alt:"Logo",className:"h-8 grayscale hover:grayscale-0 transition-all duration-500",onError:r=>r.target.src="https://placehold.co/100x40/004B8D/FFFFFF?text=Brand+Logo"})}),jsxRuntimeExports.jsxs("p",{className:"text-[15px] font-bold text-slate-400 uppercase",children:["© ",new Date().getFullYear()," All Rights Reserved. Engineered by JUNAID ABBASI"]})]})}),jsxRuntimeExports.jsx("style",{children:`
-        .custom-scrollbar::-webkit-scrollbar {
-          width: 6px;
-        }
-        .custom-scrollbar::-webkit-scrollbar-track {
-          background: transparent;
-        }
-        .custom-scrollbar::-webkit-scrollbar-thumb {
-          background: #e2e8f0;
-          border-radius: 10px;
-        }
-        .dark .custom-scrollbar::-webkit-scrollbar-thumb {
-          background: #334155;
-        }
-        .animate-ship-travel {
-          animation: ship-travel 1.2s ease-in-out infinite;
-        }
-        @keyframes ship-travel {
-          0% { transform: translateX(-30px); opacity: 0; }
-          50% { opacity: 1; }
-          100% { transform: translateX(30px); opacity: 0; }
-        }
-      `})]})},rootElement=document.getElementById("root");if(!rootElement)throw new Error("Could not find root element");const root=ReactDOM.createRoot(rootElement);root.render(jsxRuntimeExports.jsx(React.StrictMode,{children:jsxRuntimeExports.jsx(App,{})}));
@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+// bond-calc - prices one single entry bond from the command line through the same engine as the calculator
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { DEFAULT_SETTINGS, BILLING_RULE_LABELS, amountError, parseDecimal, parseSettingsBundle, quoteEntry, type QuoteResult } from './engine';
+
+const USAGE = `Usage: bond-calc --invoice <value> [options]
+
+  --invoice <value>     Total commercial invoice value
+  --duties <value>      Duties (standard entries only - refused with --pga, a PGA bond does not include them)
+  --pga <value>         Part of the invoice regulated by a PGA; prices the entry with the PGA formulas
+  --agency <code>       PGA agency id or code for the liability factor
+  --date <YYYY-MM-DD>   Entry date, picks the rate schedule (default: today)
+  --customer <name>     Customer pricing profile
+  --var <name=value>    Admin-declared formula input, repeatable
+  --settings <file>     Settings bundle exported from the Control Center (default: factory settings)
+  --json                Print the full result as JSON
+  -h, --help            Show this help`;
+
+const cleanNumber = (value: string) => value.replace(/[$,\s]/g, '');
+
+// Amount flags must be plain numbers of zero or more, checked as the pricing API checks them - a typo should fail, not price as zero
+const amount = (flag: string, value: string | undefined): string | undefined => {
+  if (value === undefined) return undefined;
+  const cleaned = cleanNumber(value);
+  const error = amountError(cleaned);
+  if (error) throw new Error(`--${flag} ${error}, got "${value}".`);
+  return cleaned;
+};
+
+const loadSettings = async (path: string | undefined): Promise<typeof DEFAULT_SETTINGS> => {
+  if (!path) return DEFAULT_SETTINGS;
+  const { bundle, errors } = await parseSettingsBundle(await readFile(path, 'utf8'));
+  if (!bundle) throw new Error(`${path} cannot be used:\n  ${errors.join('\n  ')}`);
+  return bundle.settings;
+};
+
+const formatQuote = (quote: QuoteResult): string => {
+  const lines = [
+    `Mode:          ${quote.mode === 'with' ? 'With PGA Regulation' : 'Standard Entry'}`,
+    `Entry Date:    ${quote.entryDate}`,
+    `Rate Schedule: ${quote.rateSchedule}`,
+    `Customer:      ${quote.customer ?? 'Standard Pricing'}`,
+    `Bond Value:    $${quote.bondValue}`,
+    `Buy:           $${quote.buy}`,
+    `Sell:          $${quote.sell}`,
+    `Billing Rule:  ${BILLING_RULE_LABELS[quote.floor.rule]} (minimum $${quote.floor.minimum})`,
+  ];
+  if (quote.floor.note) lines.push(`               ${quote.floor.note}`);
+  lines.push('', 'Inputs:', ...Object.keys(quote.breakdown.variables).map(name => `  ${name} = ${quote.breakdown.variables[name]}`));
+  (['buy', 'sell'] as const).forEach(side => {
+    const { source, formula, brackets } = quote.breakdown[side];
+    lines.push('', `${side === 'buy' ? 'Buy' : 'Sell'} - ${source === 'formula' ? formula : 'bracket table'}`);
+    brackets.forEach(b => lines.push(`  ${b.band}: $${b.basis} @ ${b.ratePerThousand}/1,000 = $${b.amount}`));
+  });
+  return lines.join('\n');
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      invoice: { type: 'string' },
+      duties: { type: 'string' },
+      pga: { type: 'string' },
+      agency: { type: 'string' },
+      date: { type: 'string' },
+      customer: { type: 'string' },
+      var: { type: 'string', multiple: true },
+      settings: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help || values.invoice === undefined) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const variables: Record<string, string> = {};
+  (values.var ?? []).forEach(pair => {
+    const [name, value] = pair.split('=');
+    if (!name || value === undefined) throw new Error(`--var must look like name=value, got "${pair}".`);
+    // Formula inputs are plain numbers and may be negative, as in the pricing API
+    if (parseDecimal(cleanNumber(value)) === null) throw new Error(`--var ${name.trim()} must be a number, got "${value}".`);
+    variables[name.trim()] = cleanNumber(value);
+  });
+
+  const quote = quoteEntry(await loadSettings(values.settings), {
+    invoiceValue: amount('invoice', values.invoice),
+    duties: amount('duties', values.duties),
+    pgaValue: amount('pga', values.pga),
+    pgaAgency: values.agency,
+    entryDate: values.date,
+    customer: values.customer,
+    variables,
+  });
+  console.log(values.json ? JSON.stringify(quote, null, 2) : formatQuote(quote));
+};
+
+main().catch(error => {
+  console.error(`bond-calc: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,504 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DECIMAL_SCALE,
+  DEFAULT_SETTINGS,
+  FormulaError,
+  SETTINGS_MIGRATIONS,
+  SETTINGS_SCHEMA_VERSION,
+  applyBillingRules,
+  applyCustomerProfile,
+  blendedPgaFactor,
+  bundleChecksum,
+  createSettingsBundle,
+  decimalMultiply,
+  evaluateBrackets,
+  evaluateNode,
+  formatMoney,
+  migrateSettings,
+  parseDecimal,
+  parseFormula,
+  parseQuoteInput,
+  parseSettingsBundle,
+  priceEntry,
+  pgaAgencyFactor,
+  quoteEntry,
+  repairSettings,
+  resolveRateSchedule,
+  roundedDivide,
+  scopeFormulaVariables,
+  summarizeLineItems,
+  toDecimal,
+  type CustomerProfile,
+  type Decimal,
+  type RateBand,
+  type RateSchedule,
+  type SettingsBundle,
+} from './engine';
+
+const money = (value: string): Decimal => toDecimal(value);
+
+const evaluate = (formula: string, variables: Record<string, string> = {}): string => {
+  const scoped: Record<string, Decimal> = {};
+  Object.keys(variables).forEach(name => scoped[name] = toDecimal(variables[name]));
+  return formatMoney(evaluateNode(parseFormula(formula), scoped));
+};
+
+const formulaError = (run: () => unknown): FormulaError => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof FormulaError) return error;
+    throw error;
+  }
+  throw new Error('Expected a FormulaError');
+};
+
+describe('parseFormula / evaluateNode', () => {
+  it('follows operator precedence and associativity', () => {
+    expect(evaluate('2 + 3 * 4')).toBe('14.00');
+    expect(evaluate('(2 + 3) * 4')).toBe('20.00');
+    expect(evaluate('10 - 4 - 3')).toBe('3.00');
+    expect(evaluate('100 / 10 / 2')).toBe('5.00');
+    expect(evaluate('2 ** 3 ** 2')).toBe('512.00');
+    expect(evaluate('1 + 2 < 4')).toBe('1.00');
+  });
+
+  it('binds unary minus looser than the power operator', () => {
+    expect(evaluate('-2**2')).toBe('-4.00');
+    expect(evaluate('(-2)**2')).toBe('4.00');
+    expect(evaluate('2**-1')).toBe('0.50');
+  });
+
+  it('evaluates only the branch if() picks', () => {
+    expect(evaluate('if(invoice_value > 1000, 10, 20)', { invoice_value: '5000' })).toBe('10.00');
+    expect(evaluate('if(invoice_value > 1000, 10, 20)', { invoice_value: '500' })).toBe('20.00');
+    expect(evaluate('if(0, 1 / 0, 5)')).toBe('5.00');
+  });
+
+  it('runs the built-in functions', () => {
+    expect(evaluate('max(65, 12.5, 80)')).toBe('80.00');
+    expect(evaluate('min(65, 12.5)')).toBe('12.50');
+    expect(evaluate('round(2.345, 2)')).toBe('2.35');
+    expect(evaluate('ceil(1.01) + floor(-1.5)')).toBe('0.00');
+    expect(evaluate('sqrt(144) + abs(-3)')).toBe('15.00');
+  });
+
+  it('reports syntax errors at the offending position', () => {
+    expect(formulaError(() => parseFormula('2 + * 3')).message).toBe("Unexpected '*' at position 5");
+    expect(formulaError(() => parseFormula('(1 + 2')).message).toBe("Expected ')' but formula ended at position 7");
+    expect(formulaError(() => parseFormula('1 $ 2')).message).toBe("Unexpected character '$' at position 3");
+    expect(formulaError(() => parseFormula('foo(1)')).position).toBe(0);
+    expect(formulaError(() => parseFormula('max()')).message).toBe("Wrong number of arguments for 'max' at position 1");
+    expect(formulaError(() => parseFormula('1 2')).message).toBe('Unexpected token after expression at position 3');
+    expect(formulaError(() => parseFormula('2 * 1e3000000')).message).toBe("Number '1e3000000' is out of range at position 5");
+  });
+
+  it('reports runtime errors at the offending position', () => {
+    expect(formulaError(() => evaluateNode(parseFormula('duties + 1'), {})).message).toBe("Unknown variable 'duties' at position 1");
+    expect(formulaError(() => evaluateNode(parseFormula('1 / (2 - 2)'), {})).message).toBe('Division by zero at position 3');
+    expect(formulaError(() => evaluateNode(parseFormula('sqrt(-4)'), {})).position).toBe(0);
+  });
+});
+
+describe('parseDecimal', () => {
+  it('parses exact decimals and exponents', () => {
+    expect(parseDecimal('1234.56')).toBe(toDecimal(1234.56));
+    expect(parseDecimal('-0.5')).toBe(-DECIMAL_SCALE / 2n);
+    expect(parseDecimal('1.5e3')).toBe(toDecimal(1500));
+  });
+
+  it('refuses exponents and digit runs far outside any money amount', () => {
+    expect(parseDecimal('1e3000000')).toBeNull();
+    expect(parseDecimal('1e-41')).toBeNull();
+    expect(parseDecimal('9'.repeat(41))).toBeNull();
+    expect(parseDecimal('1e40')).not.toBeNull();
+  });
+
+  it('makes quote requests with such amounts invalid', () => {
+    expect(parseQuoteInput({ invoiceValue: '1e3000000' }).errors).toEqual(['"invoiceValue" must be a number.']);
+    expect(parseQuoteInput({ invoiceValue: 1e300 }).errors).toEqual(['"invoiceValue" must be a number.']);
+    expect(parseQuoteInput({ invoiceValue: 2500000 }).errors).toEqual([]);
+  });
+
+  it('refuses negative quote amounts by field', () => {
+    expect(parseQuoteInput({ invoiceValue: -5000 }).errors).toEqual(['"invoiceValue" cannot be negative.']);
+    expect(parseQuoteInput({ invoiceValue: 1000, duties: '-100000' }).errors).toEqual(['"duties" cannot be negative.']);
+    expect(parseQuoteInput({ invoiceValue: 0, pgaValue: '-0' }).errors).toEqual([]);
+  });
+});
+
+describe('roundedDivide', () => {
+  it('rounds ties by mode', () => {
+    expect(roundedDivide(25n, 10n, 'half-up')).toBe(3n);
+    expect(roundedDivide(25n, 10n, 'half-even')).toBe(2n);
+    expect(roundedDivide(35n, 10n, 'half-even')).toBe(4n);
+    expect(roundedDivide(25n, 10n, 'up')).toBe(3n);
+  });
+
+  it('rounds non-ties to the nearest value except in up mode', () => {
+    expect(roundedDivide(21n, 10n, 'half-up')).toBe(2n);
+    expect(roundedDivide(21n, 10n, 'half-even')).toBe(2n);
+    expect(roundedDivide(21n, 10n, 'up')).toBe(3n);
+    expect(roundedDivide(29n, 10n, 'half-even')).toBe(3n);
+  });
+
+  it('moves away from zero for negative values', () => {
+    expect(roundedDivide(-25n, 10n, 'half-up')).toBe(-3n);
+    expect(roundedDivide(-25n, 10n, 'half-even')).toBe(-2n);
+    expect(roundedDivide(-21n, 10n, 'up')).toBe(-3n);
+    expect(roundedDivide(25n, -10n, 'half-up')).toBe(-3n);
+  });
+
+  it('leaves exact quotients alone and refuses zero divisors', () => {
+    (['half-up', 'half-even', 'up'] as const).forEach(mode => expect(roundedDivide(20n, 10n, mode)).toBe(2n));
+    expect(() => roundedDivide(1n, 0n, 'half-up')).toThrow('Division by zero');
+  });
+});
+
+// Expected cents below are worked out by hand, not taken from the engine
+describe('money reference cases', () => {
+  it('rounds .xx5 ties to the cent by mode', () => {
+    expect(formatMoney(money('2.345'), 'half-up')).toBe('2.35');
+    expect(formatMoney(money('2.345'), 'half-even')).toBe('2.34');
+    expect(formatMoney(money('2.355'), 'half-even')).toBe('2.36');
+    expect(formatMoney(money('2.345'), 'up')).toBe('2.35');
+  });
+
+  it('only rounds non-ties up in up mode', () => {
+    expect(formatMoney(money('2.341'), 'half-up')).toBe('2.34');
+    expect(formatMoney(money('2.341'), 'half-even')).toBe('2.34');
+    expect(formatMoney(money('2.341'), 'up')).toBe('2.35');
+    expect(formatMoney(money('0.004'), 'up')).toBe('0.01');
+  });
+
+  it('rounds negative values symmetrically', () => {
+    expect(formatMoney(money('-2.345'), 'half-up')).toBe('-2.35');
+    expect(formatMoney(money('-2.345'), 'half-even')).toBe('-2.34');
+    expect(formatMoney(money('-2.341'), 'up')).toBe('-2.35');
+    expect(formatMoney(money('-0.005'), 'half-even')).toBe('0.00');
+    expect(formatMoney(money('-0.005'), 'half-up')).toBe('-0.01');
+  });
+
+  it('multiplies without binary floating point error', () => {
+    expect(decimalMultiply(money('0.1'), money('0.2'))).toBe(money('0.02'));
+    expect(decimalMultiply(money('1234567.89'), money('0.99'))).toBe(money('1222222.2111'));
+  });
+
+  it('prices multi-million invoices to the cent', () => {
+    // 13,333,333.23 x 0.99 / 1000 = 13,199.9998977; x 0.40 / 100 = 53,333.33292
+    expect(quoteEntry(DEFAULT_SETTINGS, { invoiceValue: '12345678.91', duties: '987654.32' }))
+      .toMatchObject({ bondValue: '13333333.23', buy: '13200.00', sell: '53333.33' });
+    // 2,000,000 x 3 + 3,000,000 = 9,000,000
+    expect(quoteEntry(DEFAULT_SETTINGS, { invoiceValue: '5000000', pgaValue: '2000000' }))
+      .toMatchObject({ bondValue: '9000000.00', buy: '8910.00', sell: '36000.00' });
+  });
+
+  it('applies the sell rounding mode to a multi-million tie', () => {
+    // 1,000,001.25 x 0.40 / 100 = 4,000.005; x 0.99 / 1000 = 990.0012375
+    const input = { invoiceValue: '1000000', duties: '1.25' };
+    expect(quoteEntry({ ...DEFAULT_SETTINGS, sellRounding: 'half-up' }, input).sell).toBe('4000.01');
+    expect(quoteEntry({ ...DEFAULT_SETTINGS, sellRounding: 'half-even' }, input).sell).toBe('4000.00');
+    expect(quoteEntry({ ...DEFAULT_SETTINGS, sellRounding: 'up' }, input).sell).toBe('4000.01');
+    expect(quoteEntry({ ...DEFAULT_SETTINGS, buyRounding: 'half-up' }, input).buy).toBe('990.00');
+    expect(quoteEntry({ ...DEFAULT_SETTINGS, buyRounding: 'up' }, input).buy).toBe('990.01');
+  });
+});
+
+describe('applyBillingRules', () => {
+  const bond = money('10000');
+
+  it('raises the sell to the minimum billing', () => {
+    const billing = applyBillingRules(money('40'), bond, 'standard', DEFAULT_SETTINGS);
+    expect(formatMoney(billing.billable)).toBe('65.00');
+    expect(billing.rule).toBe('minimum');
+  });
+
+  it('keeps a sell above the minimum', () => {
+    const billing = applyBillingRules(money('100'), bond, 'standard', DEFAULT_SETTINGS);
+    expect(formatMoney(billing.billable)).toBe('100.00');
+    expect(billing.rule).toBe('formula');
+  });
+
+  it('applies the mode floor only to its own mode', () => {
+    const settings = { ...DEFAULT_SETTINGS, standardMinBilling: 80 };
+    expect(applyBillingRules(money('40'), bond, 'standard', settings)).toMatchObject({ billable: money('80'), rule: 'mode-floor' });
+    expect(applyBillingRules(money('40'), bond, 'pga', settings)).toMatchObject({ billable: money('65'), rule: 'minimum' });
+  });
+
+  it('caps the sell at the maximum billing', () => {
+    const settings = { ...DEFAULT_SETTINGS, maxBilling: 90 };
+    expect(applyBillingRules(money('120'), bond, 'standard', settings)).toMatchObject({ billable: money('90'), rule: 'maximum' });
+  });
+
+  it('bills nothing for a zero bond value', () => {
+    const billing = applyBillingRules(0n, 0n, 'standard', DEFAULT_SETTINGS);
+    expect(billing.billable).toBe(0n);
+    expect(billing.rule).toBe('formula');
+    expect(formatMoney(billing.floor)).toBe('65.00');
+  });
+});
+
+describe('evaluateBrackets', () => {
+  // Listed out of order on purpose - bands are sorted by limit, the open band last
+  const bands: RateBand[] = [
+    { id: 'open', upTo: 0, ratePerThousand: 2 },
+    { id: 'low', upTo: 50000, ratePerThousand: 4 },
+    { id: 'mid', upTo: 100000, ratePerThousand: 3 },
+  ];
+
+  it('rates each slice at its own band in marginal mode', () => {
+    const result = evaluateBrackets(bands, 'marginal', money('80000'));
+    expect(formatMoney(result.total)).toBe('290.00');
+    expect(result.lines.map(line => formatMoney(line.amount))).toEqual(['200.00', '90.00']);
+    expect(formatMoney(evaluateBrackets(bands, 'marginal', money('150000')).total)).toBe('450.00');
+  });
+
+  it('rates the full value at the band reached in whole mode', () => {
+    expect(formatMoney(evaluateBrackets(bands, 'whole', money('80000')).total)).toBe('240.00');
+    expect(formatMoney(evaluateBrackets(bands, 'whole', money('150000')).total)).toBe('300.00');
+    expect(evaluateBrackets(bands, 'whole', money('50000')).lines).toHaveLength(1);
+  });
+});
+
+describe('resolveRateSchedule', () => {
+  const schedule: RateSchedule = {
+    id: 'H1',
+    name: 'First Half',
+    effectiveFrom: '2026-01-01',
+    effectiveTo: '2026-06-30',
+    rates: { ...DEFAULT_SETTINGS, sellRatePercent: 0.5 },
+  };
+  const settings = { ...DEFAULT_SETTINGS, rateSchedules: [schedule] };
+
+  it('applies the schedule covering the date, both ends inclusive', () => {
+    expect(resolveRateSchedule(settings, '2026-01-01').settings.sellRatePercent).toBe(0.5);
+    expect(resolveRateSchedule(settings, '2026-06-30').schedule?.id).toBe('H1');
+  });
+
+  it('falls back to the base rates outside every schedule', () => {
+    const resolved = resolveRateSchedule(settings, '2026-07-01');
+    expect(resolved.schedule).toBeNull();
+    expect(resolved.settings.sellRatePercent).toBe(DEFAULT_SETTINGS.sellRatePercent);
+  });
+
+  it('runs an open-ended schedule until further notice', () => {
+    const open = { ...DEFAULT_SETTINGS, rateSchedules: [{ ...schedule, effectiveTo: '' }] };
+    expect(resolveRateSchedule(open, '2030-01-01').schedule?.id).toBe('H1');
+  });
+});
+
+describe('applyCustomerProfile', () => {
+  const profile: CustomerProfile = { id: 'ACME', name: 'Acme', sellRatePercent: 0.3, minBilling: 0, pgaMultiplier: 2 };
+
+  it('overrides only the values the profile sets', () => {
+    const applied = applyCustomerProfile(DEFAULT_SETTINGS, profile);
+    expect(applied.sellRatePercent).toBe(0.3);
+    expect(applied.pgaMultiplier).toBe(2);
+    expect(applied.minBilling).toBe(DEFAULT_SETTINGS.minBilling);
+  });
+
+  it('prices agency lines and agency codes at the customer PGA factor', () => {
+    const settings = { ...DEFAULT_SETTINGS, pgaAgencies: [{ id: 'FDA', agency: 'FDA', program: '', description: '', factor: 4 }] };
+    const applied = applyCustomerProfile(settings, profile);
+    expect(pgaAgencyFactor('FDA', applied)).toBe(toDecimal(2));
+    const summary = summarizeLineItems([{ id: '1', htsCode: '', value: '1000', agency: 'FDA' }], applied);
+    expect(summary.scaledPga).toBe(toDecimal(2000));
+    expect(blendedPgaFactor(summary, applied)).toBe(toDecimal(2));
+    // Without a negotiated factor the agency's own applies
+    expect(pgaAgencyFactor('FDA', applyCustomerProfile(settings, { ...profile, pgaMultiplier: 0 }))).toBe(toDecimal(4));
+  });
+
+  it('leaves the settings untouched without a profile', () => {
+    expect(applyCustomerProfile(DEFAULT_SETTINGS, null)).toBe(DEFAULT_SETTINGS);
+  });
+});
+
+describe('parseSettingsBundle', () => {
+  it('accepts a bundle it exported', async () => {
+    const bundle = await createSettingsBundle({ ...DEFAULT_SETTINGS, minBilling: 70 }, 'classic', 'Tester');
+    const parsed = await parseSettingsBundle(JSON.stringify(bundle));
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.bundle?.settings.minBilling).toBe(70);
+  });
+
+  it('rejects a bundle changed after export', async () => {
+    const bundle = await createSettingsBundle(DEFAULT_SETTINGS, 'classic', 'Tester');
+    const tampered = { ...bundle, settings: { ...bundle.settings, minBilling: 1 } };
+    const parsed = await parseSettingsBundle(JSON.stringify(tampered));
+    expect(parsed.bundle).toBeNull();
+    expect(parsed.errors).toContain('Checksum mismatch - the file was modified after it was exported.');
+  });
+
+  it('rejects files that are not bundles', async () => {
+    expect((await parseSettingsBundle('{')).errors).toEqual(['The file is not valid JSON.']);
+    expect((await parseSettingsBundle('{"format":"other"}')).errors[0]).toMatch(/not a settings bundle/);
+    expect((await parseSettingsBundle('{"format":"teu-bond-settings","version":99}')).errors[0]).toMatch(/not supported/);
+  });
+
+  it('rejects settings that fail the schema', async () => {
+    const bundle = await createSettingsBundle({ ...DEFAULT_SETTINGS, minBilling: 'high' as unknown as number }, 'classic', 'Tester');
+    const parsed = await parseSettingsBundle(JSON.stringify(bundle));
+    expect(parsed.errors).toContain('Schema: "minBilling" must be a number.');
+  });
+
+  it('upgrades a version 1 bundle exported before the ISF and customer settings', async () => {
+    const { isfBuyPrice: _buy, isfSellPrice: _sell, customerProfiles: _profiles, ...settings } = { ...DEFAULT_SETTINGS, minBilling: 70 };
+    const old = { format: 'teu-bond-settings', version: 1, exportedAt: '2025-01-01T00:00:00.000Z', exportedBy: 'Tester', palette: 'classic', settings, checksum: '' };
+    const file = { ...old, checksum: await bundleChecksum(old as unknown as SettingsBundle) };
+    const parsed = await parseSettingsBundle(JSON.stringify(file));
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.bundle?.schemaVersion).toBe(SETTINGS_SCHEMA_VERSION);
+    expect(parsed.bundle?.settings.minBilling).toBe(70);
+    expect(parsed.bundle?.settings.isfSellPrice).toBe(DEFAULT_SETTINGS.isfSellPrice);
+    // Passed on as-is, the upgraded bundle still verifies
+    expect((await parseSettingsBundle(JSON.stringify(parsed.bundle))).errors).toEqual([]);
+  });
+
+  it('rejects a bundle written under a newer settings schema', async () => {
+    const bundle = { ...await createSettingsBundle(DEFAULT_SETTINGS, 'classic', 'Tester'), schemaVersion: SETTINGS_SCHEMA_VERSION + 1 };
+    const parsed = await parseSettingsBundle(JSON.stringify({ ...bundle, checksum: await bundleChecksum(bundle) }));
+    expect(parsed.bundle).toBeNull();
+    expect(parsed.errors[0]).toMatch(/schema .* not supported/);
+  });
+});
+
+describe('repairSettings / SETTINGS_MIGRATIONS', () => {
+  it('upgrades a version 1 blob to the current schema without resets', () => {
+    let settings: Record<string, unknown> = { minBilling: 70, sellRatePercent: 0.45 };
+    for (let version = 1; version < SETTINGS_SCHEMA_VERSION; version++) settings = SETTINGS_MIGRATIONS[version](settings);
+    const { settings: repaired, resetKeys } = repairSettings(settings);
+    expect(resetKeys).toEqual([]);
+    expect(repaired.minBilling).toBe(70);
+    expect(repaired.isfSellPrice).toBe(DEFAULT_SETTINGS.isfSellPrice);
+  });
+
+  it('moves the first release formulas onto the rate parameters so customer overrides apply', () => {
+    const firstRelease = {
+      minBilling: 65, sellRatePercent: 0.40, buyRateMultiplier: 0.99, pgaMultiplier: 3,
+      standardBuyFormula: '((invoice_value + duties) * 0.99) / 1000',
+      standardSellFormula: '((invoice_value + duties) * 0.40) / 100',
+      pgaBuyFormula: '(((invoice_value_with_pga * 3) + invoice_value_without_pga) * 0.99) / 1000',
+      pgaSellFormula: '(((invoice_value_with_pga * 3) + invoice_value_without_pga) * 0.40) / 100',
+    };
+    const { settings } = repairSettings(migrateSettings(firstRelease, 1)!);
+    expect(settings.standardSellFormula).toBe(DEFAULT_SETTINGS.standardSellFormula);
+    expect(settings.pgaBuyFormula).toBe(DEFAULT_SETTINGS.pgaBuyFormula);
+    const customers = { ...settings, customerProfiles: [{ id: 'ACME', name: 'Acme', sellRatePercent: 0.2, minBilling: 0, pgaMultiplier: 0 }] };
+    expect(quoteEntry(customers, { invoiceValue: 50000, duties: 3000 }).sell).toBe('212.00');
+    expect(quoteEntry(customers, { invoiceValue: 50000, duties: 3000, customer: 'Acme' }).sell).toBe('106.00');
+  });
+
+  it('resets PGA formulas that write the liability factor in as a number', () => {
+    const { settings, resetKeys } = repairSettings({ ...DEFAULT_SETTINGS, pgaSellFormula: '(((invoice_value_with_pga * 3) + invoice_value_without_pga) * 0.5) / 100' });
+    expect(resetKeys).toEqual(['pgaSellFormula']);
+    expect(settings.pgaSellFormula).toBe(DEFAULT_SETTINGS.pgaSellFormula);
+  });
+
+  it('keeps formulas an admin wrote themselves', () => {
+    const custom = { ...DEFAULT_SETTINGS, standardSellFormula: '((invoice_value + duties) * 0.5) / 100' };
+    expect(migrateSettings(custom, 7)?.standardSellFormula).toBe(custom.standardSellFormula);
+  });
+
+  it('has a migration for every version below the current one', () => {
+    for (let version = 1; version < SETTINGS_SCHEMA_VERSION; version++) expect(SETTINGS_MIGRATIONS[version]).toBeTypeOf('function');
+  });
+
+  it('resets mistyped values and broken formulas to their defaults', () => {
+    const { settings, resetKeys } = repairSettings({
+      ...DEFAULT_SETTINGS,
+      minBilling: 'abc',
+      buyRounding: 'sideways',
+      standardSellFormula: '(invoice_value + ',
+    });
+    expect(resetKeys).toEqual(expect.arrayContaining(['minBilling', 'buyRounding', 'standardSellFormula']));
+    expect(settings.minBilling).toBe(DEFAULT_SETTINGS.minBilling);
+    expect(settings.standardSellFormula).toBe(DEFAULT_SETTINGS.standardSellFormula);
+  });
+});
+
+describe('scopeFormulaVariables', () => {
+  it('keeps the configured rates and constants over supplied values', () => {
+    const settings = { ...DEFAULT_SETTINGS, formulaConstants: [{ id: '1', name: 'fee', value: 5, description: '' }] };
+    const scoped = scopeFormulaVariables(settings, 'standardSellFormula', { sell_rate_percent: 0n, fee: 0n, invoice_value: toDecimal(100) });
+    expect(scoped.sell_rate_percent).toBe(toDecimal(DEFAULT_SETTINGS.sellRatePercent));
+    expect(scoped.fee).toBe(toDecimal(5));
+    expect(scoped.invoice_value).toBe(toDecimal(100));
+  });
+});
+
+describe('quoteEntry', () => {
+  it('prices a standard entry through the default formulas', () => {
+    const quote = quoteEntry(DEFAULT_SETTINGS, { invoiceValue: 50000, duties: '3000', entryDate: '2026-03-01' });
+    expect(quote).toMatchObject({ mode: 'without', bondValue: '53000.00', buy: '52.47', sell: '212.00', rateSchedule: 'Base Rates' });
+    expect(quote.floor.applied).toBe(false);
+  });
+
+  it('prices a PGA entry on the invoice value outside the PGA share', () => {
+    const quote = quoteEntry(DEFAULT_SETTINGS, { invoiceValue: 50000, pgaValue: 12000 });
+    expect(quote).toMatchObject({ mode: 'with', bondValue: '74000.00', buy: '73.26', sell: '296.00' });
+    expect(quote.breakdown.variables.invoice_value_without_pga).toBe('38000');
+  });
+
+  it('reports the minimum billing when it applies', () => {
+    const quote = quoteEntry(DEFAULT_SETTINGS, { invoiceValue: 1000 });
+    expect(quote.sell).toBe('65.00');
+    expect(quote.floor).toMatchObject({ applied: true, rule: 'minimum', minimum: '65.00' });
+  });
+
+  it('applies a customer profile by name', () => {
+    const settings = { ...DEFAULT_SETTINGS, customerProfiles: [{ id: 'ACME', name: 'Acme', sellRatePercent: 0.3, minBilling: 0, pgaMultiplier: 0 }] };
+    const quote = quoteEntry(settings, { invoiceValue: 50000, duties: 3000, customer: 'acme' });
+    expect(quote.customer).toBe('Acme');
+    expect(quote.sell).toBe('159.00');
+  });
+
+  it('prices at the same agency factor the bond value is scaled by', () => {
+    const settings = { ...DEFAULT_SETTINGS, pgaAgencies: [{ id: 'USDA', agency: 'USDA', program: '', description: '', factor: 1 }] };
+    const quote = quoteEntry(settings, { invoiceValue: 50000, pgaValue: 12000, pgaAgency: 'USDA' });
+    expect(quote.bondValue).toBe('50000.00');
+    expect(quote.buy).toBe('49.50');
+    expect(quote.sell).toBe('200.00');
+  });
+
+  it('prices an agency-coded PGA entry at the customer PGA factor', () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      pgaAgencies: [{ id: 'FDA', agency: 'FDA', program: '', description: '', factor: 4 }],
+      customerProfiles: [{ id: 'ACME', name: 'Acme', sellRatePercent: 0, minBilling: 0, pgaMultiplier: 2 }],
+    };
+    const quote = quoteEntry(settings, { invoiceValue: 50000, pgaValue: 12000, pgaAgency: 'FDA', customer: 'Acme' });
+    expect(quote.bondValue).toBe('62000.00');
+    expect(quote.sell).toBe('248.00');
+  });
+
+  it('accepts declared formula inputs and refuses any other variable', () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      formulaInputs: [{ id: '1', name: 'handling', label: 'Handling' }],
+      standardSellFormula: '((invoice_value + duties) * sell_rate_percent) / 100 + handling',
+    };
+    expect(quoteEntry(settings, { invoiceValue: 50000, duties: 3000, variables: { handling: 10 } }).sell).toBe('222.00');
+    expect(() => quoteEntry(settings, { invoiceValue: 50000, variables: { sell_rate_percent: 0 } })).toThrow('Unknown formula input "sell_rate_percent".');
+  });
+
+  it('surfaces a formula that fails at run time instead of quoting the minimum', () => {
+    const settings = { ...DEFAULT_SETTINGS, standardSellFormula: 'invoice_value / duties' };
+    const run = () => quoteEntry(settings, { invoiceValue: 1000 });
+    expect(run).toThrow(FormulaError);
+    expect(run).toThrow('Standard Sell Formula: Division by zero at position 15');
+    // Lenient pricing, as the Formula Studio sandbox and sensitivity sweep use, still prices the failed formula at zero
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(priceEntry(settings, 'without', { invoice_value: toDecimal(1000) }).billing.billable).toBe(toDecimal(DEFAULT_SETTINGS.minBilling));
+    logged.mockRestore();
+  });
+
+  it('refuses unknown customers and PGA values above the invoice', () => {
+    expect(() => quoteEntry(DEFAULT_SETTINGS, { invoiceValue: 1000, customer: 'Nobody' })).toThrow('Unknown customer profile "Nobody".');
+    expect(() => quoteEntry(DEFAULT_SETTINGS, { invoiceValue: 1000, pgaValue: 2000 })).toThrow('The PGA value cannot be more than the invoice value.');
+  });
+
+  it('refuses duties on a PGA entry instead of dropping them', () => {
+    expect(() => quoteEntry(DEFAULT_SETTINGS, { invoiceValue: 5000, duties: 300, pgaValue: 100 })).toThrow(/Duties are not part of a PGA bond value/);
+    expect(quoteEntry(DEFAULT_SETTINGS, { invoiceValue: 5000, duties: 0, pgaValue: 100 }).bondValue).toBe('5200.00');
+  });
+});
@@ -0,0 +1,1439 @@
+// Pricing engine - settings, fixed-point money, the formula language and everything that
+// turns entry inputs into buy and sell figures. Nothing here touches React or browser storage,
+// so the calculator, the bond-calc CLI and batch scripts all price through the same code.
+
+// PGA agency / program codes, each with its own liability factor
+export interface PgaAgency {
+  id: string;
+  agency: string;
+  program: string;
+  description: string;
+  factor: number;
+}
+
+export const DEFAULT_PGA_AGENCIES: PgaAgency[] = [
+  { id: 'FDA-FOO', agency: 'FDA', program: 'FOO', description: 'Food', factor: 3 },
+  { id: 'FDA-DRU', agency: 'FDA', program: 'DRU', description: 'Drugs', factor: 3 },
+  { id: 'FDA-DEV', agency: 'FDA', program: 'DEV', description: 'Medical Devices', factor: 3 },
+  { id: 'FDA-COS', agency: 'FDA', program: 'COS', description: 'Cosmetics', factor: 3 },
+  { id: 'USDA-APQ', agency: 'USDA', program: 'APQ', description: 'APHIS Plant Protection & Quarantine', factor: 3 },
+  { id: 'EPA-PS', agency: 'EPA', program: 'PS', description: 'Pesticides', factor: 3 },
+  { id: 'EPA-VNE', agency: 'EPA', program: 'VNE', description: 'Vehicles & Engines', factor: 3 },
+  { id: 'CPSC-CPS', agency: 'CPSC', program: 'CPS', description: 'Consumer Products', factor: 3 },
+  { id: 'FWS-FWS', agency: 'FWS', program: 'FWS', description: 'Fish & Wildlife', factor: 3 },
+  { id: 'NHTSA-MVS', agency: 'NHTSA', program: 'MVS', description: 'Motor Vehicle Safety', factor: 3 },
+];
+
+// Continuous bond premium tiers - annual premium charged for each limit of liability
+export interface ContinuousBondTier {
+  id: string;
+  limit: number;
+  premium: number;
+}
+
+export const DEFAULT_CONTINUOUS_BOND_TIERS: ContinuousBondTier[] = [
+  { id: 'CB-50K', limit: 50000, premium: 550 },
+  { id: 'CB-100K', limit: 100000, premium: 1100 },
+  { id: 'CB-200K', limit: 200000, premium: 2200 },
+  { id: 'CB-500K', limit: 500000, premium: 5500 },
+];
+
+// Admin-declared names for formulas - constants carry a fixed value, inputs are entered with each entry
+export interface FormulaConstant {
+  id: string;
+  name: string;
+  value: number;
+  description: string;
+}
+
+export interface FormulaInput {
+  id: string;
+  name: string;
+  label: string;
+}
+
+// Formula test suite - stored cases with the buy and sell each one is expected to produce
+export interface FormulaTestCase {
+  id: string;
+  name: string;
+  mode: EntryMode;
+  inputs: Record<string, number>;
+  expectedBuy: number;
+  expectedSell: number;
+}
+
+// Effective-dated rate schedules - each one overrides the base formulas and parameters for its date range
+export interface ScheduleRates {
+  standardBuyFormula: string;
+  standardSellFormula: string;
+  pgaBuyFormula: string;
+  pgaSellFormula: string;
+  sellRatePercent: number;
+  buyRateMultiplier: number;
+  pgaMultiplier: number;
+  minBilling: number;
+  maxBilling: number;
+  standardMinBilling: number;
+  pgaMinBilling: number;
+}
+
+export interface RateSchedule {
+  id: string;
+  name: string;
+  // YYYY-MM-DD, both inclusive; an empty effectiveTo runs until further notice
+  effectiveFrom: string;
+  effectiveTo: string;
+  rates: ScheduleRates;
+}
+
+// Bracketed rate tables - a rate per $1,000 of bond value that changes across value bands
+export type BracketMethod = 'off' | 'marginal' | 'whole';
+
+export const BRACKET_METHODS: Record<BracketMethod, string> = {
+  off: 'Off - use the formula',
+  marginal: 'Marginal - each band rates its own slice',
+  whole: 'Whole Amount - the band reached rates the full value',
+};
+
+export interface RateBand {
+  id: string;
+  // Upper bound of the band in bond value; 0 = no upper limit
+  upTo: number;
+  ratePerThousand: number;
+}
+
+// Customer pricing profiles - negotiated overrides for key accounts; 0 keeps the standard value
+export interface CustomerProfile {
+  id: string;
+  name: string;
+  sellRatePercent: number;
+  minBilling: number;
+  pgaMultiplier: number;
+}
+
+// Factory defaults - in force until an admin commits settings of their own
+export const DEFAULT_SETTINGS = {
+  logo: 'logo.png',
+  minBilling: 65.00,
+  maxBilling: 0,
+  standardMinBilling: 0,
+  pgaMinBilling: 0,
+  // ISF (10+2) bonds - a flat fee per filing, whatever the entry is worth
+  isfBuyPrice: 35.00,
+  isfSellPrice: 60.00,
+  sellRatePercent: 0.40,
+  buyRateMultiplier: 0.99,
+  pgaMultiplier: 3,
+  pgaAgencies: DEFAULT_PGA_AGENCIES,
+  continuousBondTiers: DEFAULT_CONTINUOUS_BOND_TIERS,
+  rateSchedules: [] as RateSchedule[],
+  formulaConstants: [] as FormulaConstant[],
+  formulaInputs: [] as FormulaInput[],
+  formulaTestCases: [] as FormulaTestCase[],
+  buyBracketMethod: 'off' as BracketMethod,
+  sellBracketMethod: 'off' as BracketMethod,
+  buyRateBands: [{ id: 'BUY-OPEN', upTo: 0, ratePerThousand: 0.99 }] as RateBand[],
+  sellRateBands: [{ id: 'SELL-OPEN', upTo: 0, ratePerThousand: 4 }] as RateBand[],
+  customerProfiles: [] as CustomerProfile[],
+  standardBuyFormula: '((invoice_value + duties) * buy_rate_multiplier) / 1000',
+  standardSellFormula: '((invoice_value + duties) * sell_rate_percent) / 100',
+  pgaBuyFormula: '(((invoice_value_with_pga * pga_liability_factor) + invoice_value_without_pga) * buy_rate_multiplier) / 1000',
+  pgaSellFormula: '(((invoice_value_with_pga * pga_liability_factor) + invoice_value_without_pga) * sell_rate_percent) / 100',
+  buyRounding: 'half-up' as RoundingMode,
+  sellRounding: 'half-up' as RoundingMode,
+  displayRounding: 'half-up' as RoundingMode,
+  invoiceRounding: 'half-up' as RoundingMode,
+};
+
+export const PALETTES = {
+  classic: { name: 'Classic (TEU)', primary: '#004B8D', accent: '#FF6600' },
+  emerald: { name: 'Emerald', primary: '#065f46', accent: '#10b981' },
+  indigo: { name: 'Indigo', primary: '#3730a3', accent: '#6366f1' },
+  slate: { name: 'Midnight', primary: '#1e293b', accent: '#38bdf8' },
+  clean: { name: 'Modern Sky', primary: '#0ea5e9', accent: '#64748b' },
+};
+
+export type PaletteKey = keyof typeof PALETTES;
+
+// Fixed-point money arithmetic. A Decimal is a bigint holding the value scaled by
+// 10^DECIMAL_PLACES, so sums of large invoices never pick up binary float drift.
+export type Decimal = bigint;
+
+export type RoundingMode = 'half-up' | 'half-even' | 'up';
+
+export const ROUNDING_MODES: Record<RoundingMode, string> = {
+  'half-up': 'Half-Up (0.005 → 0.01)',
+  'half-even': "Banker's (half to even)",
+  'up': 'Round Up to the Cent',
+};
+
+export const DECIMAL_PLACES = 18;
+export const DECIMAL_SCALE = 10n ** BigInt(DECIMAL_PLACES);
+export const DECIMAL_ONE: Decimal = DECIMAL_SCALE;
+
+// Integer division of n by d using the given rounding mode (ties and 'up' move away from zero)
+export const roundedDivide = (n: bigint, d: bigint, mode: RoundingMode): bigint => {
+  if (d === 0n) throw new Error('Division by zero');
+  if (d < 0n) { n = -n; d = -d; }
+  const quotient = n / d;
+  const remainder = n % d;
+  if (remainder === 0n) return quotient;
+  const step = n < 0n ? -1n : 1n;
+  const twice = (remainder < 0n ? -remainder : remainder) * 2n;
+  if (mode === 'up') return quotient + step;
+  if (twice > d) return quotient + step;
+  if (twice < d) return quotient;
+  return mode === 'half-up' || quotient % 2n !== 0n ? quotient + step : quotient;
+};
+
+// Far beyond any money amount, and small enough that a pasted "1e3000000" cannot stall the bigint arithmetic
+const MAX_DECIMAL_DIGITS = 40;
+const MAX_DECIMAL_EXPONENT = 40;
+
+// Parse a decimal string ("1234.56", "-0.5", "1e3") exactly; null when it is not a number or is out of range
+export const parseDecimal = (text: string): Decimal | null => {
+  const match = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(text.trim());
+  if (!match || (!match[2] && !match[3])) return null;
+  const [, sign, whole = '', fraction = '', exponent = '0'] = match;
+  if (whole.length + fraction.length > MAX_DECIMAL_DIGITS || Math.abs(parseInt(exponent, 10)) > MAX_DECIMAL_EXPONENT) return null;
+  const shift = DECIMAL_PLACES + parseInt(exponent, 10) - fraction.length;
+  const digits = BigInt(whole + fraction || '0');
+  const value = shift >= 0 ? digits * 10n ** BigInt(shift) : roundedDivide(digits, 10n ** BigInt(-shift), 'half-even');
+  return sign === '-' ? -value : value;
+};
+
+// Convert user input or a stored number to a Decimal; blanks and garbage count as zero
+export const toDecimal = (value: number | string | null | undefined): Decimal => {
+  if (typeof value === 'number') return Number.isFinite(value) ? parseDecimal(String(value)) ?? 0n : 0n;
+  return value ? parseDecimal(value) ?? 0n : 0n;
+};
+
+export const decimalMultiply = (a: Decimal, b: Decimal): Decimal => roundedDivide(a * b, DECIMAL_SCALE, 'half-even');
+
+export const decimalDivide = (a: Decimal, b: Decimal): Decimal => roundedDivide(a * DECIMAL_SCALE, b, 'half-even');
+
+export const decimalFloor = (a: Decimal): Decimal => {
+  const whole = a / DECIMAL_SCALE;
+  return (a < 0n && a % DECIMAL_SCALE !== 0n ? whole - 1n : whole) * DECIMAL_SCALE;
+};
+
+export const decimalSqrt = (a: Decimal): Decimal => {
+  // Newton's method on the integer a * SCALE gives sqrt(a) at full precision
+  const n = a * DECIMAL_SCALE;
+  if (n < 2n) return n;
+  let x = n;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + n / x) / 2n;
+  }
+  return x;
+};
+
+export const decimalPower = (base: Decimal, exponent: Decimal): Decimal => {
+  // Integer exponents stay exact; fractional ones fall back to floating point
+  if (exponent % DECIMAL_SCALE === 0n && exponent <= 64n * DECIMAL_SCALE && exponent >= -64n * DECIMAL_SCALE) {
+    let result = DECIMAL_ONE;
+    const count = exponent < 0n ? -exponent / DECIMAL_SCALE : exponent / DECIMAL_SCALE;
+    for (let i = 0n; i < count; i++) result = decimalMultiply(result, base);
+    return exponent < 0n ? decimalDivide(DECIMAL_ONE, result) : result;
+  }
+  const result = decimalToNumber(base) ** decimalToNumber(exponent);
+  if (!Number.isFinite(result)) throw new Error('Power result is not a finite number');
+  return toDecimal(result);
+};
+
+// Round to a number of decimal places with an explicit rounding mode
+export const roundDecimal = (a: Decimal, places: number, mode: RoundingMode): Decimal => {
+  const unit = 10n ** BigInt(DECIMAL_PLACES - Math.min(Math.max(places, 0), DECIMAL_PLACES));
+  return roundedDivide(a, unit, mode) * unit;
+};
+
+// Plain string form; maxPlaces rounds half-even and drops trailing zeros
+export const decimalToString = (a: Decimal, maxPlaces: number = DECIMAL_PLACES): string => {
+  const rounded = roundDecimal(a, maxPlaces, 'half-even');
+  const abs = rounded < 0n ? -rounded : rounded;
+  const whole = (abs / DECIMAL_SCALE).toString();
+  const fraction = (abs % DECIMAL_SCALE).toString().padStart(DECIMAL_PLACES, '0').replace(/0+$/, '');
+  return `${rounded < 0n ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+export const decimalToNumber = (a: Decimal): number => parseFloat(decimalToString(a));
+
+// Money output: rounded to the cent with the given mode, always two places
+export const formatMoney = (a: Decimal, mode: RoundingMode = 'half-up'): string => {
+  const cents = roundedDivide(a, DECIMAL_SCALE / 100n, mode);
+  const abs = cents < 0n ? -cents : cents;
+  return `${cents < 0n ? '-' : ''}${abs / 100n}.${(abs % 100n).toString().padStart(2, '0')}`;
+};
+
+// Formula language: tokenizer -> recursive-descent parser -> AST evaluator.
+// Nothing is ever handed to eval/Function; only the node types below can run.
+export class FormulaError extends Error {
+  position: number;
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'FormulaError';
+    this.position = position;
+  }
+}
+
+type FormulaToken =
+  | { type: 'number'; value: Decimal; pos: number }
+  | { type: 'identifier'; name: string; pos: number }
+  | { type: 'operator'; op: string; pos: number }
+  | { type: 'end'; pos: number };
+
+export type FormulaNode =
+  | { type: 'number'; value: Decimal; pos: number }
+  | { type: 'variable'; name: string; pos: number }
+  | { type: 'unary'; op: '-' | '+'; operand: FormulaNode; pos: number }
+  | { type: 'binary'; op: string; left: FormulaNode; right: FormulaNode; pos: number }
+  | { type: 'call'; name: string; args: FormulaNode[]; pos: number };
+
+const FORMULA_OPERATORS = ['**', '<=', '>=', '==', '!=', '+', '-', '*', '/', '%', '<', '>', '(', ')', ','];
+
+// Built-in functions: [min args, max args]
+export const FORMULA_FUNCTIONS: Record<string, [number, number]> = {
+  min: [1, Infinity],
+  max: [1, Infinity],
+  round: [1, 2],
+  ceil: [1, 1],
+  floor: [1, 1],
+  abs: [1, 1],
+  sqrt: [1, 1],
+  if: [3, 3],
+};
+
+const tokenizeFormula = (source: string): FormulaToken[] => {
+  const tokens: FormulaToken[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new FormulaError(`Malformed number '${ch}'`, i);
+      const value = parseDecimal(match[0]);
+      if (value === null) throw new FormulaError(`Number '${match[0]}' is out of range`, i);
+      tokens.push({ type: 'number', value, pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))![0];
+      tokens.push({ type: 'identifier', name, pos: i });
+      i += name.length;
+      continue;
+    }
+
+    const op = FORMULA_OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) throw new FormulaError(`Unexpected character '${ch}'`, i);
+    tokens.push({ type: 'operator', op, pos: i });
+    i += op.length;
+  }
+  tokens.push({ type: 'end', pos: source.length });
+  return tokens;
+};
+
+export const parseFormula = (source: string): FormulaNode => {
+  const tokens = tokenizeFormula(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (...ops: string[]) => {
+    const token = peek();
+    return token.type === 'operator' && ops.includes(token.op);
+  };
+  const expect = (op: string) => {
+    const token = peek();
+    if (token.type !== 'operator' || token.op !== op) {
+      throw new FormulaError(token.type === 'end' ? `Expected '${op}' but formula ended` : `Expected '${op}'`, token.pos);
+    }
+    index++;
+  };
+
+  const parseBinary = (ops: string[], next: () => FormulaNode) => (): FormulaNode => {
+    let left = next();
+    while (isOperator(...ops)) {
+      const token = tokens[index++] as Extract<FormulaToken, { type: 'operator' }>;
+      left = { type: 'binary', op: token.op, left, right: next(), pos: token.pos };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    if (token.type === 'number') {
+      index++;
+      return { type: 'number', value: token.value, pos: token.pos };
+    }
+    if (token.type === 'identifier') {
+      index++;
+      if (!isOperator('(')) return { type: 'variable', name: token.name, pos: token.pos };
+      const arity = FORMULA_FUNCTIONS[token.name];
+      if (!arity) throw new FormulaError(`Unknown function '${token.name}'`, token.pos);
+      index++;
+      const args: FormulaNode[] = [];
+      if (!isOperator(')')) {
+        args.push(parseExpression());
+        while (isOperator(',')) {
+          index++;
+          args.push(parseExpression());
+        }
+      }
+      expect(')');
+      if (args.length < arity[0] || args.length > arity[1]) {
+        throw new FormulaError(`Wrong number of arguments for '${token.name}'`, token.pos);
+      }
+      return { type: 'call', name: token.name, args, pos: token.pos };
+    }
+    if (isOperator('(')) {
+      index++;
+      const inner = parseExpression();
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'end') throw new FormulaError('Unexpected end of formula', token.pos);
+    throw new FormulaError(`Unexpected '${token.op}'`, token.pos);
+  };
+
+  // Unary minus binds looser than '**' so -2**2 evaluates to -4
+  const parseUnary = (): FormulaNode => {
+    if (isOperator('-', '+')) {
+      const token = tokens[index++] as Extract<FormulaToken, { type: 'operator' }>;
+      return { type: 'unary', op: token.op as '-' | '+', operand: parseUnary(), pos: token.pos };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (!isOperator('**')) return base;
+    const token = tokens[index++];
+    return { type: 'binary', op: '**', left: base, right: parseUnary(), pos: token.pos };
+  };
+
+  const parseTerm = parseBinary(['*', '/', '%'], parseUnary);
+  const parseSum = parseBinary(['+', '-'], parseTerm);
+  const parseComparison = parseBinary(['<', '<=', '>', '>=', '==', '!='], parseSum);
+  function parseExpression(): FormulaNode { return parseComparison(); }
+
+  const ast = parseExpression();
+  const trailing = peek();
+  if (trailing.type !== 'end') throw new FormulaError('Unexpected token after expression', trailing.pos);
+  return ast;
+};
+
+export const evaluateNode = (node: FormulaNode, variables: Record<string, Decimal>): Decimal => {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      if (!Object.prototype.hasOwnProperty.call(variables, node.name)) {
+        throw new FormulaError(`Unknown variable '${node.name}'`, node.pos);
+      }
+      return variables[node.name];
+    case 'unary': {
+      const value = evaluateNode(node.operand, variables);
+      return node.op === '-' ? -value : value;
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, variables);
+      const right = evaluateNode(node.right, variables);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return decimalMultiply(left, right);
+        case '/':
+        case '%':
+          if (right === 0n) throw new FormulaError('Division by zero', node.pos);
+          return node.op === '/' ? decimalDivide(left, right) : left % right;
+        case '**':
+          try {
+            return decimalPower(left, right);
+          } catch (error) {
+            throw new FormulaError(error instanceof Error ? error.message : String(error), node.pos);
+          }
+        case '<': return left < right ? DECIMAL_ONE : 0n;
+        case '<=': return left <= right ? DECIMAL_ONE : 0n;
+        case '>': return left > right ? DECIMAL_ONE : 0n;
+        case '>=': return left >= right ? DECIMAL_ONE : 0n;
+        case '==': return left === right ? DECIMAL_ONE : 0n;
+        case '!=': return left !== right ? DECIMAL_ONE : 0n;
+      }
+      throw new FormulaError(`Unknown operator '${node.op}'`, node.pos);
+    }
+    case 'call': {
+      // if() only evaluates the branch it picks
+      if (node.name === 'if') {
+        return evaluateNode(node.args[0], variables) !== 0n
+          ? evaluateNode(node.args[1], variables)
+          : evaluateNode(node.args[2], variables);
+      }
+      const args = node.args.map(arg => evaluateNode(arg, variables));
+      switch (node.name) {
+        case 'min': return args.reduce((a, b) => (b < a ? b : a));
+        case 'max': return args.reduce((a, b) => (b > a ? b : a));
+        case 'round': return roundDecimal(args[0], args[1] === undefined ? 0 : Number(args[1] / DECIMAL_SCALE), 'half-up');
+        case 'ceil': return -decimalFloor(-args[0]);
+        case 'floor': return decimalFloor(args[0]);
+        case 'abs': return args[0] < 0n ? -args[0] : args[0];
+        case 'sqrt':
+          if (args[0] < 0n) throw new FormulaError('Square root of a negative number', node.pos);
+          return decimalSqrt(args[0]);
+      }
+      throw new FormulaError(`Unknown function '${node.name}'`, node.pos);
+    }
+  }
+};
+
+// Names of every variable a formula references
+export const collectFormulaVariables = (node: FormulaNode, found: Set<string> = new Set()): Set<string> => {
+  if (node.type === 'variable') found.add(node.name);
+  else if (node.type === 'unary') collectFormulaVariables(node.operand, found);
+  else if (node.type === 'binary') {
+    collectFormulaVariables(node.left, found);
+    collectFormulaVariables(node.right, found);
+  } else if (node.type === 'call') node.args.forEach(arg => collectFormulaVariables(arg, found));
+  return found;
+};
+
+// Safe formula evaluation function - a formula that fails prices at zero, unless strict asks for the error
+export const evaluateFormula = (formula: string, variables: Record<string, Decimal>, strict = false): Decimal => {
+  try {
+    return evaluateNode(parseFormula(formula), variables);
+  } catch (error) {
+    if (strict) throw error;
+    console.error('Formula evaluation error:', error);
+    return 0n;
+  }
+};
+
+// Validate formula syntax - returns an error message, or null when the formula is usable
+export const validateFormula = (formula: string, requiredVars: string[], optionalVars: string[] = []): string | null => {
+  try {
+    const ast = parseFormula(formula);
+
+    // Check if all required variables are present
+    const referenced = collectFormulaVariables(ast);
+    const missing = requiredVars.filter(v => !referenced.has(v));
+    if (missing.length) return `Missing required variable(s): ${missing.join(', ')}`;
+
+    // Test with sample values - any other variable is reported as unknown
+    const testVars: Record<string, Decimal> = {};
+    [...requiredVars, ...optionalVars].forEach(v => testVars[v] = toDecimal(100));
+
+    evaluateNode(ast, testVars);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+export type FormulaKey = 'standardBuyFormula' | 'standardSellFormula' | 'pgaBuyFormula' | 'pgaSellFormula';
+
+// Variables each Formula Studio formula must reference. PGA formulas take the liability factor as a variable, so the
+// agency and customer factors that scale the reported bond value also scale the price
+export const FORMULA_VARIABLES: Record<FormulaKey, string[]> = {
+  standardBuyFormula: ['invoice_value', 'duties'],
+  standardSellFormula: ['invoice_value', 'duties'],
+  pgaBuyFormula: ['invoice_value_with_pga', 'invoice_value_without_pga', 'pga_liability_factor'],
+  pgaSellFormula: ['invoice_value_with_pga', 'invoice_value_without_pga', 'pga_liability_factor'],
+};
+
+// Variables a formula may reference but does not have to
+export const FORMULA_OPTIONAL_VARIABLES: Record<FormulaKey, string[]> = {
+  standardBuyFormula: [],
+  standardSellFormula: [],
+  pgaBuyFormula: [],
+  pgaSellFormula: [],
+};
+
+// Parameters formulas can reference by name instead of repeating the number
+export const PARAMETER_VARIABLES = {
+  buy_rate_multiplier: 'buyRateMultiplier',
+  sell_rate_percent: 'sellRatePercent',
+} as const;
+
+// Names admins cannot claim for their own constants or inputs
+export const RESERVED_FORMULA_NAMES = new Set([
+  ...Object.values(FORMULA_VARIABLES).flat(),
+  ...Object.values(FORMULA_OPTIONAL_VARIABLES).flat(),
+  ...Object.keys(PARAMETER_VARIABLES),
+  ...Object.keys(FORMULA_FUNCTIONS),
+]);
+
+// Everything a formula may use besides its required variables
+export const optionalFormulaVariables = (settings: typeof DEFAULT_SETTINGS, key: FormulaKey): string[] => [
+  ...FORMULA_OPTIONAL_VARIABLES[key],
+  ...Object.keys(PARAMETER_VARIABLES),
+  ...(settings.formulaConstants ?? []).map(c => c.name),
+  ...(settings.formulaInputs ?? []).map(i => i.name),
+];
+
+export const constantVariables = (settings: typeof DEFAULT_SETTINGS): Record<string, Decimal> => {
+  const values: Record<string, Decimal> = {};
+  Object.entries(PARAMETER_VARIABLES).forEach(([name, key]) => values[name] = toDecimal(settings[key]));
+  (settings.formulaConstants ?? []).forEach(c => values[c.name] = toDecimal(c.value));
+  return values;
+};
+
+// Returns an error message, or null when every declared constant and input has a usable, unique name
+export const checkDeclaredNames = (settings: typeof DEFAULT_SETTINGS): string | null => {
+  const seen = new Set<string>();
+  const declared = [...(settings.formulaConstants ?? []), ...(settings.formulaInputs ?? [])];
+  for (const { name } of declared) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) return `"${name}" is not a valid variable name - use letters, digits and underscores, starting with a letter.`;
+    if (RESERVED_FORMULA_NAMES.has(name)) return `"${name}" is a built-in name and cannot be redeclared.`;
+    if (seen.has(name)) return `"${name}" is declared more than once.`;
+    seen.add(name);
+  }
+  if ((settings.formulaConstants ?? []).some(c => !Number.isFinite(c.value))) return 'Every named constant needs a numeric value.';
+  return null;
+};
+
+// Declared inputs referenced by the formulas of one calculator mode, in declaration order
+export const formulaInputsFor = (settings: typeof DEFAULT_SETTINGS, mode: 'without' | 'with'): FormulaInput[] => {
+  const keys: FormulaKey[] = mode === 'without' ? ['standardBuyFormula', 'standardSellFormula'] : ['pgaBuyFormula', 'pgaSellFormula'];
+  const referenced = new Set<string>();
+  keys.forEach(key => {
+    try {
+      collectFormulaVariables(parseFormula(settings[key]), referenced);
+    } catch {
+      // Invalid formulas are reported by the Control Center
+    }
+  });
+  return (settings.formulaInputs ?? []).filter(input => referenced.has(input.name));
+};
+
+// Exactly the variables a formula sees - constants included and never overridden, anything not supplied is zero
+export const scopeFormulaVariables = (settings: typeof DEFAULT_SETTINGS, key: FormulaKey, variables: Record<string, Decimal>): Record<string, Decimal> => {
+  const available = { ...variables, ...constantVariables(settings) };
+  const scoped: Record<string, Decimal> = {};
+  [...FORMULA_VARIABLES[key], ...optionalFormulaVariables(settings, key)].forEach(v => scoped[v] = available[v] ?? 0n);
+  return scoped;
+};
+
+// Calculation engine - every Buy/Sell result is produced by the saved formulas
+export const runFormula = (settings: typeof DEFAULT_SETTINGS, key: FormulaKey, variables: Record<string, Decimal>, strict = false): Decimal => {
+  try {
+    return evaluateFormula(settings[key], scopeFormulaVariables(settings, key, variables), strict);
+  } catch (error) {
+    if (error instanceof FormulaError) error.message = `${FORMULA_LABELS[key]}: ${error.message}`;
+    throw error;
+  }
+};
+
+// Expression tree of a formula with the value of every sub-expression
+export interface FormulaTrace {
+  label: string;
+  value: Decimal | null;
+  error: string | null;
+  children: FormulaTrace[];
+}
+
+const traceFormulaNode = (node: FormulaNode, variables: Record<string, Decimal>): FormulaTrace => {
+  let value: Decimal | null = null;
+  let error: string | null = null;
+  try {
+    value = evaluateNode(node, variables);
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+  const label = node.type === 'number' ? decimalToString(node.value)
+    : node.type === 'variable' ? node.name
+    : node.type === 'call' ? `${node.name}()`
+    : node.op;
+  const children = node.type === 'unary' ? [node.operand]
+    : node.type === 'binary' ? [node.left, node.right]
+    : node.type === 'call' ? node.args
+    : [];
+  return { label, value, error, children: children.map(child => traceFormulaNode(child, variables)) };
+};
+
+// The trace, or the parse error message when the formula does not parse
+export const traceFormula = (settings: typeof DEFAULT_SETTINGS, key: FormulaKey, variables: Record<string, Decimal>): FormulaTrace | string => {
+  try {
+    return traceFormulaNode(parseFormula(settings[key]), scopeFormulaVariables(settings, key, variables));
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+export type EntryMode = 'without' | 'with';
+export type BillingMode = 'standard' | 'pga';
+export type BillingRule = 'formula' | 'minimum' | 'mode-floor' | 'maximum';
+
+export interface BillingResult {
+  raw: Decimal;
+  floor: Decimal;
+  billable: Decimal;
+  rule: BillingRule;
+}
+
+export const BILLING_RULE_LABELS: Record<BillingRule, string> = {
+  formula: 'Formula Rate',
+  minimum: 'Minimum Billing',
+  'mode-floor': 'Mode Floor',
+  maximum: 'Maximum Cap',
+};
+
+// Billing rules layer - turns the raw sell formula output into the billable amount.
+// The higher of the global minimum and the mode floor applies, then the cap (0 = no cap).
+export const applyBillingRules = (raw: Decimal, bondValue: Decimal, mode: BillingMode, settings: typeof DEFAULT_SETTINGS): BillingResult => {
+  const minimum = toDecimal(settings.minBilling);
+  const modeFloor = toDecimal(mode === 'standard' ? settings.standardMinBilling : settings.pgaMinBilling);
+  const floor = modeFloor > minimum ? modeFloor : minimum;
+  if (bondValue <= 0n) return { raw, floor, billable: raw, rule: 'formula' };
+
+  let billable = raw;
+  let rule: BillingRule = 'formula';
+  if (raw < floor) {
+    billable = floor;
+    rule = modeFloor > minimum ? 'mode-floor' : 'minimum';
+  }
+  const cap = toDecimal(settings.maxBilling);
+  if (cap > 0n && billable > cap) {
+    billable = cap;
+    rule = 'maximum';
+  }
+  return { raw, floor, billable, rule };
+};
+
+export const describeBillingResult = (billing: BillingResult): string | null => {
+  if (billing.rule === 'formula') return null;
+  return `${BILLING_RULE_LABELS[billing.rule]} of $${formatMoney(billing.billable)} applied (formula computed $${formatMoney(billing.raw)}).`;
+};
+
+// One band's share of a bracketed price
+export interface BracketLine {
+  from: Decimal;
+  // null for the open-ended top band
+  upTo: Decimal | null;
+  ratePerThousand: Decimal;
+  basis: Decimal;
+  amount: Decimal;
+}
+
+export interface BracketResult {
+  method: BracketMethod;
+  total: Decimal;
+  lines: BracketLine[];
+}
+
+const sortedRateBands = (bands: RateBand[]): RateBand[] =>
+  [...bands].sort((a, b) => (a.upTo || Infinity) - (b.upTo || Infinity));
+
+// Marginal pricing rates every band's slice of the bond value; whole-amount rates the full value at the band it falls in
+export const evaluateBrackets = (bands: RateBand[], method: BracketMethod, bondValue: Decimal): BracketResult => {
+  const lines: BracketLine[] = [];
+  let from = 0n;
+  for (const band of sortedRateBands(bands)) {
+    const upTo = band.upTo > 0 ? toDecimal(band.upTo) : null;
+    const ratePerThousand = toDecimal(band.ratePerThousand);
+    const reached = upTo === null || bondValue <= upTo;
+    const top = reached ? bondValue : upTo;
+    if (reached || (method === 'marginal' && top > from)) {
+      const basis = method === 'whole' ? bondValue : top - from;
+      lines.push({ from, upTo, ratePerThousand, basis, amount: decimalDivide(decimalMultiply(basis, ratePerThousand), toDecimal(1000)) });
+    }
+    if (reached) break;
+    from = top;
+  }
+  return { method, total: lines.reduce((sum, line) => sum + line.amount, 0n), lines };
+};
+
+export const describeBracketBand = (line: BracketLine): string =>
+  line.upTo === null ? `Over $${formatMoney(line.from)}` : `$${formatMoney(line.from)} - $${formatMoney(line.upTo)}`;
+
+export const validateRateBands = (label: string, bands: RateBand[]): string | null => {
+  if (bands.some(b => !(b.upTo >= 0) || !(b.ratePerThousand >= 0))) {
+    return `Every ${label} rate band needs a limit and a rate per $1,000 of zero or more.`;
+  }
+  if (bands.filter(b => b.upTo === 0).length !== 1) {
+    return `The ${label} bracket table needs exactly one open-ended top band (limit 0).`;
+  }
+  const limits = bands.filter(b => b.upTo > 0).map(b => b.upTo);
+  if (new Set(limits).size !== limits.length) return `Two ${label} rate bands share the same limit.`;
+  return null;
+};
+
+export interface EntryPricing {
+  bondValue: Decimal;
+  buy: Decimal;
+  billing: BillingResult;
+  // Set when a bracket table replaces the buy or sell formula
+  buyBrackets: BracketResult | null;
+  sellBrackets: BracketResult | null;
+}
+
+// Prices one entry through the saved formulas (or bracket tables) and billing rules - shared by the calculators and batch import.
+// Strict pricing throws the FormulaError of a formula that fails at run time instead of billing the minimum on a zero result.
+export const priceEntry = (settings: typeof DEFAULT_SETTINGS, mode: EntryMode, variables: Record<string, Decimal>, strict = false): EntryPricing => {
+  // Callers pass the entry's blended agency factor; lump-sum entries use the default factor
+  const scoped: Record<string, Decimal> = mode === 'without'
+    ? variables
+    : { ...variables, pga_liability_factor: variables.pga_liability_factor ?? toDecimal(settings.pgaMultiplier) };
+  const bondValue = mode === 'without'
+    ? (scoped.invoice_value ?? 0n) + (scoped.duties ?? 0n)
+    : decimalMultiply(scoped.invoice_value_with_pga ?? 0n, scoped.pga_liability_factor) + (scoped.invoice_value_without_pga ?? 0n);
+  const buyBrackets = settings.buyBracketMethod === 'off' ? null : evaluateBrackets(settings.buyRateBands, settings.buyBracketMethod, bondValue);
+  const sellBrackets = settings.sellBracketMethod === 'off' ? null : evaluateBrackets(settings.sellRateBands, settings.sellBracketMethod, bondValue);
+  const buy = buyBrackets ? buyBrackets.total : runFormula(settings, mode === 'without' ? 'standardBuyFormula' : 'pgaBuyFormula', scoped, strict);
+  const sell = sellBrackets ? sellBrackets.total : runFormula(settings, mode === 'without' ? 'standardSellFormula' : 'pgaSellFormula', scoped, strict);
+  return {
+    bondValue,
+    buy,
+    billing: applyBillingRules(sell, bondValue, mode === 'without' ? 'standard' : 'pga', settings),
+    buyBrackets,
+    sellBrackets,
+  };
+};
+
+// An ISF filing on its own, or with the single entry bond priced for the same shipment
+export interface IsfPricing {
+  isf: { buy: Decimal; sell: Decimal };
+  seb: { buy: Decimal; sell: Decimal } | null;
+  buy: Decimal;
+  sell: Decimal;
+}
+
+// Each part is rounded to the cent before adding, so the combined total matches the lines shown above it
+export const priceIsfShipment = (settings: typeof DEFAULT_SETTINGS, seb: { buy: Decimal; sell: Decimal } | null): IsfPricing => {
+  const isf = { buy: toDecimal(settings.isfBuyPrice), sell: toDecimal(settings.isfSellPrice) };
+  const buyCents = (value: Decimal) => roundDecimal(value, 2, settings.buyRounding);
+  const sellCents = (value: Decimal) => roundDecimal(value, 2, settings.sellRounding);
+  return {
+    isf,
+    seb,
+    buy: buyCents(isf.buy) + (seb ? buyCents(seb.buy) : 0n),
+    sell: sellCents(isf.sell) + (seb ? sellCents(seb.sell) : 0n),
+  };
+};
+
+export interface FormulaTestResult {
+  buy: Decimal;
+  sell: Decimal;
+  // Actual minus expected, at the cent
+  buyDelta: Decimal;
+  sellDelta: Decimal;
+  passed: boolean;
+}
+
+// Built-in variables a test case can set for each mode; pga_liability_factor falls back to the default when blank
+export const TEST_CASE_VARIABLES: Record<EntryMode, string[]> = {
+  without: ['invoice_value', 'duties'],
+  with: ['invoice_value_with_pga', 'invoice_value_without_pga', 'pga_liability_factor'],
+};
+
+export const runFormulaTestCase = (settings: typeof DEFAULT_SETTINGS, testCase: FormulaTestCase): FormulaTestResult => {
+  const variables: Record<string, Decimal> = {};
+  Object.keys(testCase.inputs).forEach(name => variables[name] = toDecimal(testCase.inputs[name]));
+  const pricing = priceEntry(settings, testCase.mode, variables);
+  const buy = roundDecimal(pricing.buy, 2, settings.buyRounding);
+  const sell = roundDecimal(pricing.billing.billable, 2, settings.sellRounding);
+  const buyDelta = buy - toDecimal(testCase.expectedBuy);
+  const sellDelta = sell - toDecimal(testCase.expectedSell);
+  return { buy, sell, buyDelta, sellDelta, passed: buyDelta === 0n && sellDelta === 0n };
+};
+
+// Sensitivity sweep - buy and billed sell as one input moves across a range, everything else held at the sandbox values
+export interface SensitivityPoint {
+  x: number;
+  buy: number;
+  sell: number;
+  floor: number;
+}
+
+export const SENSITIVITY_STEPS = 60;
+
+export const SENSITIVITY_VARIABLES: Record<EntryMode, Array<{ name: string; label: string }>> = {
+  without: [{ name: 'invoice_value', label: 'Invoice Value' }, { name: 'duties', label: 'Duties' }],
+  with: [{ name: 'invoice_value_with_pga', label: 'Invoice Value (With PGA)' }, { name: 'invoice_value_without_pga', label: 'Invoice Value (Without PGA)' }],
+};
+
+export const sweepSensitivity = (
+  settings: typeof DEFAULT_SETTINGS,
+  mode: EntryMode,
+  variable: string,
+  base: Record<string, Decimal>,
+  from: number,
+  to: number
+): SensitivityPoint[] =>
+  Array.from({ length: SENSITIVITY_STEPS + 1 }, (_, i) => {
+    const x = Math.round((from + ((to - from) * i) / SENSITIVITY_STEPS) * 100) / 100;
+    const { buy, billing } = priceEntry(settings, mode, { ...base, [variable]: toDecimal(x) });
+    return { x, buy: decimalToNumber(buy), sell: decimalToNumber(billing.billable), floor: decimalToNumber(billing.floor) };
+  });
+
+export const SCHEDULE_RATE_FIELDS: Array<{ key: keyof ScheduleRates; label: string }> = [
+  { key: 'standardBuyFormula', label: 'Standard Buy Formula' },
+  { key: 'standardSellFormula', label: 'Standard Sell Formula' },
+  { key: 'pgaBuyFormula', label: 'PGA Buy Formula' },
+  { key: 'pgaSellFormula', label: 'PGA Sell Formula' },
+  { key: 'sellRatePercent', label: 'Sell Rate (%)' },
+  { key: 'buyRateMultiplier', label: 'Buy Rate Multiplier' },
+  { key: 'pgaMultiplier', label: 'Default PGA Liability Factor' },
+  { key: 'minBilling', label: 'Minimum Billing ($)' },
+  { key: 'maxBilling', label: 'Maximum Billing ($)' },
+  { key: 'standardMinBilling', label: 'Standard Entry Floor ($)' },
+  { key: 'pgaMinBilling', label: 'PGA Entry Floor ($)' },
+];
+
+export const pickScheduleRates = (settings: typeof DEFAULT_SETTINGS): ScheduleRates =>
+  Object.fromEntries(SCHEDULE_RATE_FIELDS.map(({ key }) => [key, settings[key]])) as unknown as ScheduleRates;
+
+// Local calendar date as YYYY-MM-DD
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const todayDateKey = (): string => toDateKey(new Date());
+
+// First day of the next calendar quarter - the usual start date for staged rates
+export const nextQuarterStart = (from: Date = new Date()): string =>
+  toDateKey(new Date(from.getFullYear(), Math.floor(from.getMonth() / 3) * 3 + 3, 1));
+
+// Accepts YYYY-MM-DD or anything Date can parse (e.g. 01/15/2026); null when blank or unreadable
+export const normalizeDateKey = (text: string): string | null => {
+  const value = text.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const parsed = value ? new Date(value) : null;
+  return parsed && !Number.isNaN(parsed.getTime()) ? toDateKey(parsed) : null;
+};
+
+// Base settings apply on any date no schedule covers
+export const resolveRateSchedule = (settings: typeof DEFAULT_SETTINGS, date: string): { settings: typeof DEFAULT_SETTINGS; schedule: RateSchedule | null } => {
+  const schedule = (settings.rateSchedules ?? []).find(s => s.effectiveFrom <= date && (!s.effectiveTo || date <= s.effectiveTo)) ?? null;
+  return { settings: schedule ? { ...settings, ...schedule.rates } : settings, schedule };
+};
+
+export const CUSTOMER_OVERRIDE_KEYS = ['sellRatePercent', 'minBilling', 'pgaMultiplier'] as const;
+
+// Layers a customer's negotiated values over the (already schedule-resolved) settings
+export const applyCustomerProfile = (settings: typeof DEFAULT_SETTINGS, profile: CustomerProfile | null): typeof DEFAULT_SETTINGS => {
+  if (!profile) return settings;
+  const applied = { ...settings };
+  CUSTOMER_OVERRIDE_KEYS.forEach(key => {
+    if (profile[key] > 0) applied[key] = profile[key];
+  });
+  // A negotiated PGA factor replaces the per-agency factors too, so line items and agency codes price at it
+  if (profile.pgaMultiplier > 0) applied.pgaAgencies = (settings.pgaAgencies ?? []).map(a => ({ ...a, factor: profile.pgaMultiplier }));
+  return applied;
+};
+
+export const validateCustomerProfiles = (profiles: CustomerProfile[]): string | null => {
+  if (profiles.some(p => !p.name.trim())) return 'Every customer profile needs a name.';
+  const names = profiles.map(p => p.name.trim().toUpperCase());
+  if (new Set(names).size !== names.length) return 'Two customer profiles share the same name.';
+  if (profiles.some(p => CUSTOMER_OVERRIDE_KEYS.some(key => !(p[key] >= 0)))) {
+    return 'Customer profile overrides must be zero (standard) or more.';
+  }
+  return null;
+};
+
+export const describeRateSchedule = (schedule: RateSchedule | null): string =>
+  schedule ? `${schedule.name} (${schedule.effectiveFrom} – ${schedule.effectiveTo || 'open-ended'})` : 'Base Rates';
+
+// Returns an error message, or null when every schedule has a valid, non-overlapping date range
+export const validateRateSchedules = (schedules: RateSchedule[]): string | null => {
+  const sorted = [...schedules].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  for (const [i, schedule] of sorted.entries()) {
+    if (!schedule.name.trim()) return 'Every rate schedule needs a name.';
+    if (!schedule.effectiveFrom) return `Rate schedule "${schedule.name}" needs an effective-from date.`;
+    if (schedule.effectiveTo && schedule.effectiveTo < schedule.effectiveFrom) return `Rate schedule "${schedule.name}" ends before it starts.`;
+    const previous = sorted[i - 1];
+    if (previous && (!previous.effectiveTo || previous.effectiveTo >= schedule.effectiveFrom)) {
+      return `Rate schedules "${previous.name}" and "${schedule.name}" overlap.`;
+    }
+  }
+  return null;
+};
+
+// Liability factor for an agency id or bare agency code; unknown agencies use the default factor
+export const pgaAgencyFactor = (agency: string, settings: typeof DEFAULT_SETTINGS): Decimal => {
+  const match = (settings.pgaAgencies ?? []).find(a => a.id === agency)
+    ?? (settings.pgaAgencies ?? []).find(a => a.agency.toUpperCase() === agency.trim().toUpperCase());
+  return toDecimal(match ? match.factor : settings.pgaMultiplier);
+};
+
+// Commercial invoice lines for PGA entries - each line is flagged with the agency regulating it
+
+export interface LineItem {
+  id: string;
+  htsCode: string;
+  value: string;
+  agency: string;
+}
+
+export interface LineItemSummary {
+  withPga: Decimal;
+  scaledPga: Decimal;
+  withoutPga: Decimal;
+  contributions: Decimal[];
+}
+
+export const createLineItem = (): LineItem => ({ id: crypto.randomUUID(), htsCode: '', value: '', agency: '' });
+
+// Totals the lines into the PGA formula inputs; contributions are each line's share of the scaled bond value
+export const summarizeLineItems = (lines: LineItem[], settings: typeof DEFAULT_SETTINGS): LineItemSummary => {
+  return lines.reduce<LineItemSummary>((summary, line) => {
+    const value = toDecimal(line.value);
+    const contribution = line.agency ? decimalMultiply(value, pgaAgencyFactor(line.agency, settings)) : value;
+    return {
+      withPga: line.agency ? summary.withPga + value : summary.withPga,
+      scaledPga: line.agency ? summary.scaledPga + contribution : summary.scaledPga,
+      withoutPga: line.agency ? summary.withoutPga : summary.withoutPga + value,
+      contributions: [...summary.contributions, contribution],
+    };
+  }, { withPga: 0n, scaledPga: 0n, withoutPga: 0n, contributions: [] });
+};
+
+// Value-weighted factor across the PGA lines, so the formulas reproduce each line's own factor
+export const blendedPgaFactor = (summary: LineItemSummary, settings: typeof DEFAULT_SETTINGS): Decimal =>
+  summary.withPga > 0n ? decimalDivide(summary.scaledPga, summary.withPga) : toDecimal(settings.pgaMultiplier);
+
+export const FORMULA_LABELS: Record<FormulaKey, string> = {
+  standardBuyFormula: 'Standard Buy Formula',
+  standardSellFormula: 'Standard Sell Formula',
+  pgaBuyFormula: 'PGA Buy Formula',
+  pgaSellFormula: 'PGA Sell Formula',
+};
+
+// Returns the first problem that would stop these settings from being committed, or null
+export const findSettingsError = (settings: typeof DEFAULT_SETTINGS): string | null => {
+  const namesError = checkDeclaredNames(settings);
+  if (namesError) return namesError;
+
+  const formulaKeys = Object.keys(FORMULA_LABELS) as FormulaKey[];
+  for (const key of formulaKeys) {
+    const error = validateFormula(settings[key], FORMULA_VARIABLES[key], optionalFormulaVariables(settings, key));
+    if (error) return `Invalid ${FORMULA_LABELS[key]}: ${error}. Please check the formula syntax and ensure all required variables are included.`;
+  }
+
+  if ((settings.pgaAgencies ?? []).some(a => !a.agency.trim() || !(a.factor > 0))) {
+    return 'Every PGA agency needs an agency code and a liability factor greater than zero.';
+  }
+
+  const schedules = settings.rateSchedules ?? [];
+  const scheduleError = validateRateSchedules(schedules);
+  if (scheduleError) return scheduleError;
+  for (const schedule of schedules) {
+    for (const key of formulaKeys) {
+      const error = validateFormula(schedule.rates[key], FORMULA_VARIABLES[key], optionalFormulaVariables(settings, key));
+      if (error) return `Invalid ${FORMULA_LABELS[key]} in rate schedule "${schedule.name}": ${error}.`;
+    }
+  }
+
+  if (settings.buyBracketMethod !== 'off') {
+    const bandError = validateRateBands('buy', settings.buyRateBands);
+    if (bandError) return bandError;
+  }
+  if (settings.sellBracketMethod !== 'off') {
+    const bandError = validateRateBands('sell', settings.sellRateBands);
+    if (bandError) return bandError;
+  }
+
+  const customerError = validateCustomerProfiles(settings.customerProfiles ?? []);
+  if (customerError) return customerError;
+
+  if (!(settings.isfBuyPrice >= 0) || !(settings.isfSellPrice >= 0)) {
+    return 'ISF bond buy and sell prices must be zero or more.';
+  }
+
+  if ((settings.continuousBondTiers ?? []).some(t => !(t.limit > 0) || !(t.premium > 0))) {
+    return 'Every continuous bond tier needs a limit of liability and an annual premium greater than zero.';
+  }
+  return null;
+};
+
+// Settings bundle - the portable file one office exports and another imports
+export const SETTINGS_BUNDLE_FORMAT = 'teu-bond-settings';
+export const SETTINGS_BUNDLE_VERSION = 2;
+
+export interface SettingsBundle {
+  format: string;
+  version: number;
+  exportedAt: string;
+  exportedBy: string;
+  palette: PaletteKey;
+  // Settings schema the bundle was written under; version 1 bundles predate it
+  schemaVersion: number;
+  settings: typeof DEFAULT_SETTINGS;
+  checksum: string;
+}
+
+// JSON with object keys sorted, so the checksum does not depend on key order
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).filter(k => record[k] !== undefined).sort().map(k => `${JSON.stringify(k)}:${canonicalJson(record[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const bundleChecksum = ({ checksum: _checksum, ...content }: SettingsBundle): Promise<string> => sha256Hex(canonicalJson(content));
+
+export const createSettingsBundle = async (settings: typeof DEFAULT_SETTINGS, palette: PaletteKey, exportedBy: string): Promise<SettingsBundle> => {
+  const bundle: SettingsBundle = {
+    format: SETTINGS_BUNDLE_FORMAT,
+    version: SETTINGS_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy,
+    palette,
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+    settings: { ...DEFAULT_SETTINGS, ...settings },
+    checksum: '',
+  };
+  return { ...bundle, checksum: await bundleChecksum(bundle) };
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export type SettingKey = keyof typeof DEFAULT_SETTINGS;
+
+const ROUNDING_SETTING_KEYS: SettingKey[] = ['buyRounding', 'sellRounding', 'displayRounding', 'invoiceRounding'];
+const BRACKET_METHOD_SETTING_KEYS: SettingKey[] = ['buyBracketMethod', 'sellBracketMethod'];
+
+// Field types of the records held in list settings
+const LIST_SETTING_FIELDS: Partial<Record<SettingKey, Record<string, 'string' | 'number' | 'object'>>> = {
+  pgaAgencies: { id: 'string', agency: 'string', program: 'string', description: 'string', factor: 'number' },
+  continuousBondTiers: { id: 'string', limit: 'number', premium: 'number' },
+  rateSchedules: { id: 'string', name: 'string', effectiveFrom: 'string', effectiveTo: 'string' },
+  formulaConstants: { id: 'string', name: 'string', value: 'number', description: 'string' },
+  formulaInputs: { id: 'string', name: 'string', label: 'string' },
+  formulaTestCases: { id: 'string', name: 'string', mode: 'string', inputs: 'object', expectedBuy: 'number', expectedSell: 'number' },
+  buyRateBands: { id: 'string', upTo: 'number', ratePerThousand: 'number' },
+  sellRateBands: { id: 'string', upTo: 'number', ratePerThousand: 'number' },
+  customerProfiles: { id: 'string', name: 'string', sellRatePercent: 'number', minBilling: 'number', pgaMultiplier: 'number' },
+};
+
+// Problems with one setting, checked against the type of its default
+const checkSettingValue = (key: SettingKey, value: unknown): string[] => {
+  const fallback = DEFAULT_SETTINGS[key];
+  if (Array.isArray(fallback) ? !Array.isArray(value) : typeof value !== typeof fallback) {
+    return [`"${key}" must be ${Array.isArray(fallback) ? 'a list' : `a ${typeof fallback}`}`];
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) return [`"${key}" must be a finite number`];
+  if (ROUNDING_SETTING_KEYS.includes(key) && !(String(value) in ROUNDING_MODES)) return [`"${key}" is not a known rounding mode`];
+  if (BRACKET_METHOD_SETTING_KEYS.includes(key) && !(String(value) in BRACKET_METHODS)) return [`"${key}" is not a known bracket method`];
+
+  const fields = LIST_SETTING_FIELDS[key];
+  if (!fields || !Array.isArray(value)) return [];
+  const errors: string[] = [];
+  value.forEach((item, i) => {
+    if (!isRecord(item)) {
+      errors.push(`${key}[${i}] must be an object`);
+      return;
+    }
+    Object.entries(fields).forEach(([field, type]) => {
+      if (typeof item[field] !== type) errors.push(`${key}[${i}].${field} must be a ${type}`);
+    });
+    if (key === 'formulaTestCases' && !(String(item.mode) in TEST_CASE_VARIABLES)) errors.push(`${key}[${i}].mode is not a known entry mode`);
+    if (key === 'rateSchedules') {
+      const rates = item.rates;
+      if (!isRecord(rates)) {
+        errors.push(`${key}[${i}].rates must be an object`);
+        return;
+      }
+      SCHEDULE_RATE_FIELDS.forEach(({ key: rateKey }) => {
+        if (typeof rates[rateKey] !== typeof DEFAULT_SETTINGS[rateKey]) errors.push(`${key}[${i}].rates.${rateKey} must be a ${typeof DEFAULT_SETTINGS[rateKey]}`);
+      });
+    }
+  });
+  return errors;
+};
+
+// Shape check against the defaults - every setting present with the same type, nested records fully typed
+export const checkSettingsSchema = (settings: unknown): string[] => {
+  if (!isRecord(settings)) return ['settings must be an object'];
+  return [
+    ...Object.keys(settings).filter(key => !(key in DEFAULT_SETTINGS)).map(key => `unknown setting "${key}"`),
+    ...(Object.keys(DEFAULT_SETTINGS) as SettingKey[]).flatMap(key => checkSettingValue(key, settings[key])),
+  ];
+};
+
+// Everything wrong with an imported file; the bundle is only returned when it is safe to apply
+export const parseSettingsBundle = async (text: string): Promise<{ bundle: SettingsBundle | null; errors: string[] }> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { bundle: null, errors: ['The file is not valid JSON.'] };
+  }
+  if (!isRecord(data) || data.format !== SETTINGS_BUNDLE_FORMAT) {
+    return { bundle: null, errors: ['The file is not a settings bundle exported from this calculator.'] };
+  }
+  if (typeof data.version !== 'number' || data.version > SETTINGS_BUNDLE_VERSION) {
+    return { bundle: null, errors: [`Bundle version ${data.version} is not supported - update this calculator first.`] };
+  }
+
+  const bundle = data as unknown as SettingsBundle;
+  const errors: string[] = [];
+  if (typeof bundle.checksum !== 'string' || bundle.checksum !== await bundleChecksum(bundle)) {
+    errors.push('Checksum mismatch - the file was modified after it was exported.');
+  }
+  if (!(bundle.palette in PALETTES)) errors.push(`Unknown palette "${bundle.palette}".`);
+
+  // Settings exported by an older build are brought up to the current schema before they are checked
+  const schemaVersion = bundle.version < 2 ? 1 : bundle.schemaVersion;
+  const settings = isRecord(bundle.settings) ? migrateSettings(bundle.settings, schemaVersion) : bundle.settings;
+  if (settings === null) {
+    errors.push(`Settings schema ${schemaVersion} is not supported - update this calculator first.`);
+  } else {
+    const schemaErrors = checkSettingsSchema(settings);
+    errors.push(...schemaErrors.map(error => `Schema: ${error}.`));
+    if (schemaErrors.length === 0) {
+      const settingsError = findSettingsError(settings as typeof DEFAULT_SETTINGS);
+      if (settingsError) errors.push(settingsError);
+    }
+  }
+  if (errors.length) return { bundle: null, errors };
+
+  // The checksum is re-stamped so an upgraded bundle verifies when it is passed on
+  const upgraded = { ...bundle, version: SETTINGS_BUNDLE_VERSION, schemaVersion: SETTINGS_SCHEMA_VERSION, settings: settings as typeof DEFAULT_SETTINGS };
+  return { bundle: { ...upgraded, checksum: await bundleChecksum(upgraded) }, errors };
+};
+
+export const SETTINGS_SCHEMA_VERSION = 8;
+
+// Formulas the first release shipped with the rates written in; that release priced from the rate parameters and
+// only displayed these, so swapping in the parameter-driven defaults keeps its prices and lets overrides take effect
+const FIRST_RELEASE_FORMULAS: Record<FormulaKey, string> = {
+  standardBuyFormula: '((invoice_value + duties) * 0.99) / 1000',
+  standardSellFormula: '((invoice_value + duties) * 0.40) / 100',
+  pgaBuyFormula: '(((invoice_value_with_pga * 3) + invoice_value_without_pga) * 0.99) / 1000',
+  pgaSellFormula: '(((invoice_value_with_pga * 3) + invoice_value_without_pga) * 0.40) / 100',
+};
+
+// Each entry upgrades a stored settings blob from schema version N to N + 1
+export const SETTINGS_MIGRATIONS: Record<number, (settings: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 is the bare settings object written before the schema existed; keys added since then take their defaults
+  1: settings => ({ ...DEFAULT_SETTINGS, ...settings }),
+  // v3 adds admin-declared constants and input variables
+  2: settings => ({ formulaConstants: [], formulaInputs: [], ...settings }),
+  // v4 adds the Formula Studio test suite
+  3: settings => ({ formulaTestCases: [], ...settings }),
+  // v5 adds bracketed buy and sell rate tables, off by default
+  4: settings => ({
+    buyBracketMethod: 'off',
+    sellBracketMethod: 'off',
+    buyRateBands: DEFAULT_SETTINGS.buyRateBands,
+    sellRateBands: DEFAULT_SETTINGS.sellRateBands,
+    ...settings,
+  }),
+  // v6 adds customer pricing profiles
+  5: settings => ({ customerProfiles: [], ...settings }),
+  // v7 adds the ISF bond buy and sell prices
+  6: settings => ({ isfBuyPrice: DEFAULT_SETTINGS.isfBuyPrice, isfSellPrice: DEFAULT_SETTINGS.isfSellPrice, ...settings }),
+  // v8 moves the first release's hard-coded formulas onto the rate parameters
+  7: settings => {
+    const migrated = { ...settings };
+    (Object.keys(FIRST_RELEASE_FORMULAS) as FormulaKey[]).forEach(key => {
+      const formula = settings[key];
+      if (typeof formula === 'string' && formula.replace(/\s+/g, '') === FIRST_RELEASE_FORMULAS[key].replace(/\s+/g, '')) {
+        migrated[key] = DEFAULT_SETTINGS[key];
+      }
+    });
+    return migrated;
+  },
+};
+
+// Runs every migration from the given schema version up to the current one; null for a version with no migration path
+export const migrateSettings = (settings: Record<string, unknown>, fromVersion: unknown): Record<string, unknown> | null => {
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1 || fromVersion > SETTINGS_SCHEMA_VERSION) return null;
+  let migrated = settings;
+  for (let version = fromVersion; version < SETTINGS_SCHEMA_VERSION; version++) migrated = SETTINGS_MIGRATIONS[version](migrated);
+  return migrated;
+};
+
+// Replaces every missing, mistyped or unparseable setting with its default
+export const repairSettings = (settings: Record<string, unknown>): { settings: typeof DEFAULT_SETTINGS; resetKeys: string[] } => {
+  const repaired: Record<string, unknown> = {};
+  const resetKeys: string[] = [];
+  const reset = (key: SettingKey) => {
+    repaired[key] = DEFAULT_SETTINGS[key];
+    resetKeys.push(key);
+  };
+  (Object.keys(DEFAULT_SETTINGS) as SettingKey[]).forEach(key => {
+    if (checkSettingValue(key, settings[key]).length) reset(key);
+    else repaired[key] = settings[key];
+  });
+
+  // Formulas are checked last, against the constants and inputs that survived
+  const candidate = repaired as typeof DEFAULT_SETTINGS;
+  if (checkDeclaredNames(candidate)) {
+    reset('formulaConstants');
+    reset('formulaInputs');
+  }
+  (Object.keys(FORMULA_LABELS) as FormulaKey[]).forEach(key => {
+    if (validateFormula(candidate[key], FORMULA_VARIABLES[key], optionalFormulaVariables(candidate, key)) && !resetKeys.includes(key)) reset(key);
+  });
+  return { settings: candidate, resetKeys };
+};
+
+// One-call pricing for scripts and the CLI - plain inputs in, display-ready figures and the working back out
+export interface QuoteInput {
+  // Total commercial invoice value
+  invoiceValue?: number | string;
+  // Standard entries only - a PGA bond is written on the scaled invoice value, so duties are refused alongside a PGA value
+  duties?: number | string;
+  // Part of the invoice regulated by a PGA; anything above zero prices the entry through the PGA formulas
+  pgaValue?: number | string;
+  // Agency id or code for the liability factor; the default factor applies when blank or unknown
+  pgaAgency?: string;
+  // YYYY-MM-DD, picks the rate schedule; today when blank
+  entryDate?: string;
+  // Customer profile id or name
+  customer?: string;
+  // Admin-declared formula inputs by name
+  variables?: Record<string, number | string>;
+}
+
+interface QuoteSide {
+  source: 'formula' | 'brackets';
+  formula: string | null;
+  brackets: Array<{ band: string; basis: string; ratePerThousand: string; amount: string }>;
+}
+
+export interface QuoteResult {
+  mode: EntryMode;
+  entryDate: string;
+  rateSchedule: string;
+  customer: string | null;
+  bondValue: string;
+  buy: string;
+  sell: string;
+  floor: {
+    minimum: string;
+    // The sell was raised to the minimum or mode floor
+    applied: boolean;
+    // The sell was lowered to the maximum billing cap
+    capped: boolean;
+    rule: BillingRule;
+    note: string | null;
+  };
+  breakdown: {
+    variables: Record<string, string>;
+    buy: QuoteSide;
+    sell: QuoteSide & { raw: string };
+  };
+}
+
+const QUOTE_AMOUNT_FIELDS = ['invoiceValue', 'duties', 'pgaValue'] as const;
+const QUOTE_TEXT_FIELDS = ['pgaAgency', 'entryDate', 'customer'] as const;
+
+// Numbers are checked as their string form too, so 1e300 is refused rather than quietly priced as zero
+const isAmount = (value: unknown): boolean =>
+  (typeof value === 'number' && Number.isFinite(value) || typeof value === 'string') && parseDecimal(String(value).trim()) !== null;
+
+// What is wrong with a money amount from outside the app, or null when it can be priced; shared with the CLI flags
+export const amountError = (value: unknown): string | null => {
+  if (!isAmount(value)) return 'must be a number';
+  return parseDecimal(String(value).trim())! < 0n ? 'cannot be negative' : null;
+};
+
+// Everything wrong with a quote request from outside the app; the input is only returned when it can be priced
+export const parseQuoteInput = (value: unknown): { input: QuoteInput | null; errors: string[] } => {
+  if (!isRecord(value)) return { input: null, errors: ['The quote must be a JSON object.'] };
+  const known: string[] = [...QUOTE_AMOUNT_FIELDS, ...QUOTE_TEXT_FIELDS, 'variables'];
+  const errors = Object.keys(value).filter(key => !known.includes(key)).map(key => `Unknown field "${key}".`);
+  if (value.invoiceValue === undefined) errors.push('"invoiceValue" is required.');
+  QUOTE_AMOUNT_FIELDS.forEach(key => {
+    const error = value[key] === undefined ? null : amountError(value[key]);
+    if (error) errors.push(`"${key}" ${error}.`);
+  });
+  QUOTE_TEXT_FIELDS.forEach(key => {
+    if (value[key] !== undefined && typeof value[key] !== 'string') errors.push(`"${key}" must be a string.`);
+  });
+  if (typeof value.entryDate === 'string' && value.entryDate.trim() && !normalizeDateKey(value.entryDate)) {
+    errors.push(`"entryDate" is not a readable date.`);
+  }
+  const variables = value.variables;
+  if (variables !== undefined) {
+    if (!isRecord(variables)) errors.push('"variables" must be an object of name: number.');
+    else Object.keys(variables).filter(name => !isAmount(variables[name])).forEach(name => errors.push(`Variable "${name}" must be a number.`));
+  }
+  return { input: errors.length ? null : value as QuoteInput, errors };
+};
+
+export const findCustomerProfile = (settings: typeof DEFAULT_SETTINGS, customer: string): CustomerProfile | null =>
+  (settings.customerProfiles ?? []).find(c => c.id === customer || c.name.trim().toUpperCase() === customer.trim().toUpperCase()) ?? null;
+
+const describeQuoteSide = (settings: typeof DEFAULT_SETTINGS, key: FormulaKey, brackets: BracketResult | null, rounding: RoundingMode): QuoteSide => ({
+  source: brackets ? 'brackets' : 'formula',
+  formula: brackets ? null : settings[key],
+  brackets: (brackets?.lines ?? []).map(line => ({
+    band: describeBracketBand(line),
+    basis: formatMoney(line.basis),
+    ratePerThousand: decimalToString(line.ratePerThousand, 4),
+    amount: formatMoney(line.amount, rounding),
+  })),
+});
+
+export const quoteEntry = (baseSettings: typeof DEFAULT_SETTINGS, input: QuoteInput): QuoteResult => {
+  const entryDate = normalizeDateKey(input.entryDate ?? '') ?? todayDateKey();
+  const { settings: scheduled, schedule } = resolveRateSchedule(baseSettings, entryDate);
+  const customer = input.customer ? findCustomerProfile(baseSettings, input.customer) : null;
+  if (input.customer && !customer) throw new Error(`Unknown customer profile "${input.customer}".`);
+  const settings = applyCustomerProfile(scheduled, customer);
+
+  const invoice = toDecimal(input.invoiceValue);
+  const pga = toDecimal(input.pgaValue);
+  if (pga > invoice) throw new Error('The PGA value cannot be more than the invoice value.');
+  if (pga > 0n && toDecimal(input.duties) !== 0n) throw new Error('Duties are not part of a PGA bond value - leave them out when the entry has a PGA value.');
+  // Only admin-declared inputs may be supplied; rates, constants and the entry values come from the settings and the input above
+  const declared = new Set((settings.formulaInputs ?? []).map(i => i.name));
+  const extra: Record<string, Decimal> = {};
+  Object.keys(input.variables ?? {}).forEach(name => {
+    if (!declared.has(name)) throw new Error(`Unknown formula input "${name}".`);
+    extra[name] = toDecimal(input.variables?.[name]);
+  });
+
+  const mode: EntryMode = pga > 0n ? 'with' : 'without';
+  const variables: Record<string, Decimal> = mode === 'with'
+    ? {
+        ...extra,
+        invoice_value_with_pga: pga,
+        invoice_value_without_pga: invoice - pga,
+        pga_liability_factor: input.pgaAgency ? pgaAgencyFactor(input.pgaAgency, settings) : toDecimal(settings.pgaMultiplier),
+      }
+    : { ...extra, invoice_value: invoice, duties: toDecimal(input.duties) };
+  const { bondValue, buy, billing, buyBrackets, sellBrackets } = priceEntry(settings, mode, variables, true);
+
+  const breakdownVariables: Record<string, string> = {};
+  Object.keys(variables).forEach(name => breakdownVariables[name] = decimalToString(variables[name]));
+  return {
+    mode,
+    entryDate,
+    rateSchedule: describeRateSchedule(schedule),
+    customer: customer ? customer.name : null,
+    bondValue: formatMoney(bondValue, settings.displayRounding),
+    buy: formatMoney(buy, settings.buyRounding),
+    sell: formatMoney(billing.billable, settings.sellRounding),
+    floor: {
+      minimum: formatMoney(billing.floor),
+      applied: billing.rule === 'minimum' || billing.rule === 'mode-floor',
+      capped: billing.rule === 'maximum',
+      rule: billing.rule,
+      note: describeBillingResult(billing),
+    },
+    breakdown: {
+      variables: breakdownVariables,
+      buy: describeQuoteSide(settings, mode === 'with' ? 'pgaBuyFormula' : 'standardBuyFormula', buyBrackets, settings.buyRounding),
+      sell: {
+        ...describeQuoteSide(settings, mode === 'with' ? 'pgaSellFormula' : 'standardSellFormula', sellBrackets, settings.sellRounding),
+        raw: formatMoney(billing.raw, settings.sellRounding),
+      },
+    },
+  };
+};
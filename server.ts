@@ -0,0 +1,241 @@
+#!/usr/bin/env node
+// bond-calc-server - self-hosted HTTP pricing API on the same engine and settings bundles as the calculator
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { DEFAULT_SETTINGS, createSettingsBundle, parseQuoteInput, parseSettingsBundle, quoteEntry, type SettingsBundle } from './engine';
+
+const USAGE = `Usage: bond-calc-server [options]
+
+  --port <number>     Port to listen on (default: 8787)
+  --host <address>    Address to bind (default: 127.0.0.1)
+  --settings <file>   Settings bundle exported from the Control Center (default: factory settings)
+  --store <file>      Shared settings store - enables PUT /settings/active so Control Center commits
+                      reach every browser; created from --settings on first start
+  --token <secret>    Bearer token PUT /settings/active must present; required with --store
+                      (or set BOND_CALC_TOKEN, which keeps it out of the process list)
+  --allow-origin <o>  Browser origin allowed to call the API (CORS), e.g. https://bonds.example.com
+  -h, --help          Show this help
+
+Endpoints:
+  POST /quote          One entry - { invoiceValue, duties, pgaValue, pgaAgency, entryDate, customer, variables }
+  POST /quote/batch    { entries: [...] } - each entry is priced on its own; failures do not stop the batch
+  GET  /settings/active  The settings bundle every quote is priced with; the ETag is its revision
+  PUT  /settings/active  Commit a new bundle (--store only) - send Authorization: Bearer <token> and
+                         If-Match with the revision it was based on`;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_BATCH_ENTRIES = 1000;
+
+class HttpError extends Error {
+  status: number;
+  details: string[];
+  constructor(status: number, message: string, details: string[] = []) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body, null, 2));
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, `Request body is larger than ${MAX_BODY_BYTES} bytes.`);
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+};
+
+// Validation problems and engine refusals (unknown customer, PGA value above the invoice) are the caller's to fix
+const priceQuote = (settings: typeof DEFAULT_SETTINGS, body: unknown) => {
+  const { input, errors } = parseQuoteInput(body);
+  if (!input) throw new HttpError(400, 'The quote request is invalid.', errors);
+  try {
+    return quoteEntry(settings, input);
+  } catch (error) {
+    throw new HttpError(422, error instanceof Error ? error.message : String(error));
+  }
+};
+
+// Shared settings store - the active bundle and a revision that goes up by one on every commit
+interface SettingsStore {
+  revision: number;
+  bundle: SettingsBundle;
+}
+
+const readStore = async (path: string): Promise<SettingsStore | null> => {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch {
+    return null;
+  }
+  const data = JSON.parse(text) as Partial<SettingsStore>;
+  const { bundle, errors } = await parseSettingsBundle(JSON.stringify(data.bundle ?? null));
+  if (!bundle || !Number.isInteger(data.revision)) throw new Error(`${path} is not a usable settings store:\n  ${errors.join('\n  ')}`);
+  return { revision: data.revision as number, bundle };
+};
+
+// Written next to the store and renamed over it, so a crash never leaves half a file
+const writeStore = async (path: string, store: SettingsStore) => {
+  await writeFile(`${path}.tmp`, JSON.stringify(store, null, 2));
+  await rename(`${path}.tmp`, path);
+};
+
+const revisionTag = (revision: number) => `"${revision}"`;
+
+// Compared as digests so the check takes the same time whatever the caller sent
+const digest = (text: string) => createHash('sha256').update(text).digest();
+
+const checkBearerToken = (req: IncomingMessage, res: ServerResponse, token: string) => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+  if (!match || !timingSafeEqual(digest(match[1]), digest(token))) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    throw new HttpError(401, 'Send Authorization: Bearer with the token the settings store was started with.');
+  }
+};
+
+const loadBundle = async (path: string | undefined): Promise<SettingsBundle> => {
+  if (!path) return createSettingsBundle(DEFAULT_SETTINGS, 'classic', 'Factory Defaults');
+  const { bundle, errors } = await parseSettingsBundle(await readFile(path, 'utf8'));
+  if (!bundle) throw new Error(`${path} cannot be used:\n  ${errors.join('\n  ')}`);
+  return bundle;
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '8787' },
+      host: { type: 'string', default: '127.0.0.1' },
+      settings: { type: 'string' },
+      store: { type: 'string' },
+      'allow-origin': { type: 'string' },
+      token: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) throw new Error(`--port must be a port number, got "${values.port}".`);
+
+  const storePath = values.store;
+  // The store is what every browser prices with, so it is never writable without a credential
+  const token = values.token ?? process.env.BOND_CALC_TOKEN ?? '';
+  if (storePath && !token) throw new Error('--store needs --token (or BOND_CALC_TOKEN) so only admins can commit settings.');
+  let store = (storePath && await readStore(storePath)) || { revision: 1, bundle: await loadBundle(values.settings) };
+  if (storePath) await writeStore(storePath, store);
+  // Commits run one at a time, so the revision check, the disk write and the swap see no other commit in between
+  let storeCommits: Promise<unknown> = Promise.resolve();
+
+  const allowOrigin = values['allow-origin'];
+  const server = createServer(async (req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '') || '/';
+    if (allowOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', allowOrigin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT');
+      res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, If-Match');
+      res.setHeader('Access-Control-Expose-Headers', 'ETag');
+    }
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+      } else if (path === '/settings/active' && req.method === 'PUT') {
+        if (!storePath) throw new HttpError(405, 'This server was started without --store, so its settings are read-only.');
+        checkBearerToken(req, res, token);
+        const ifMatch = req.headers['if-match'];
+        if (!ifMatch) throw new HttpError(428, 'Send If-Match with the settings revision your changes are based on.');
+        const body = await readJsonBody(req);
+        const { bundle, errors } = await parseSettingsBundle(JSON.stringify(body));
+        if (!bundle) throw new HttpError(400, 'The settings bundle is invalid.', errors);
+        // Optimistic concurrency - a commit based on anything but the current revision would silently overwrite someone.
+        // The new revision is served only once it is on disk; a failed write leaves the current one in place.
+        const commit = storeCommits.catch(() => undefined).then(async () => {
+          if (ifMatch !== revisionTag(store.revision)) return null;
+          const next = { revision: store.revision + 1, bundle };
+          await writeStore(storePath, next);
+          store = next;
+          return next;
+        });
+        storeCommits = commit;
+        let committed: SettingsStore | null;
+        try {
+          committed = await commit;
+        } catch (error) {
+          console.error('Settings store error:', error);
+          throw new HttpError(500, 'The settings store could not be written, so nothing was committed.');
+        }
+        if (!committed) {
+          res.setHeader('ETag', revisionTag(store.revision));
+          sendJson(res, 412, {
+            error: `Settings were changed by ${store.bundle.exportedBy} (revision ${store.revision}) after your copy was loaded.`,
+            details: [],
+            revision: store.revision,
+            bundle: store.bundle,
+          });
+          return;
+        }
+        console.log(`Settings revision ${committed.revision} committed by ${bundle.exportedBy}`);
+        res.setHeader('ETag', revisionTag(committed.revision));
+        sendJson(res, 200, { revision: committed.revision });
+      } else if (path === '/settings/active') {
+        if (req.method !== 'GET') throw new HttpError(405, 'Use GET or PUT for /settings/active.');
+        res.setHeader('ETag', revisionTag(store.revision));
+        sendJson(res, 200, store.bundle);
+      } else if (path === '/quote') {
+        if (req.method !== 'POST') throw new HttpError(405, 'Use POST for /quote.');
+        sendJson(res, 200, priceQuote(store.bundle.settings, await readJsonBody(req)));
+      } else if (path === '/quote/batch') {
+        if (req.method !== 'POST') throw new HttpError(405, 'Use POST for /quote/batch.');
+        const body = await readJsonBody(req);
+        const entries = Array.isArray(body) ? body : (body as { entries?: unknown })?.entries;
+        if (!Array.isArray(entries)) throw new HttpError(400, 'The batch must be { "entries": [...] } or a JSON array.');
+        if (entries.length > MAX_BATCH_ENTRIES) throw new HttpError(413, `A batch holds at most ${MAX_BATCH_ENTRIES} entries.`);
+        const results = entries.map((entry, index) => {
+          try {
+            return { index, quote: priceQuote(store.bundle.settings, entry) };
+          } catch (error) {
+            const { message, details } = error instanceof HttpError ? error : { message: String(error), details: [] };
+            return { index, error: message, details };
+          }
+        });
+        sendJson(res, 200, { priced: results.filter(r => 'quote' in r).length, failed: results.filter(r => 'error' in r).length, results });
+      } else {
+        throw new HttpError(404, `No endpoint at ${path}.`);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message, details: error.details });
+        return;
+      }
+      console.error('Pricing API error:', error);
+      sendJson(res, 500, { error: 'Unable to price this request.' });
+    }
+  });
+
+  server.listen(port, values.host, () => {
+    const source = storePath ? `store ${storePath} (revision ${store.revision})` : values.settings ?? 'factory defaults';
+    console.log(`bond-calc-server listening on http://${values.host}:${port} - settings from ${source}`);
+  });
+};
+
+main().catch(error => {
+  console.error(`bond-calc-server: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+});